@@ -0,0 +1,26 @@
+/**
+ * Start the mock Ant Media Server
+ *
+ * Usage: npm run mock:ams
+ * Environment:
+ *   MOCK_AMS_PORT - Port to listen on. Default: 5080
+ *   MOCK_AMS_SEED - Set to 0 to start without sample broadcasts and VODs
+ *   MOCK_AMS_QUIET - Set to 1 to disable request logging
+ */
+
+import { createMockAmsServer } from "./server.mjs";
+import { createStore } from "./store.mjs";
+
+const port = Number(process.env.MOCK_AMS_PORT) || 5080;
+const store = createStore({ seed: process.env.MOCK_AMS_SEED !== "0" });
+const log = process.env.MOCK_AMS_QUIET === "1" ? undefined : (line) => console.log(`[mock-ams] ${line}`);
+
+const server = createMockAmsServer({ store, log });
+
+server.listen(port, () => {
+  console.log(`[mock-ams] Listening on http://localhost:${port} (apps: ${[...store.applications.keys()].join(", ")})`);
+});
+
+const shutdown = () => server.close(() => process.exit(0));
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
@@ -0,0 +1,514 @@
+/**
+ * Mock Ant Media Server for development and CI
+ * Implements the REST endpoints used by AntMediaClient on top of an in-memory
+ * store, plus the /{app}/websocket signaling (see signaling.mjs).
+ * Authentication is not enforced: any JWT is accepted.
+ */
+
+import { existsSync, readdirSync } from "node:fs";
+import { createServer } from "node:http";
+import { basename } from "node:path";
+import { handleSignaling } from "./signaling.mjs";
+import { createStore } from "./store.mjs";
+import { acceptWebSocket } from "./websocket.mjs";
+
+const REST_PREFIX = "/rest/v2";
+
+/**
+ * Route table entry: method, path pattern relative to /rest/v2 and handler
+ * Patterns use ":name" segments, e.g. "broadcasts/:id"
+ */
+function route(method, pattern, handler) {
+  const names = [];
+  const source = pattern
+    .split("/")
+    .map((segment) => {
+      if (!segment.startsWith(":")) return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      names.push(segment.slice(1));
+      return "([^/]+)";
+    })
+    .join("/");
+
+  return { method, regex: new RegExp(`^${source}$`), names, handler };
+}
+
+function matchRoute(routes, method, path) {
+  for (const entry of routes) {
+    if (entry.method !== method) continue;
+    const match = entry.regex.exec(path);
+    if (match) {
+      const params = Object.fromEntries(entry.names.map((name, i) => [name, decodeURIComponent(match[i + 1])]));
+      return { handler: entry.handler, params };
+    }
+  }
+  return null;
+}
+
+function readBody(request) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    request.on("data", (chunk) => chunks.push(chunk));
+    request.on("end", () => resolve(Buffer.concat(chunks)));
+    request.on("error", reject);
+  });
+}
+
+function parseJson(buffer) {
+  if (buffer.length === 0) return {};
+  try {
+    return JSON.parse(buffer.toString("utf8"));
+  } catch {
+    return {};
+  }
+}
+
+const ok = (extra = {}) => ({ success: true, ...extra });
+const fail = (message) => ({ success: false, message });
+
+/**
+ * Handler result with a non-200 status
+ */
+class Reply {
+  constructor(status, body) {
+    this.status = status;
+    this.body = body;
+  }
+}
+
+const reply = (status, body) => new Reply(status, body);
+
+/**
+ * Filter and sort a list the way the AMS list and count endpoints do
+ */
+function filterList(items, { search, searchFields, sortBy, orderBy }) {
+  let list = [...items];
+
+  if (search) {
+    const term = search.toLowerCase();
+    list = list.filter((item) => searchFields.some((field) => String(item[field] ?? "").toLowerCase().includes(term)));
+  }
+
+  if (sortBy) {
+    const direction = orderBy === "desc" ? -1 : 1;
+    list.sort((a, b) => (a[sortBy] > b[sortBy] ? direction : a[sortBy] < b[sortBy] ? -direction : 0));
+  }
+
+  return list;
+}
+
+/**
+ * One page of a list; AMS returns at most 50 items per request
+ */
+function page(list, { offset, size }) {
+  const start = Math.max(0, Number(offset) || 0);
+  const count = Math.min(50, Math.max(0, Number(size) || 0));
+  return list.slice(start, start + count);
+}
+
+/**
+ * Name of the uploaded file in a multipart body, if any
+ */
+function multipartFileName(body) {
+  const match = /filename="([^"]*)"/.exec(body.toString("latin1", 0, Math.min(body.length, 4096)));
+  return match?.[1];
+}
+
+/**
+ * Value of a text field of a multipart body, if any
+ * The file comes first, so the field is looked up at the end of the body
+ */
+function multipartField(body, name) {
+  const tail = body.toString("utf8", Math.max(0, body.length - 64 * 1024));
+  const match = new RegExp(`name="${name}"\r\n\r\n([\\s\\S]*?)\r\n--`).exec(tail);
+  return match?.[1];
+}
+
+/**
+ * System resources that drift over time and grow with the live streams
+ */
+function systemResources(store) {
+  const broadcasts = [...store.applications.values()].flatMap((app) => [...app.broadcasts.values()]);
+  const live = broadcasts.filter((b) => b.status === "broadcasting");
+  const viewers = (field) => live.reduce((total, b) => total + (b[field] || 0), 0);
+  const wave = (period, amplitude) => amplitude * Math.sin((Date.now() / 1000 / period) * 2 * Math.PI);
+
+  const gb = 1024 ** 3;
+  const cpu = Math.round(Math.min(100, Math.max(1, 20 + live.length * 15 + wave(60, 10) + Math.random() * 5)));
+  const systemTotal = 16 * gb;
+  const systemInUse = Math.round(Math.min(systemTotal, (5 + live.length + wave(120, 1)) * gb));
+  const jvmMax = 4 * gb;
+  const jvmInUse = Math.round((1.2 + live.length * 0.3 + wave(45, 0.3)) * gb);
+
+  return {
+    cpuUsage: { systemCPULoad: cpu, processCPULoad: Math.round(cpu * 0.7) },
+    systemInfo: { osName: "Linux", osArch: "amd64", javaVersion: "17", processorCount: 8 },
+    jvmMemoryUsage: { maxMemory: jvmMax, totalMemory: jvmMax, freeMemory: jvmMax - jvmInUse, inUseMemory: jvmInUse },
+    systemMemoryInfo: {
+      totalMemory: systemTotal,
+      freeMemory: systemTotal - systemInUse,
+      inUseMemory: systemInUse,
+      availableMemory: systemTotal - systemInUse,
+    },
+    fileSystemInfo: { totalSpace: 200 * gb, usableSpace: 120 * gb, freeSpace: 120 * gb, inUseSpace: 80 * gb },
+    totalLiveStreamSize: live.length,
+    localLiveStreams: live.length,
+    localWebRTCLiveStreams: live.length,
+    localWebRTCViewers: viewers("webRTCViewerCount"),
+    localHLSViewers: viewers("hlsViewerCount"),
+    localDASHViewers: 0,
+  };
+}
+
+/**
+ * Management routes, served under /rest/v2
+ */
+function managementRoutes(store) {
+  return [
+    route("POST", "users/authenticate", ({ body }) => {
+      const user = store.users.find((u) => u.email === body.email && u.password === body.password);
+      return user ? ok() : reply(401, fail("Invalid email or password"));
+    }),
+
+    route("POST", "users/initial", ({ body }) => {
+      if (store.users.length > 0) return fail("Initial user already exists");
+      if (!body.email || !body.password) return reply(400, fail("Email and password are required"));
+
+      store.users.push({ email: body.email, password: body.password, userType: body.userType || "ADMIN" });
+      return ok();
+    }),
+
+    route("GET", "first-login-status", () => (store.users.length === 0 ? ok() : fail("Users exist"))),
+
+    route("GET", "applications", () => ({ applications: [...store.applications.keys()] })),
+
+    route("POST", "applications/:app", ({ params }) => {
+      if (!/^\w+$/.test(params.app)) return fail("Application name can only contain letters, digits and underscores");
+      if (store.getApp(params.app)) return fail(`Application ${params.app} already exists`);
+
+      store.addApplication(params.app);
+      return ok();
+    }),
+
+    route("DELETE", "applications/:app", ({ params }) => {
+      if (!store.getApp(params.app)) return fail(`Application ${params.app} not found`);
+
+      store.applications.delete(params.app);
+      return ok();
+    }),
+
+    route("GET", "system-resources", () => systemResources(store)),
+
+    route("GET", "last-licence-status", () => ({
+      licenceId: "mock-licence",
+      startDate: "2026-01-01",
+      endDate: "2027-01-01",
+      type: "regular",
+      licenceCount: "4",
+      owner: "Mock AMS",
+      status: "active",
+      hourUsed: "120",
+    })),
+
+    route("GET", "applications-info", () =>
+      [...store.applications.values()].map((app) => ({
+        name: app.name,
+        liveStreamCount: [...app.broadcasts.values()].filter((b) => b.status === "broadcasting").length,
+        vodCount: app.vods.size,
+        storage: [...app.vods.values()].reduce((total, vod) => total + (vod.fileSize || 0), 0),
+      }))
+    ),
+
+    route("GET", "applications/settings/:app", ({ params }) => {
+      const app = store.getApp(params.app);
+      return app ? app.settings : reply(404, fail(`Application ${params.app} not found`));
+    }),
+
+    route("POST", "applications/settings/:app", ({ params, body }) => {
+      const app = store.getApp(params.app);
+      if (!app) return reply(404, fail(`Application ${params.app} not found`));
+
+      app.settings = { ...app.settings, ...body };
+      return ok();
+    }),
+  ];
+}
+
+/**
+ * Application routes, served under /{app}/rest/v2
+ */
+function applicationRoutes(store) {
+  // File names of the recordings in progress, by application, stream and format
+  const recordings = new Map();
+
+  return [
+    route("POST", "broadcasts/create", ({ app, body }) => {
+      if (body.streamId && app.broadcasts.has(body.streamId)) {
+        return reply(400, fail("Stream id is already being used"));
+      }
+      return store.createBroadcast(app, body);
+    }),
+
+    route("GET", "broadcasts/list/:offset/:size", ({ app, params, query }) => {
+      const typeBy = query.get("type_by");
+      const items = [...app.broadcasts.values()].filter((b) => !typeBy || b.type === typeBy);
+      const list = filterList(items, {
+        search: query.get("search"),
+        searchFields: ["name", "streamId"],
+        sortBy: query.get("sort_by"),
+        orderBy: query.get("order_by"),
+      });
+      return page(list, params);
+    }),
+
+    route("GET", "broadcasts/count", ({ app }) => ({ number: app.broadcasts.size })),
+
+    route("GET", "broadcasts/active-live-stream-count", ({ app }) => ({
+      number: [...app.broadcasts.values()].filter((b) => b.status === "broadcasting").length,
+    })),
+
+    route("GET", "broadcasts/count/:search", ({ app, params }) => ({
+      number: filterList(app.broadcasts.values(), {
+        search: params.search,
+        searchFields: ["name", "streamId"],
+      }).length,
+    })),
+
+    route("GET", "broadcasts/:id", ({ app, params }) => app.broadcasts.get(params.id) ?? reply(404, fail("Broadcast not found"))),
+
+    route("PUT", "broadcasts/:id", ({ app, params, body }) => {
+      const broadcast = app.broadcasts.get(params.id);
+      if (!broadcast) return reply(404, fail("Broadcast not found"));
+
+      for (const [key, value] of Object.entries(body)) {
+        if (value !== null && value !== undefined && key !== "streamId") broadcast[key] = value;
+      }
+      return ok();
+    }),
+
+    route("DELETE", "broadcasts/:id", ({ app, params }) =>
+      app.broadcasts.delete(params.id) ? ok() : fail("Broadcast not found")
+    ),
+
+    route("POST", "broadcasts/:id/stop", ({ app, params }) => {
+      const broadcast = app.broadcasts.get(params.id);
+      if (!broadcast) return fail("Broadcast not found");
+      if (broadcast.status !== "broadcasting") return fail("Broadcast is not active");
+
+      broadcast.status = "finished";
+      broadcast.duration = Date.now() - broadcast.startTime;
+      return ok();
+    }),
+
+    route("PUT", "broadcasts/:id/recording/:status", ({ app, params, query }) => {
+      const broadcast = app.broadcasts.get(params.id);
+      if (!broadcast) return fail("Broadcast not found");
+
+      const enabled = params.status === "true";
+      const field = query.get("recordType") === "webm" ? "webMEnabled" : "mp4Enabled";
+      const key = `${app.name}/${broadcast.streamId}/${field}`;
+      broadcast[field] = enabled ? 1 : -1;
+
+      // Like AMS, the file name and resolution are set when the recording starts
+      if (enabled) {
+        const height = query.get("resolutionHeight");
+        const suffix = height ? `_${height}p` : "";
+        recordings.set(key, query.get("fileName") || `${broadcast.streamId}${suffix}-${Date.now()}`);
+        return ok({ dataId: broadcast.streamId });
+      }
+
+      // Stopping a live recording leaves a VOD behind
+      const fileName = recordings.get(key) || `${broadcast.streamId}-${Date.now()}`;
+      recordings.delete(key);
+      if (broadcast.status === "broadcasting") {
+        store.createVod(app, {
+          vodName: `${fileName}.${field === "webMEnabled" ? "webm" : "mp4"}`,
+          streamId: broadcast.streamId,
+          streamName: broadcast.name,
+          type: "streamVod",
+        });
+      }
+      return ok({ dataId: broadcast.streamId });
+    }),
+
+    route("GET", "vods/list/:offset/:size", ({ app, params, query }) => {
+      const streamId = query.get("streamId");
+      const items = [...app.vods.values()].filter((v) => !streamId || v.streamId === streamId);
+      const sortBy = { name: "vodName", date: "creationDate" }[query.get("sort_by")];
+      const list = filterList(items, {
+        search: query.get("search"),
+        searchFields: ["vodName", "streamId", "streamName"],
+        sortBy,
+        orderBy: query.get("order_by"),
+      });
+      return page(list, params);
+    }),
+
+    route("GET", "vods/count", ({ app }) => ({ number: app.vods.size })),
+
+    route("GET", "vods/count/:search", ({ app, params }) => ({
+      number: filterList(app.vods.values(), {
+        search: params.search,
+        searchFields: ["vodName", "streamId", "streamName"],
+      }).length,
+    })),
+
+    route("GET", "vods/:id", ({ app, params }) => app.vods.get(params.id) ?? reply(404, fail("VoD not found"))),
+
+    route("DELETE", "vods/directory", ({ app, query }) => {
+      const link = `streams/${basename(query.get("directory") || "")}/`;
+      for (const [id, vod] of app.vods) {
+        if (vod.type === "userVod" && vod.filePath.startsWith(link)) app.vods.delete(id);
+      }
+      return ok();
+    }),
+
+    // Like AMS, the directory is linked into streams/ under its name and its video files are added once
+    route("POST", "vods/directory", ({ app, query }) => {
+      const directory = query.get("directory");
+      if (!directory) return fail("Directory is required");
+
+      const files = existsSync(directory)
+        ? readdirSync(directory, { recursive: true }).filter((name) => /\.(mp4|flv|mkv)$/i.test(name))
+        : ["sample-1.mp4", "sample-2.mp4"];
+      const link = `streams/${basename(directory)}`;
+      const known = new Set([...app.vods.values()].map((vod) => vod.filePath));
+
+      for (const name of files) {
+        const filePath = `${link}/${name}`;
+        if (known.has(filePath)) continue;
+        store.createVod(app, { vodName: basename(name), filePath, type: "userVod" });
+      }
+      return ok();
+    }),
+
+    route("DELETE", "vods/:id", ({ app, params }) => (app.vods.delete(params.id) ? ok() : fail("VoD not found"))),
+
+    route("DELETE", "vods", ({ app, query }) => {
+      const ids = (query.get("ids") || "").split(",").filter(Boolean);
+      ids.forEach((id) => app.vods.delete(id));
+      return ok();
+    }),
+
+    route("POST", "vods/create", ({ app, query, rawBody }) => {
+      const name = query.get("name");
+      if (!name) return reply(400, fail("name is required"));
+
+      const fileName = multipartFileName(rawBody) || `${name}.mp4`;
+      const extension = fileName.includes(".") ? fileName.slice(fileName.lastIndexOf(".")) : ".mp4";
+      const vod = store.createVod(app, {
+        vodName: `${name}${extension}`,
+        fileSize: rawBody.length,
+        type: "uploadedVod",
+        metadata: multipartField(rawBody, "metadata") ?? null,
+      });
+      return ok({ dataId: vod.vodId });
+    }),
+
+    // Like AMS, the VoD folder and the portal database are required
+    route("POST", "vods/import-to-stalker", ({ app }) => {
+      const { vodFolder, stalkerDBServer, stalkerDBUsername, stalkerDBPassword } = app.settings;
+      if (!vodFolder) return fail("No VoD folder specified");
+      if (!stalkerDBServer || !stalkerDBUsername || !stalkerDBPassword) return fail("Portal DB info is missing");
+      return ok();
+    }),
+  ];
+}
+
+function send(response, status, body, headers = {}) {
+  const payload = body === undefined ? "" : JSON.stringify(body);
+  response.writeHead(status, { "Content-Type": "application/json", ...headers });
+  response.end(payload);
+}
+
+function corsHeaders(request) {
+  return {
+    "Access-Control-Allow-Origin": request.headers.origin || "*",
+    "Access-Control-Allow-Credentials": "true",
+    "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+    "Access-Control-Allow-Headers": "Authorization, ProxyAuthorization, Content-Type",
+  };
+}
+
+/**
+ * Create the mock server (not yet listening)
+ * @param options.store - (Optional) Store to serve. Default: a new seeded store
+ * @param options.log - (Optional) Request logger. Default: none
+ * @returns Node HTTP server with the store attached as `server.store`
+ */
+export function createMockAmsServer({ store = createStore(), log } = {}) {
+  const management = managementRoutes(store);
+  const application = applicationRoutes(store);
+
+  const server = createServer(async (request, response) => {
+    const url = new URL(request.url, "http://localhost");
+    const cors = corsHeaders(request);
+    log?.(`${request.method} ${url.pathname}${url.search}`);
+
+    if (request.method === "OPTIONS") {
+      response.writeHead(204, cors);
+      response.end();
+      return;
+    }
+
+    // /rest/v2/... (management) or /{app}/rest/v2/... (application)
+    const scoped = /^\/([^/]+)\/rest\/v2\/(.*)$/.exec(url.pathname);
+    const root = url.pathname.startsWith(`${REST_PREFIX}/`) ? url.pathname.slice(REST_PREFIX.length + 1) : null;
+    const app = scoped ? store.getApp(scoped[1]) : null;
+
+    if (scoped && !app && root === null) {
+      send(response, 404, fail(`Application ${scoped[1]} not found`), cors);
+      return;
+    }
+
+    const match =
+      root !== null
+        ? matchRoute(management, request.method, root)
+        : scoped
+          ? matchRoute(application, request.method, scoped[2])
+          : null;
+
+    if (!match) {
+      send(response, 404, fail(`No mock for ${request.method} ${url.pathname}`), cors);
+      return;
+    }
+
+    try {
+      const rawBody = await readBody(request);
+      const isMultipart = request.headers["content-type"]?.startsWith("multipart/form-data");
+      const result = match.handler({
+        app,
+        params: match.params,
+        query: url.searchParams,
+        body: isMultipart ? {} : parseJson(rawBody),
+        rawBody,
+      });
+      if (result instanceof Reply) {
+        send(response, result.status, result.body, cors);
+      } else {
+        send(response, 200, result, cors);
+      }
+    } catch (error) {
+      send(response, 500, fail(error instanceof Error ? error.message : String(error)), cors);
+    }
+  });
+
+  server.on("upgrade", (request, socket) => {
+    const { pathname } = new URL(request.url, "http://localhost");
+    const match = /^\/([^/]+)\/websocket$/.exec(pathname);
+    const app = match ? store.getApp(match[1]) : null;
+
+    if (!app) {
+      socket.end("HTTP/1.1 404 Not Found\r\n\r\n");
+      return;
+    }
+
+    const connection = acceptWebSocket(request, socket);
+    if (connection) {
+      log?.(`WebSocket ${pathname}`);
+      handleSignaling(connection, app, store);
+    }
+  });
+
+  server.store = store;
+  return server;
+}
@@ -0,0 +1,138 @@
+/**
+ * Fake /{app}/websocket signaling of the mock Ant Media Server
+ * No media is exchanged: publish and play commands are acknowledged with the
+ * notifications the real server sends once the peer connection is up, so that
+ * createPublishAdaptor and createPlaybackAdaptor reach publish_started and
+ * play_started
+ */
+
+/**
+ * Handle one signaling connection
+ * @param connection - WebSocketConnection
+ * @param app - Application record of the store
+ * @param store - Mock store
+ */
+export function handleSignaling(connection, app, store) {
+  // Streams published or played over this connection
+  const published = new Set();
+  const played = new Set();
+
+  const notify = (definition, streamId, extra = {}) =>
+    connection.sendJson({ command: "notification", definition, streamId, ...extra });
+  const error = (definition, streamId) =>
+    connection.sendJson({ command: "error", definition, streamId });
+
+  const finishPublish = (streamId) => {
+    const broadcast = app.broadcasts.get(streamId);
+    if (broadcast) {
+      broadcast.status = "finished";
+      broadcast.duration = Date.now() - broadcast.startTime;
+    }
+    published.delete(streamId);
+    notify("publish_finished", streamId);
+  };
+
+  const finishPlay = (streamId) => {
+    const broadcast = app.broadcasts.get(streamId);
+    if (broadcast) {
+      broadcast.webRTCViewerCount = Math.max(0, broadcast.webRTCViewerCount - 1);
+    }
+    played.delete(streamId);
+    notify("play_finished", streamId);
+  };
+
+  const handlers = {
+    ping: () => connection.sendJson({ command: "pong" }),
+
+    getIceServerConfig: () =>
+      connection.sendJson({
+        command: "iceServerConfig",
+        stunServerUri: "stun:stun1.l.google.com:19302",
+        turnServerUsername: "",
+        turnServerCredential: "",
+      }),
+
+    publish: ({ streamId, streamName }) => {
+      if (!streamId) return error("noStreamNameSpecified");
+
+      const existing = app.broadcasts.get(streamId);
+      if (existing?.status === "broadcasting" && !published.has(streamId)) {
+        return error("streamIdInUse", streamId);
+      }
+      if (!existing && app.settings.acceptOnlyStreamsInDataStore) {
+        return error("not_allowed_unregistered_streams", streamId);
+      }
+
+      const broadcast = existing ?? store.createBroadcast(app, { streamId, name: streamName || streamId });
+      broadcast.status = "broadcasting";
+      broadcast.publishType = "WebRTC";
+      broadcast.startTime = Date.now();
+      published.add(streamId);
+
+      connection.sendJson({ command: "start", streamId });
+    },
+
+    // The publisher's offer; the real server answers and then notifies
+    takeConfiguration: ({ streamId, type }) => {
+      if (type === "offer" && published.has(streamId)) {
+        notify("publish_started", streamId);
+      }
+    },
+
+    takeCandidate: () => {},
+
+    play: ({ streamId }) => {
+      const broadcast = app.broadcasts.get(streamId);
+      if (!broadcast || broadcast.status !== "broadcasting") {
+        return error("no_stream_exist", streamId);
+      }
+
+      broadcast.webRTCViewerCount += 1;
+      played.add(streamId);
+      notify("play_started", streamId);
+    },
+
+    stop: ({ streamId }) => {
+      if (published.has(streamId)) finishPublish(streamId);
+      if (played.has(streamId)) finishPlay(streamId);
+    },
+
+    getStreamInfo: ({ streamId }) => {
+      const broadcast = app.broadcasts.get(streamId);
+      if (!broadcast || broadcast.status !== "broadcasting") {
+        return error("no_stream_exist", streamId);
+      }
+
+      connection.sendJson({
+        command: "streamInformation",
+        streamId,
+        streamInfo: [
+          { streamWidth: 1280, streamHeight: 720, videoBitrate: 2500000, audioBitrate: 128000, videoCodec: "H264" },
+        ],
+      });
+    },
+
+    getTrackList: ({ streamId }) =>
+      connection.sendJson({ command: "trackList", streamId, trackList: [] }),
+  };
+
+  connection.on("message", (text) => {
+    let message;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      return;
+    }
+
+    const handler = handlers[message.command];
+    if (handler) {
+      handler(message);
+    }
+  });
+
+  // A dropped connection ends everything it published or played
+  connection.on("close", () => {
+    for (const streamId of published) finishPublish(streamId);
+    for (const streamId of played) finishPlay(streamId);
+  });
+}
@@ -0,0 +1,137 @@
+/**
+ * In-memory data of the mock Ant Media Server: users, applications with
+ * their settings, broadcasts and VODs
+ */
+
+import { randomBytes } from "node:crypto";
+
+const DEFAULT_APPS = ["LiveApp", "WebRTCAppEE"];
+
+/**
+ * Random id in the style of AMS stream ids
+ */
+export function createId(length = 20) {
+  const alphabet = "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+  return Array.from(randomBytes(length), (byte) => alphabet[byte % alphabet.length]).join("");
+}
+
+function defaultSettings() {
+  return {
+    mp4MuxingEnabled: false,
+    webMMuxingEnabled: false,
+    hlsMuxingEnabled: true,
+    hlsListSize: "15",
+    hlsTime: "2",
+    webRTCEnabled: true,
+    encoderSettings: [],
+    deleteHLSFilesOnEnded: true,
+    acceptOnlyStreamsInDataStore: false,
+    publishTokenControlEnabled: false,
+    playTokenControlEnabled: false,
+    jwtControlEnabled: false,
+    vodFolder: "",
+  };
+}
+
+function createApplication(name) {
+  return {
+    name,
+    settings: defaultSettings(),
+    broadcasts: new Map(),
+    vods: new Map(),
+  };
+}
+
+/**
+ * Create the in-memory store
+ * @param options.seed - Add sample broadcasts and VODs. Default: true
+ * @param options.host - Host name used in RTMP URLs. Default: localhost
+ */
+export function createStore({ seed = true, host = "localhost" } = {}) {
+  const users = [];
+  const applications = new Map(DEFAULT_APPS.map((name) => [name, createApplication(name)]));
+
+  const store = {
+    users,
+    applications,
+
+    getApp(name) {
+      return applications.get(name);
+    },
+
+    addApplication(name) {
+      const app = createApplication(name);
+      applications.set(name, app);
+      return app;
+    },
+
+    createBroadcast(app, fields = {}) {
+      const streamId = fields.streamId || createId();
+      const broadcast = {
+        streamId,
+        status: "created",
+        playListStatus: "created",
+        type: "liveStream",
+        name: streamId,
+        description: "",
+        publish: true,
+        date: Date.now(),
+        duration: 0,
+        rtmpURL: `rtmp://${host}/${app.name}/${streamId}`,
+        hlsViewerCount: 0,
+        webRTCViewerCount: 0,
+        rtmpViewerCount: 0,
+        startTime: 0,
+        receivedBytes: 0,
+        bitrate: 0,
+        width: 0,
+        height: 0,
+        speed: 0,
+        mp4Enabled: 0,
+        webMEnabled: 0,
+        subTrackStreamIds: [],
+        endPointList: [],
+        ...fields,
+      };
+      app.broadcasts.set(streamId, broadcast);
+      return broadcast;
+    },
+
+    createVod(app, fields = {}) {
+      const vodId = fields.vodId || createId();
+      const vod = {
+        vodId,
+        vodName: `${vodId}.mp4`,
+        streamId: "",
+        streamName: "",
+        creationDate: Date.now(),
+        startTime: Date.now(),
+        duration: 60000,
+        fileSize: 1024 * 1024,
+        filePath: `streams/${vodId}.mp4`,
+        type: "uploadedVod",
+        previewFilePath: null,
+        processStatus: "finished",
+        ...fields,
+      };
+      app.vods.set(vodId, vod);
+      return vod;
+    },
+  };
+
+  if (seed) {
+    const app = store.getApp("LiveApp");
+    const camera = store.createBroadcast(app, { name: "Studio camera" });
+    store.createBroadcast(app, { name: "Backup feed" });
+    store.createVod(app, {
+      vodName: `${camera.streamId}.mp4`,
+      streamId: camera.streamId,
+      streamName: camera.name,
+      type: "streamVod",
+      duration: 125000,
+    });
+    store.createVod(app, { vodName: "intro.mp4", duration: 30000 });
+  }
+
+  return store;
+}
@@ -0,0 +1,169 @@
+/**
+ * Minimal RFC 6455 WebSocket server side: handshake and text frames
+ * Enough for the JSON signaling messages of @antmedia/webrtc_adaptor
+ */
+
+import { createHash } from "node:crypto";
+import { EventEmitter } from "node:events";
+
+const HANDSHAKE_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/**
+ * Encode an unmasked server frame
+ */
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Decode one client frame from the start of a buffer
+ * @returns Frame and its byte length, or null if the buffer holds a partial frame
+ */
+function decodeFrame(buffer) {
+  if (buffer.length < 2) return null;
+
+  const fin = (buffer[0] & 0x80) !== 0;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+
+  const maskOffset = offset;
+  if (masked) offset += 4;
+  if (buffer.length < offset + length) return null;
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (masked) {
+    for (let i = 0; i < payload.length; i++) {
+      payload[i] ^= buffer[maskOffset + (i % 4)];
+    }
+  }
+
+  return { fin, opcode, payload, size: offset + length };
+}
+
+/**
+ * Server side of an upgraded WebSocket connection
+ * Emits "message" (string) and "close"
+ */
+export class WebSocketConnection extends EventEmitter {
+  constructor(socket) {
+    super();
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+    this.fragments = [];
+    this.closed = false;
+
+    socket.on("data", (chunk) => this.receive(chunk));
+    socket.on("close", () => this.finish());
+    socket.on("error", () => this.finish());
+  }
+
+  send(text) {
+    if (this.closed) return;
+    this.socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text)));
+  }
+
+  sendJson(message) {
+    this.send(JSON.stringify(message));
+  }
+
+  close() {
+    if (this.closed) return;
+    this.socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+    this.finish();
+  }
+
+  receive(chunk) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    for (let frame = decodeFrame(this.buffer); frame; frame = decodeFrame(this.buffer)) {
+      this.buffer = this.buffer.subarray(frame.size);
+
+      switch (frame.opcode) {
+        case OPCODE_TEXT:
+        case OPCODE_CONTINUATION:
+          this.fragments.push(frame.payload);
+          if (frame.fin) {
+            const text = Buffer.concat(this.fragments).toString("utf8");
+            this.fragments = [];
+            this.emit("message", text);
+          }
+          break;
+        case OPCODE_PING:
+          this.socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+          break;
+        case OPCODE_CLOSE:
+          this.close();
+          return;
+        default:
+          break;
+      }
+    }
+  }
+
+  finish() {
+    if (this.closed) return;
+    this.closed = true;
+    this.emit("close");
+  }
+}
+
+/**
+ * Complete the WebSocket handshake of an HTTP upgrade request
+ * @returns Connection, or null if the request is not a WebSocket upgrade
+ */
+export function acceptWebSocket(request, socket) {
+  const key = request.headers["sec-websocket-key"];
+  if (!key || request.headers.upgrade?.toLowerCase() !== "websocket") {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return null;
+  }
+
+  const accept = createHash("sha1").update(key + HANDSHAKE_GUID).digest("base64");
+  socket.write(
+    [
+      "HTTP/1.1 101 Switching Protocols",
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      `Sec-WebSocket-Accept: ${accept}`,
+      "",
+      "",
+    ].join("\r\n")
+  );
+
+  return new WebSocketConnection(socket);
+}
@@ -0,0 +1,113 @@
+/**
+ * Run AntMediaClient against the mock Ant Media Server with strict response
+ * validation, so that a change to the client, the generated bindings or the
+ * mock that breaks one of them fails without a real server
+ * Compiles src/app/client.ts with tsc to node_modules/.cache/check-mock,
+ * starts the mock on a free port and calls the client methods the mock
+ * implements, creating and deleting what it needs.
+ *
+ * Usage: npm run check:mock
+ */
+
+import { execFileSync } from "node:child_process";
+import { rmSync } from "node:fs";
+import { createRequire } from "node:module";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { createMockAmsServer } from "../mock-ams/server.mjs";
+import { createStore } from "../mock-ams/store.mjs";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const outDir = join(root, "node_modules/.cache/check-mock");
+
+rmSync(outDir, { recursive: true, force: true });
+execFileSync(
+  join(root, "node_modules/.bin/tsc"),
+  [
+    "src/app/client.ts",
+    "--outDir", outDir,
+    "--module", "commonjs",
+    "--moduleResolution", "node",
+    "--target", "es2022",
+    "--lib", "es2022,dom,dom.iterable",
+    "--strict",
+    "--skipLibCheck",
+    "--esModuleInterop",
+  ],
+  { cwd: root, stdio: "inherit" }
+);
+
+const { AntMediaClient } = createRequire(import.meta.url)(join(outDir, "client.js"));
+
+const store = createStore({ seed: true });
+const server = createMockAmsServer({ store });
+await new Promise((resolve) => server.listen(0, resolve));
+
+const client = new AntMediaClient({
+  serverUrl: `http://localhost:${server.address().port}`,
+  appName: "LiveApp",
+  validation: "strict",
+});
+
+const CHECKS = [
+  ["isFirstLogin", () => client.isFirstLogin()],
+  ["createInitialUser", () => client.createInitialUser("admin@example.com", "Secret123")],
+  ["authenticate", () => client.authenticate("admin@example.com", "Secret123")],
+  ["getApplications", () => client.getApplications()],
+  ["createApplication", () => client.createApplication("CheckApp")],
+  ["getApplicationsInfo", () => client.getApplicationsInfo()],
+  ["copySettings", () => client.copySettings("LiveApp", "CheckApp", ["mp4MuxingEnabled"])],
+  ["deleteApplication", () => client.deleteApplication("CheckApp")],
+  ["getSystemResources", () => client.getSystemResources()],
+  ["getLicenceStatus", () => client.getLicenceStatus()],
+  ["getSettings", () => client.getSettings()],
+  ["addEncoderBitrate", () => client.addEncoderBitrate(240, 300000, 64000)],
+  ["getAllEncoderBitrates", () => client.getAllEncoderBitrates()],
+  ["removeEncoderBitrate", () => client.removeEncoderBitrate(240)],
+  ["setMp4RecordingEnabled", () => client.setMp4RecordingEnabled(true)],
+  ["createBroadcast", () => client.createBroadcast({ streamId: "check-stream", name: "Check" })],
+  ["fetchBroadcasts", () => client.fetchBroadcasts(0, 10, { sort_by: "name", order_by: "asc" })],
+  ["getBroadcast", () => client.getBroadcast("check-stream")],
+  ["updateBroadcast", () => client.updateBroadcast("check-stream", { name: "Checked" })],
+  ["getBroadcastCount", () => client.getBroadcastCount()],
+  ["getBroadcastCountBySearch", () => client.getBroadcastCountBySearch("check")],
+  ["getLiveBroadcastCount", () => client.getLiveBroadcastCount()],
+  ["listLiveBroadcasts", () => client.listLiveBroadcasts()],
+  ["listAll broadcasts", () => client.listAll("broadcasts")],
+  ["setStreamRecording", () => client.setStreamRecording("check-stream", true, "mp4", undefined, "check")],
+  ["disableRecording", () => client.disableRecording("check-stream")],
+  ["deleteBroadcast", () => client.deleteBroadcast("check-stream")],
+  ["importVodDirectory", () => client.importVodDirectory("/mnt/check")],
+  ["getVodList", () => client.getVodList(0, 10)],
+  ["getVodCount", () => client.getVodCount()],
+  ["getVodCountBySearch", () => client.getVodCountBySearch("mp4")],
+  ["listAll vods", () => client.listAll("vods")],
+  [
+    "uploadVod",
+    () => client.uploadVod(new File([new Uint8Array(16)], "check.mp4", { type: "video/mp4" }), "Check upload"),
+  ],
+  [
+    "getVod",
+    async () => {
+      const [vod] = await client.getVodList(0, 1);
+      return client.getVod(vod.vodId);
+    },
+  ],
+  ["unlinkVodDirectory", () => client.unlinkVodDirectory("/mnt/check")],
+];
+
+let failed = 0;
+for (const [name, check] of CHECKS) {
+  try {
+    await check();
+    console.log(`  ok    ${name}`);
+  } catch (error) {
+    failed++;
+    console.log(`  FAIL  ${name}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+server.close();
+server.closeAllConnections?.();
+console.log(failed ? `\n${failed} of ${CHECKS.length} checks failed` : `\nAll ${CHECKS.length} checks passed`);
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,378 @@
+/**
+ * Generate typed Ant Media REST bindings from the bundled OpenAPI specs
+ * Reads ../broadcast.open-api.json (application REST API) and
+ * ../management.open-api.json (management API) and writes one module per spec
+ * to src/app/lib/api/ with schema types, operation parameter types and one
+ * endpoint function per operation.
+ *
+ * Usage: npm run generate:api
+ */
+
+import { readFileSync, writeFileSync, mkdirSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const outDir = join(root, "src/app/lib/api");
+
+const SPECS = [
+  { input: "../broadcast.open-api.json", output: "broadcast.gen.ts", title: "Application REST API" },
+  { input: "../management.open-api.json", output: "management.gen.ts", title: "Management API" },
+];
+
+const METHODS = ["get", "post", "put", "delete"];
+
+// Bytes; availableMemory is only set in systemMemoryInfo
+const MEMORY_USAGE = {
+  type: "object",
+  properties: {
+    maxMemory: { type: "integer", format: "int64" },
+    totalMemory: { type: "integer", format: "int64" },
+    freeMemory: { type: "integer", format: "int64" },
+    inUseMemory: { type: "integer", format: "int64" },
+    availableMemory: { type: "integer", format: "int64" },
+  },
+};
+
+/**
+ * Response types of operations whose documented schema is missing or wrong
+ */
+const RESPONSE_OVERRIDES = {
+  // Documented as Broadcast, returns a Result
+  deleteBroadcast: { $ref: "#/components/schemas/Result" },
+  // Documented as a single VoD, returns a list
+  getVodList: { type: "array", items: { $ref: "#/components/schemas/VoD" } },
+  // Undocumented
+  getSettings: { $ref: "#/components/schemas/AppSettings" },
+  getApplications: {
+    type: "object",
+    properties: { applications: { type: "array", items: { type: "string" } } },
+  },
+  getApplicationInfo: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        liveStreamCount: { type: "integer" },
+        vodCount: { type: "integer" },
+        storage: { type: "integer", format: "int64" },
+      },
+    },
+  },
+  getLicenceStatus: { $ref: "#/components/schemas/Licence" },
+  getSystemResourcesInfo: {
+    type: "object",
+    properties: {
+      cpuUsage: {
+        type: "object",
+        properties: {
+          systemCPULoad: { type: "integer", description: "System CPU load, percent" },
+          processCPULoad: { type: "integer", description: "CPU load of the AMS process, percent" },
+        },
+      },
+      systemInfo: {
+        type: "object",
+        properties: {
+          osName: { type: "string" },
+          osArch: { type: "string" },
+          javaVersion: { type: "string" },
+          processorCount: { type: "integer" },
+        },
+      },
+      jvmMemoryUsage: MEMORY_USAGE,
+      systemMemoryInfo: MEMORY_USAGE,
+      fileSystemInfo: {
+        type: "object",
+        properties: {
+          usableSpace: { type: "integer", format: "int64" },
+          totalSpace: { type: "integer", format: "int64" },
+          freeSpace: { type: "integer", format: "int64" },
+          inUseSpace: { type: "integer", format: "int64" },
+        },
+      },
+      totalLiveStreamSize: { type: "integer" },
+      localLiveStreams: { type: "integer" },
+      localWebRTCLiveStreams: { type: "integer" },
+      localWebRTCViewers: { type: "integer" },
+      localHLSViewers: { type: "integer" },
+      localDASHViewers: { type: "integer" },
+    },
+  },
+};
+
+const RESERVED = new Set(["delete", "default", "function", "new", "class", "import", "export"]);
+
+/**
+ * Render a description as a doc comment at the given indentation
+ */
+function docComment(lines, indent = "") {
+  const text = lines.filter(Boolean).map((line) => line.replace(/\*\//g, "*\\/").trim());
+  if (text.length === 0) return "";
+  if (text.length === 1) return `${indent}/** ${text[0]} */\n`;
+  return `${indent}/**\n${text.map((line) => `${indent} * ${line}`).join("\n")}\n${indent} */\n`;
+}
+
+function pascalCase(name) {
+  return name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+}
+
+function functionName(operationId) {
+  return RESERVED.has(operationId) ? `${operationId}Operation` : operationId;
+}
+
+function propertyKey(name) {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function propertyAccess(object, name) {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? `${object}.${name}` : `${object}[${JSON.stringify(name)}]`;
+}
+
+/**
+ * Map a JSON schema to a TypeScript type expression
+ */
+function schemaType(schema, indent = "") {
+  if (!schema) return "unknown";
+  if (schema.$ref) return schema.$ref.split("/").pop();
+
+  if (schema.enum) {
+    return [...new Set(schema.enum)].map((value) => JSON.stringify(value)).join(" | ");
+  }
+
+  switch (schema.type) {
+    case "integer":
+    case "number":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "string":
+      return schema.format === "binary" ? "Blob" : "string";
+    case "array": {
+      const item = schemaType(schema.items, indent);
+      return /[|&\s]/.test(item) && !item.startsWith("{") ? `(${item})[]` : `${item}[]`;
+    }
+    case "object":
+    default:
+      if (schema.properties) {
+        return `{\n${renderProperties(schema, `${indent}  `)}${indent}}`;
+      }
+      if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+        return `Record<string, ${schemaType(schema.additionalProperties, indent)}>`;
+      }
+      return "Record<string, unknown>";
+  }
+}
+
+/**
+ * Some AMS schemas nest the property schema in "type"
+ */
+function normalizeSchema(schema) {
+  return typeof schema?.type === "object" ? { ...schema.type, ...schema, type: schema.type.type } : schema;
+}
+
+/**
+ * Map a JSON schema to the runtime Schema used by response validation
+ */
+function runtimeSchema(input) {
+  const schema = normalizeSchema(input);
+  if (!schema) return { type: "unknown" };
+  if (schema.$ref) return { $ref: schema.$ref.split("/").pop() };
+  if (schema.enum) return { type: "string", enum: [...new Set(schema.enum)] };
+
+  switch (schema.type) {
+    case "integer":
+    case "number":
+      return { type: "number" };
+    case "boolean":
+      return { type: "boolean" };
+    case "string":
+      return schema.format === "binary" ? { type: "unknown" } : { type: "string" };
+    case "array":
+      return { type: "array", items: runtimeSchema(schema.items) };
+    default:
+      if (schema.properties) {
+        const properties = Object.fromEntries(
+          Object.entries(schema.properties).map(([name, property]) => [name, runtimeSchema(property)])
+        );
+        return schema.required?.length
+          ? { type: "object", properties, required: schema.required }
+          : { type: "object", properties };
+      }
+      if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+        return { type: "object", additionalProperties: runtimeSchema(schema.additionalProperties) };
+      }
+      return schema.type === "object" ? { type: "object" } : { type: "unknown" };
+  }
+}
+
+/**
+ * Render the properties of an object schema, one per line
+ */
+function renderProperties(schema, indent) {
+  const required = new Set(schema.required ?? []);
+  let out = "";
+
+  for (const [name, property] of Object.entries(schema.properties ?? {})) {
+    const resolved = normalizeSchema(property);
+    out += docComment([resolved.description ?? property.type?.description], indent);
+    out += `${indent}${propertyKey(name)}${required.has(name) ? "" : "?"}: ${schemaType(resolved, indent)};\n`;
+  }
+
+  return out;
+}
+
+function renderSchema(name, schema) {
+  const doc = docComment([schema.description]);
+  if (schema.properties && Object.keys(schema.properties).length > 0) {
+    return `${doc}export interface ${name} {\n${renderProperties(schema, "  ")}}\n`;
+  }
+  return `${doc}export type ${name} = ${schemaType(schema)};\n`;
+}
+
+/**
+ * Response schema of an operation: the 2xx (or default) JSON schema
+ * Many AMS endpoints return a Result without documenting it; GETs without a
+ * documented schema are left unknown (null)
+ */
+function responseSchema(method, operation) {
+  if (RESPONSE_OVERRIDES[operation.operationId]) {
+    return RESPONSE_OVERRIDES[operation.operationId];
+  }
+
+  const responses = operation.responses ?? {};
+  const codes = Object.keys(responses).filter((code) => code.startsWith("2")).concat("default");
+
+  for (const code of codes) {
+    const content = responses[code]?.content;
+    if (!content) continue;
+    const media = content["application/json"] ?? content["*/*"];
+    if (media?.schema) return media.schema;
+  }
+
+  return method === "get" ? null : { $ref: "#/components/schemas/Result" };
+}
+
+/**
+ * Path relative to the versioned REST base path (/rest/v2)
+ */
+function relativePath(path) {
+  return path.startsWith("/v2/") ? path.slice(4) : `..${path}`;
+}
+
+function renderOperation(path, method, operation) {
+  const name = functionName(operation.operationId);
+  const paramsType = `${pascalCase(operation.operationId)}Params`;
+  const parameters = (operation.parameters ?? [])
+    .filter((p) => p.in === "path" || p.in === "query")
+    .map((p, index, all) => ({
+      ...p,
+      // A query parameter may share its name with a path parameter, e.g. subtrack "id"
+      key: all.findIndex((other) => other.name === p.name) === index ? p.name : `${p.name}${pascalCase(p.in)}`,
+    }));
+  const pathParams = parameters.filter((p) => p.in === "path");
+  const queryParams = parameters.filter((p) => p.in === "query");
+
+  const jsonBody = operation.requestBody?.content?.["application/json"];
+  const formBody = operation.requestBody?.content?.["multipart/form-data"];
+  const bodyType = jsonBody ? schemaType(jsonBody.schema, "  ") : formBody ? "FormData" : null;
+  const bodyRequired = Boolean(operation.requestBody?.required || formBody);
+  const response = responseSchema(method, operation);
+  const resultType = response ? schemaType(response) : "unknown";
+
+  let out = "";
+
+  if (parameters.length > 0) {
+    out += docComment([`Parameters of ${operation.operationId}`]);
+    out += `export interface ${paramsType} {\n`;
+    for (const param of parameters) {
+      out += docComment([param.description], "  ");
+      out += `  ${propertyKey(param.key)}${param.required ? "" : "?"}: ${schemaType(param.schema, "  ")};\n`;
+    }
+    out += "}\n\n";
+  }
+
+  const args = ["send: ApiSend"];
+  if (parameters.length > 0) {
+    const optional = parameters.every((p) => !p.required);
+    args.push(`params: ${paramsType}${optional ? " = {}" : ""}`);
+  }
+  if (bodyType) {
+    args.push(`body${bodyRequired ? "" : "?"}: ${bodyType}`);
+  }
+  args.push("options?: RequestOptions");
+
+  const urlPath = relativePath(path).replace(
+    /\{([^}]+)\}/g,
+    (_, name) => `\${encodeURIComponent(String(${propertyAccess("params", pathParams.find((p) => p.name === name)?.key ?? name)}))}`
+  );
+
+  out += docComment([
+    operation.summary,
+    operation.description !== operation.summary ? operation.description : undefined,
+    `${method.toUpperCase()} ${path}`,
+  ]);
+  out += `export function ${name}(\n  ${args.join(",\n  ")}\n): Promise<${resultType}> {\n`;
+  out += `  return send<${resultType}>(\n    {\n`;
+  out += `      operationId: ${JSON.stringify(operation.operationId)},\n`;
+  out += `      method: ${JSON.stringify(method.toUpperCase())},\n`;
+  out += `      path: ${pathParams.length > 0 ? `\`${urlPath}\`` : JSON.stringify(urlPath)},\n`;
+  if (queryParams.length > 0) {
+    out += `      query: {\n`;
+    for (const param of queryParams) {
+      out += `        ${propertyKey(param.name)}: ${propertyAccess("params", param.key)},\n`;
+    }
+    out += `      },\n`;
+  }
+  if (bodyType) {
+    out += `      body,\n`;
+  }
+  out += `    },\n    options\n  );\n}\n`;
+
+  return out;
+}
+
+function generate({ input, output, title }) {
+  const spec = JSON.parse(readFileSync(join(root, input), "utf8"));
+  const schemas = spec.components?.schemas ?? {};
+
+  let out = `/**\n * ${title} bindings generated from ${input.replace("../", "")}\n`;
+  out += ` * Do not edit: run \`npm run generate:api\` after updating the spec\n */\n\n`;
+  out += `import type { Schema } from "./schema";\n`;
+  out += `import type { ApiSend } from "./transport";\n`;
+  out += `import type { RequestOptions } from "../retry";\n\n`;
+
+  for (const [name, schema] of Object.entries(schemas)) {
+    out += renderSchema(name, schema) + "\n";
+  }
+
+  const responseSchemas = {};
+  for (const [path, item] of Object.entries(spec.paths ?? {})) {
+    for (const method of METHODS) {
+      if (item[method]) {
+        out += renderOperation(path, method, item[method]) + "\n";
+
+        const response = responseSchema(method, item[method]);
+        if (response) responseSchemas[item[method].operationId] = runtimeSchema(response);
+      }
+    }
+  }
+
+  const runtimeSchemas = Object.fromEntries(
+    Object.entries(schemas).map(([name, schema]) => [name, runtimeSchema(schema)])
+  );
+  out += `/** Runtime schemas of the component types, used by response validation */\n`;
+  out += `export const schemas: Record<string, Schema> = ${JSON.stringify(runtimeSchemas, null, 2)};\n\n`;
+  out += `/** Runtime schemas of operation responses, keyed by operationId */\n`;
+  out += `export const responseSchemas: Record<string, Schema> = ${JSON.stringify(responseSchemas, null, 2)};\n`;
+
+  writeFileSync(join(outDir, output), out.replace(/\n+$/, "\n"));
+  console.log(`Generated ${join("src/app/lib/api", output)}`);
+}
+
+mkdirSync(outDir, { recursive: true });
+SPECS.forEach(generate);
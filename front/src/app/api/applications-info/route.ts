@@ -0,0 +1,9 @@
+import { forward, withSession } from "@/app/lib/server/bff";
+
+/**
+ * Applications with their stream and VoD counts
+ * GET /api/applications-info -> /rest/v2/applications-info
+ */
+export const GET = withSession(async (request: Request) =>
+  forward(request, "management", "applications-info")
+);
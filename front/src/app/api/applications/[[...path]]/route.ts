@@ -0,0 +1,9 @@
+import { proxyRoute } from "@/app/lib/server/bff";
+
+/**
+ * Application management endpoints
+ * /api/applications/... -> /rest/v2/applications/...
+ */
+const handler = proxyRoute("management", "applications");
+
+export { handler as GET, handler as POST, handler as PUT, handler as DELETE };
@@ -0,0 +1,39 @@
+import { errorResponse, jsonError, relay, publicTarget } from "@/app/lib/server/bff";
+import { amsFetch } from "@/app/lib/server/ams";
+import { createSession } from "@/app/lib/server/session";
+
+/**
+ * Check credentials with the AMS of the selected profile and start a dashboard
+ * session on success
+ * POST /api/auth/login -> /rest/v2/users/authenticate
+ */
+export async function POST(request: Request) {
+  try {
+    const { email, password } = await request.json().catch(() => ({}));
+    if (typeof email !== "string" || typeof password !== "string") {
+      return jsonError(400, "email and password are required");
+    }
+
+    const { profile } = await publicTarget(request);
+    const response = await amsFetch({
+      profile,
+      scope: "public",
+      path: "users/authenticate",
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ email, password }),
+    });
+    if (!response.ok) {
+      return relay(response, "public");
+    }
+
+    const result = await response.json();
+    if (result?.success) {
+      await createSession(email, profile.id);
+    }
+
+    return Response.json(result, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
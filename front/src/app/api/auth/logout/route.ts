@@ -0,0 +1,11 @@
+import { destroySession } from "@/app/lib/server/session";
+
+/**
+ * End the dashboard session
+ * POST /api/auth/logout
+ */
+export async function POST() {
+  await destroySession();
+
+  return Response.json({ success: true }, { headers: { "Cache-Control": "no-store" } });
+}
@@ -0,0 +1,9 @@
+import { withSession } from "@/app/lib/server/bff";
+
+/**
+ * Current session, so the browser knows who is signed in and when the session expires
+ * GET /api/auth/session
+ */
+export const GET = withSession(async (_request, _context, session) =>
+  Response.json(session, { headers: { "Cache-Control": "no-store" } })
+);
@@ -0,0 +1,9 @@
+import { proxyRoute } from "@/app/lib/server/bff";
+
+/**
+ * Application broadcast endpoints
+ * /api/broadcasts/... -> /{app}/rest/v2/broadcasts/...
+ */
+const handler = proxyRoute("app", "broadcasts");
+
+export { handler as GET, handler as POST, handler as PUT, handler as DELETE };
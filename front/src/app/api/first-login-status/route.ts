@@ -0,0 +1,13 @@
+import { errorResponse, forward } from "@/app/lib/server/bff";
+
+/**
+ * Whether the server still needs its first user. Public, for the setup wizard
+ * GET /api/first-login-status -> /rest/v2/first-login-status
+ */
+export async function GET(request: Request) {
+  try {
+    return await forward(request, "public", "first-login-status");
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
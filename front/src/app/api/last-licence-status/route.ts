@@ -0,0 +1,9 @@
+import { forward, withSession } from "@/app/lib/server/bff";
+
+/**
+ * Result of the server's last license check
+ * GET /api/last-licence-status -> /rest/v2/last-licence-status
+ */
+export const GET = withSession(async (request: Request) =>
+  forward(request, "management", "last-licence-status")
+);
@@ -0,0 +1,12 @@
+import { withSession } from "@/app/lib/server/bff";
+import { deleteProfile } from "@/app/lib/server/profiles";
+
+/**
+ * Delete a profile. Deleting the default profile resets it to the environment
+ * DELETE /api/profiles/{id}
+ */
+export const DELETE = withSession(async (_request, { params }: { params: Promise<{ id: string }> }) => {
+  await deleteProfile((await params).id);
+
+  return Response.json({ success: true });
+});
@@ -0,0 +1,27 @@
+import { jsonError, withSession } from "@/app/lib/server/bff";
+import { ProfileInput, validateProfile } from "@/app/lib/profiles";
+import { listProfiles, saveProfile, toPublicProfile } from "@/app/lib/server/profiles";
+
+/**
+ * List connection profiles, without their secrets
+ * GET /api/profiles
+ */
+export const GET = withSession(async () =>
+  Response.json((await listProfiles()).map(toPublicProfile), {
+    headers: { "Cache-Control": "no-store" },
+  })
+);
+
+/**
+ * Create a profile, or update the one with the given id
+ * POST /api/profiles
+ */
+export const POST = withSession(async (request: Request) => {
+  const input: ProfileInput = await request.json().catch(() => ({}));
+  const problems = validateProfile(input);
+  if (problems.length > 0) {
+    return jsonError(400, problems.join("; "));
+  }
+
+  return Response.json(toPublicProfile(await saveProfile(input)));
+});
@@ -0,0 +1,21 @@
+import { requestTarget, withSession } from "@/app/lib/server/bff";
+import { deleteSchedule, updateSchedule } from "@/app/lib/server/scheduler";
+
+/**
+ * Replace a schedule, e.g. to pause it; its next run is planned again from now
+ * PUT /api/schedules/{id}
+ */
+export const PUT = withSession(async (request: Request, { params }: { params: Promise<{ id: string }> }) => {
+  const body = await request.json().catch(() => ({}));
+
+  return Response.json(await updateSchedule((await params).id, body, await requestTarget(request)));
+});
+
+/**
+ * Delete a schedule; its past runs are deleted with it
+ * DELETE /api/schedules/{id}
+ */
+export const DELETE = withSession(async (request: Request, { params }: { params: Promise<{ id: string }> }) => {
+  await deleteSchedule((await params).id, await requestTarget(request));
+  return Response.json({ success: true });
+});
@@ -0,0 +1,22 @@
+import { requestTarget, withSession } from "@/app/lib/server/bff";
+import { createSchedule, listSchedules } from "@/app/lib/server/scheduler";
+
+/**
+ * Schedules of the profile and application of the request, by next run
+ * GET /api/schedules
+ */
+export const GET = withSession(async (request: Request) =>
+  Response.json(await listSchedules(await requestTarget(request)), {
+    headers: { "Cache-Control": "no-store" },
+  })
+);
+
+/**
+ * Plan a stream action; the server runs it at the planned times
+ * POST /api/schedules
+ */
+export const POST = withSession(async (request: Request, _context, session) => {
+  const body = await request.json().catch(() => ({}));
+
+  return Response.json(await createSchedule(body, await requestTarget(request), session.email), { status: 201 });
+});
@@ -0,0 +1,11 @@
+import { forward, withSession } from "@/app/lib/server/bff";
+
+/**
+ * Settings of the application named by the X-AMS-App header
+ * /api/settings -> /rest/v2/applications/settings/{app}
+ */
+const handler = withSession(async (request: Request) =>
+  forward(request, "management", (app) => `applications/settings/${app}`)
+);
+
+export { handler as GET, handler as POST };
@@ -0,0 +1,20 @@
+import { requestTarget, withSession } from "@/app/lib/server/bff";
+import { listSyncs, runSync } from "@/app/lib/server/stalker-syncs";
+
+/**
+ * Stalker syncs of the profile and application of the request, newest first
+ * GET /api/stalker-syncs
+ */
+export const GET = withSession(async (request: Request) =>
+  Response.json(await listSyncs(await requestTarget(request)), {
+    headers: { "Cache-Control": "no-store" },
+  })
+);
+
+/**
+ * Push the application's VoDs to the Stalker portal and record the result
+ * POST /api/stalker-syncs -> /{app}/rest/v2/vods/import-to-stalker
+ */
+export const POST = withSession(async (request: Request, _context, session) =>
+  Response.json(await runSync(await requestTarget(request), session.email))
+);
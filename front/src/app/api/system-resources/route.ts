@@ -0,0 +1,9 @@
+import { forward, withSession } from "@/app/lib/server/bff";
+
+/**
+ * CPU, memory, disk and connection counts of the server
+ * GET /api/system-resources -> /rest/v2/system-resources
+ */
+export const GET = withSession(async (request: Request) =>
+  forward(request, "management", "system-resources")
+);
@@ -0,0 +1,10 @@
+import { relay, withSession } from "@/app/lib/server/bff";
+import { completeUpload } from "@/app/lib/server/uploads";
+
+/**
+ * Push a complete upload to AMS
+ * POST /api/uploads/{id}/complete -> /{app}/rest/v2/vods/create
+ */
+export const POST = withSession(async (_request, { params }: { params: Promise<{ id: string }> }, session) =>
+  relay(await completeUpload((await params).id, session))
+);
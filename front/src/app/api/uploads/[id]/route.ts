@@ -0,0 +1,38 @@
+import { jsonError, withSession } from "@/app/lib/server/bff";
+import { appendChunk, deleteUpload, getUpload } from "@/app/lib/server/uploads";
+
+type Context = { params: Promise<{ id: string }> };
+
+/**
+ * Progress of an upload, to resume it
+ * GET /api/uploads/{id}
+ */
+export const GET = withSession(async (_request, { params }: Context, session) =>
+  Response.json(await getUpload((await params).id, session), {
+    headers: { "Cache-Control": "no-store" },
+  })
+);
+
+/**
+ * Append a chunk at the Upload-Offset header
+ * PUT /api/uploads/{id}
+ */
+export const PUT = withSession(async (request: Request, { params }: Context, session) => {
+  const offset = Number(request.headers.get("Upload-Offset"));
+  if (!Number.isSafeInteger(offset) || offset < 0) {
+    return jsonError(400, "Missing or invalid Upload-Offset header");
+  }
+
+  const chunk = new Uint8Array(await request.arrayBuffer());
+  return Response.json(await appendChunk((await params).id, session, offset, chunk));
+});
+
+/**
+ * Cancel an upload
+ * DELETE /api/uploads/{id}
+ */
+export const DELETE = withSession(async (_request, { params }: Context, session) => {
+  await deleteUpload((await params).id, session);
+
+  return Response.json({ success: true });
+});
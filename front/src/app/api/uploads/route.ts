@@ -0,0 +1,13 @@
+import { requestTarget, withSession } from "@/app/lib/server/bff";
+import { createUpload } from "@/app/lib/server/uploads";
+import { UploadInput } from "@/app/lib/vod-upload";
+
+/**
+ * Start a resumable VoD upload to the profile and application of the request
+ * POST /api/uploads
+ */
+export const POST = withSession(async (request: Request, _context, session) => {
+  const input: UploadInput = await request.json().catch(() => ({}));
+
+  return Response.json(await createUpload(input, await requestTarget(request), session.email));
+});
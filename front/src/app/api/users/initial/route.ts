@@ -0,0 +1,22 @@
+import { errorResponse, forward, jsonError, publicTarget } from "@/app/lib/server/bff";
+import { amsFetch } from "@/app/lib/server/ams";
+
+/**
+ * Create the first AMS user. Public, for the setup wizard, so it is refused
+ * here as well as by AMS once any user exists
+ * POST /api/users/initial -> /rest/v2/users/initial
+ */
+export async function POST(request: Request) {
+  try {
+    const { profile } = await publicTarget(request);
+    const status = await amsFetch({ profile, scope: "public", path: "first-login-status" });
+    const result = status.ok ? await status.json() : undefined;
+    if (!result?.success) {
+      return jsonError(409, "The server already has users");
+    }
+
+    return await forward(request, "public", "users/initial");
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
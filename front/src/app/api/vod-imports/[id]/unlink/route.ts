@@ -0,0 +1,10 @@
+import { requestTarget, withSession } from "@/app/lib/server/bff";
+import { unlinkImport } from "@/app/lib/server/vod-imports";
+
+/**
+ * Undo a directory import
+ * POST /api/vod-imports/{id}/unlink -> DELETE /{app}/rest/v2/vods/directory
+ */
+export const POST = withSession(async (request: Request, { params }: { params: Promise<{ id: string }> }) =>
+  Response.json(await unlinkImport((await params).id, await requestTarget(request)))
+);
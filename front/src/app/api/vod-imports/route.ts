@@ -0,0 +1,22 @@
+import { requestTarget, withSession } from "@/app/lib/server/bff";
+import { listImports, startImport } from "@/app/lib/server/vod-imports";
+
+/**
+ * Directory imports of the profile and application of the request, newest first
+ * GET /api/vod-imports
+ */
+export const GET = withSession(async (request: Request) =>
+  Response.json(await listImports(await requestTarget(request)), {
+    headers: { "Cache-Control": "no-store" },
+  })
+);
+
+/**
+ * Start importing a directory of the AMS server as a background job
+ * POST /api/vod-imports -> /{app}/rest/v2/vods/directory
+ */
+export const POST = withSession(async (request: Request, _context, session) => {
+  const { directory } = await request.json().catch(() => ({}));
+
+  return Response.json(await startImport(directory, await requestTarget(request), session.email), { status: 202 });
+});
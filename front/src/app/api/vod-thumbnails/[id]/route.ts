@@ -0,0 +1,22 @@
+import { requestTarget, withSession } from "@/app/lib/server/bff";
+import { getSpriteLayout } from "@/app/lib/server/thumbnails";
+import { thumbnailVtt } from "@/app/lib/vod-thumbnails";
+
+type Context = { params: Promise<{ id: string }> };
+
+/**
+ * WebVTT thumbnail track of a VoD, generating its sprite on first use
+ * GET /api/vod-thumbnails/{id}
+ */
+export const GET = withSession(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  const layout = await getSpriteLayout(await requestTarget(request), id);
+
+  return new Response(thumbnailVtt(layout, `/api/vod-thumbnails/${encodeURIComponent(id)}/sprite`), {
+    headers: {
+      "Content-Type": "text/vtt; charset=utf-8",
+      "Cache-Control": "private, max-age=3600",
+      Vary: "X-AMS-Profile, X-AMS-App",
+    },
+  });
+});
@@ -0,0 +1,18 @@
+import { requestTarget, withSession } from "@/app/lib/server/bff";
+import { readSprite } from "@/app/lib/server/thumbnails";
+
+/**
+ * JPEG thumbnail sprite of a VoD
+ * GET /api/vod-thumbnails/{id}/sprite
+ */
+export const GET = withSession(async (request: Request, { params }: { params: Promise<{ id: string }> }) => {
+  const sprite = await readSprite(await requestTarget(request), (await params).id);
+
+  return new Response(new Uint8Array(sprite), {
+    headers: {
+      "Content-Type": "image/jpeg",
+      "Cache-Control": "private, max-age=3600",
+      Vary: "X-AMS-Profile, X-AMS-App",
+    },
+  });
+});
@@ -0,0 +1,9 @@
+import { proxyRoute } from "@/app/lib/server/bff";
+
+/**
+ * Application VoD endpoints
+ * /api/vods/... -> /{app}/rest/v2/vods/...
+ */
+const handler = proxyRoute("app", "vods");
+
+export { handler as GET, handler as POST, handler as PUT, handler as DELETE };
@@ -0,0 +1,13 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Applications - Ant Media POS",
+};
+
+export default function ApplicationsLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return children;
+}
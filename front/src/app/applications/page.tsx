@@ -0,0 +1,304 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { AppSettings, ApplicationInfo } from "../client";
+import { useAntMedia } from "../lib/ant-media-context";
+import { formatBytes } from "../lib/format";
+
+/**
+ * Settings that can be copied between applications
+ */
+const SETTINGS_GROUPS: { id: string; label: string; fields: (keyof AppSettings)[] }[] = [
+  { id: "ladder", label: "Encoder ladder (adaptive bitrates)", fields: ["encoderSettings"] },
+  {
+    id: "recording",
+    label: "Recording flags (MP4, WebM, date in file names)",
+    fields: ["mp4MuxingEnabled", "webMMuxingEnabled", "addDateTimeToMp4FileName"],
+  },
+];
+
+const inputClassName =
+  "w-full px-4 py-3 border-2 border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 font-medium bg-white";
+const buttonClassName =
+  "px-6 py-3 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors";
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export default function ApplicationsPage() {
+  const { client, settings } = useAntMedia();
+
+  const [applications, setApplications] = useState<ApplicationInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Create
+  const [newAppName, setNewAppName] = useState("");
+
+  // Delete
+  const [deleteDatabase, setDeleteDatabase] = useState(false);
+
+  // Clone settings
+  const [sourceApp, setSourceApp] = useState("");
+  const [targetApp, setTargetApp] = useState("");
+  const [groups, setGroups] = useState<string[]>(SETTINGS_GROUPS.map((group) => group.id));
+
+  const names = applications.map((app) => app.name ?? "").filter(Boolean);
+
+  const loadApplications = async () => {
+    setLoading(true);
+    try {
+      setApplications(await client.getApplicationsInfo());
+    } catch (error) {
+      console.error("Error loading applications:", error);
+      setError(errorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+
+    client
+      .getApplicationsInfo()
+      .then((list) => {
+        if (!cancelled) setApplications(list);
+      })
+      .catch((error) => {
+        console.error("Error loading applications:", error);
+        if (!cancelled) setError(errorMessage(error));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client]);
+
+  /**
+   * Run an action, then show its outcome and reload the list
+   */
+  const run = async (action: () => Promise<string>) => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      setNotice(await action());
+      await loadApplications();
+    } catch (error) {
+      console.error("Application action failed:", error);
+      setError(errorMessage(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () =>
+    run(async () => {
+      const name = newAppName.trim();
+      if (!/^\w+$/.test(name)) {
+        throw new Error("Application names can only contain letters, digits and underscores");
+      }
+      const result = await client.createApplication(name);
+      if (!result.success) {
+        throw new Error(result.message || `Failed to create ${name}`);
+      }
+      setNewAppName("");
+      return `Created ${name}. AMS may take a few seconds to start it.`;
+    });
+
+  const handleDelete = (name: string) => {
+    const extra = deleteDatabase ? " and its database" : "";
+    if (!window.confirm(`Delete the application ${name}${extra}? Its streams and VoDs will be gone.`)) return;
+
+    run(async () => {
+      const result = await client.deleteApplication(name, deleteDatabase);
+      if (!result.success) {
+        throw new Error(result.message || `Failed to delete ${name}`);
+      }
+      return `Deleted ${name}.`;
+    });
+  };
+
+  const handleClone = () =>
+    run(async () => {
+      const fields = SETTINGS_GROUPS.filter((group) => groups.includes(group.id)).flatMap((group) => group.fields);
+      const result = await client.copySettings(sourceApp, targetApp, fields);
+      if (!result.success) {
+        throw new Error(result.message || `Failed to update ${targetApp}`);
+      }
+      return `Copied settings from ${sourceApp} to ${targetApp}.`;
+    });
+
+  const toggleGroup = (id: string) =>
+    setGroups((current) => (current.includes(id) ? current.filter((g) => g !== id) : [...current, id]));
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="p-4 lg:p-6">
+        <div className="mx-auto max-w-6xl 2xl:max-w-7xl">
+          {/* Breadcrumbs */}
+          <nav className="mb-4">
+            <ol className="flex items-center space-x-2 text-sm">
+              <li>
+                <Link href="/" className="text-blue-600 hover:text-blue-800 font-medium">
+                  Home
+                </Link>
+              </li>
+              <li className="text-gray-400">/</li>
+              <li className="text-gray-600 font-medium">Applications</li>
+            </ol>
+          </nav>
+
+          <header className="mb-6">
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">Applications</h1>
+            <p className="text-gray-600">Applications of {settings.serverUrl}</p>
+          </header>
+
+          {error && (
+            <div className="mb-6 border-2 border-red-300 bg-red-50 rounded-lg p-4 text-red-800 font-medium">{error}</div>
+          )}
+          {notice && (
+            <div className="mb-6 border-2 border-green-300 bg-green-50 rounded-lg p-4 text-green-800 font-medium">{notice}</div>
+          )}
+
+          {/* Application list */}
+          <div className="mb-6 bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-2xl font-bold text-gray-900">Installed applications</h2>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={deleteDatabase}
+                  onChange={(e) => setDeleteDatabase(e.target.checked)}
+                  className="w-4 h-4"
+                />
+                Delete the database with the application
+              </label>
+            </div>
+            {loading ? (
+              <p className="p-6 text-gray-600">Loading applications...</p>
+            ) : applications.length === 0 ? (
+              <p className="p-6 text-gray-600">No applications found.</p>
+            ) : (
+              <table className="w-full text-left">
+                <thead className="bg-gray-50 text-xs font-semibold text-gray-600 uppercase">
+                  <tr>
+                    <th className="px-6 py-3">Name</th>
+                    <th className="px-6 py-3">Live streams</th>
+                    <th className="px-6 py-3">VoDs</th>
+                    <th className="px-6 py-3">Storage</th>
+                    <th className="px-6 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {applications.map((app) => (
+                    <tr key={app.name}>
+                      <td className="px-6 py-4 font-bold text-gray-900">
+                        {app.name}
+                        {app.name === settings.appName && (
+                          <span className="ml-2 text-xs font-semibold text-green-700 bg-green-100 px-2 py-0.5 rounded">
+                            Active
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-gray-800">{app.liveStreamCount ?? 0}</td>
+                      <td className="px-6 py-4 text-gray-800">{app.vodCount ?? 0}</td>
+                      <td className="px-6 py-4 text-gray-800">{formatBytes(app.storage ?? 0)}</td>
+                      <td className="px-6 py-4 text-right">
+                        <button
+                          onClick={() => handleDelete(app.name!)}
+                          disabled={busy || app.name === settings.appName}
+                          title={app.name === settings.appName ? "The active profile uses this application" : undefined}
+                          className="px-3 py-1.5 text-sm font-semibold text-red-700 rounded-md hover:bg-red-50 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Create */}
+            <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+              <h2 className="text-2xl font-bold text-gray-900 mb-4">Create application</h2>
+              <label className="block text-sm font-semibold text-gray-800 mb-2">Name</label>
+              <input
+                type="text"
+                value={newAppName}
+                onChange={(e) => setNewAppName(e.target.value)}
+                className={`${inputClassName} mb-4`}
+                placeholder="MyApp"
+              />
+              <button onClick={handleCreate} disabled={busy || !newAppName.trim()} className={buttonClassName}>
+                Create
+              </button>
+            </div>
+
+            {/* Clone settings */}
+            <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+              <h2 className="text-2xl font-bold text-gray-900 mb-4">Clone settings</h2>
+              <div className="grid grid-cols-2 gap-4 mb-4">
+                <div>
+                  <label className="block text-sm font-semibold text-gray-800 mb-2">From</label>
+                  <select value={sourceApp} onChange={(e) => setSourceApp(e.target.value)} className={inputClassName}>
+                    <option value="">Select...</option>
+                    {names.map((name) => (
+                      <option key={name} value={name}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-gray-800 mb-2">To</label>
+                  <select value={targetApp} onChange={(e) => setTargetApp(e.target.value)} className={inputClassName}>
+                    <option value="">Select...</option>
+                    {names
+                      .filter((name) => name !== sourceApp)
+                      .map((name) => (
+                        <option key={name} value={name}>
+                          {name}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+              </div>
+              <div className="space-y-2 mb-4">
+                {SETTINGS_GROUPS.map((group) => (
+                  <label key={group.id} className="flex items-center gap-2 text-gray-800">
+                    <input
+                      type="checkbox"
+                      checked={groups.includes(group.id)}
+                      onChange={() => toggleGroup(group.id)}
+                      className="w-4 h-4"
+                    />
+                    {group.label}
+                  </label>
+                ))}
+              </div>
+              <button
+                onClick={handleClone}
+                disabled={busy || !sourceApp || !targetApp || sourceApp === targetApp || groups.length === 0}
+                className={buttonClassName}
+              >
+                Copy settings
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
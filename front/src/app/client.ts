@@ -1,170 +1,672 @@
+import {
+    AntMediaError,
+    createResponseError,
+    NetworkError,
+    NotFoundError,
+    ResponseValidationError,
+    ServerBusyError,
+    TimeoutError,
+} from "./lib/errors";
+import * as BroadcastApi from "./lib/api/broadcast.gen";
+import * as ManagementApi from "./lib/api/management.gen";
+import { Schema, validateSchema, ValidationIssue, ValidationMode } from "./lib/api/schema";
+import { ApiRequest, ApiSend, appendQuery, describeOperation, parseBody } from "./lib/api/transport";
+import { JwtTokenManager } from "./lib/jwt";
+import { fetchAllPages, paginate } from "./lib/pagination";
+import {
+    computeBackoffDelay,
+    createTimeoutSignal,
+    DEFAULT_RETRY_POLICY,
+    RequestOptions,
+    RetryPolicy,
+    sleep,
+} from "./lib/retry";
+import {
+    ConflictStrategy,
+    diffSettings,
+    mergeSettings,
+    SettingsConflictError,
+} from "./lib/settings-patch";
+
+/**
+ * Broadcast, IP camera or stream source (Broadcast schema of broadcast.open-api.json)
+ */
+export type Broadcast = BroadcastApi.Broadcast;
+
+/**
+ * VoD file record (VoD schema of broadcast.open-api.json)
+ */
+export type Vod = BroadcastApi.VoD;
+
+/**
+ * Result body returned by most mutating endpoints
+ */
+export type Result = BroadcastApi.Result;
+
+/**
+ * Query parameters of GET /v2/broadcasts/list/{offset}/{size}
+ */
+export type BroadcastListOptions = Omit<BroadcastApi.GetBroadcastListParams, "offset" | "size">;
+
+/**
+ * Query parameters of GET /v2/vods/list/{offset}/{size}
+ */
+export type VodListOptions = Omit<BroadcastApi.GetVodListParams, "offset" | "size">;
+
+/**
+ * Request options of the pagination helpers
+ */
+export interface PaginationOptions extends RequestOptions {
+    /** Items per request (max 50). Default: 50 */
+    pageSize?: number;
+    /** Pages fetched in parallel by listAll. Default: 4 */
+    concurrency?: number;
+}
+
+/**
+ * Adaptive bitrate profile of the application's transcoder
+ */
+export type EncoderSetting = ManagementApi.EncoderSettings;
+
+/**
+ * Application settings (AppSettings schema of management.open-api.json)
+ */
+export type AppSettings = ManagementApi.AppSettings;
+
+/**
+ * Stream and VoD counts of an application
+ */
+export type ApplicationInfo = Awaited<ReturnType<typeof ManagementApi.getApplicationInfo>>[number];
+
+/**
+ * CPU, memory, disk and connection counts of the server
+ */
+export type SystemResources = Awaited<ReturnType<typeof ManagementApi.getSystemResourcesInfo>>;
+
+/**
+ * Enterprise license of the server
+ */
+export type Licence = ManagementApi.Licence;
+
+/**
+ * Options of settings-mutating calls
+ */
+export interface SettingsPatchOptions extends RequestOptions {
+    /** Settings the change was made against, e.g. as loaded by a form. Default: settings read at call time */
+    base?: AppSettings;
+    /** How to resolve concurrent changes to the same fields. Default: "merge" */
+    onConflict?: ConflictStrategy;
+}
+
+/**
+ * Generate an id that ties an error to the request that caused it
+ * (crypto.randomUUID is missing on plain-http origins)
+ */
+function createRequestId(): string {
+    if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+        return crypto.randomUUID();
+    }
+
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * JWT used for a request: a fixed token or a manager that refreshes it
+ */
+export type JwtAuth = string | JwtTokenManager;
+
+/**
+ * Hooks called around every request sent by an AntMediaClient instance
+ */
+export interface AntMediaClientHooks {
+    /**
+     * Called before a request is sent. May mutate the request init (e.g. add headers)
+     */
+    beforeRequest?: (url: string, init: RequestInit) => void | Promise<void>;
+    /**
+     * Called with every response, before the client inspects it
+     */
+    afterResponse?: (response: Response, url: string, init: RequestInit) => void | Promise<void>;
+}
+
+/**
+ * Connection configuration of an AntMediaClient instance
+ */
+export interface AntMediaClientConfig {
+    /** Base server URL, e.g. http://localhost:5080 */
+    serverUrl: string;
+    /** Application name, e.g. LiveApp */
+    appName: string;
+    /** (Optional) JWT token or token manager sent with every request */
+    auth?: JwtAuth;
+    /** (Optional) fetch implementation. Default: global fetch */
+    fetch?: typeof fetch;
+    /** (Optional) Headers added to every request */
+    headers?: Record<string, string>;
+    /** (Optional) REST base path. Default: /rest/v2 */
+    basePath?: string;
+    /**
+     * (Optional) Base path of this app's /api routes, e.g. "/api". When set, requests
+     * go to those routes, which hold the AMS credentials, instead of to serverUrl
+     */
+    proxyPath?: string;
+    /** (Optional) Connection profile the proxy routes use. Default: the default profile */
+    profileId?: string;
+    /** (Optional) Request hooks */
+    hooks?: AntMediaClientHooks;
+    /** (Optional) Default timeout in ms, 0 disables it. Default: 15000 */
+    timeoutMs?: number;
+    /** (Optional) Default retry policy for GET requests. Default: DEFAULT_RETRY_POLICY */
+    retry?: RetryPolicy;
+    /** (Optional) Response validation. Default: "strict" when NODE_ENV is "test", "lenient" otherwise */
+    validation?: ValidationMode;
+}
+
 /**
- * Broadcast object interface based on OpenAPI schema
+ * Schemas of one generated API module
  */
-export interface Broadcast {
-    streamId?: string;
-    status?: "finished" | "broadcasting" | "created" | "preparing" | "error" | "failed";
-    type?: "liveStream" | "ipCamera" | "streamSource" | "VoD" | "playlist";
-    publishType?: "WebRTC" | "RTMP" | "Pull" | "SRT";
-    name?: string;
-    description?: string;
-    publish?: boolean;
-    date?: number;
-    ipAddr?: string;
-    username?: string;
-    password?: string;
-    streamUrl?: string;
-    [key: string]: any;
+interface ApiSchemas {
+    schemas: Record<string, Schema>;
+    responseSchemas: Record<string, Schema>;
 }
 
+/** Issues already logged in lenient mode, so that polling doesn't flood the console */
+const reportedIssues = new Set<string>();
+
+/**
+ * Log lenient-mode validation issues once per operation and field
+ */
+function reportIssues(operationId: string, issues: ValidationIssue[]) {
+    const fresh = issues.filter((issue) => {
+        const key = `${operationId} ${issue.kind} ${issue.path.replace(/\[\d+\]/g, "[]")}`;
+        if (reportedIssues.has(key)) return false;
+        reportedIssues.add(key);
+        return true;
+    });
+
+    if (fresh.length > 0) {
+        console.warn(
+            `Ant Media response of ${operationId} does not match the API spec:`,
+            fresh.map((issue) => `${issue.path}: ${issue.message}`)
+        );
+    }
+}
+
+/**
+ * Management paths served by differently named proxy routes. The proxy takes
+ * the application from the X-AMS-App header
+ */
+const PROXY_ROUTES: Record<string, string> = {
+    "applications/settings/{app}": "settings",
+    "users/authenticate": "auth/login",
+};
+
 /**
  * Ant Media Server Client
- * Implements endpoints from broadcast.open-api.json
+ * Typed layer over the endpoint functions generated from broadcast.open-api.json
+ * and management.open-api.json (see scripts/generate-api.mjs)
  */
 export class AntMediaClient {
+    public readonly serverUrl: string;
+    public readonly appName: string;
+    /** Transport for BroadcastApi functions, scoped to the application */
+    public readonly appApi: ApiSend;
+    /** Transport for ManagementApi functions */
+    public readonly managementApi: ApiSend;
+    private readonly config: AntMediaClientConfig;
+
+    constructor(config: AntMediaClientConfig) {
+        this.config = config;
+        this.serverUrl = config.serverUrl.replace(/\/+$/, "");
+        this.appName = config.appName;
+        this.appApi = this.createTransport((path) => this.appUrl(path), BroadcastApi);
+        this.managementApi = this.createTransport((path) => this.rootUrl(path), ManagementApi);
+    }
+
+    /**
+     * Create a client that shares this client's configuration with some fields overridden
+     * @param config - Fields to override
+     * @returns New client instance
+     */
+    public withConfig(config: Partial<AntMediaClientConfig>): AntMediaClient {
+        return new AntMediaClient({ ...this.config, ...config });
+    }
+
+    /**
+     * Build URL of an application-scoped endpoint, e.g. /{app}/rest/v2/broadcasts
+     */
+    private appUrl(path: string): string {
+        if (this.config.proxyPath !== undefined) {
+            return `${this.config.proxyPath}/${path}`;
+        }
+        return `${this.serverUrl}/${this.appName}${this.config.basePath ?? "/rest/v2"}/${path}`;
+    }
+
+    /**
+     * Build URL of a server-scoped (management) endpoint, e.g. /rest/v2/applications
+     */
+    private rootUrl(path: string): string {
+        if (this.config.proxyPath !== undefined) {
+            // Compared whole: the app name may also appear in other segments, e.g. "app" in "applications"
+            const template = Object.keys(PROXY_ROUTES).find((route) => route.replace("{app}", this.appName) === path);
+            return `${this.config.proxyPath}/${template ? PROXY_ROUTES[template] : path}`;
+        }
+        return `${this.serverUrl}${this.config.basePath ?? "/rest/v2"}/${path}`;
+    }
+
+    /**
+     * Create the transport used by generated endpoint functions
+     * @param buildUrl - Resolves a path relative to the REST base path
+     * @param api - Schemas used to validate responses
+     */
+    private createTransport(buildUrl: (path: string) => string, api: ApiSchemas): ApiSend {
+        return async <T>(request: ApiRequest, options?: RequestOptions): Promise<T> => {
+            const url = appendQuery(
+                new URL(buildUrl(request.path), globalThis.location?.origin),
+                request.query
+            );
+            const body =
+                request.body === undefined || request.body instanceof FormData
+                    ? request.body
+                    : JSON.stringify(request.body);
+
+            const response = await this.request(
+                url.toString(),
+                { method: request.method, body },
+                `Failed to ${describeOperation(request.operationId)}`,
+                options
+            );
+
+            return this.validate<T>(request, url.toString(), await parseBody(response), api);
+        };
+    }
+
+    /**
+     * Validate a response body against the operation's response schema
+     * @throws ResponseValidationError in strict mode
+     */
+    private validate<T>(request: ApiRequest, url: string, body: unknown, api: ApiSchemas): T {
+        const mode = this.config.validation ?? (process.env.NODE_ENV === "test" ? "strict" : "lenient");
+        const schema = api.responseSchemas[request.operationId];
+
+        if (mode === "off" || !schema) {
+            return body as T;
+        }
+
+        const { value, issues } = validateSchema<T>(body, schema, api.schemas);
+
+        if (issues.length > 0 && mode === "strict") {
+            throw new ResponseValidationError(
+                `Response of ${request.operationId} does not match the API spec: ${issues
+                    .slice(0, 5)
+                    .map((issue) => `${issue.path} ${issue.message}`)
+                    .join("; ")}`,
+                { endpoint: url, method: request.method, issues }
+            );
+        }
+        if (issues.length > 0) {
+            reportIssues(request.operationId, issues);
+        }
+
+        return value;
+    }
+
     /**
      * Build fetch headers with optional JWT token
-     * @param jwtToken - Optional JWT token to include in ProxyAuthorization header
+     * @param jwtToken - Optional JWT token, sent in the Authorization header read by
+     * Ant Media's JWT filters and in ProxyAuthorization for cluster forwarding
+     * @param body - Request body; FormData bodies get their own multipart Content-Type
      * @returns Headers object
      */
-    private static buildHeaders(jwtToken?: string): Record<string, string> {
-        const headers: Record<string, string> = {
-            "Content-Type": "application/json",
-        };
+    private buildHeaders(jwtToken?: string, body?: BodyInit | null): Record<string, string> {
+        const headers: Record<string, string> = { ...this.config.headers };
+
+        if (!(body instanceof FormData)) {
+            headers["Content-Type"] = "application/json";
+        }
+
+        if (this.config.proxyPath !== undefined) {
+            headers["X-AMS-App"] = this.appName;
+            if (this.config.profileId) {
+                headers["X-AMS-Profile"] = this.config.profileId;
+            }
+        }
 
         if (jwtToken) {
+            headers["Authorization"] = jwtToken;
             headers["ProxyAuthorization"] = jwtToken;
         }
 
         return headers;
     }
 
+    /**
+     * Resolve the JWT to send: a fixed token string or a fresh one from a token manager
+     */
+    private async resolveToken(): Promise<string | undefined> {
+        const { auth } = this.config;
+
+        if (auth instanceof JwtTokenManager) {
+            return auth.getToken();
+        }
+
+        return auth;
+    }
+
+    /**
+     * Send a single request through the configured fetch and hooks
+     * @throws AbortError when the caller's signal aborts
+     * @throws TimeoutError when the timeout elapses
+     * @throws NetworkError when no response is received
+     */
+    private async send(
+        url: string,
+        init: RequestInit,
+        requestId: string,
+        jwtToken?: string,
+        options?: RequestOptions
+    ): Promise<Response> {
+        const timeout = createTimeoutSignal(
+            options?.signal,
+            options?.timeoutMs ?? this.config.timeoutMs ?? 15000
+        );
+        const requestInit: RequestInit = {
+            ...init,
+            headers: this.buildHeaders(jwtToken, init.body),
+            signal: timeout.signal,
+        };
+        const details = { endpoint: url, method: init.method || "GET", requestId };
+
+        await this.config.hooks?.beforeRequest?.(url, requestInit);
+
+        let response: Response;
+        try {
+            response = await (this.config.fetch ?? fetch)(url, requestInit);
+        } catch (error) {
+            if (options?.signal?.aborted) {
+                throw error;
+            }
+            if (timeout.timedOut()) {
+                throw new TimeoutError(`Request to ${url} timed out`, { ...details, cause: error });
+            }
+            throw new NetworkError(
+                `Network error while requesting ${url}: ${error instanceof Error ? error.message : error}`,
+                { ...details, cause: error }
+            );
+        } finally {
+            timeout.cleanup();
+        }
+
+        await this.config.hooks?.afterResponse?.(response, url, requestInit);
+
+        return response;
+    }
+
+    /**
+     * Whether a failed request may be retried: only idempotent GETs that
+     * failed with a 5xx or highResourceUsage response
+     */
+    private isRetryable(error: unknown, method: string): boolean {
+        if (method !== "GET" || !(error instanceof AntMediaError)) {
+            return false;
+        }
+
+        return error instanceof ServerBusyError || (error.status !== undefined && error.status >= 500);
+    }
+
+    /**
+     * Send a request with the JWT attached, retrying GETs per the retry policy
+     * If the server answers 401 and the token comes from a token manager, the token
+     * is refreshed and the request is sent once more
+     * @param url - Request URL
+     * @param init - Fetch options (method, body)
+     * @param errorMessage - Message of the error thrown for non-2xx responses
+     * @param options - (Optional) Signal, timeout and retry overrides
+     * @returns Fetch response
+     * @throws AntMediaError subclass matching the failure
+     */
+    private async request(
+        url: string,
+        init: RequestInit,
+        errorMessage: string,
+        options?: RequestOptions
+    ): Promise<Response> {
+        const method = init.method || "GET";
+        const policy = options?.retry ?? this.config.retry ?? DEFAULT_RETRY_POLICY;
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.attempt(url, init, errorMessage, options);
+            } catch (error) {
+                if (attempt >= policy.retries || !this.isRetryable(error, method)) {
+                    throw error;
+                }
+
+                await sleep(computeBackoffDelay(policy, attempt), options?.signal);
+            }
+        }
+    }
+
+    /**
+     * Single attempt of a request, including the 401 token refresh
+     */
+    private async attempt(
+        url: string,
+        init: RequestInit,
+        errorMessage: string,
+        options?: RequestOptions
+    ): Promise<Response> {
+        const { auth } = this.config;
+        const requestId = createRequestId();
+        const token = await this.resolveToken();
+        let response = await this.send(url, init, requestId, token, options);
+
+        if (response.status === 401 && auth instanceof JwtTokenManager) {
+            auth.invalidate();
+            const refreshedToken = await auth.refresh();
+
+            if (refreshedToken && refreshedToken !== token) {
+                response = await this.send(url, init, requestId, refreshedToken, options);
+            }
+        }
+
+        if (!response.ok) {
+            throw await createResponseError(
+                response,
+                { endpoint: url, method: init.method || "GET", requestId },
+                errorMessage
+            );
+        }
+
+        return response;
+    }
+
     /**
      * Authenticate user with the server
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
+     * POST /v2/users/authenticate
      * @param email - User email
      * @param password - User password
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
      * @returns Authentication response
      */
-    public static async authenticate(
-        serverUrl: string,
-        appName: string,
+    public async authenticate(
         email: string,
         password: string,
-        jwtToken?: string
+        requestOptions?: RequestOptions
     ) {
-        const response = await fetch(
-            `${serverUrl}/rest/v2/users/authenticate`,
-            {
-                method: "POST",
-                headers: this.buildHeaders(undefined),
-                body: JSON.stringify({
-                    email,
-                    password,
-                }),
-            }
+        return ManagementApi.authenticateUser(
+            this.managementApi,
+            { email, password },
+            requestOptions
         );
-
-        if (!response.ok) {
-            throw new Error("Failed to authenticate");
-        }
-
-        return await response.json();
     }
 
     /**
      * Create initial user (one-time setup)
      * POST /v2/users/initial
      * Creates initial user. This is a one-time scenario when initial user creation is required and shouldn't be used otherwise.
-     * @param serverUrl - Base server URL
      * @param email - User email
      * @param password - User password
      * @param userType - (Optional) User type. Default: "ADMIN"
      * @param firstName - (Optional) User first name
      * @param lastName - (Optional) User last name
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
      * @returns Creation result
      */
-    public static async createInitialUser(
-        serverUrl: string,
+    public async createInitialUser(
         email: string,
         password: string,
-        userType: string = "ADMIN",
+        userType: NonNullable<ManagementApi.User["userType"]> = "ADMIN",
         firstName?: string,
-        lastName?: string
+        lastName?: string,
+        requestOptions?: RequestOptions
     ) {
-        const userObject: any = {
+        const user: ManagementApi.User = {
             email,
             password,
             userType,
         };
 
-        if (firstName) userObject.firstName = firstName;
-        if (lastName) userObject.lastName = lastName;
+        if (firstName) user.firstName = firstName;
+        if (lastName) user.lastName = lastName;
 
-        const response = await fetch(
-            `${serverUrl}/rest/v2/users/initial`,
-            {
-                method: "POST",
-                headers: this.buildHeaders(undefined),
-                body: JSON.stringify(userObject),
-            }
-        );
+        return ManagementApi.addInitialUser(this.managementApi, user, requestOptions);
+    }
 
-        if (!response.ok) {
-            const error = await response.json();
-            throw new Error(
-                error?.message || `Failed to create initial user (HTTP ${response.status})`
-            );
-        }
+    /**
+     * Check whether the server still needs its first user
+     * GET /v2/first-login-status
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
+     * @returns True if no user exists yet
+     */
+    public async isFirstLogin(requestOptions?: RequestOptions) {
+        const result = await ManagementApi.isFirstLogin(this.managementApi, requestOptions);
+        return result.success === true;
+    }
+
+    /**
+     * List application names
+     * GET /v2/applications
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
+     * @returns Application names, e.g. ["LiveApp", "WebRTCAppEE"]
+     */
+    public async getApplications(requestOptions?: RequestOptions) {
+        const result = await ManagementApi.getApplications(this.managementApi, requestOptions);
+        return result.applications || [];
+    }
+
+    /**
+     * Create an application
+     * POST /v2/applications/{appName}
+     * @param appName - Application name; letters, digits and underscores
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
+     * @returns Creation result
+     */
+    public async createApplication(appName: string, requestOptions?: RequestOptions) {
+        return ManagementApi.createApplication(this.managementApi, { appName }, requestOptions);
+    }
+
+    /**
+     * List applications with their live stream and VoD counts
+     * GET /v2/applications-info
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
+     * @returns One entry per application
+     */
+    public async getApplicationsInfo(requestOptions?: RequestOptions) {
+        return ManagementApi.getApplicationInfo(this.managementApi, requestOptions);
+    }
+
+    /**
+     * Delete an application
+     * DELETE /v2/applications/{appName}
+     * @param appName - Application to delete
+     * @param deleteDB - (Optional) Also delete the application's database. Default: false
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
+     * @returns Deletion result
+     */
+    public async deleteApplication(
+        appName: string,
+        deleteDB: boolean = false,
+        requestOptions?: RequestOptions
+    ) {
+        return ManagementApi.deleteApplication(this.managementApi, { appName, deleteDB }, requestOptions);
+    }
+
+    /**
+     * Copy settings fields from one application to another
+     * GET /v2/applications/settings/{source} + patchSettings on the target
+     * The target keeps its other fields; the copied fields are merged with
+     * changes made to the target meanwhile, as in patchSettings. The source is
+     * read without validation, so that its values are copied as AMS sent them
+     * @param sourceApp - Application to copy from
+     * @param targetApp - Application to copy to
+     * @param fields - Settings fields to copy, e.g. ["encoderSettings"]
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
+     * @returns Update result
+     * @throws SettingsConflictError when a copied field changed on the target meanwhile
+     */
+    public async copySettings(
+        sourceApp: string,
+        targetApp: string,
+        fields: (keyof AppSettings)[],
+        requestOptions?: RequestOptions
+    ) {
+        const [source, base] = await Promise.all([
+            this.withConfig({ appName: sourceApp, validation: "off" }).getSettings(requestOptions),
+            ManagementApi.getSettings(this.managementApi, { appname: targetApp }, requestOptions),
+        ]);
+        const copied: Partial<AppSettings> = Object.fromEntries(fields.map((field) => [field, source[field]]));
+
+        return this.withConfig({ appName: targetApp }).patchSettings(copied, { ...requestOptions, base });
+    }
+
+    /**
+     * Get the server's CPU, memory and disk usage and connection counts
+     * GET /v2/system-resources
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
+     * @returns System resources snapshot
+     */
+    public async getSystemResources(requestOptions?: RequestOptions) {
+        return ManagementApi.getSystemResourcesInfo(this.managementApi, requestOptions);
+    }
 
-        return await response.json();
+    /**
+     * Get the result of the server's last license check
+     * GET /v2/last-licence-status
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
+     * @returns License, or null when the server has none (Community Edition)
+     */
+    public async getLicenceStatus(requestOptions?: RequestOptions): Promise<Licence | null> {
+        const licence = await ManagementApi.getLicenceStatus(this.managementApi, requestOptions);
+        return licence?.licenceId ? licence : null;
     }
 
     /**
      * Create a new broadcast
      * POST /v2/broadcasts/create
      * Creates a Broadcast, IP Camera or Stream Source and returns the full broadcast object
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
      * @param broadcast - Broadcast object with configuration
      * @param autoStart - (Optional) Only effective for IP Camera or Stream Source. If true, starts automatically. Default: false
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
      * @returns Created broadcast object with streamId, rtmpAddress, etc.
      */
-    public static async createBroadcast(
-        serverUrl: string,
-        appName: string,
+    public async createBroadcast(
         broadcast: Broadcast = {},
         autoStart: boolean = false,
-        jwtToken?: string
+        requestOptions?: RequestOptions
     ) {
-        const url = new URL(`${serverUrl}/${appName}/rest/v2/broadcasts/create`);
-        url.searchParams.append("autoStart", autoStart.toString());
-
-        const response = await fetch(url.toString(), {
-            method: "POST",
-            headers: this.buildHeaders(undefined),
-            body: JSON.stringify(broadcast),
-        });
-
-        if (!response.ok) {
-            const error = await response.json();
-            throw new Error(
-                error?.message || `Failed to create broadcast (HTTP ${response.status})`
-            );
-        }
-
-        return await response.json();
+        return BroadcastApi.createBroadcast(
+            this.appApi,
+            { autoStart },
+            broadcast,
+            requestOptions
+        );
     }
 
     /**
      * Fetch broadcasts list with pagination
      * GET /v2/broadcasts/list/{offset}/{size}
      * Gets the broadcast list from database. It returns max 50 items at a time
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
      * @param offset - Starting point of the list (for pagination)
      * @param size - Number of items to fetch (max 50)
      * @param options - (Optional) Additional query parameters
@@ -172,545 +674,410 @@ export class AntMediaClient {
      * @param options.sort_by - Field to sort by ("name", "date", "status")
      * @param options.order_by - Sort order ("asc" or "desc")
      * @param options.search - Search parameter to filter results
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
      * @returns Array of broadcast objects
      */
-    public static async fetchBroadcasts(
-        serverUrl: string,
-        appName: string,
+    public async fetchBroadcasts(
         offset: number = 0,
         size: number = 50,
-        options?: {
-            type_by?: string;
-            sort_by?: string;
-            order_by?: string;
-            search?: string;
-        },
-        jwtToken?: string
+        options?: BroadcastListOptions,
+        requestOptions?: RequestOptions
     ) {
-        const url = new URL(
-            `${serverUrl}/${appName}/rest/v2/broadcasts/list/${offset}/${size}`
+        return BroadcastApi.getBroadcastList(
+            this.appApi,
+            { ...options, offset, size },
+            requestOptions
         );
-
-        // Add optional query parameters
-        if (options?.type_by) url.searchParams.append("type_by", options.type_by);
-        if (options?.sort_by) url.searchParams.append("sort_by", options.sort_by);
-        if (options?.order_by) url.searchParams.append("order_by", options.order_by);
-        if (options?.search) url.searchParams.append("search", options.search);
-
-        const response = await fetch(url.toString(), {
-            method: "GET",
-            headers: this.buildHeaders(undefined),
-        });
-
-        if (!response.ok) {
-            throw new Error(
-                `Failed to fetch broadcasts (HTTP ${response.status})`
-            );
-        }
-
-        return await response.json();
     }
 
     /**
      * Get a specific broadcast by ID
      * GET /v2/broadcasts/{id}
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
      * @param streamId - The ID of the broadcast to retrieve
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
      * @returns Broadcast object
      */
-    public static async getBroadcast(
-        serverUrl: string,
-        appName: string,
+    public async getBroadcast(
         streamId: string,
-        jwtToken?: string
+        requestOptions?: RequestOptions
     ) {
-        const response = await fetch(
-            `${serverUrl}/${appName}/rest/v2/broadcasts/${streamId}`,
-            {
-                method: "GET",
-                headers: this.buildHeaders(undefined),
-            }
-        );
-
-        if (!response.ok) {
-            throw new Error(
-                response.status === 404
-                    ? `Broadcast not found: ${streamId}`
-                    : `Failed to get broadcast (HTTP ${response.status})`
-            );
-        }
-
-        return await response.json();
+        return BroadcastApi.getBroadcast(this.appApi, { id: streamId }, requestOptions);
     }
 
     /**
      * Update a broadcast
      * PUT /v2/broadcasts/{id}
      * Updates the Broadcast object fields. Only non-null fields are updated.
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
      * @param streamId - The ID of the broadcast to update
      * @param broadcast - Broadcast object with fields to update
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
      * @returns Update result
      */
-    public static async updateBroadcast(
-        serverUrl: string,
-        appName: string,
+    public async updateBroadcast(
         streamId: string,
-        broadcast: Partial<Broadcast>,
-        jwtToken?: string
+        broadcast: BroadcastApi.BroadcastUpdate,
+        requestOptions?: RequestOptions
     ) {
-        const response = await fetch(
-            `${serverUrl}/${appName}/rest/v2/broadcasts/${streamId}`,
-            {
-                method: "PUT",
-                headers: this.buildHeaders(undefined),
-                body: JSON.stringify(broadcast),
-            }
+        return BroadcastApi.updateBroadcast(
+            this.appApi,
+            { id: streamId },
+            broadcast,
+            requestOptions
         );
-
-        if (!response.ok) {
-            throw new Error(
-                `Failed to update broadcast (HTTP ${response.status})`
-            );
-        }
-
-        return await response.json();
     }
 
     /**
      * Delete a broadcast
      * DELETE /v2/broadcasts/{id}
      * Delete broadcast from data store and stop if it's broadcasting
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
      * @param streamId - The ID of the broadcast to delete
      * @param deleteSubtracks - (Optional) Also delete subtracks. Default: false
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
      * @returns Delete result
      */
-    public static async deleteBroadcast(
-        serverUrl: string,
-        appName: string,
+    public async deleteBroadcast(
         streamId: string,
         deleteSubtracks: boolean = false,
-        jwtToken?: string
+        requestOptions?: RequestOptions
     ) {
-        const url = new URL(
-            `${serverUrl}/${appName}/rest/v2/broadcasts/${streamId}`
+        return BroadcastApi.deleteBroadcast(
+            this.appApi,
+            { id: streamId, deleteSubtracks: deleteSubtracks || undefined },
+            requestOptions
         );
+    }
 
-        if (deleteSubtracks) {
-            url.searchParams.append("deleteSubtracks", "true");
-        }
-
-        const response = await fetch(url.toString(), {
-            method: "DELETE",
-            headers: this.buildHeaders(undefined),
-        });
-
-        if (!response.ok) {
-            throw new Error(
-                `Failed to delete broadcast (HTTP ${response.status})`
-            );
-        }
-
-        return await response.json();
+    /**
+     * Stop a broadcast
+     * POST /v2/broadcasts/{id}/stop
+     * Terminates ingested (RTMP, WebRTC) and pulled (IP camera, stream source) streams.
+     * The broadcast itself is kept
+     * @param streamId - The ID of the broadcast to stop
+     * @param stopSubtracks - (Optional) Also stop subtracks. Default: false
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
+     * @returns Stop result
+     */
+    public async stopBroadcast(
+        streamId: string,
+        stopSubtracks: boolean = false,
+        requestOptions?: RequestOptions
+    ) {
+        return BroadcastApi.stopStreamingV2(
+            this.appApi,
+            { id: streamId, stopSubtracks: stopSubtracks || undefined },
+            requestOptions
+        );
     }
 
     /**
      * Get total number of broadcasts
      * GET /v2/broadcasts/count
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
      * @returns Object with total count
      */
-    public static async getBroadcastCount(
-        serverUrl: string,
-        appName: string,
-        jwtToken?: string
-    ) {
-        const response = await fetch(
-            `${serverUrl}/${appName}/rest/v2/broadcasts/count`,
-            {
-                method: "GET",
-                headers: this.buildHeaders(undefined),
-            }
-        );
+    public async getBroadcastCount(requestOptions?: RequestOptions) {
+        return BroadcastApi.getTotalBroadcastNumberV2(this.appApi, requestOptions);
+    }
 
-        if (!response.ok) {
-            throw new Error(
-                `Failed to get broadcast count (HTTP ${response.status})`
-            );
-        }
+    /**
+     * Get broadcast count filtered by search term
+     * GET /v2/broadcasts/count/{search}
+     * @param search - Search parameter to get the number of items including it
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
+     * @returns Object with filtered broadcast count
+     */
+    public async getBroadcastCountBySearch(
+        search: string,
+        requestOptions?: RequestOptions
+    ) {
+        return BroadcastApi.getTotalBroadcastNumberV2_1(this.appApi, { search }, requestOptions);
+    }
 
-        return await response.json();
+    /**
+     * Get the number of live broadcasts
+     * GET /v2/broadcasts/active-live-stream-count
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
+     * @returns Object with the live broadcast count
+     */
+    public async getLiveBroadcastCount(requestOptions?: RequestOptions) {
+        return BroadcastApi.getAppLiveStatistics(this.appApi, requestOptions);
     }
 
     /**
      * Get application settings
      * GET /v2/applications/settings/{appname}
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
      * @returns Application settings object
      */
-    public static async getSettings(
-        serverUrl: string,
-        appName: string,
-        jwtToken?: string
-    ) {
-        const response = await fetch(
-            `${serverUrl}/rest/v2/applications/settings/${appName}`,
-            {
-                method: "GET",
-                headers: this.buildHeaders(jwtToken),
-            }
+    public async getSettings(requestOptions?: RequestOptions) {
+        return ManagementApi.getSettings(
+            this.managementApi,
+            { appname: this.appName },
+            requestOptions
         );
-
-        if (!response.ok) {
-            throw new Error(
-                `Failed to get application settings (HTTP ${response.status})`
-            );
-        }
-
-        return await response.json();
     }
 
     /**
      * Update application settings
      * POST /v2/applications/settings/{appname}
      * Changes the application settings. Only non-null fields are updated.
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
      * @param settings - Settings object with fields to update
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
      * @returns Update result
      */
-    public static async updateSettings(
-        serverUrl: string,
-        appName: string,
-        settings: Record<string, any>,
-        jwtToken?: string
+    public async updateSettings(
+        settings: AppSettings,
+        requestOptions?: RequestOptions
     ) {
-        const response = await fetch(
-            `${serverUrl}/rest/v2/applications/settings/${appName}`,
-            {
-                method: "POST",
-                headers: this.buildHeaders(jwtToken),
-                body: JSON.stringify(settings),
-            }
+        return ManagementApi.changeSettings(
+            this.managementApi,
+            { appname: this.appName },
+            settings,
+            requestOptions
         );
+    }
 
-        if (!response.ok) {
-            const error = await response.json();
-            throw new Error(
-                error?.message || `Failed to update settings (HTTP ${response.status})`
+    /**
+     * Change application settings without overwriting concurrent edits
+     * Computes the field-level diff of `base` → desired, re-reads the settings
+     * right before writing and applies only the changed fields on top of them.
+     * Fields changed by someone else in the meantime are merged (keyed lists
+     * such as encoderSettings) or raised as a SettingsConflictError.
+     * The latest settings are read without validation, so that values filled
+     * in by lenient validation are never written back to AMS.
+     * GET + POST /v2/applications/settings/{appname}
+     * @param update - Fields to change, or a function returning the desired settings from a copy of `base`
+     * @param options - (Optional) Base settings, conflict strategy, signal, timeout and retry overrides
+     * @returns Update result
+     */
+    public async patchSettings(
+        update: Partial<AppSettings> | ((current: AppSettings) => AppSettings),
+        options: SettingsPatchOptions = {}
+    ) {
+        const { base: givenBase, onConflict = "merge", ...requestOptions } = options;
+        const base: AppSettings = givenBase ?? await this.getSettings(requestOptions);
+        const desired = typeof update === "function"
+            ? update(structuredClone(base))
+            : { ...base, ...update };
+
+        const changes = diffSettings(base, desired);
+        if (changes.length === 0) {
+            return { success: true };
+        }
+
+        const latest = await this.withConfig({ validation: "off" }).getSettings(requestOptions);
+        const { merged, conflicts } = mergeSettings(latest, changes, onConflict);
+
+        if (conflicts.length > 0) {
+            throw new SettingsConflictError(
+                conflicts,
+                this.rootUrl(`applications/settings/${this.appName}`)
             );
         }
 
-        return await response.json();
+        return this.updateSettings(merged, requestOptions);
     }
 
     /**
      * Enable or disable MP4 recording
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
      * @param enabled - Whether to enable (true) or disable (false) MP4 recording
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param options - (Optional) Base settings, conflict strategy, signal, timeout and retry overrides
      * @returns Update result
      */
-    public static async setMp4RecordingEnabled(
-        serverUrl: string,
-        appName: string,
+    public async setMp4RecordingEnabled(
         enabled: boolean,
-        jwtToken?: string
+        options?: SettingsPatchOptions
     ) {
-        const currentSettings = await this.getSettings(serverUrl, appName, jwtToken);
-        return this.updateSettings(
-            serverUrl,
-            appName,
-            {
-                ...currentSettings,
-                mp4MuxingEnabled: enabled,
-            },
-            jwtToken
-        );
+        return this.patchSettings({ mp4MuxingEnabled: enabled }, options);
     }
 
     /**
      * Get encoder settings for transcoding
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
      * @returns Promise with encoder settings array
      */
-    public static async getEncoderSettings(
-        serverUrl: string,
-        appName: string,
-        jwtToken?: string
-    ) {
-        const settings = await this.getSettings(serverUrl, appName, jwtToken);
+    public async getEncoderSettings(requestOptions?: RequestOptions) {
+        const settings = await this.getSettings(requestOptions);
         return settings.encoderSettings || [];
     }
 
     /**
      * Add a new transcoding bitrate profile
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
      * @param height - Resolution height in pixels
      * @param videoBitrate - Video bitrate in kbps
      * @param audioBitrate - Audio bitrate in kbps
      * @param forceEncode - Whether to force encoding
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param options - (Optional) Base settings, conflict strategy, signal, timeout and retry overrides
      * @returns Update result
      */
-    public static async addEncoderBitrate(
-        serverUrl: string,
-        appName: string,
+    public async addEncoderBitrate(
         height: number,
         videoBitrate: number,
         audioBitrate: number,
         forceEncode: boolean = false,
-        jwtToken?: string
+        options?: SettingsPatchOptions
     ) {
-        const settings = await this.getSettings(serverUrl, appName, jwtToken);
-        const encoderSettings = settings.encoderSettings || [];
+        return this.patchSettings((settings) => {
+            const encoderSettings = settings.encoderSettings || [];
+            const profile = { height, videoBitrate, audioBitrate, forceEncode };
 
-        // Check if bitrate profile already exists for this height
-        const existingIndex = encoderSettings.findIndex(
-            (e: any) => e.height === height
-        );
+            // Check if bitrate profile already exists for this height
+            const existingIndex = encoderSettings.findIndex(
+                (e) => e.height === height
+            );
 
-        if (existingIndex >= 0) {
-            // Update existing
-            encoderSettings[existingIndex] = {
-                height,
-                videoBitrate,
-                audioBitrate,
-                forceEncode,
-            };
-        } else {
-            // Add new
-            encoderSettings.push({
-                height,
-                videoBitrate,
-                audioBitrate,
-                forceEncode,
-            });
-        }
+            if (existingIndex >= 0) {
+                // Update existing
+                encoderSettings[existingIndex] = profile;
+            } else {
+                // Add new
+                encoderSettings.push(profile);
+            }
 
-        return this.updateSettings(serverUrl, appName, {
-            ...settings,
-            encoderSettings,
-        }, jwtToken);
+            return { ...settings, encoderSettings };
+        }, options);
     }
 
     /**
      * Remove a transcoding bitrate profile
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
      * @param height - Resolution height to remove
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param options - (Optional) Base settings, conflict strategy, signal, timeout and retry overrides
      * @returns Update result
      */
-    public static async removeEncoderBitrate(
-        serverUrl: string,
-        appName: string,
+    public async removeEncoderBitrate(
         height: number,
-        jwtToken?: string
+        options?: SettingsPatchOptions
     ) {
-        const settings = await this.getSettings(serverUrl, appName, jwtToken);
-        const encoderSettings = (settings.encoderSettings || []).filter(
-            (e: any) => e.height !== height
-        );
-
-        return this.updateSettings(
-            serverUrl,
-            appName,
-            {
-                ...settings,
-                encoderSettings,
-            },
-            jwtToken
-        );
+        return this.patchSettings((settings) => ({
+            ...settings,
+            encoderSettings: (settings.encoderSettings || []).filter(
+                (e) => e.height !== height
+            ),
+        }), options);
     }
 
     /**
      * Get all encoder bitrate profiles
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
      * @returns Array of encoder settings objects
      */
-    public static async getAllEncoderBitrates(
-        serverUrl: string,
-        appName: string,
-        jwtToken?: string
-    ) {
-        return this.getEncoderSettings(serverUrl, appName, jwtToken);
+    public async getAllEncoderBitrates(requestOptions?: RequestOptions) {
+        return this.getEncoderSettings(requestOptions);
     }
 
     /**
      * Update encoder bitrate profile
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
      * @param height - Resolution height to update
      * @param videoBitrate - New video bitrate in kbps
      * @param audioBitrate - New audio bitrate in kbps
      * @param forceEncode - Whether to force encoding
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param options - (Optional) Base settings, conflict strategy, signal, timeout and retry overrides
      * @returns Update result
      */
-    public static async updateEncoderBitrate(
-        serverUrl: string,
-        appName: string,
+    public async updateEncoderBitrate(
         height: number,
         videoBitrate: number,
         audioBitrate: number,
         forceEncode: boolean = false,
-        jwtToken?: string
+        options?: SettingsPatchOptions
     ) {
-        const settings = await this.getSettings(serverUrl, appName, jwtToken);
-        const encoderSettings = settings.encoderSettings || [];
-
-        const index = encoderSettings.findIndex((e: any) => e.height === height);
-
-        if (index < 0) {
-            throw new Error(`Encoder bitrate profile for height ${height} not found`);
-        }
+        return this.patchSettings((settings) => {
+            const encoderSettings = settings.encoderSettings || [];
+            const index = encoderSettings.findIndex((e) => e.height === height);
+
+            if (index < 0) {
+                throw new NotFoundError(`Encoder bitrate profile for height ${height} not found`, {
+                    endpoint: this.rootUrl(`applications/settings/${this.appName}`),
+                    method: "GET",
+                });
+            }
 
-        encoderSettings[index] = {
-            height,
-            videoBitrate,
-            audioBitrate,
-            forceEncode,
-        };
+            encoderSettings[index] = {
+                height,
+                videoBitrate,
+                audioBitrate,
+                forceEncode,
+            };
 
-        return this.updateSettings(
-            serverUrl,
-            appName,
-            {
-                ...settings,
-                encoderSettings,
-            },
-            jwtToken
-        );
+            return { ...settings, encoderSettings };
+        }, options);
     }
 
     /**
      * Enable/disable stream recording for a specific broadcast
      * PUT /v2/broadcasts/{id}/recording/{recording-status}
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
      * @param streamId - The ID of the broadcast
      * @param enabled - Whether to enable (true) or disable (false) recording
      * @param recordType - (Optional) Record type: 'mp4' or 'webm'. Default: mp4
      * @param resolutionHeight - (Optional) Resolution height of broadcast to record
      * @param fileName - (Optional) Base filename (without extension) for output VOD
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
      * @returns Result of recording setting
      */
-    public static async setStreamRecording(
-        serverUrl: string,
-        appName: string,
+    public async setStreamRecording(
         streamId: string,
         enabled: boolean,
         recordType: string = "mp4",
         resolutionHeight?: number,
         fileName?: string,
-        jwtToken?: string
+        requestOptions?: RequestOptions
     ) {
-        const url = new URL(
-            `${serverUrl}/${appName}/rest/v2/broadcasts/${streamId}/recording/${enabled}`
+        return BroadcastApi.enableRecording(
+            this.appApi,
+            {
+                id: streamId,
+                "recording-status": enabled,
+                recordType: recordType || undefined,
+                resolutionHeight: resolutionHeight || undefined,
+                fileName,
+            },
+            requestOptions
         );
-
-        if (recordType) {
-            url.searchParams.append("recordType", recordType);
-        }
-
-        if (resolutionHeight) {
-            url.searchParams.append("resolutionHeight", resolutionHeight.toString());
-        }
-
-        if (fileName) {
-            url.searchParams.append("fileName", fileName);
-        }
-
-        const response = await fetch(url.toString(), {
-            method: "PUT",
-            headers: this.buildHeaders(undefined),
-        });
-
-        if (!response.ok) {
-            throw new Error(
-                `Failed to set stream recording (HTTP ${response.status})`
-            );
-        }
-
-        return await response.json();
     }
 
     /**
      * Enable recording for a stream
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
      * @param streamId - The ID of the broadcast
      * @param options - Additional options
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
      * @returns Result of recording setting
      */
-    public static async enableRecording(
-        serverUrl: string,
-        appName: string,
+    public async enableRecording(
         streamId: string,
         options?: {
             recordType?: string;
             resolutionHeight?: number;
             fileName?: string;
         },
-        jwtToken?: string
+        requestOptions?: RequestOptions
     ) {
         return this.setStreamRecording(
-            serverUrl,
-            appName,
             streamId,
             true,
             options?.recordType || "mp4",
             options?.resolutionHeight,
             options?.fileName,
-            jwtToken
+            requestOptions
         );
     }
 
     /**
      * Disable recording for a stream
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
      * @param streamId - The ID of the broadcast
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
      * @returns Result of recording setting
      */
-    public static async disableRecording(
-        serverUrl: string,
-        appName: string,
+    public async disableRecording(
         streamId: string,
-        jwtToken?: string
+        requestOptions?: RequestOptions
     ) {
-        return this.setStreamRecording(serverUrl, appName, streamId, false, "mp4", undefined, undefined, jwtToken);
+        return this.setStreamRecording(streamId, false, "mp4", undefined, undefined, requestOptions);
     }
 
     /**
      * Get VOD list with pagination
      * GET /v2/vods/list/{offset}/{size}
      * Retrieves the list of VoD files from the database. Returns up to 50 items per page
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
      * @param offset - Starting point of the list for pagination
      * @param size - Number of items to fetch (max 50)
      * @param options - (Optional) Additional query parameters
@@ -718,260 +1085,124 @@ export class AntMediaClient {
      * @param options.order_by - Sort order ("asc" or "desc")
      * @param options.streamId - Filter results by stream ID
      * @param options.search - Search string to filter results
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
      * @returns Array of VOD objects
      */
-    public static async getVodList(
-        serverUrl: string,
-        appName: string,
+    public async getVodList(
         offset: number = 0,
         size: number = 50,
-        options?: {
-            sort_by?: "name" | "date";
-            order_by?: "asc" | "desc";
-            streamId?: string;
-            search?: string;
-        },
-        jwtToken?: string
+        options?: VodListOptions,
+        requestOptions?: RequestOptions
     ) {
-        const url = new URL(
-            `${serverUrl}/${appName}/rest/v2/vods/list/${offset}/${size}`
+        return BroadcastApi.getVodList(
+            this.appApi,
+            { ...options, offset, size },
+            requestOptions
         );
-
-        // Add optional query parameters
-        if (options?.sort_by) url.searchParams.append("sort_by", options.sort_by);
-        if (options?.order_by) url.searchParams.append("order_by", options.order_by);
-        if (options?.streamId) url.searchParams.append("streamId", options.streamId);
-        if (options?.search) url.searchParams.append("search", options.search);
-
-        const response = await fetch(url.toString(), {
-            method: "GET",
-            headers: this.buildHeaders(undefined),
-        });
-
-        if (!response.ok) {
-            throw new Error(
-                `Failed to get VOD list (HTTP ${response.status})`
-            );
-        }
-
-        return await response.json();
     }
 
     /**
      * Get total number of VOD files
      * GET /v2/vods/count
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
      * @returns Object with total VOD count
      */
-    public static async getVodCount(
-        serverUrl: string,
-        appName: string,
-        jwtToken?: string
-    ) {
-        const response = await fetch(
-            `${serverUrl}/${appName}/rest/v2/vods/count`,
-            {
-                method: "GET",
-                headers: this.buildHeaders(undefined),
-            }
-        );
-
-        if (!response.ok) {
-            throw new Error(
-                `Failed to get VOD count (HTTP ${response.status})`
-            );
-        }
-
-        return await response.json();
+    public async getVodCount(requestOptions?: RequestOptions) {
+        return BroadcastApi.getTotalVodNumber(this.appApi, requestOptions);
     }
 
     /**
      * Get VOD count filtered by search term
      * GET /v2/vods/count/{search}
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
      * @param search - Search parameter to get the number of items including it
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
      * @returns Object with filtered VOD count
      */
-    public static async getVodCountBySearch(
-        serverUrl: string,
-        appName: string,
+    public async getVodCountBySearch(
         search: string,
-        jwtToken?: string
+        requestOptions?: RequestOptions
     ) {
-        const response = await fetch(
-            `${serverUrl}/${appName}/rest/v2/vods/count/${encodeURIComponent(search)}`,
-            {
-                method: "GET",
-                headers: this.buildHeaders(undefined),
-            }
-        );
-
-        if (!response.ok) {
-            throw new Error(
-                `Failed to get VOD count by search (HTTP ${response.status})`
-            );
-        }
-
-        return await response.json();
+        return BroadcastApi.getTotalVodNumber_1(this.appApi, { search }, requestOptions);
     }
 
     /**
      * Get a specific VOD by ID
      * GET /v2/vods/{id}
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
      * @param vodId - The ID of the VOD to retrieve
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
      * @returns VOD object
      */
-    public static async getVod(
-        serverUrl: string,
-        appName: string,
+    public async getVod(
         vodId: string,
-        jwtToken?: string
+        requestOptions?: RequestOptions
     ) {
-        const response = await fetch(
-            `${serverUrl}/${appName}/rest/v2/vods/${vodId}`,
-            {
-                method: "GET",
-                headers: this.buildHeaders(undefined),
-            }
-        );
-
-        if (!response.ok) {
-            throw new Error(
-                response.status === 404
-                    ? `VOD not found: ${vodId}`
-                    : `Failed to get VOD (HTTP ${response.status})`
-            );
-        }
-
-        return await response.json();
+        return BroadcastApi.getVoD(this.appApi, { id: vodId }, requestOptions);
     }
 
     /**
      * Delete a specific VOD by ID
      * DELETE /v2/vods/{id}
      * Deletes a specific VoD file from the database by its ID
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
      * @param vodId - The ID of the VOD to delete
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
      * @returns Delete result
      */
-    public static async deleteVod(
-        serverUrl: string,
-        appName: string,
+    public async deleteVod(
         vodId: string,
-        jwtToken?: string
+        requestOptions?: RequestOptions
     ) {
-        const response = await fetch(
-            `${serverUrl}/${appName}/rest/v2/vods/${vodId}`,
-            {
-                method: "DELETE",
-                headers: this.buildHeaders(undefined),
-            }
-        );
-
-        if (!response.ok) {
-            throw new Error(
-                `Failed to delete VOD (HTTP ${response.status})`
-            );
-        }
-
-        return await response.json();
+        return BroadcastApi.deleteVoD(this.appApi, { id: vodId }, requestOptions);
     }
 
     /**
      * Delete multiple VODs by their IDs
      * DELETE /v2/vods
      * Deletes multiple VoD files from the database by their IDs (bulk delete)
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
      * @param vodIds - Array of VOD IDs to delete
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
      * @returns Delete result
      */
-    public static async deleteVods(
-        serverUrl: string,
-        appName: string,
+    public async deleteVods(
         vodIds: string[],
-        jwtToken?: string
+        requestOptions?: RequestOptions
     ) {
-        const url = new URL(`${serverUrl}/${appName}/rest/v2/vods`);
-        url.searchParams.append("ids", vodIds.join(","));
-
-        const response = await fetch(url.toString(), {
-            method: "DELETE",
-            headers: this.buildHeaders(undefined),
-        });
-
-        if (!response.ok) {
-            throw new Error(
-                `Failed to delete VODs (HTTP ${response.status})`
-            );
-        }
-
-        return await response.json();
+        return BroadcastApi.deleteVoDsBulk(
+            this.appApi,
+            { ids: vodIds.join(",") },
+            requestOptions
+        );
     }
 
     /**
      * Unlink VODs from a directory
      * DELETE /v2/vods/directory
      * Unlinks VoD path from streams directory and deletes the database record (does not delete actual files)
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
      * @param directory - Full path of the directory from which imported VoD files will be deleted from database
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
      * @returns Unlink result
      */
-    public static async unlinkVodDirectory(
-        serverUrl: string,
-        appName: string,
+    public async unlinkVodDirectory(
         directory: string,
-        jwtToken?: string
+        requestOptions?: RequestOptions
     ) {
-        const url = new URL(`${serverUrl}/${appName}/rest/v2/vods/directory`);
-        url.searchParams.append("directory", directory);
-
-        const response = await fetch(url.toString(), {
-            method: "DELETE",
-            headers: this.buildHeaders(undefined),
-        });
-
-        if (!response.ok) {
-            throw new Error(
-                `Failed to unlink VOD directory (HTTP ${response.status})`
-            );
-        }
-
-        return await response.json();
+        return BroadcastApi.unlinksVoD(this.appApi, { directory }, requestOptions);
     }
 
     /**
      * Upload an external VOD file
      * POST /v2/vods/create
      * Uploads an external VoD file to Ant Media Server
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
      * @param file - VOD file to upload
      * @param name - Name of the VOD File
      * @param metadata - (Optional) Custom metadata for the VOD file
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
      * @returns Upload result
      */
-    public static async uploadVod(
-        serverUrl: string,
-        appName: string,
+    public async uploadVod(
         file: File,
         name: string,
-        metadata?: Record<string, any>,
-        jwtToken?: string
+        metadata?: Record<string, unknown>,
+        requestOptions?: RequestOptions
     ) {
         const formData = new FormData();
         formData.append("file", file);
@@ -979,84 +1210,162 @@ export class AntMediaClient {
             formData.append("metadata", JSON.stringify(metadata));
         }
 
-        const url = new URL(`${serverUrl}/${appName}/rest/v2/vods/create`);
-        url.searchParams.append("name", name);
-
-        const response = await fetch(url.toString(), {
-            method: "POST",
-            body: formData,
-        });
-
-        if (!response.ok) {
-            throw new Error(
-                `Failed to upload VOD (HTTP ${response.status})`
-            );
-        }
-
-        return await response.json();
+        return BroadcastApi.uploadVoDFile(this.appApi, { name }, formData, requestOptions);
     }
 
     /**
      * Import VOD files from a directory
      * POST /v2/vods/directory
      * Imports VoD files from a directory to the datastore and links them to the streams
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
      * @param directory - Full path of the directory that VoD files will be imported
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
      * @returns Import result
      */
-    public static async importVodDirectory(
-        serverUrl: string,
-        appName: string,
+    public async importVodDirectory(
         directory: string,
-        jwtToken?: string
+        requestOptions?: RequestOptions
     ) {
-        const url = new URL(`${serverUrl}/${appName}/rest/v2/vods/directory`);
-        url.searchParams.append("directory", directory);
-
-        const response = await fetch(url.toString(), {
-            method: "POST",
-            headers: this.buildHeaders(undefined),
-        });
-
-        if (!response.ok) {
-            throw new Error(
-                `Failed to import VOD directory (HTTP ${response.status})`
-            );
-        }
-
-        return await response.json();
+        return BroadcastApi.importVoDs(this.appApi, { directory }, requestOptions);
     }
 
     /**
      * Import VODs to Stalker Portal
      * POST /v2/vods/import-to-stalker
      * Imports VoDs to the Stalker Portal
-     * @param serverUrl - Base server URL
-     * @param appName - Application name
-     * @param jwtToken - (Optional) JWT token for authorization
+     * @param requestOptions - (Optional) Signal, timeout and retry overrides
      * @returns Import result
      */
-    public static async importVodsToStalker(
-        serverUrl: string,
-        appName: string,
-        jwtToken?: string
-    ) {
-        const response = await fetch(
-            `${serverUrl}/${appName}/rest/v2/vods/import-to-stalker`,
-            {
-                method: "POST",
-                headers: this.buildHeaders(undefined),
-            }
+    public async importVodsToStalker(requestOptions?: RequestOptions) {
+        return BroadcastApi.importVoDsToStalker(this.appApi, requestOptions);
+    }
+
+    /**
+     * Iterate over every broadcast, fetching pages as they are consumed
+     * Uses the broadcast count (filtered by search, if any) as upper bound
+     * @param options - (Optional) Filter and sort parameters
+     * @param requestOptions - (Optional) Page size, signal, timeout and retry overrides
+     * @returns Async generator of broadcast objects
+     */
+    public async *iterateBroadcasts(
+        options?: BroadcastListOptions,
+        requestOptions?: PaginationOptions
+    ): AsyncGenerator<Broadcast, void, undefined> {
+        const total = await this.countBroadcasts(options, requestOptions);
+
+        yield* paginate<Broadcast>(
+            (offset, size) => this.fetchBroadcasts(offset, size, options, requestOptions),
+            total,
+            requestOptions?.pageSize
         );
+    }
 
-        if (!response.ok) {
-            throw new Error(
-                `Failed to import VODs to Stalker (HTTP ${response.status})`
+    /**
+     * Iterate over every VOD, fetching pages as they are consumed
+     * Uses the VOD count (filtered by search, if any) as upper bound
+     * @param options - (Optional) Filter and sort parameters
+     * @param requestOptions - (Optional) Page size, signal, timeout and retry overrides
+     * @returns Async generator of VOD objects
+     */
+    public async *iterateVods(
+        options?: VodListOptions,
+        requestOptions?: PaginationOptions
+    ): AsyncGenerator<Vod, void, undefined> {
+        const total = await this.countVods(options, requestOptions);
+
+        yield* paginate<Vod>(
+            (offset, size) => this.getVodList(offset, size, options, requestOptions),
+            total,
+            requestOptions?.pageSize
+        );
+    }
+
+    /**
+     * Fetch every broadcast or VOD, several pages at a time
+     * @param resource - "broadcasts" or "vods"
+     * @param options - (Optional) Filter and sort parameters of the list
+     * @param requestOptions - (Optional) Page size, concurrency, signal, timeout and retry overrides
+     * @returns All items in list order
+     */
+    public async listAll(
+        resource: "broadcasts",
+        options?: BroadcastListOptions,
+        requestOptions?: PaginationOptions
+    ): Promise<Broadcast[]>;
+    public async listAll(
+        resource: "vods",
+        options?: VodListOptions,
+        requestOptions?: PaginationOptions
+    ): Promise<Vod[]>;
+    public async listAll(
+        resource: "broadcasts" | "vods",
+        options?: BroadcastListOptions | VodListOptions,
+        requestOptions?: PaginationOptions
+    ): Promise<Broadcast[] | Vod[]> {
+        if (resource === "broadcasts") {
+            const total = await this.countBroadcasts(options, requestOptions);
+            return fetchAllPages<Broadcast>(
+                (offset, size) => this.fetchBroadcasts(offset, size, options, requestOptions),
+                total,
+                requestOptions
             );
         }
 
-        return await response.json();
+        const vodOptions = options as VodListOptions | undefined;
+        const total = await this.countVods(vodOptions, requestOptions);
+        return fetchAllPages<Vod>(
+            (offset, size) => this.getVodList(offset, size, vodOptions, requestOptions),
+            total,
+            requestOptions
+        );
     }
-}
\ No newline at end of file
+
+    /**
+     * Fetch the live broadcasts
+     * AMS can't filter the list by status, but sorts "broadcasting" first, so
+     * only the pages holding the live broadcasts are fetched
+     * @param requestOptions - (Optional) Page size, signal, timeout and retry overrides
+     * @returns Live broadcasts; none without a request when nothing is live
+     */
+    public async listLiveBroadcasts(requestOptions?: PaginationOptions): Promise<Broadcast[]> {
+        const { number: live = 0 } = await this.getLiveBroadcastCount(requestOptions);
+        const broadcasts: Broadcast[] = [];
+
+        const pages = paginate<Broadcast>(
+            (offset, size) =>
+                this.fetchBroadcasts(offset, size, { sort_by: "status", order_by: "asc" }, requestOptions),
+            live,
+            requestOptions?.pageSize
+        );
+        for await (const broadcast of pages) {
+            if (broadcast.status !== "broadcasting") break;
+            broadcasts.push(broadcast);
+        }
+        return broadcasts;
+    }
+
+    /**
+     * Upper bound of a broadcast list: count by search if searching, total count otherwise
+     */
+    private async countBroadcasts(
+        options?: BroadcastListOptions,
+        requestOptions?: RequestOptions
+    ): Promise<number> {
+        const result = options?.search
+            ? await this.getBroadcastCountBySearch(options.search, requestOptions)
+            : await this.getBroadcastCount(requestOptions);
+        return result?.number ?? 0;
+    }
+
+    /**
+     * Upper bound of a VOD list: count by search if searching, total count otherwise
+     */
+    private async countVods(
+        options?: VodListOptions,
+        requestOptions?: RequestOptions
+    ): Promise<number> {
+        const result = options?.search
+            ? await this.getVodCountBySearch(options.search, requestOptions)
+            : await this.getVodCount(requestOptions);
+        return result?.number ?? 0;
+    }
+}
@@ -0,0 +1,285 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import {
+  BroadcastPage,
+  BroadcastTableState,
+  PAGE_SIZES,
+  SortField,
+  Stream,
+  STREAM_STATUSES,
+  STREAM_TYPES,
+} from "../lib/broadcast-table";
+import { ViewerSummary } from "../lib/stream-stats";
+
+/** Delay between the last keystroke and the search request */
+const SEARCH_DEBOUNCE_MS = 300;
+
+const inputClassName =
+  "px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900 bg-white text-sm";
+const pagerClassName =
+  "px-3 py-1.5 bg-white text-gray-800 text-sm font-semibold rounded-md border border-gray-300 hover:bg-gray-100 disabled:opacity-50 transition-colors";
+
+const statusClassName = (status?: string) =>
+  status === "broadcasting"
+    ? "bg-green-100 text-green-800"
+    : status === "created"
+      ? "bg-yellow-100 text-yellow-800"
+      : "bg-gray-100 text-gray-800";
+
+/**
+ * Broadcasts with search, filters, sortable columns and paging
+ * The state is owned by the page (see lib/broadcast-table.ts); every change is reported through onChange
+ */
+export function BroadcastTable({
+  state,
+  onChange,
+  page,
+  loading,
+  viewerSummaries,
+  onDelete,
+  selected,
+  onSelect,
+}: {
+  state: BroadcastTableState;
+  /** Changes to apply; any change but paging goes back to the first page */
+  onChange: (changes: Partial<BroadcastTableState>) => void;
+  /** Null until the first page is loaded */
+  page: BroadcastPage | null;
+  loading: boolean;
+  /** Peak and average viewers, keyed by stream id */
+  viewerSummaries: Record<string, ViewerSummary>;
+  onDelete: (stream: Stream) => void;
+  /** Selected stream ids, kept across pages */
+  selected: Set<string>;
+  onSelect: (streamIds: string[], selected: boolean) => void;
+}) {
+  const [query, setQuery] = useState(state.search);
+
+  // Follow the URL, e.g. on back navigation
+  const [searchParam, setSearchParam] = useState(state.search);
+  if (searchParam !== state.search) {
+    setSearchParam(state.search);
+    setQuery(state.search);
+  }
+
+  useEffect(() => {
+    if (query === state.search) return;
+    const timer = setTimeout(() => onChange({ search: query }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query, state.search, onChange]);
+
+  const sortBy = (field: SortField) =>
+    onChange({
+      sort: field,
+      order: state.sort === field && state.order === "asc" ? "desc" : "asc",
+    });
+
+  const sortHeader = (field: SortField, label: string) => (
+    <th className="px-4 py-3">
+      <button onClick={() => sortBy(field)} className="flex items-center gap-1 font-semibold hover:text-blue-700">
+        {label}
+        <span className="text-xs text-gray-400">
+          {state.sort === field ? (state.order === "asc" ? "▲" : "▼") : "↕"}
+        </span>
+      </button>
+    </th>
+  );
+
+  const first = state.page * state.pageSize;
+  const items = page?.items ?? [];
+  const lastPage = page?.total ? Math.ceil(page.total / state.pageSize) : null;
+  const filtered = Boolean(state.search || state.type || state.status);
+  const pageSelected = items.length > 0 && items.every((stream) => selected.has(stream.streamId));
+
+  return (
+    <div>
+      {/* Filters */}
+      <div className="flex flex-col md:flex-row gap-3 mb-4">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by name or stream id"
+          className={`${inputClassName} flex-1`}
+        />
+        <select value={state.type} onChange={(e) => onChange({ type: e.target.value })} className={inputClassName}>
+          <option value="">All types</option>
+          {STREAM_TYPES.map((type) => (
+            <option key={type.value} value={type.value}>
+              {type.label}
+            </option>
+          ))}
+        </select>
+        <select value={state.status} onChange={(e) => onChange({ status: e.target.value })} className={inputClassName}>
+          <option value="">All statuses</option>
+          {STREAM_STATUSES.map((status) => (
+            <option key={status} value={status}>
+              {status}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className={`w-full text-sm text-left ${loading ? "opacity-60" : ""}`}>
+          <thead className="bg-gray-50 text-gray-700 border-b border-gray-200">
+            <tr>
+              <th className="pl-4 py-3 w-8">
+                <input
+                  type="checkbox"
+                  checked={pageSelected}
+                  onChange={(e) => onSelect(items.map((stream) => stream.streamId), e.target.checked)}
+                  aria-label="Select all streams on this page"
+                />
+              </th>
+              {sortHeader("name", "Name")}
+              {sortHeader("status", "Status")}
+              <th className="px-4 py-3 font-semibold">Type</th>
+              {sortHeader("date", "Created")}
+              <th className="px-4 py-3 font-semibold">Viewers</th>
+              <th className="px-4 py-3 font-semibold">Peak / Avg</th>
+              <th className="px-4 py-3 font-semibold text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {items.map((stream) => {
+              const summary = viewerSummaries[stream.streamId];
+              return (
+                <tr
+                  key={stream.streamId}
+                  className={selected.has(stream.streamId) ? "bg-blue-50" : "hover:bg-blue-50"}
+                >
+                  <td className="pl-4 py-3">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(stream.streamId)}
+                      onChange={(e) => onSelect([stream.streamId], e.target.checked)}
+                      aria-label={`Select ${stream.name || stream.streamId}`}
+                    />
+                  </td>
+                  <td className="px-4 py-3">
+                    <Link href={`/stream/${stream.streamId}`} className="font-semibold text-gray-900 hover:text-blue-700">
+                      {stream.name || stream.streamId}
+                    </Link>
+                    <p className="text-xs text-gray-500 font-mono">{stream.streamId}</p>
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-1 text-xs rounded-full whitespace-nowrap ${statusClassName(stream.status)}`}>
+                      {stream.status}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-gray-700">{stream.type}</td>
+                  <td className="px-4 py-3 text-gray-700 whitespace-nowrap">
+                    {stream.date ? new Date(stream.date).toLocaleString() : "—"}
+                  </td>
+                  <td className="px-4 py-3 text-xs text-gray-600 whitespace-nowrap">
+                    HLS {stream.hlsViewerCount ?? 0} · WebRTC {stream.webRTCViewerCount ?? 0} · RTMP{" "}
+                    {stream.rtmpViewerCount ?? 0}
+                  </td>
+                  <td className="px-4 py-3 text-gray-700 whitespace-nowrap">
+                    {summary?.samples > 0 ? `${summary.peak} / ${summary.average}` : "—"}
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex justify-end gap-2">
+                      <Link
+                        href={`/stream/${stream.streamId}/webrtc-broadcast`}
+                        className="px-2 py-1 bg-blue-600 text-white text-xs rounded-md hover:bg-blue-700 font-semibold whitespace-nowrap"
+                        title="Start broadcasting"
+                      >
+                        🎥 Broadcast
+                      </Link>
+                      <a
+                        href={`/stream/${stream.streamId}/webrtc-playback`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="px-2 py-1 bg-green-600 text-white text-xs rounded-md hover:bg-green-700 font-semibold whitespace-nowrap"
+                        title="Watch stream"
+                      >
+                        👁️ WebRTC
+                      </a>
+                      <a
+                        href={`/stream/${stream.streamId}/hls-playback`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="px-2 py-1 bg-purple-600 text-white text-xs rounded-md hover:bg-purple-700 font-semibold whitespace-nowrap"
+                        title="Watch HLS stream"
+                      >
+                        📺 HLS
+                      </a>
+                      <button
+                        onClick={() => onDelete(stream)}
+                        disabled={loading}
+                        className="px-2 py-1 bg-red-600 text-white text-xs rounded-md hover:bg-red-700 disabled:opacity-50 font-semibold"
+                        title="Delete stream"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {page && items.length === 0 && (
+          <div className="text-center py-12 text-gray-500">
+            <p>
+              {filtered
+                ? "No streams match these filters."
+                : state.page > 0
+                  ? "This page is empty."
+                  : "No streams available. Create your first stream to get started."}
+            </p>
+          </div>
+        )}
+        {!page && <p className="text-center py-12 text-gray-500">Loading streams...</p>}
+      </div>
+
+      {/* Paging */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mt-4 text-sm text-gray-700">
+        <p>
+          {items.length > 0 ? `${first + 1}–${first + items.length}` : "0"}
+          {page?.total !== null && page?.total !== undefined ? ` of ${page.total}` : ""}
+        </p>
+        <div className="flex items-center gap-2">
+          <select
+            value={state.pageSize}
+            onChange={(e) => onChange({ pageSize: Number(e.target.value) })}
+            className={inputClassName}
+            aria-label="Streams per page"
+          >
+            {PAGE_SIZES.map((size) => (
+              <option key={size} value={size}>
+                {size} per page
+              </option>
+            ))}
+          </select>
+          <button onClick={() => onChange({ page: 0 })} disabled={state.page === 0} className={pagerClassName}>
+            First
+          </button>
+          <button
+            onClick={() => onChange({ page: state.page - 1 })}
+            disabled={state.page === 0}
+            className={pagerClassName}
+          >
+            Previous
+          </button>
+          <span className="px-2 whitespace-nowrap">
+            Page {state.page + 1}
+            {lastPage ? ` of ${lastPage}` : ""}
+          </span>
+          <button
+            onClick={() => onChange({ page: state.page + 1 })}
+            disabled={!page?.hasMore}
+            className={pagerClassName}
+          >
+            Next
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import { useAntMedia } from "../lib/ant-media-context";
+import { BULK_ACTIONS, BulkAction, BulkReport, downloadBroadcasts, runBulkAction } from "../lib/bulk-actions";
+
+const buttonClassName =
+  "px-3 py-1.5 text-sm font-semibold rounded-md border transition-colors disabled:opacity-50";
+
+/**
+ * Actions applied to the selected broadcasts, with progress and a report of the failures
+ */
+export function BulkActions({
+  selected,
+  onClear,
+  onDone,
+}: {
+  /** Selected stream ids */
+  selected: string[];
+  onClear: () => void;
+  /** Called after every run, e.g. to reload the list */
+  onDone: (report: BulkReport) => void;
+}) {
+  const { client, settings } = useAntMedia();
+  const [progress, setProgress] = useState<{ action: BulkAction; done: number; total: number } | null>(null);
+  const [report, setReport] = useState<BulkReport | null>(null);
+
+  const label = (action: BulkAction) => BULK_ACTIONS.find((option) => option.id === action)?.label ?? action;
+
+  const handleRun = async (action: BulkAction, destructive?: boolean) => {
+    const streamIds = [...selected];
+    if (
+      destructive &&
+      !window.confirm(`${label(action)} ${streamIds.length} streams? This action cannot be undone.`)
+    ) {
+      return;
+    }
+
+    setReport(null);
+    setProgress({ action, done: 0, total: streamIds.length });
+    try {
+      const result = await runBulkAction(client, action, streamIds, (done) =>
+        setProgress({ action, done, total: streamIds.length })
+      );
+      if (action === "export" && result.exported.length > 0) {
+        downloadBroadcasts(result.exported, `${settings.appName}-broadcasts-${new Date().toISOString().slice(0, 10)}.json`);
+      }
+      setReport(result);
+      onDone(result);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  if (selected.length === 0 && !report) return null;
+
+  return (
+    <div className="mb-4 border-2 border-blue-200 bg-blue-50 rounded-lg p-4 space-y-3">
+      {selected.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-semibold text-blue-900 mr-2">{selected.length} selected</span>
+          {BULK_ACTIONS.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => handleRun(option.id, option.destructive)}
+              disabled={progress !== null}
+              className={`${buttonClassName} ${
+                option.destructive
+                  ? "bg-red-600 border-red-600 text-white hover:bg-red-700"
+                  : "bg-white border-gray-300 text-gray-800 hover:bg-gray-100"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+          <button
+            onClick={onClear}
+            disabled={progress !== null}
+            className={`${buttonClassName} border-transparent text-blue-800 hover:bg-blue-100`}
+          >
+            Clear selection
+          </button>
+        </div>
+      )}
+
+      {progress && (
+        <div>
+          <p className="text-sm text-blue-900 mb-1">
+            {label(progress.action)}: {progress.done} of {progress.total}
+          </p>
+          <div className="h-2 bg-blue-100 rounded overflow-hidden">
+            <div
+              className="h-full bg-blue-600 transition-all"
+              style={{ width: `${(progress.done / Math.max(1, progress.total)) * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {report && (
+        <div className="text-sm">
+          <div className="flex items-start justify-between gap-4">
+            <p className={report.failed.length > 0 ? "font-semibold text-amber-900" : "font-semibold text-green-800"}>
+              {label(report.action)}: {report.succeeded.length} succeeded
+              {report.failed.length > 0 && `, ${report.failed.length} failed`}
+            </p>
+            <button onClick={() => setReport(null)} className="text-blue-800 hover:underline">
+              Dismiss
+            </button>
+          </div>
+          {report.failed.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {report.failed.map((failure) => (
+                <li key={failure.streamId} className="text-red-800">
+                  <span className="font-mono">{failure.streamId}</span>: {failure.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+/**
+ * Line chart of values sampled over time, drawn as SVG
+ */
+
+export interface ChartSeries {
+  label: string;
+  /** Stroke color, e.g. #2563eb */
+  color: string;
+  /** Oldest first; one value per sample */
+  values: number[];
+}
+
+export interface ChartThreshold {
+  value: number;
+  label: string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 160;
+
+export function LineChart({
+  series,
+  max,
+  threshold,
+  formatValue = String,
+  capacity,
+  times,
+  range,
+  maxGap,
+}: {
+  series: ChartSeries[];
+  /** Top of the y axis. Default: the largest value or threshold, at least 1 */
+  max?: number;
+  /** Dashed horizontal line, e.g. a resource limit */
+  threshold?: ChartThreshold;
+  /** Format y axis and legend values */
+  formatValue?: (value: number) => string;
+  /** Samples the x axis holds, so that the chart fills up from the right. Default: the longest series */
+  capacity?: number;
+  /** (Optional) Sample times, one per value of every series. Places the values on a time axis */
+  times?: number[];
+  /** (Optional) Time axis bounds. Default: first and last sample time */
+  range?: { start: number; end: number };
+  /** (Optional) Interval between two samples above which the line is broken, e.g. while nothing was sampled */
+  maxGap?: number;
+}) {
+  const length = Math.max(2, capacity ?? 0, ...series.map((s) => s.values.length));
+  const top =
+    max ?? Math.max(1, threshold?.value ?? 0, ...series.flatMap((s) => s.values)) * 1.1;
+
+  const start = range?.start ?? times?.[0] ?? 0;
+  const span = Math.max(1, (range?.end ?? times?.[times.length - 1] ?? 0) - start);
+
+  const x = (index: number, count: number) =>
+    times ? ((times[index] - start) / span) * WIDTH : ((length - count + index) / (length - 1)) * WIDTH;
+  const y = (value: number) => HEIGHT - (Math.min(value, top) / top) * HEIGHT;
+
+  /** Points of a series, split where samples are missing */
+  const segments = (values: number[]) => {
+    const result: string[][] = [];
+    values.forEach((value, index) => {
+      const gap = times && maxGap && index > 0 && times[index] - times[index - 1] > maxGap;
+      if (index === 0 || gap) result.push([]);
+      result[result.length - 1].push(`${x(index, values.length)},${y(value)}`);
+    });
+    return result;
+  };
+
+  return (
+    <div>
+      <div className="relative">
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-40 bg-gray-50 rounded border border-gray-200">
+          {[0.25, 0.5, 0.75].map((fraction) => (
+            <line
+              key={fraction}
+              x1={0}
+              x2={WIDTH}
+              y1={HEIGHT * fraction}
+              y2={HEIGHT * fraction}
+              stroke="#e5e7eb"
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+          {threshold && (
+            <line
+              x1={0}
+              x2={WIDTH}
+              y1={y(threshold.value)}
+              y2={y(threshold.value)}
+              stroke="#dc2626"
+              strokeDasharray="6 4"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+          {series.map((s) =>
+            segments(s.values).map((points, index) => (
+              <polyline
+                key={`${s.label}-${index}`}
+                fill="none"
+                stroke={s.color}
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+                points={points.join(" ")}
+              />
+            ))
+          )}
+        </svg>
+        <span className="absolute top-1 left-2 text-xs text-gray-500">{formatValue(Math.round(top))}</span>
+        {threshold && (
+          <span
+            className="absolute right-2 text-xs font-semibold text-red-600"
+            style={{ top: `calc(${(y(threshold.value) / HEIGHT) * 100}% - 1.1rem)` }}
+          >
+            {threshold.label}
+          </span>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-4 mt-2 text-sm">
+        {series.map((s) => (
+          <span key={s.label} className="flex items-center gap-2 text-gray-700">
+            <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: s.color }} />
+            {s.label}
+            {s.values.length > 0 && (
+              <span className="font-semibold text-gray-900">{formatValue(s.values[s.values.length - 1])}</span>
+            )}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
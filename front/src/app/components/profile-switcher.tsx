@@ -0,0 +1,289 @@
+"use client";
+
+import { useState } from "react";
+import { usePathname } from "next/navigation";
+import { useAntMedia } from "../lib/ant-media-context";
+import { ConnectionProfile, DEFAULT_PROFILE_ID, ProfileInput, validateProfile } from "../lib/profiles";
+
+const EMPTY_PROFILE: ProfileInput = {
+  name: "",
+  serverUrl: "http://localhost:5080",
+  appName: "LiveApp",
+  auth: "none",
+};
+
+const inputClassName =
+  "w-full px-3 py-2 border-2 border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white";
+const labelClassName = "block text-sm font-semibold text-gray-800 mb-1";
+
+/**
+ * Form of one profile. Secrets are write-only: an empty field keeps the stored one
+ */
+function ProfileForm({
+  initial,
+  stored,
+  onSaved,
+  onCancel,
+}: {
+  initial: ProfileInput;
+  stored?: ConnectionProfile;
+  onSaved: (profile: ConnectionProfile) => void;
+  onCancel: () => void;
+}) {
+  const { saveProfile, deleteProfile } = useAntMedia();
+  const [form, setForm] = useState<ProfileInput>(initial);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (fields: Partial<ProfileInput>) => setForm((current) => ({ ...current, ...fields }));
+
+  const handleSave = async () => {
+    const problems = validateProfile(form);
+    if (problems.length > 0) {
+      setError(problems.join("; "));
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      onSaved(await saveProfile(form));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!stored) return;
+    const message =
+      stored.id === DEFAULT_PROFILE_ID
+        ? "Reset the default profile to the server environment?"
+        : `Delete the profile "${stored.name}"?`;
+    if (!window.confirm(message)) return;
+
+    setSaving(true);
+    try {
+      await deleteProfile(stored.id);
+      onCancel();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const secretLabel = form.auth === "jwt" ? "JWT secret (jwtServerSecretKey)" : "Account password";
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className={labelClassName}>Name</label>
+          <input className={inputClassName} value={form.name} onChange={(e) => update({ name: e.target.value })} placeholder="Production" />
+        </div>
+        <div>
+          <label className={labelClassName}>Server URL</label>
+          <input className={inputClassName} value={form.serverUrl} onChange={(e) => update({ serverUrl: e.target.value })} placeholder="http://localhost:5080" />
+        </div>
+        <div>
+          <label className={labelClassName}>Application</label>
+          <input className={inputClassName} value={form.appName} onChange={(e) => update({ appName: e.target.value })} placeholder="LiveApp" />
+        </div>
+        <div>
+          <label className={labelClassName}>WebSocket protocol</label>
+          <select
+            className={inputClassName}
+            value={form.wsProtocol ?? ""}
+            onChange={(e) => update({ wsProtocol: (e.target.value || undefined) as ProfileInput["wsProtocol"] })}
+          >
+            <option value="">Automatic (from server URL)</option>
+            <option value="ws">ws://</option>
+            <option value="wss">wss://</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClassName}>Authentication</label>
+          <select
+            className={inputClassName}
+            value={form.auth}
+            onChange={(e) => update({ auth: e.target.value as ProfileInput["auth"], secret: "" })}
+          >
+            <option value="none">None</option>
+            <option value="jwt">JWT (server secret)</option>
+            <option value="credentials">AMS account</option>
+          </select>
+        </div>
+        {form.auth === "credentials" && (
+          <div>
+            <label className={labelClassName}>Account email</label>
+            <input className={inputClassName} type="email" value={form.adminEmail ?? ""} onChange={(e) => update({ adminEmail: e.target.value })} />
+          </div>
+        )}
+        {form.auth !== "none" && (
+          <div>
+            <label className={labelClassName}>{secretLabel}</label>
+            <input
+              className={inputClassName}
+              type="password"
+              autoComplete="new-password"
+              value={form.secret ?? ""}
+              onChange={(e) => update({ secret: e.target.value })}
+              placeholder={stored?.hasSecret ? "Stored - leave empty to keep" : ""}
+            />
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-sm font-medium text-red-700">{error}</p>}
+
+      <div className="flex items-center justify-between">
+        <div className="flex gap-2">
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            {saving ? "Saving..." : "Save"}
+          </button>
+          <button onClick={onCancel} className="px-4 py-2 bg-gray-200 text-gray-800 font-semibold rounded-md hover:bg-gray-300 transition-colors">
+            Cancel
+          </button>
+        </div>
+        {stored && (
+          <button onClick={handleDelete} disabled={saving} className="px-4 py-2 text-red-700 font-semibold rounded-md hover:bg-red-50 transition-colors">
+            {stored.id === DEFAULT_PROFILE_ID ? "Reset" : "Delete"}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Header bar to pick the connection profile every page works against, and to
+ * manage profiles
+ */
+export function ProfileSwitcher() {
+  const { profiles, activeProfile, selectProfile } = useAntMedia();
+  const pathname = usePathname();
+  const [managing, setManaging] = useState(false);
+  // Profile being edited: undefined for none, null for a new one
+  const [editing, setEditing] = useState<ConnectionProfile | null | undefined>(undefined);
+
+  if (pathname === "/login" || pathname === "/setup" || !activeProfile) {
+    return null;
+  }
+
+  const closeEditor = () => setEditing(undefined);
+
+  return (
+    <>
+      <div className="bg-gray-900 text-gray-100 px-4 lg:px-6 py-2">
+        <div className="mx-auto max-w-6xl 2xl:max-w-7xl flex items-center gap-3 text-sm">
+          <label htmlFor="profile" className="font-semibold text-gray-400">
+            Server
+          </label>
+          <select
+            id="profile"
+            value={activeProfile.id}
+            onChange={(e) => selectProfile(e.target.value)}
+            className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-100"
+          >
+            {profiles.map((profile) => (
+              <option key={profile.id} value={profile.id}>
+                {profile.name}
+              </option>
+            ))}
+          </select>
+          <span className="font-mono text-gray-400 truncate">
+            {activeProfile.serverUrl}/{activeProfile.appName}
+          </span>
+          <button onClick={() => setManaging(true)} className="ml-auto px-3 py-1 rounded hover:bg-gray-800 transition-colors">
+            Manage
+          </button>
+        </div>
+      </div>
+
+      {managing && (
+        <div className="modal-overlay fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="modal-content bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col overflow-hidden">
+            <div className="bg-gradient-to-r from-blue-50 to-blue-100 border-b border-blue-200 px-8 py-5 flex items-center justify-between">
+              <h2 className="text-2xl font-bold text-gray-900">Connection profiles</h2>
+              <button
+                onClick={() => {
+                  setManaging(false);
+                  closeEditor();
+                }}
+                className="p-2 hover:bg-white rounded-lg transition-colors"
+              >
+                <svg className="w-6 h-6 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-8 py-6 space-y-4">
+              {editing !== undefined ? (
+                <ProfileForm
+                  key={editing?.id ?? "new"}
+                  initial={editing ? { ...editing, secret: "" } : EMPTY_PROFILE}
+                  stored={editing ?? undefined}
+                  onSaved={(profile) => {
+                    if (!editing) selectProfile(profile.id);
+                    closeEditor();
+                  }}
+                  onCancel={closeEditor}
+                />
+              ) : (
+                <>
+                  <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                    {profiles.map((profile) => (
+                      <li key={profile.id} className="flex items-center justify-between gap-4 p-4">
+                        <div className="min-w-0">
+                          <p className="font-bold text-gray-900">
+                            {profile.name}
+                            {profile.id === activeProfile.id && (
+                              <span className="ml-2 text-xs font-semibold text-green-700 bg-green-100 px-2 py-0.5 rounded">Active</span>
+                            )}
+                          </p>
+                          <p className="text-sm text-gray-600 font-mono truncate">
+                            {profile.serverUrl}/{profile.appName} · {profile.auth}
+                            {profile.wsProtocol ? ` · ${profile.wsProtocol}` : ""}
+                          </p>
+                        </div>
+                        <div className="flex gap-2 flex-shrink-0">
+                          {profile.id !== activeProfile.id && (
+                            <button
+                              onClick={() => selectProfile(profile.id)}
+                              className="px-3 py-1.5 bg-blue-600 text-white text-sm font-semibold rounded-md hover:bg-blue-700 transition-colors"
+                            >
+                              Use
+                            </button>
+                          )}
+                          <button
+                            onClick={() => setEditing(profile)}
+                            className="px-3 py-1.5 bg-gray-200 text-gray-800 text-sm font-semibold rounded-md hover:bg-gray-300 transition-colors"
+                          >
+                            Edit
+                          </button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                  <button
+                    onClick={() => setEditing(null)}
+                    className="px-4 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 transition-colors"
+                  >
+                    New profile
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,268 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAntMedia } from "../lib/ant-media-context";
+import { formatDuration } from "../lib/format";
+import {
+  clearRecordingSession,
+  expandFileName,
+  FILE_NAME_PLACEHOLDERS,
+  isRecording,
+  loadFileNameTemplate,
+  loadRecordingSession,
+  RECORD_FORMATS,
+  RecordedStream,
+  RecordFormat,
+  recordingSince,
+  saveFileNameTemplate,
+  saveRecordingSession,
+  validateFileNameTemplate,
+} from "../lib/recording";
+import { isAbortError } from "../lib/retry";
+
+const inputClassName =
+  "w-full px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900 bg-white text-sm";
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Start and stop the recording of one broadcast, per format, with the
+ * encoder ladder rung to record and a file name template
+ */
+export function RecordingPanel({
+  scope,
+  broadcast,
+  onChange,
+}: {
+  /** See statsScope */
+  scope: string;
+  broadcast: RecordedStream;
+  /** Called after a recording was started or stopped */
+  onChange: (stopped: boolean) => void;
+}) {
+  const { client } = useAntMedia();
+  const streamId = broadcast.streamId ?? "";
+
+  const [format, setFormat] = useState<RecordFormat>("mp4");
+  const [height, setHeight] = useState(0);
+  const [template, setTemplate] = useState(loadFileNameTemplate);
+  const [heights, setHeights] = useState<number[]>([]);
+  const [busy, setBusy] = useState<RecordFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Forget the recordings stopped elsewhere, e.g. by a bulk action
+  useEffect(() => {
+    RECORD_FORMATS.filter(({ format }) => !isRecording(broadcast, format)).forEach(({ format }) =>
+      clearRecordingSession(scope, streamId, format)
+    );
+  }, [broadcast, scope, streamId]);
+
+  // Rungs of the encoder ladder
+  useEffect(() => {
+    const controller = new AbortController();
+
+    client
+      .getSettings({ signal: controller.signal })
+      .then((appSettings) => {
+        const ladder = (appSettings.encoderSettings ?? []).map((setting) => setting.height ?? 0).filter(Boolean);
+        setHeights([...new Set(ladder)].sort((a, b) => b - a));
+      })
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        console.error("Error loading encoder settings:", error);
+      });
+
+    return () => controller.abort();
+  }, [client]);
+
+  const live = broadcast.status === "broadcasting";
+  const invalid = validateFileNameTemplate(template);
+  const resolutionHeight = heights.includes(height) ? height : undefined;
+  const fileName = invalid ? undefined : expandFileName(template, broadcast, resolutionHeight, new Date(now));
+
+  const recordings = RECORD_FORMATS.filter(({ format }) => isRecording(broadcast, format)).map(({ format, label }) => {
+    const session = loadRecordingSession(scope, streamId, format);
+    return { format, label, session, since: recordingSince(broadcast, session) };
+  });
+
+  const handleStart = async () => {
+    setBusy(format);
+    setError(null);
+    try {
+      const result = await client.setStreamRecording(streamId, true, format, resolutionHeight, fileName);
+      if (!result.success) {
+        throw new Error(result.message || `Could not start recording ${format}`);
+      }
+      saveRecordingSession(scope, streamId, { format, resolutionHeight, fileName, startedAt: Date.now() });
+      saveFileNameTemplate(template);
+      onChange(false);
+    } catch (error) {
+      console.error("Error starting recording:", error);
+      setError(errorMessage(error));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleStop = async (stopped: RecordFormat) => {
+    const session = loadRecordingSession(scope, streamId, stopped);
+
+    setBusy(stopped);
+    setError(null);
+    try {
+      const result = await client.setStreamRecording(streamId, false, stopped, session?.resolutionHeight);
+      if (!result.success) {
+        throw new Error(result.message || `Could not stop recording ${stopped}`);
+      }
+      clearRecordingSession(scope, streamId, stopped);
+      onChange(true);
+    } catch (error) {
+      console.error("Error stopping recording:", error);
+      setError(errorMessage(error));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">Recording</h3>
+
+      {error && (
+        <div className="mb-4 border-2 border-red-300 bg-red-50 rounded-lg p-3 text-red-800 text-sm font-medium">
+          {error}
+        </div>
+      )}
+
+      {recordings.length > 0 && (
+        <ul className="mb-6 space-y-2">
+          {recordings.map(({ format, label, session, since }) => (
+            <li
+              key={format}
+              className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-red-50 border border-red-200 rounded-lg p-3"
+            >
+              <div className="flex items-center gap-2 text-sm">
+                <span className={`w-3 h-3 rounded-full bg-red-600 ${live ? "animate-pulse" : "opacity-40"}`} />
+                <span className="font-semibold text-red-800">{label}</span>
+                <span
+                  className="text-gray-700"
+                  title="Only recordings started from this browser have a known start; Ant Media doesn't report it"
+                >
+                  {!live
+                    ? "Starts when the stream goes live"
+                    : since !== null
+                      ? `Started from this browser, recording since ${new Date(since).toLocaleTimeString()} (${formatDuration(Math.max(0, now - since))})`
+                      : "Recording, start time unknown"}
+                </span>
+                {session?.fileName && <span className="font-mono text-xs text-gray-500">{session.fileName}</span>}
+                {session?.resolutionHeight && <span className="text-xs text-gray-500">{session.resolutionHeight}p</span>}
+              </div>
+              <button
+                onClick={() => handleStop(format)}
+                disabled={busy !== null}
+                className="px-3 py-1.5 bg-red-600 text-white text-sm font-semibold rounded-md hover:bg-red-700 disabled:opacity-50 transition-colors"
+              >
+                {busy === format ? "Stopping..." : "Stop"}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="recording-format">
+            Format
+          </label>
+          <select
+            id="recording-format"
+            value={format}
+            onChange={(e) => setFormat(e.target.value as RecordFormat)}
+            className={inputClassName}
+          >
+            {RECORD_FORMATS.map(({ format, label }) => (
+              <option key={format} value={format}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="recording-height">
+            Resolution
+          </label>
+          <select
+            id="recording-height"
+            value={resolutionHeight ?? 0}
+            onChange={(e) => setHeight(Number(e.target.value))}
+            className={inputClassName}
+          >
+            <option value={0}>Source</option>
+            {heights.map((value) => (
+              <option key={value} value={value}>
+                {value}p
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="recording-template">
+            File name
+          </label>
+          <input
+            id="recording-template"
+            value={template}
+            onChange={(e) => setTemplate(e.target.value)}
+            placeholder="Chosen by Ant Media"
+            className={`${inputClassName} font-mono ${invalid ? "border-red-400" : ""}`}
+            aria-invalid={Boolean(invalid)}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-3 mt-3">
+        <div className="text-xs text-gray-500">
+          {invalid ? (
+            <p className="text-sm text-red-700">{invalid}</p>
+          ) : (
+            <p>
+              Saved as <span className="font-mono text-gray-800">{fileName ?? "(name chosen by Ant Media)"}.{format}</span>
+            </p>
+          )}
+          <p className="mt-1">
+            {Object.entries(FILE_NAME_PLACEHOLDERS).map(([name, description], index) => (
+              <span key={name} title={description}>
+                {index > 0 && " "}
+                <code className="text-gray-700">{`{${name}}`}</code>
+              </span>
+            ))}
+          </p>
+          {heights.length === 0 && (
+            <p className="mt-1">The application has no encoder ladder, so only the source stream can be recorded.</p>
+          )}
+        </div>
+        <button
+          onClick={handleStart}
+          disabled={busy !== null || Boolean(invalid) || isRecording(broadcast, format)}
+          title={isRecording(broadcast, format) ? `${format} is already being recorded` : undefined}
+          className="px-4 py-2 bg-red-600 text-white font-semibold rounded-md hover:bg-red-700 disabled:opacity-50 transition-colors whitespace-nowrap"
+        >
+          {busy === format && !isRecording(broadcast, format) ? "Starting..." : "● Start Recording"}
+        </button>
+      </div>
+      {!live && (
+        <p className="text-xs text-gray-500 mt-2">
+          The stream is not live: a recording started now begins when the stream starts.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { useState } from "react";
+import { occurrencesBetween, RunStatus, Schedule, ScheduleAction, WEEKDAYS } from "../lib/schedules";
+
+export const ACTION_COLORS: Record<ScheduleAction, string> = {
+  createBroadcast: "bg-blue-100 text-blue-800",
+  startRecording: "bg-red-100 text-red-800",
+  stopRecording: "bg-amber-100 text-amber-800",
+  deleteBroadcast: "bg-gray-200 text-gray-800",
+};
+
+const RUN_MARKS: Record<RunStatus, string> = {
+  success: "✓",
+  failed: "✗",
+  missed: "–",
+};
+
+/** Entries shown per day before "+n more" */
+const MAX_DAY_ENTRIES = 4;
+
+interface CalendarEntry {
+  time: number;
+  schedule: Schedule;
+  /** Past run; planned runs have none */
+  status?: RunStatus;
+}
+
+/**
+ * Month view of the planned runs of the schedules and the past runs they
+ * recorded, in the browser's time zone
+ */
+export function ScheduleCalendar({ schedules, now }: { schedules: Schedule[]; now: number }) {
+  const [month, setMonth] = useState(() => {
+    const today = new Date(now);
+    return { year: today.getFullYear(), month: today.getMonth() };
+  });
+
+  const first = new Date(month.year, month.month, 1);
+  const from = first.getTime();
+  const to = new Date(month.year, month.month + 1, 1).getTime();
+
+  // Planned runs from now on, past runs from the history
+  const entries: CalendarEntry[] = schedules.flatMap((schedule) => [
+    ...(schedule.enabled
+      ? occurrencesBetween(schedule, Math.max(from, now), to).map((time) => ({ time, schedule }))
+      : []),
+    ...schedule.runs
+      .filter((run) => run.scheduledAt >= from && run.scheduledAt < to)
+      .map((run) => ({ time: run.scheduledAt, schedule, status: run.status })),
+  ]);
+
+  const byDay = new Map<number, CalendarEntry[]>();
+  for (const entry of entries.sort((a, b) => a.time - b.time)) {
+    const day = new Date(entry.time).getDate();
+    byDay.set(day, [...(byDay.get(day) ?? []), entry]);
+  }
+
+  const days = new Date(month.year, month.month + 1, 0).getDate();
+  const cells = [...Array(first.getDay()).fill(null), ...Array.from({ length: days }, (_, index) => index + 1)];
+  const today = new Date(now);
+  const isToday = (day: number) =>
+    today.getFullYear() === month.year && today.getMonth() === month.month && today.getDate() === day;
+
+  const shift = (offset: number) =>
+    setMonth(({ year, month }) => {
+      const date = new Date(year, month + offset, 1);
+      return { year: date.getFullYear(), month: date.getMonth() };
+    });
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <button
+          onClick={() => shift(-1)}
+          className="px-3 py-1.5 bg-white text-gray-800 text-sm font-semibold rounded-md border border-gray-300 hover:bg-gray-100 transition-colors"
+        >
+          ← Previous
+        </button>
+        <h3 className="text-lg font-semibold text-gray-900">
+          {first.toLocaleDateString(undefined, { month: "long", year: "numeric" })}
+        </h3>
+        <button
+          onClick={() => shift(1)}
+          className="px-3 py-1.5 bg-white text-gray-800 text-sm font-semibold rounded-md border border-gray-300 hover:bg-gray-100 transition-colors"
+        >
+          Next →
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-px bg-gray-200 border border-gray-200 rounded-lg overflow-hidden text-xs">
+        {WEEKDAYS.map((weekday) => (
+          <div key={weekday} className="bg-gray-50 px-2 py-1 font-semibold text-gray-600 text-center">
+            {weekday}
+          </div>
+        ))}
+        {cells.map((day, index) => {
+          const dayEntries = day ? (byDay.get(day) ?? []) : [];
+
+          return (
+            <div key={index} className={`min-h-24 p-1 ${day ? "bg-white" : "bg-gray-50"}`}>
+              {day && (
+                <>
+                  <div
+                    className={`text-right font-semibold mb-1 ${
+                      isToday(day) ? "text-blue-700" : "text-gray-500"
+                    }`}
+                  >
+                    {day}
+                  </div>
+                  <ul className="space-y-0.5">
+                    {dayEntries.slice(0, MAX_DAY_ENTRIES).map(({ time, schedule, status }) => (
+                      <li
+                        key={`${schedule.id}-${time}-${status ?? "planned"}`}
+                        title={`${schedule.name}${status ? ` (${status})` : ""}`}
+                        className={`truncate rounded px-1 ${ACTION_COLORS[schedule.action]} ${
+                          status ? "opacity-60" : ""
+                        }`}
+                      >
+                        {status && <span className="mr-0.5">{RUN_MARKS[status]}</span>}
+                        {new Date(time).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" })}{" "}
+                        {schedule.name}
+                      </li>
+                    ))}
+                    {dayEntries.length > MAX_DAY_ENTRIES && (
+                      <li className="text-gray-500 px-1">+{dayEntries.length - MAX_DAY_ENTRIES} more</li>
+                    )}
+                  </ul>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { useEffect } from "react";
+import { usePathname } from "next/navigation";
+import { useAntMedia } from "../lib/ant-media-context";
+import { NotFoundError } from "../lib/errors";
+import { isAbortError } from "../lib/retry";
+import { pruneSamples, recordSamples, SAMPLE_INTERVAL_MS, statsScope } from "../lib/stream-stats";
+
+/**
+ * Samples the live broadcasts of the active profile while any page is open,
+ * plus each broadcast once more after it stops
+ * When several tabs are open, only the one holding the Web Lock samples
+ */
+export function StreamSampler() {
+  const { client, activeProfile, settings, session } = useAntMedia();
+  const pathname = usePathname();
+
+  const scope =
+    session && activeProfile && pathname !== "/login" && pathname !== "/setup"
+      ? statsScope(activeProfile.id, settings.appName)
+      : null;
+
+  useEffect(() => {
+    if (!scope) return;
+
+    const controller = new AbortController();
+    const { signal } = controller;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    // Live at the previous sample, so that the end of a broadcast is recorded too
+    let previous = new Set<string>();
+    // A slow server can take longer than the interval: ticks meanwhile are skipped
+    let sampling = false;
+
+    const sample = async () => {
+      if (sampling) return;
+      sampling = true;
+      try {
+        const live = await client.listLiveBroadcasts({ signal });
+        const liveIds = new Set(live.map((broadcast) => broadcast.streamId ?? ""));
+        const stopped = await Promise.all(
+          [...previous]
+            .filter((streamId) => !liveIds.has(streamId))
+            .map((streamId) =>
+              client.getBroadcast(streamId, { signal }).catch((error) => {
+                // Deleted since the previous sample
+                if (error instanceof NotFoundError) return null;
+                throw error;
+              })
+            )
+        );
+        previous = liveIds;
+        await recordSamples(scope, [...live, ...stopped.filter((broadcast) => broadcast !== null)]);
+      } catch (error) {
+        if (isAbortError(error)) return;
+        console.error("Error sampling broadcasts:", error);
+      } finally {
+        sampling = false;
+      }
+    };
+
+    // Runs until the effect is cleaned up
+    const run = () =>
+      new Promise<void>((resolve) => {
+        pruneSamples().catch((error) => console.error("Error pruning stream samples:", error));
+        sample();
+        timer = setInterval(sample, SAMPLE_INTERVAL_MS);
+        signal.addEventListener("abort", () => resolve());
+      });
+
+    if (navigator.locks) {
+      navigator.locks
+        .request(`ams-stream-sampler:${scope}`, { signal }, run)
+        .catch((error) => {
+          if (!isAbortError(error)) console.error("Error waiting for the sampler lock:", error);
+        });
+    } else {
+      run();
+    }
+
+    return () => {
+      controller.abort();
+      clearInterval(timer);
+    };
+  }, [client, scope]);
+
+  return null;
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  downsample,
+  readSamples,
+  SAMPLE_INTERVAL_MS,
+  STATS_WINDOWS,
+  StatsWindow,
+  StreamSample,
+  summarize,
+  windowStart,
+} from "../lib/stream-stats";
+import { LineChart } from "./line-chart";
+
+/** Points drawn per chart; longer windows are downsampled */
+const MAX_POINTS = 600;
+
+const STATUS_COLORS: Record<string, string> = {
+  broadcasting: "bg-green-500",
+  created: "bg-yellow-400",
+  finished: "bg-gray-400",
+};
+
+const formatKbps = (bitrate: number) => `${Math.round(bitrate / 1000)} kbps`;
+
+/**
+ * Viewer, bitrate and status charts of one broadcast over a selectable window
+ */
+export function StreamStatsPanel({
+  scope,
+  streamId,
+  startTime,
+  refreshKey,
+}: {
+  /** See statsScope */
+  scope: string;
+  streamId: string;
+  /** Start of the broadcast, for the lifetime window */
+  startTime?: number;
+  /** Changes whenever the samples should be read again */
+  refreshKey?: unknown;
+}) {
+  const [statsWindow, setStatsWindow] = useState<StatsWindow>("hour");
+  const [samples, setSamples] = useState<StreamSample[]>([]);
+  const [range, setRange] = useState({ start: 0, end: 0 });
+
+  useEffect(() => {
+    let cancelled = false;
+    const start = windowStart(statsWindow, startTime);
+
+    readSamples(scope, streamId, start)
+      .then((result) => {
+        if (cancelled) return;
+        setSamples(result);
+        setRange({ start: start || result[0]?.time || Date.now(), end: Date.now() });
+      })
+      .catch((error) => console.error("Error reading stream samples:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [scope, streamId, startTime, statsWindow, refreshKey]);
+
+  const summary = summarize(samples);
+  const points = downsample(samples, MAX_POINTS);
+  // Allow for the sampler's interval, plus the samples merged by downsampling
+  const maxGap = 3 * SAMPLE_INTERVAL_MS * Math.max(1, Math.ceil(samples.length / MAX_POINTS));
+  const span = Math.max(1, range.end - range.start);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <h3 className="text-lg font-semibold text-gray-900">Viewer Analytics</h3>
+        <div className="flex gap-2">
+          {STATS_WINDOWS.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => setStatsWindow(option.id)}
+              className={`px-3 py-1.5 text-sm font-semibold rounded-md transition-colors ${
+                statsWindow === option.id ? "bg-blue-600 text-white" : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-6">
+        <div className="bg-gray-50 rounded-lg p-4 border-l-4 border-blue-500">
+          <p className="text-gray-600 text-sm font-medium mb-1">Peak Viewers</p>
+          <p className="text-2xl font-bold text-gray-900">{summary.peak}</p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-4 border-l-4 border-green-500">
+          <p className="text-gray-600 text-sm font-medium mb-1">Average Viewers</p>
+          <p className="text-2xl font-bold text-gray-900">{summary.average}</p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-4 border-l-4 border-gray-400">
+          <p className="text-gray-600 text-sm font-medium mb-1">Live Time Sampled</p>
+          <p className="text-2xl font-bold text-gray-900">
+            {Math.round((summary.samples * SAMPLE_INTERVAL_MS) / 60000)} min
+          </p>
+        </div>
+      </div>
+
+      {samples.length === 0 ? (
+        <p className="text-gray-600">
+          No samples in this window. Samples are taken every {SAMPLE_INTERVAL_MS / 1000}s while the stream is live and
+          the dashboard is open in a browser.
+        </p>
+      ) : (
+        <div className="space-y-6">
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">Viewers</h4>
+            <LineChart
+              times={points.map((sample) => sample.time)}
+              range={range}
+              maxGap={maxGap}
+              series={[
+                { label: "HLS", color: "#16a34a", values: points.map((sample) => sample.hlsViewers) },
+                { label: "WebRTC", color: "#9333ea", values: points.map((sample) => sample.webRTCViewers) },
+                { label: "RTMP", color: "#ea580c", values: points.map((sample) => sample.rtmpViewers) },
+              ]}
+            />
+          </div>
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">Incoming bitrate</h4>
+            <LineChart
+              times={points.map((sample) => sample.time)}
+              range={range}
+              maxGap={maxGap}
+              formatValue={formatKbps}
+              series={[{ label: "Bitrate", color: "#2563eb", values: points.map((sample) => sample.bitrate) }]}
+            />
+          </div>
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">Status</h4>
+            <div className="relative h-4 bg-gray-100 rounded overflow-hidden">
+              {points.map((sample, index) => {
+                const next = points[index + 1]?.time ?? Math.min(range.end, sample.time + SAMPLE_INTERVAL_MS);
+                return (
+                  <div
+                    key={sample.time}
+                    title={`${new Date(sample.time).toLocaleTimeString()} ${sample.status}`}
+                    className={`absolute inset-y-0 ${STATUS_COLORS[sample.status] ?? "bg-red-500"}`}
+                    style={{
+                      left: `${((sample.time - range.start) / span) * 100}%`,
+                      width: `${(Math.min(next - sample.time, maxGap) / span) * 100}%`,
+                    }}
+                  />
+                );
+              })}
+            </div>
+            <div className="flex justify-between text-xs text-gray-500 mt-1">
+              <span>{new Date(range.start).toLocaleString()}</span>
+              <span>{new Date(range.end).toLocaleString()}</span>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
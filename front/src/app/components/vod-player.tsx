@@ -0,0 +1,280 @@
+"use client";
+
+import { KeyboardEvent, PointerEvent, useRef, useState } from "react";
+import { formatDuration } from "../lib/format";
+import { thumbnailAt, VodThumbnails } from "../lib/vod-thumbnails";
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+/** Keys of the player, for the help shown next to it */
+export const PLAYER_SHORTCUTS: [string, string][] = [
+  ["Space / K", "Play or pause"],
+  ["← / →", "Back or forward 5 s"],
+  ["J / L", "Back or forward 10 s"],
+  ["Home / End", "Start or end"],
+  ["0 – 9", "Jump to 0% – 90%"],
+  ["< / >", "Slower or faster"],
+  ["M", "Mute"],
+  ["F", "Fullscreen"],
+];
+
+const controlClassName = "px-2 py-1 text-sm font-semibold text-white rounded hover:bg-white/20";
+
+/**
+ * Video player with keyboard seeking, playback rate and thumbnail previews on the seek bar
+ * Focus the player (click it or Tab to it) to use the keys
+ */
+export function VodPlayer({ src, thumbnails }: { src: string; thumbnails: VodThumbnails | null }) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const seekBarRef = useRef<HTMLDivElement>(null);
+
+  const [playing, setPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [buffered, setBuffered] = useState(0);
+  const [rate, setRate] = useState(1);
+  const [muted, setMuted] = useState(false);
+  const [volume, setVolume] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+  /** Seek bar position under the pointer, 0 to 1 */
+  const [hover, setHover] = useState<number | null>(null);
+  const [scrubbing, setScrubbing] = useState(false);
+
+  const seek = (seconds: number) => {
+    const video = videoRef.current;
+    if (!video || !Number.isFinite(video.duration)) return;
+    video.currentTime = Math.min(video.duration, Math.max(0, seconds));
+    setCurrentTime(video.currentTime);
+  };
+
+  const togglePlay = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) {
+      video.play().catch((err) => setError(err instanceof Error ? err.message : String(err)));
+    } else {
+      video.pause();
+    }
+  };
+
+  const changeRate = (step: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    const index = PLAYBACK_RATES.indexOf(video.playbackRate);
+    const next = PLAYBACK_RATES[Math.min(PLAYBACK_RATES.length - 1, Math.max(0, (index < 0 ? 2 : index) + step))];
+    video.playbackRate = next;
+  };
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      containerRef.current?.requestFullscreen();
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    // Keep the keys of focused controls, e.g. the rate select
+    if (e.target instanceof HTMLSelectElement || e.target instanceof HTMLInputElement) return;
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+    const video = videoRef.current;
+    if (!video) return;
+
+    const actions: Record<string, () => void> = {
+      " ": togglePlay,
+      k: togglePlay,
+      ArrowLeft: () => seek(video.currentTime - 5),
+      ArrowRight: () => seek(video.currentTime + 5),
+      j: () => seek(video.currentTime - 10),
+      l: () => seek(video.currentTime + 10),
+      Home: () => seek(0),
+      End: () => seek(video.duration),
+      "<": () => changeRate(-1),
+      ">": () => changeRate(1),
+      m: () => (video.muted = !video.muted),
+      f: toggleFullscreen,
+    };
+    const action = /^\d$/.test(e.key) ? () => seek((video.duration * Number(e.key)) / 10) : actions[e.key];
+    if (!action) return;
+
+    e.preventDefault();
+    action();
+  };
+
+  /** Seek bar position of a pointer event, 0 to 1 */
+  const positionOf = (e: PointerEvent<HTMLDivElement>) => {
+    const rect = seekBarRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+  };
+
+  const hoverTime = hover !== null ? hover * duration : null;
+  const cue = thumbnails && hoverTime !== null ? thumbnailAt(thumbnails.cues, hoverTime) : undefined;
+  const progress = duration ? currentTime / duration : 0;
+
+  return (
+    <div
+      ref={containerRef}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      className="relative bg-black rounded-lg overflow-hidden focus:outline-none focus:ring-2 focus:ring-blue-500"
+      aria-label="Video player"
+    >
+      <video
+        ref={videoRef}
+        src={src}
+        preload="metadata"
+        playsInline
+        onClick={togglePlay}
+        onPlay={() => setPlaying(true)}
+        onPause={() => setPlaying(false)}
+        onLoadedMetadata={(e) => {
+          setDuration(e.currentTarget.duration);
+          setError(null);
+        }}
+        onDurationChange={(e) => setDuration(e.currentTarget.duration)}
+        onTimeUpdate={(e) => {
+          if (!scrubbing) setCurrentTime(e.currentTarget.currentTime);
+        }}
+        onProgress={(e) => {
+          const ranges = e.currentTarget.buffered;
+          if (ranges.length > 0) setBuffered(ranges.end(ranges.length - 1));
+        }}
+        onRateChange={(e) => setRate(e.currentTarget.playbackRate)}
+        onVolumeChange={(e) => {
+          setMuted(e.currentTarget.muted);
+          setVolume(e.currentTarget.volume);
+        }}
+        onError={() => setError("The VoD file could not be played")}
+        className="w-full aspect-video bg-black cursor-pointer"
+      />
+
+      {error && (
+        <div className="absolute inset-x-0 top-0 bg-red-600/90 text-white text-sm px-4 py-2">{error}</div>
+      )}
+
+      <div className="bg-gray-900 px-3 pt-3 pb-2">
+        {/* Seek bar */}
+        <div
+          ref={seekBarRef}
+          className="relative h-2 bg-white/20 rounded cursor-pointer touch-none"
+          onPointerMove={(e) => {
+            setHover(positionOf(e));
+            if (scrubbing) setCurrentTime(positionOf(e) * duration);
+          }}
+          onPointerLeave={() => setHover(null)}
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            setScrubbing(true);
+            setCurrentTime(positionOf(e) * duration);
+          }}
+          onPointerUp={(e) => {
+            setScrubbing(false);
+            seek(positionOf(e) * duration);
+          }}
+          onPointerCancel={() => setScrubbing(false)}
+          role="slider"
+          aria-label="Seek"
+          aria-valuemin={0}
+          aria-valuemax={Math.round(duration)}
+          aria-valuenow={Math.round(currentTime)}
+          aria-valuetext={formatDuration(currentTime * 1000)}
+        >
+          <div
+            className="absolute inset-y-0 left-0 bg-white/30 rounded"
+            style={{ width: `${duration ? (buffered / duration) * 100 : 0}%` }}
+          />
+          <div className="absolute inset-y-0 left-0 bg-blue-500 rounded" style={{ width: `${progress * 100}%` }} />
+          <div
+            className="absolute top-1/2 w-3 h-3 -mt-1.5 -ml-1.5 bg-white rounded-full shadow"
+            style={{ left: `${progress * 100}%` }}
+          />
+
+          {hover !== null && duration > 0 && (
+            <div
+              className="absolute bottom-4 -translate-x-1/2 pointer-events-none flex flex-col items-center"
+              style={{ left: `clamp(${(cue?.width ?? 40) / 2}px, ${hover * 100}%, calc(100% - ${(cue?.width ?? 40) / 2}px))` }}
+            >
+              {cue && thumbnails && (
+                <div
+                  className="border-2 border-white rounded shadow-lg bg-black"
+                  style={{
+                    width: cue.width,
+                    height: cue.height,
+                    backgroundImage: `url(${thumbnails.spriteUrl})`,
+                    backgroundPosition: `-${cue.x}px -${cue.y}px`,
+                  }}
+                />
+              )}
+              <span className="mt-1 px-1.5 py-0.5 bg-black/80 text-white text-xs rounded font-mono">
+                {formatDuration((hoverTime ?? 0) * 1000)}
+              </span>
+            </div>
+          )}
+        </div>
+
+        {/* Controls */}
+        <div className="flex items-center gap-2 mt-2">
+          <button onClick={togglePlay} className={controlClassName} aria-label={playing ? "Pause" : "Play"}>
+            {playing ? "❚❚" : "▶"}
+          </button>
+          <button onClick={() => seek(currentTime - 10)} className={controlClassName} aria-label="Back 10 seconds">
+            −10s
+          </button>
+          <button onClick={() => seek(currentTime + 10)} className={controlClassName} aria-label="Forward 10 seconds">
+            +10s
+          </button>
+          <span className="text-xs text-gray-300 font-mono">
+            {formatDuration(currentTime * 1000)} / {formatDuration(duration * 1000)}
+          </span>
+
+          <div className="ml-auto flex items-center gap-2">
+            <button
+              onClick={() => {
+                if (videoRef.current) videoRef.current.muted = !videoRef.current.muted;
+              }}
+              className={controlClassName}
+              aria-label={muted ? "Unmute" : "Mute"}
+            >
+              {muted || volume === 0 ? "🔇" : "🔊"}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={muted ? 0 : volume}
+              onChange={(e) => {
+                const video = videoRef.current;
+                if (!video) return;
+                video.volume = Number(e.target.value);
+                video.muted = video.volume === 0;
+              }}
+              className="w-20 accent-blue-500"
+              aria-label="Volume"
+            />
+            <select
+              value={rate}
+              onChange={(e) => {
+                if (videoRef.current) videoRef.current.playbackRate = Number(e.target.value);
+              }}
+              className="bg-gray-800 text-white text-sm rounded px-1 py-1 border border-gray-700"
+              aria-label="Playback rate"
+            >
+              {PLAYBACK_RATES.map((value) => (
+                <option key={value} value={value}>
+                  {value}×
+                </option>
+              ))}
+            </select>
+            <button onClick={toggleFullscreen} className={controlClassName} aria-label="Fullscreen">
+              ⛶
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
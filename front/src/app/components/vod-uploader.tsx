@@ -0,0 +1,256 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useAntMedia } from "../lib/ant-media-context";
+import { formatBytes } from "../lib/format";
+import { UploadProgress, VodUpload } from "../lib/vod-upload";
+
+interface QueuedFile {
+  key: number;
+  file: File;
+  /** VoD name; editable until the upload starts */
+  name: string;
+  metadata?: Record<string, unknown>;
+  upload: VodUpload | null;
+  progress: UploadProgress;
+}
+
+const STATE_LABELS: Record<UploadProgress["state"], string> = {
+  queued: "Waiting",
+  uploading: "Uploading",
+  paused: "Paused",
+  completing: "Sending to Ant Media",
+  done: "Done",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+const smallButtonClassName =
+  "px-2 py-1 text-xs font-semibold rounded-md border border-gray-300 bg-white text-gray-800 hover:bg-gray-100 disabled:opacity-50";
+
+/**
+ * Drag-and-drop VoD uploads with progress, pause, resume and cancel
+ * Files are uploaded one after another
+ */
+export function VodUploader({ onUploaded }: { onUploaded: () => void }) {
+  const { settings, activeProfile } = useAntMedia();
+  const [files, setFiles] = useState<QueuedFile[]>([]);
+  const [metadataText, setMetadataText] = useState("");
+  const [metadataError, setMetadataError] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
+
+  const nextKey = useRef(0);
+  const filesRef = useRef(files);
+  const running = useRef(false);
+  const onUploadedRef = useRef(onUploaded);
+
+  useEffect(() => {
+    filesRef.current = files;
+    onUploadedRef.current = onUploaded;
+  });
+
+  const busy = files.some((item) => ["uploading", "completing"].includes(item.progress.state));
+
+  // Leaving the page stops the uploads; they resume when the same files are added again
+  useEffect(() => {
+    if (!busy) return;
+    const warn = (event: BeforeUnloadEvent) => event.preventDefault();
+    window.addEventListener("beforeunload", warn);
+    return () => window.removeEventListener("beforeunload", warn);
+  }, [busy]);
+
+  const setProgress = (key: number, progress: UploadProgress) => {
+    setFiles((current) => current.map((item) => (item.key === key ? { ...item, progress } : item)));
+    if (progress.state === "done") onUploadedRef.current();
+  };
+
+  /**
+   * Upload the waiting files one after another
+   */
+  const runQueue = async () => {
+    if (running.current) return;
+    running.current = true;
+    try {
+      for (;;) {
+        const next = filesRef.current.find((item) => item.progress.state === "queued");
+        if (!next) break;
+
+        const upload = new VodUpload(
+          next.file,
+          { name: next.name.trim() || next.file.name, metadata: next.metadata },
+          { profileId: activeProfile?.id, appName: settings.appName },
+          (progress) => setProgress(next.key, progress)
+        );
+        // Mark it started before the next lookup
+        filesRef.current = filesRef.current.map((item) =>
+          item.key === next.key ? { ...item, upload, progress: { ...item.progress, state: "uploading" } } : item
+        );
+        setFiles((current) => current.map((item) => (item.key === next.key ? { ...item, upload } : item)));
+        await upload.start();
+      }
+    } finally {
+      running.current = false;
+    }
+  };
+
+  const addFiles = (list: FileList | null) => {
+    if (!list || list.length === 0) return;
+
+    let metadata: Record<string, unknown> | undefined;
+    if (metadataText.trim()) {
+      try {
+        metadata = JSON.parse(metadataText);
+        if (!metadata || typeof metadata !== "object" || Array.isArray(metadata)) throw new Error();
+      } catch {
+        setMetadataError("Metadata must be a JSON object, e.g. {\"event\": \"Keynote\"}");
+        return;
+      }
+    }
+    setMetadataError(null);
+
+    const added = Array.from(list).map(
+      (file): QueuedFile => ({
+        key: nextKey.current++,
+        file,
+        name: file.name.replace(/\.[^.]+$/, ""),
+        metadata,
+        upload: null,
+        progress: { state: "queued", sent: 0, total: file.size },
+      })
+    );
+    filesRef.current = [...filesRef.current, ...added];
+    setFiles(filesRef.current);
+    runQueue();
+  };
+
+  const handleResume = (item: QueuedFile) => {
+    if (item.upload) item.upload.start();
+  };
+
+  const handleRemove = (key: number) => setFiles((current) => current.filter((item) => item.key !== key));
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <h2 className="text-xl font-bold text-gray-900 mb-4">Upload VoDs</h2>
+
+      <label
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          addFiles(e.dataTransfer.files);
+        }}
+        className={`block border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors ${
+          dragging ? "border-blue-500 bg-blue-50" : "border-gray-300 hover:border-blue-400"
+        }`}
+      >
+        <input
+          type="file"
+          accept="video/*,.mp4,.webm,.mov,.mkv"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            addFiles(e.target.files);
+            e.target.value = "";
+          }}
+        />
+        <p className="font-semibold text-gray-800">Drop video files here or click to choose</p>
+        <p className="text-sm text-gray-500 mt-1">
+          Large files are sent in chunks; an interrupted upload resumes when the same file is added again
+        </p>
+      </label>
+
+      <div className="mt-4">
+        <label className="block text-sm font-semibold text-gray-800 mb-1">Metadata (optional JSON)</label>
+        <textarea
+          value={metadataText}
+          onChange={(e) => setMetadataText(e.target.value)}
+          rows={2}
+          placeholder='{"event": "Keynote"}'
+          className="w-full px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900 bg-white text-sm font-mono"
+        />
+        <p className="text-xs text-gray-500">Stored with the files added next</p>
+        {metadataError && <p className="text-sm text-red-700 mt-1">{metadataError}</p>}
+      </div>
+
+      {files.length > 0 && (
+        <ul className="mt-4 divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {files.map((item) => {
+            const { state, sent, total, error } = item.progress;
+            const percent = Math.floor((sent / Math.max(1, total)) * 100);
+
+            return (
+              <li key={item.key} className="p-4">
+                <div className="flex flex-col md:flex-row md:items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    {state === "queued" && !item.upload ? (
+                      <input
+                        value={item.name}
+                        onChange={(e) =>
+                          setFiles((current) =>
+                            current.map((other) => (other.key === item.key ? { ...other, name: e.target.value } : other))
+                          )
+                        }
+                        className="w-full px-2 py-1 border border-gray-300 rounded text-sm text-gray-900"
+                        aria-label="VoD name"
+                      />
+                    ) : (
+                      <p className="font-semibold text-gray-900 truncate">{item.name}</p>
+                    )}
+                    <p className="text-xs text-gray-500 truncate">
+                      {item.file.name} · {formatBytes(sent)} of {formatBytes(total)} · {STATE_LABELS[state]}
+                      {error ? `: ${error}` : ""}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    {state === "uploading" && (
+                      <button onClick={() => item.upload?.pause()} className={smallButtonClassName}>
+                        Pause
+                      </button>
+                    )}
+                    {(state === "paused" || state === "failed") && (
+                      <button onClick={() => handleResume(item)} className={smallButtonClassName}>
+                        {state === "failed" ? "Retry" : "Resume"}
+                      </button>
+                    )}
+                    {["queued", "uploading", "paused", "failed"].includes(state) && (
+                      <button
+                        onClick={() => {
+                          if (item.upload) {
+                            item.upload.cancel();
+                          } else {
+                            setProgress(item.key, { ...item.progress, state: "cancelled" });
+                          }
+                        }}
+                        className={smallButtonClassName}
+                      >
+                        Cancel
+                      </button>
+                    )}
+                    {["done", "cancelled"].includes(state) && (
+                      <button onClick={() => handleRemove(item.key)} className={smallButtonClassName}>
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <div className="mt-2 h-2 bg-gray-100 rounded overflow-hidden">
+                  <div
+                    className={`h-full transition-all ${
+                      state === "failed" ? "bg-red-500" : state === "done" ? "bg-green-500" : "bg-blue-600"
+                    }`}
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
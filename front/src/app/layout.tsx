@@ -1,5 +1,8 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { ProfileSwitcher } from "./components/profile-switcher";
+import { StreamSampler } from "./components/stream-sampler";
+import { AntMediaProvider } from "./lib/ant-media-context";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -30,7 +33,11 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <AntMediaProvider>
+          <ProfileSwitcher />
+          <StreamSampler />
+          {children}
+        </AntMediaProvider>
       </body>
     </html>
   );
@@ -0,0 +1,316 @@
+"use client";
+
+/**
+ * React context that shares one AntMediaClient instance, bound to the active
+ * connection profile, across all pages
+ */
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { AntMediaClient } from "../client";
+import { ConnectionProfile, DEFAULT_PROFILE_ID, ProfileInput } from "./profiles";
+
+/**
+ * Connection settings of the active profile, shared by every page
+ */
+export interface ConnectionSettings {
+  serverUrl: string;
+  appName: string;
+  /** WebSocket protocol override, for formatWebSocketUrl */
+  wsProtocol?: "ws" | "wss";
+}
+
+export const DEFAULT_CONNECTION_SETTINGS: ConnectionSettings = {
+  serverUrl: process.env.NEXT_PUBLIC_AMS_SERVER_URL || "http://localhost:5080",
+  appName: process.env.NEXT_PUBLIC_AMS_APP_NAME || "LiveApp",
+};
+
+/**
+ * Signed-in user, as returned by /api/auth/session
+ */
+export interface SessionInfo {
+  email: string;
+  /** Connection profile the user signed in to */
+  profileId: string;
+  /** Expiry, in seconds since the epoch */
+  exp: number;
+}
+
+/** localStorage key of the active profile id */
+const ACTIVE_PROFILE_KEY = "ams.activeProfile";
+
+/** Longest setTimeout delay, about 24.8 days */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+interface AntMediaContextValue {
+  client: AntMediaClient;
+  settings: ConnectionSettings;
+  /** Change fields of the active profile and save it */
+  updateSettings: (settings: Partial<ConnectionSettings>) => Promise<void>;
+  /** Empty on the login and setup pages */
+  profiles: ConnectionProfile[];
+  activeProfile: ConnectionProfile | null;
+  selectProfile: (id: string) => void;
+  /** Create or update a profile */
+  saveProfile: (input: ProfileInput) => Promise<ConnectionProfile>;
+  deleteProfile: (id: string) => Promise<void>;
+  /** Null until the session is loaded, and on the login and setup pages */
+  session: SessionInfo | null;
+  signOut: () => Promise<void>;
+}
+
+/**
+ * Send a request to the /api/profiles routes
+ * @throws Error with the route's message when it fails
+ */
+async function profilesRequest<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`/api/profiles${path}`, {
+    ...init,
+    cache: "no-store",
+    headers: { "Content-Type": "application/json" },
+  });
+  const body = await response.json().catch(() => undefined);
+
+  if (!response.ok) {
+    throw new Error(body?.message || `Profile request failed (HTTP ${response.status})`);
+  }
+  return body;
+}
+
+/**
+ * Fields of a profile to save it again; the stored secret is kept
+ */
+function toInput(profile: ConnectionProfile): ProfileInput {
+  const { id, name, serverUrl, appName, auth, adminEmail, wsProtocol } = profile;
+  return { id, name, serverUrl, appName, auth, adminEmail, wsProtocol };
+}
+
+/**
+ * Login URL that returns to the current page afterwards
+ */
+function loginUrl(): string {
+  const current = `${window.location.pathname}${window.location.search}`;
+  return current === "/" ? "/login" : `/login?next=${encodeURIComponent(current)}`;
+}
+
+const AntMediaContext = createContext<AntMediaContextValue | null>(null);
+
+export function AntMediaProvider({ children }: { children: React.ReactNode }) {
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>([]);
+  const [profilesLoaded, setProfilesLoaded] = useState(false);
+  const [activeProfileId, setActiveProfileId] = useState(() =>
+    typeof window === "undefined"
+      ? DEFAULT_PROFILE_ID
+      : localStorage.getItem(ACTIVE_PROFILE_KEY) || DEFAULT_PROFILE_ID
+  );
+
+  const activeProfile =
+    profiles.find((profile) => profile.id === activeProfileId) ?? profiles[0] ?? null;
+
+  const settings = useMemo<ConnectionSettings>(
+    () =>
+      activeProfile
+        ? {
+            serverUrl: activeProfile.serverUrl,
+            appName: activeProfile.appName,
+            wsProtocol: activeProfile.wsProtocol,
+          }
+        : DEFAULT_CONNECTION_SETTINGS,
+    [activeProfile]
+  );
+
+  const [session, setSession] = useState<SessionInfo | null>(null);
+  const router = useRouter();
+  // Pages the proxy serves without a session
+  const onPublicPage = ["/login", "/setup"].includes(usePathname());
+
+  /** Session ended or was rejected: back to login */
+  const expireSession = useCallback(() => {
+    setSession(null);
+    router.replace(loginUrl());
+  }, [router]);
+
+  const signOut = useCallback(async () => {
+    await fetch("/api/auth/logout", { method: "POST" });
+    setSession(null);
+    router.replace("/login");
+  }, [router]);
+
+  const profileId = activeProfile?.id ?? activeProfileId;
+
+  const client = useMemo(
+    () =>
+      new AntMediaClient({
+        serverUrl: settings.serverUrl,
+        appName: settings.appName,
+        // REST calls go through our /api routes, which add the profile's AMS credentials
+        proxyPath: "/api",
+        profileId,
+        hooks: {
+          afterResponse: (response, url) => {
+            if (response.status === 401 && !url.includes("/api/auth/login")) {
+              expireSession();
+            }
+          },
+        },
+      }),
+    [settings.serverUrl, settings.appName, profileId, expireSession]
+  );
+
+  const loadProfiles = useCallback(async () => {
+    const list = await profilesRequest<ConnectionProfile[]>("");
+    setProfiles(list);
+    return list;
+  }, []);
+
+  const selectProfile = useCallback(
+    (id: string) => {
+      localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+      setActiveProfileId(id);
+      // A session only holds for the profile it was signed in to: sign in to the new one
+      if (session && id !== session.profileId) {
+        expireSession();
+      }
+    },
+    [session, expireSession]
+  );
+
+  const saveProfile = useCallback(
+    async (input: ProfileInput) => {
+      const saved = await profilesRequest<ConnectionProfile>("", {
+        method: "POST",
+        body: JSON.stringify(input),
+      });
+      await loadProfiles();
+      return saved;
+    },
+    [loadProfiles]
+  );
+
+  const deleteProfile = useCallback(
+    async (id: string) => {
+      await profilesRequest(`/${encodeURIComponent(id)}`, { method: "DELETE" });
+      await loadProfiles();
+      if (id === activeProfileId) {
+        selectProfile(DEFAULT_PROFILE_ID);
+      }
+    },
+    [loadProfiles, activeProfileId, selectProfile]
+  );
+
+  const updateSettings = useCallback(
+    async (update: Partial<ConnectionSettings>) => {
+      // Profiles aren't loaded on the setup page
+      const list = profiles.length > 0 ? profiles : await loadProfiles();
+      const current = list.find((profile) => profile.id === profileId) ?? list[0];
+
+      await saveProfile({ ...toInput(current), ...update });
+    },
+    [profiles, profileId, loadProfiles, saveProfile]
+  );
+
+  // Pages wait for the profiles so that their first requests go to the right server
+  useEffect(() => {
+    if (onPublicPage) return;
+
+    let cancelled = false;
+
+    profilesRequest<ConnectionProfile[]>("")
+      .then((list) => {
+        if (!cancelled) setProfiles(list);
+      })
+      .catch((error) => console.error("Error loading connection profiles:", error))
+      .finally(() => {
+        if (!cancelled) setProfilesLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [onPublicPage]);
+
+  // Load the session after login and send the user back to login when it expires
+  useEffect(() => {
+    if (onPublicPage) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    fetch("/api/auth/session", { cache: "no-store" })
+      .then(async (response) => {
+        if (cancelled) return;
+        if (!response.ok) {
+          expireSession();
+          return;
+        }
+
+        const current: SessionInfo = await response.json();
+        if (cancelled) return;
+        setSession(current);
+
+        // Longer delays overflow setTimeout and fire at once: wait in steps until the expiry is in reach
+        const arm = () => {
+          const delay = current.exp * 1000 - Date.now();
+          timer = delay > MAX_TIMER_MS ? setTimeout(arm, MAX_TIMER_MS) : setTimeout(expireSession, delay);
+        };
+        arm();
+      })
+      .catch((error) => console.error("Error loading session:", error));
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [onPublicPage, expireSession]);
+
+  const value = useMemo(
+    () => ({
+      client,
+      settings,
+      updateSettings,
+      profiles,
+      activeProfile,
+      selectProfile,
+      saveProfile,
+      deleteProfile,
+      session,
+      signOut,
+    }),
+    [
+      client,
+      settings,
+      updateSettings,
+      profiles,
+      activeProfile,
+      selectProfile,
+      saveProfile,
+      deleteProfile,
+      session,
+      signOut,
+    ]
+  );
+
+  return (
+    <AntMediaContext.Provider value={value}>
+      {onPublicPage || profilesLoaded ? children : null}
+    </AntMediaContext.Provider>
+  );
+}
+
+/**
+ * Get the shared client and connection settings
+ */
+export function useAntMedia(): AntMediaContextValue {
+  const context = useContext(AntMediaContext);
+  if (!context) {
+    throw new Error("useAntMedia must be used within an AntMediaProvider");
+  }
+  return context;
+}
+
+/**
+ * Get the shared AntMediaClient instance
+ */
+export function useAntMediaClient(): AntMediaClient {
+  return useAntMedia().client;
+}
@@ -0,0 +1,4089 @@
+/**
+ * Application REST API bindings generated from broadcast.open-api.json
+ * Do not edit: run `npm run generate:api` after updating the spec
+ */
+
+import type { Schema } from "./schema";
+import type { ApiSend } from "./transport";
+import type { RequestOptions } from "../retry";
+
+/** The basic result class */
+export interface Result {
+  /** The result of the operation */
+  success?: boolean;
+  /** The message of the operation result */
+  message?: string;
+  /** The id of the record if operation is about adding a record */
+  dataId?: string;
+  /** The id of error of the operation result */
+  errorId?: number;
+}
+
+/** The endpoint class, such as Facebook, Twitter or custom RTMP endpoints */
+export interface Endpoint {
+  /** Status of the RTMP muxer, possible values are started, finished, failed, broadcasting, {@link IAntMediaStreamHandler#BROADCAST_STATUS_*} */
+  status?: string;
+  /** The service name like facebook, periscope, youtube or generic */
+  type?: string;
+  /** RTMP or SRT URL of the endpoint */
+  endpointUrl?: string;
+  rtmpUrl?: string;
+  /** The endpoint service id, this field holds the id of the endpoint */
+  endpointServiceId?: string;
+}
+
+/** The time based token subscriber class. This keeps which subscriber can access to which stream and which TOTP */
+export interface Subscriber {
+  /** The subscriber id of the subscriber */
+  subscriberId?: string;
+  /** The subscriber name of the subscriber */
+  subscriberName?: string;
+  /** The stream id of the token */
+  streamId?: string;
+  /** Secret code of the subscriber */
+  b32Secret?: string;
+  /** Type of subscriber (play or publish). Pay attention that 'publish' type can also play the streams for making easy to join video conferencing */
+  type?: string;
+  /** Is subscriber connected */
+  connected?: boolean;
+  /** Count of subscriber usage */
+  currentConcurrentConnections?: number;
+  /** Count of subscriber usage */
+  concurrentConnectionsLimit?: number;
+  blockedType?: string;
+  blockedUntilUnitTimeStampMs?: number;
+  registeredNodeIp?: string;
+  /** Average video bitrate for a subscriber */
+  avgVideoBitrate?: number;
+  /** Average audio bitrate for a subscriber */
+  avgAudioBitrate?: number;
+  /** Custom TOTP expiry period in seconds for this subscriber */
+  totpExpiryPeriodSeconds?: number;
+}
+
+/** The basic broadcast class */
+export interface Broadcast {
+  /** the id of the stream */
+  streamId?: string;
+  /** the status of the stream */
+  status?: "finished" | "broadcasting" | "created" | "preparing" | "error" | "failed";
+  /** The status of the playlist. It's usable if type is playlist */
+  playListStatus?: "finished" | "broadcasting" | "created" | "preparing" | "error" | "failed";
+  /** the type of the stream */
+  type?: "liveStream" | "ipCamera" | "streamSource" | "VoD" | "playlist";
+  /** The publish type of the stream. It's read-only and its value updated on the server side */
+  publishType?: "WebRTC" | "RTMP" | "Pull" | "SRT";
+  /** the name of the stream */
+  name?: string;
+  /** the description of the stream */
+  description?: string;
+  /** it is a video filter for the service, this value is controlled by the user, default value is true in the db */
+  publish?: boolean;
+  /** the date when record is created in milliseconds */
+  date?: number;
+  /** the planned start date */
+  plannedStartDate?: number;
+  /** the planned end date */
+  plannedEndDate?: number;
+  /** the duration of the stream in milliseconds */
+  duration?: number;
+  /** the list of endpoints such as Facebook, Twitter or custom RTMP endpoints */
+  endPointList?: Endpoint[];
+  /** the list broadcasts in the playlis. This list has values when the broadcast type is playlist */
+  playListItemList?: PlayListItem[];
+  /** the identifier of whether stream is public or not */
+  publicStream?: boolean;
+  /** the identifier of whether stream is 360 or not */
+  is360?: boolean;
+  /** the url that will be notified when stream is published, ended and muxing finished */
+  listenerHookURL?: string;
+  /** the category of the stream */
+  category?: string;
+  /** the IP Address of the IP Camera or publisher */
+  ipAddr?: string;
+  /** the user name of the IP Camera */
+  username?: string;
+  /** the password of the IP Camera */
+  password?: string;
+  /** the quality of the incoming stream during publishing */
+  quality?: string;
+  /** the speed of the incoming stream, for better quality and performance it should be around 1.00 */
+  speed?: number;
+  /** the stream URL for fetching stream, especially should be defined for IP Cameras or Cloud streams */
+  streamUrl?: string;
+  /** the origin address server broadcasting */
+  originAdress?: string;
+  /** MP4 muxing whether enabled or not for the stream, 1 means enabled, -1 means disabled, 0 means no settings for the stream */
+  mp4Enabled?: number;
+  /** WebM muxing whether enabled or not for the stream, 1 means enabled, -1 means disabled, 0 means no settings for the stream */
+  webMEnabled?: number;
+  /** Initial time to start playing. It can be used in VoD file or stream sources that has seek support */
+  seekTimeInMs?: number;
+  /** Conference mode. It's used if this broadcast has some specific modes. It's created for backward compatibility. It will be deleted. */
+  conferenceMode?: string;
+  /** Number of subtracks that is allowed to be created for the broadcast. It's usefult for limiting number of conference attendees. Default value is -1  and it means no limit */
+  subtracksLimit?: number;
+  /** the expire time in milliseconds For instance if this value is 10000 then broadcast should be started in 10 seconds after it is created.If expire duration is 0, then stream will never expire */
+  expireDurationMS?: number;
+  /** the RTMP URL where to publish live stream to */
+  rtmpURL?: string;
+  /** This value is true when a broadcast is created directly through streaming without created earlier through rest service. It is false by default */
+  zombi?: boolean;
+  /** Number of packets ingested and waiting for processing. It generally makes sense in RTMP, SRT ingest and Stream Source pull. This numbershould be low less than 10 */
+  pendingPacketSize?: number;
+  /** the number of HLS viewers of the stream */
+  hlsViewerCount?: number;
+  /** the number of DASH viewers of the stream */
+  dashViewerCount?: number;
+  /** the number of WebRTC viewers of the stream */
+  webRTCViewerCount?: number;
+  /** the number of RTMP viewers of the stream */
+  rtmpViewerCount?: number;
+  /** Publishing start time of the stream in unixtimestamp milliseconds */
+  startTime?: number;
+  /** The received total bytes until now */
+  receivedBytes?: number;
+  /** The received bitrate per seconds */
+  bitrate?: number;
+  /** Width of the incoming stream */
+  width?: number;
+  /** Height of the incoming stream */
+  height?: number;
+  /** Number of frames ingested and waiting for encoding. This number should be low less than 10 */
+  encoderQueueSize?: number;
+  /** Number of drop packets in total while ingesting. The packets can be drop if the server is loaded or WebRTC connectivity is not healthy. This value should be zero in perfect scenario */
+  dropPacketCountInIngestion?: number;
+  /** Number of dropped frames in total while transcoding the stream. If there is an adaptive bitrate and server is loaded, encoder may not transcode the stream in real-time and frames can be dropped to not cause memory crash */
+  dropFrameCountInEncoding?: number;
+  /** Lost packets' ratio in WebRTC ingest. This value should be 0.01(%1) */
+  packetLostRatio?: number;
+  /** Number of packets lost in WebRTC ingest */
+  packetsLost?: number;
+  /** Jitter milliseconds in WebRTC ingest. This value should be less than 50ms. The lesser the better */
+  jitterMs?: number;
+  /** Round Trip Time milliseconds in WebRTC ingest. This value should be less than 50ms. The lesser the better */
+  rttMs?: number;
+  /** User - Agent */
+  userAgent?: string;
+  /** Remote IP of the stream */
+  remoteIp?: string;
+  /** latitude of the broadcasting location */
+  latitude?: string;
+  /** longitude of the broadcasting location */
+  longitude?: string;
+  /** altitude of the broadcasting location */
+  altitude?: string;
+  /** If this broadcast is a track of a WebRTC stream. This variable is Id of that stream. */
+  mainTrackStreamId?: string;
+  /** If this broadcast is main track. This variable hold sub track ids. */
+  subTrackStreamIds?: string[];
+  /** Absolute start time in milliseconds - unix timestamp. It's used for measuring the absolute latency */
+  absoluteStartTimeMs?: number;
+  /** Number of the allowed maximum WebRTC viewers for the broadcast */
+  webRTCViewerLimit?: number;
+  /** Number of the allowed maximum HLS viewers for the broadcast */
+  hlsViewerLimit?: number;
+  /** Number of the allowed maximum DASH viewers for the broadcast */
+  dashViewerLimit?: number;
+  /** Name of the subfolder that will contain stream files */
+  subFolder?: string;
+  /** Current playing index for playlist types */
+  currentPlayIndex?: number;
+  /** Meta data filed for the custom usage */
+  metaData?: string;
+  /** the identifier of playlist loop status */
+  playlistLoopEnabled?: boolean;
+  updateTime?: number;
+  /** Broadcast role for selective playback */
+  role?: string;
+  hlsParameters?: HLSParameters;
+  /** The identifier of whether stream should start/stop automatically. It's effective for Stream Sources/IP Cameras. If there is no viewer after certain amount of seconds, it will stop. If there is an user want to watch the stream, it will start automatically */
+  autoStartStopEnabled?: boolean;
+  /** The list of encoder settings */
+  encoderSettingsList?: EncoderSettings[];
+  virtual?: boolean;
+  maxIdleTime?: number;
+  anyoneWatching?: boolean;
+}
+
+export interface EncoderSettings {
+  height?: number;
+  videoBitrate?: number;
+  audioBitrate?: number;
+  forceEncode?: boolean;
+}
+
+export interface HLSParameters {
+  /** Duration of segments in m3u8 files in seconds */
+  hlsTime?: string;
+  /** Set the maximum number of playlist entries, If 0 the list file will contain all the segments */
+  hlsListSize?: string;
+  /** Playlist type of m3u8 files, Can be 'event' or 'vod' or empty */
+  hlsPlayListType?: string;
+}
+
+export interface PlayListItem {
+  streamUrl?: string;
+  type?: string;
+  name?: string;
+  durationInMs?: number;
+  seekTimeInMs?: number;
+}
+
+/** Simple generic statistics class to return single values */
+export interface SimpleStat {
+  /** the stat value */
+  number?: number;
+}
+
+export interface BroadcastStatistics {
+  /** The total RTMP viewers of the stream */
+  totalRTMPWatchersCount?: number;
+  /** The total HLS viewers of the stream */
+  totalHLSWatchersCount?: number;
+  /** The total WebRTC viewers of the stream */
+  totalWebRTCWatchersCount?: number;
+  /** The total DASH viewers of the stream */
+  totalDASHWatchersCount?: number;
+}
+
+export interface AppBroadcastStatistics {
+  /** The total RTMP viewers of the stream */
+  totalRTMPWatchersCount?: number;
+  /** The total HLS viewers of the stream */
+  totalHLSWatchersCount?: number;
+  /** The total WebRTC viewers of the stream */
+  totalWebRTCWatchersCount?: number;
+  /** The total DASH viewers of the stream */
+  totalDASHWatchersCount?: number;
+  /** The total active live stream count */
+  activeLiveStreamCount?: number;
+}
+
+/** Connection Event for the subscriber */
+export interface ConnectionEvent {
+  /** the unix timestamp of the event in milliseconds */
+  timestamp?: number;
+  /** The type of the event. It can have connected or disconnected values */
+  eventType?: string;
+  /** IP address of the instance that this event happened */
+  instanceIP?: string;
+  /** Connection type. It can be publish or play */
+  type?: string;
+  /** Event protocol. It can be webrtc, hls, dash */
+  eventProtocol?: string;
+  /** Stream id of the event */
+  streamId?: string;
+  /** Subscriber id of the event */
+  subscriberId?: string;
+}
+
+/** Statistics for each subsciber to the stream */
+export interface SubscriberStats {
+  /** The subscriber id of the subscriber */
+  subscriberId?: string;
+  /** The stream id of the token */
+  streamId?: string;
+  /** List of connection events */
+  connectionEvents?: ConnectionEvent[];
+  /** Average video bitrate for a subscriber */
+  avgVideoBitrate?: number;
+  /** Average audio bitrate for a subscriber */
+  avgAudioBitrate?: number;
+}
+
+/** The id of the detected object */
+export interface ObjectId {
+  timestamp?: number;
+  date?: string;
+}
+
+/** The TensorFlow detected object class */
+export interface TensorFlowObject {
+  dbId?: ObjectId;
+  /** The name of the detected object */
+  objectName?: string;
+  /** The probability of the detected object */
+  probability?: number;
+  /** The time of the detected object */
+  detectionTime?: number;
+  /** The id of the detected image */
+  imageId?: string;
+  /** The x coordinate of the upper-left corner of detected object frame */
+  minX?: number;
+  /** The y coordinate of the upper-left corner of detected object frame */
+  minY?: number;
+  /** The x coordinate of the lower-right corner of detected object frame */
+  maxX?: number;
+  /** The y coordinate of the lower-right corner of detected object frame */
+  maxY?: number;
+}
+
+/** The one-time token class */
+export interface Token {
+  /** The token id */
+  tokenId?: string;
+  /** The stream id associated with the token */
+  streamId?: string;
+  /** The expiration date of the token */
+  expireDate?: number;
+  /** The type of the token */
+  type?: string;
+  /** The id of the conference room which requested streams belong to */
+  roomId?: string;
+}
+
+export interface RTMPToWebRTCStats {
+  streamId?: string;
+  encoderCount?: number;
+  totalVideoIngestTime?: number;
+  totalIngestedVideoPacketCount?: number;
+  totalVideoDecodeTime?: number;
+  totalDecodedVideoFrameCount?: number;
+  totalVideoEncodeQueueTime?: number;
+  totalVideoEncodeTime?: number;
+  totalEncodedVideoPacketCount?: number;
+  totalVideoDeliveryTime?: number;
+  totalDeliveredVideoPacketCount?: number;
+  absoluteTotalIngestTime?: number;
+  absoluteTimeMs?: number;
+  absouteTotalLatencyUntilRTPPacketizingTimeMs?: number;
+  frameId?: number;
+  captureTimeMs?: number;
+  absoluteIngestTime?: number;
+}
+
+export interface BasicStreamInfo {
+  videoHeight?: number;
+  videoWidth?: number;
+  videoBitrate?: number;
+  audioBitrate?: number;
+  videoCodec?: "NoCodec" | "VP8" | "H264" | "PNG" | "H265" | "JPG" | "WEBP";
+}
+
+/** Audio send stats */
+export interface WebRTCAudioSendStats {
+  audioPacketsSent?: number;
+  audioBytesSent?: number;
+  audioPacketsPerSecond?: number;
+  audioBytesSentPerSecond?: number;
+  timeMs?: number;
+  audioPacketsSentPerSecond?: number;
+}
+
+/** WebRTC Client statistics. */
+export interface WebRTCClientStats {
+  /** The measured bitrate of the WebRTC Client */
+  measuredBitrate?: number;
+  /** The sent bitrate of the WebRTC Client */
+  sendBitrate?: number;
+  /** The video frame sent period of the WebRTC Client */
+  videoFrameSendPeriod?: number;
+  /** The audio frame send period of the WebRTC Client */
+  audioFrameSendPeriod?: number;
+  /** WebRTC Client Id which is basically hash of the object */
+  clientId?: number;
+  /** Number of video packets sent */
+  videoPacketCount?: number;
+  /** Number of audio packets sent */
+  audioPacketCount?: number;
+  videoSentStats?: WebRTCVideoSendStats;
+  audioSentStats?: WebRTCAudioSendStats;
+  /** Free text information for the client */
+  clientInfo?: string;
+  /** WebRTC Client's ip address */
+  clientIp?: string;
+}
+
+/** Video send stats */
+export interface WebRTCVideoSendStats {
+  videoFirCount?: number;
+  videoPliCount?: number;
+  videoNackCount?: number;
+  videoPacketsSent?: number;
+  videoFramesEncoded?: number;
+  videoBytesSent?: number;
+  videoPacketsSentPerSecond?: number;
+  videoBytesSentPerSecond?: number;
+  videoFramesEncodedPerSecond?: number;
+  timeMs?: number;
+}
+
+/** Audio receive stats */
+export interface WebRTCAudioReceiveStats {
+  audioPacketsReceived?: number;
+  audioBytesReceived?: number;
+  audioPacketsLost?: number;
+  audioJitter?: number;
+  audioFractionLost?: number;
+  audioPacketsReceivedPerSecond?: number;
+  audioBytesReceivedPerSecond?: number;
+}
+
+/** Aggregation of WebRTC Low Level Receive Stats */
+export interface WebRTCReceiveStats {
+  audioReceiveStats?: WebRTCAudioReceiveStats;
+  videoReceiveStats?: WebRTCVideoReceiveStats;
+}
+
+/** Video receive stats */
+export interface WebRTCVideoReceiveStats {
+  videoFirCount?: number;
+  videoPliCount?: number;
+  videoNackCount?: number;
+  videoPacketsReceived?: number;
+  videoPacketsLost?: number;
+  videoFractionLost?: number;
+  videoFrameReceived?: number;
+  videoBytesReceived?: number;
+  videoPacketsReceivedPerSecond?: number;
+  videoBytesReceivedPerSecond?: number;
+  videoFrameReceivedPerSecond?: number;
+  jitter?: number;
+}
+
+/** Aggregation of WebRTC Low Level Send Stats */
+export interface WebRTCSendStats {
+  audioSendStats?: WebRTCAudioSendStats;
+  videoSendStats?: WebRTCVideoSendStats;
+}
+
+/** This is the BroadcastUpdate and it's almost same with BroadcastUpdate with all default values are null. We update the fields in update method if it's not null.It makes this data up to date in race conditions. */
+export interface BroadcastUpdate {
+  streamId?: string;
+  status?: string;
+  playListStatus?: string;
+  type?: string;
+  publishType?: string;
+  name?: string;
+  description?: string;
+  publish?: boolean;
+  date?: number;
+  plannedStartDate?: number;
+  plannedEndDate?: number;
+  duration?: number;
+  endPointList?: Endpoint[];
+  playListItemList?: PlayListItem[];
+  publicStream?: boolean;
+  is360?: boolean;
+  listenerHookURL?: string;
+  category?: string;
+  ipAddr?: string;
+  username?: string;
+  password?: string;
+  quality?: string;
+  speed?: number;
+  streamUrl?: string;
+  originAdress?: string;
+  mp4Enabled?: number;
+  webMEnabled?: number;
+  seekTimeInMs?: number;
+  conferenceMode?: string;
+  subtracksLimit?: number;
+  expireDurationMS?: number;
+  rtmpURL?: string;
+  zombi?: boolean;
+  pendingPacketSize?: number;
+  hlsViewerCount?: number;
+  dashViewerCount?: number;
+  webRTCViewerCount?: number;
+  rtmpViewerCount?: number;
+  startTime?: number;
+  receivedBytes?: number;
+  width?: number;
+  height?: number;
+  encoderQueueSize?: number;
+  dropPacketCountInIngestion?: number;
+  dropFrameCountInEncoding?: number;
+  packetLostRatio?: number;
+  packetsLost?: number;
+  remoteIp?: string;
+  jitterMs?: number;
+  rttMs?: number;
+  bitrate?: number;
+  userAgent?: string;
+  latitude?: string;
+  longitude?: string;
+  altitude?: string;
+  mainTrackStreamId?: string;
+  subTrackStreamIds?: string[];
+  absoluteStartTimeMs?: number;
+  webRTCViewerLimit?: number;
+  hlsViewerLimit?: number;
+  dashViewerLimit?: number;
+  subFolder?: string;
+  currentPlayIndex?: number;
+  metaData?: string;
+  playlistLoopEnabled?: boolean;
+  updateTime?: number;
+  role?: string;
+  hlsParameters?: HLSParameters;
+  autoStartStopEnabled?: boolean;
+  encoderSettingsList?: EncoderSettings[];
+  virtual?: boolean;
+  maxIdleTime?: number;
+}
+
+export interface FilterConfiguration {
+  filterId?: string;
+  inputStreams?: string[];
+  outputStreams?: string[];
+  videoFilter?: string;
+  audioFilter?: string;
+  type?: string;
+  videoEnabled?: boolean;
+  audioEnabled?: boolean;
+  videoOutputHeight?: number;
+  videoOutputBitrate?: number;
+}
+
+export interface PushNotificationToSubscribers {
+  subscribers?: string[];
+  jsonMessage?: string;
+}
+
+/** The version class */
+export interface Version {
+  /** Version of the software */
+  versionName?: string;
+  /** Version type of the software (Community or Enterprise) */
+  versionType?: string;
+  /** Build number(timestamp) of the software. */
+  buildNumber?: string;
+}
+
+/** The recorded video-on-demand object class */
+export interface VoD {
+  /** The object id of the VoD */
+  streamName?: string;
+  /** The name of the VoD */
+  vodName?: string;
+  /** The stream id of the VoD */
+  streamId?: string;
+  /** The creation date of the VoD */
+  creationDate?: number;
+  /** The start time of the VoD recording in milliseconds (UTC- Unix epoch) */
+  startTime?: number;
+  /** The duration of the VoD */
+  duration?: number;
+  /** The size of the VoD file in bytes */
+  fileSize?: number;
+  /** The relative path of the VoD after app name such as streams/{vodId}.mp4 */
+  filePath?: string;
+  /** The id of the VoD */
+  vodId?: string;
+  /** The type of the VoD, such as userVod, streamVod, uploadedVod */
+  type?: string;
+  /** The file path for the preview of the VoD */
+  previewFilePath?: string;
+  /** The status of the VoD processing. It can be inqueue, processing, finished, failed */
+  processStatus?: string;
+  /** The start time of the VoD processing in milliseconds (UTC- Unix epoch) */
+  processStartTime?: number;
+  /** The end time of the VoD processing in milliseconds */
+  processEndTime?: number;
+  /** The description of the VoD. */
+  description?: string;
+  /** The metadata of the VoD. */
+  metadata?: string;
+  /** The latitude of the VoD. */
+  latitude?: string;
+  /** The longitude of the VoD. */
+  longitude?: string;
+  /** The altitude of the VoD. */
+  altitude?: string;
+}
+
+/** Parameters of addEndpointV3 */
+export interface AddEndpointV3Params {
+  /** Broadcast id */
+  id: string;
+  /** Resolution height of the broadcast that is wanted to send to the RTMP endpoint. */
+  resolutionHeight?: number;
+}
+
+/**
+ * Adds a third party RTMP end point to the stream
+ * It supports adding after broadcast is started. Resolution can be specified to send a specific adaptive resolution. If an URL is already added to a stream, trying to add the same RTMP URL will return false.
+ * POST /v2/broadcasts/{id}/rtmp-endpoint
+ */
+export function addEndpointV3(
+  send: ApiSend,
+  params: AddEndpointV3Params,
+  body: Endpoint,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "addEndpointV3",
+      method: "POST",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/rtmp-endpoint`,
+      query: {
+        resolutionHeight: params.resolutionHeight,
+      },
+      body,
+    },
+    options
+  );
+}
+
+/** Parameters of removeEndpointV2 */
+export interface RemoveEndpointV2Params {
+  /** Broadcast id */
+  id: string;
+  /** RTMP url of the endpoint that will be stopped. */
+  endpointServiceId: string;
+  /** Resolution specifier if endpoint has been added with resolution. Only applicable if user added RTMP endpoint with a resolution speficier. Otherwise won't work and won't remove the endpoint. */
+  resolutionHeight?: number;
+}
+
+/**
+ * Remove third-party RTMP end point from the stream
+ * For the stream that is broadcasting, it will stop immediately.
+ * DELETE /v2/broadcasts/{id}/rtmp-endpoint
+ */
+export function removeEndpointV2(
+  send: ApiSend,
+  params: RemoveEndpointV2Params,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "removeEndpointV2",
+      method: "DELETE",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/rtmp-endpoint`,
+      query: {
+        endpointServiceId: params.endpointServiceId,
+        resolutionHeight: params.resolutionHeight,
+      },
+    },
+    options
+  );
+}
+
+/** Parameters of addEndpointV4 */
+export interface AddEndpointV4Params {
+  /** Broadcast id */
+  id: string;
+  /** Resolution height of the broadcast that is wanted to send to the endpoint. */
+  resolutionHeight?: number;
+}
+
+/**
+ * Adds a third party RTMP or SRT end point to the stream
+ * It supports adding RTMP or SRT restreaming endpoints after broadcast is started. Resolution can be specified to send a specific adaptive resolution. If an URL is already added to a stream, trying to add the same Endpoint URL will return false.
+ * POST /v2/broadcasts/{id}/endpoint
+ */
+export function addEndpointV4(
+  send: ApiSend,
+  params: AddEndpointV4Params,
+  body: Endpoint,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "addEndpointV4",
+      method: "POST",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/endpoint`,
+      query: {
+        resolutionHeight: params.resolutionHeight,
+      },
+      body,
+    },
+    options
+  );
+}
+
+/** Parameters of removeEndpointV3 */
+export interface RemoveEndpointV3Params {
+  /** Broadcast id */
+  id: string;
+  /** RTMP or SRT URL of the target endpoint that should be stopped */
+  endpointServiceId: string;
+  /** Resolution specifier if endpoint has been added with resolution. Only applicable if user added RTMP or SRT endpoint with a resolution speficier. Otherwise won't work and won't remove the endpoint. */
+  resolutionHeight?: number;
+}
+
+/**
+ * Remove third-party SRT or RTMP end point from the stream
+ * For the stream that is broadcasting, it will stop immediately.
+ * DELETE /v2/broadcasts/{id}/endpoint
+ */
+export function removeEndpointV3(
+  send: ApiSend,
+  params: RemoveEndpointV3Params,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "removeEndpointV3",
+      method: "DELETE",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/endpoint`,
+      query: {
+        endpointServiceId: params.endpointServiceId,
+        resolutionHeight: params.resolutionHeight,
+      },
+    },
+    options
+  );
+}
+
+/** Parameters of addID3Data */
+export interface AddID3DataParams {
+  /** the id of the stream */
+  stream_id: string;
+}
+
+/**
+ * Add ID3 data to HLS stream at the moment
+ * POST /v2/broadcasts/{stream_id}/id3
+ */
+export function addID3Data(
+  send: ApiSend,
+  params: AddID3DataParams,
+  body?: string,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "addID3Data",
+      method: "POST",
+      path: `broadcasts/${encodeURIComponent(String(params.stream_id))}/id3`,
+      body,
+    },
+    options
+  );
+}
+
+/** Parameters of addSEIData */
+export interface AddSEIDataParams {
+  /** the id of the stream */
+  stream_id: string;
+}
+
+/**
+ * Add SEI data to HLS stream at the moment
+ * POST /v2/broadcasts/{stream_id}/sei
+ */
+export function addSEIData(
+  send: ApiSend,
+  params: AddSEIDataParams,
+  body?: string,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "addSEIData",
+      method: "POST",
+      path: `broadcasts/${encodeURIComponent(String(params.stream_id))}/sei`,
+      body,
+    },
+    options
+  );
+}
+
+/** Parameters of addSubTrack */
+export interface AddSubTrackParams {
+  /** Broadcast id(main track) */
+  id: string;
+  /** Subtrack Stream Id */
+  idQuery: string;
+}
+
+/**
+ * Add a subtrack to a main track (broadcast)
+ * Adds a subtrack to a main track (broadcast).
+ * POST /v2/broadcasts/{id}/subtrack
+ */
+export function addSubTrack(
+  send: ApiSend,
+  params: AddSubTrackParams,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "addSubTrack",
+      method: "POST",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/subtrack`,
+      query: {
+        id: params.idQuery,
+      },
+    },
+    options
+  );
+}
+
+/** Parameters of removeSubTrack */
+export interface RemoveSubTrackParams {
+  /** Broadcast id(main track) */
+  id: string;
+  /** Subtrack Stream Id */
+  idQuery: string;
+}
+
+/**
+ * Delete a subtrack from a main track (broadcast)
+ * Deletes a subtrack from a main track (broadcast).
+ * DELETE /v2/broadcasts/{id}/subtrack
+ */
+export function removeSubTrack(
+  send: ApiSend,
+  params: RemoveSubTrackParams,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "removeSubTrack",
+      method: "DELETE",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/subtrack`,
+      query: {
+        id: params.idQuery,
+      },
+    },
+    options
+  );
+}
+
+/** Parameters of addSubscriber */
+export interface AddSubscriberParams {
+  /** The id of the stream */
+  id: string;
+}
+
+/**
+ * Add Subscriber to the requested stream
+ * Adds a subscriber to the requested stream. If the subscriber's type is 'publish', they can also play the stream, which is critical in conferencing. If the subscriber's type is 'play', they can only play the stream. If 'b32Secret' is not set, it will default to the AppSettings. The length of 'b32Secret' should be a multiple of 8 and use base32 characters A?Z, 2?7.
+ * POST /v2/broadcasts/{id}/subscribers
+ */
+export function addSubscriber(
+  send: ApiSend,
+  params: AddSubscriberParams,
+  body: Subscriber,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "addSubscriber",
+      method: "POST",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/subscribers`,
+      body,
+    },
+    options
+  );
+}
+
+/** Parameters of revokeSubscribers */
+export interface RevokeSubscribersParams {
+  /** the id of the stream */
+  id: string;
+}
+
+/**
+ * Removes all subscribers related to the requested stream
+ * Deletes all subscriber data associated with the specified stream including ConnectionEvents.
+ * DELETE /v2/broadcasts/{id}/subscribers
+ */
+export function revokeSubscribers(
+  send: ApiSend,
+  params: RevokeSubscribersParams,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "revokeSubscribers",
+      method: "DELETE",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/subscribers`,
+    },
+    options
+  );
+}
+
+/** Parameters of blockSubscriber */
+export interface BlockSubscriberParams {
+  /** the id of the stream */
+  id: string;
+  /** the id of the subscriber */
+  sid: string;
+  /** seconds to block the user */
+  seconds: number;
+  /** block type it can be 'publish', 'play' or 'publish_play' */
+  type: string;
+}
+
+/**
+ * Block specific subscriber
+ * Blocks a specific subscriber, enhancing security especially when used with TOTP streaming. The subscriber is blocked for a specified number of seconds from the moment this method is called.
+ * PUT /v2/broadcasts/{id}/subscribers/{sid}/block/{seconds}/{type}
+ */
+export function blockSubscriber(
+  send: ApiSend,
+  params: BlockSubscriberParams,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "blockSubscriber",
+      method: "PUT",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/subscribers/${encodeURIComponent(String(params.sid))}/block/${encodeURIComponent(String(params.seconds))}/${encodeURIComponent(String(params.type))}`,
+    },
+    options
+  );
+}
+
+/** Parameters of convertHLStoMP4 */
+export interface ConvertHLStoMP4Params {
+  hls_filename: string;
+  download?: boolean;
+  deleteHLSFiles?: boolean;
+}
+
+/**
+ * Converts the recorded HLS to MP4 file
+ * POST /v2/broadcasts/{hls_filename}/hls-to-mp4
+ */
+export function convertHLStoMP4(
+  send: ApiSend,
+  params: ConvertHLStoMP4Params,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "convertHLStoMP4",
+      method: "POST",
+      path: `broadcasts/${encodeURIComponent(String(params.hls_filename))}/hls-to-mp4`,
+      query: {
+        download: params.download,
+        deleteHLSFiles: params.deleteHLSFiles,
+      },
+    },
+    options
+  );
+}
+
+/** Parameters of createBroadcast */
+export interface CreateBroadcastParams {
+  /** Only effective if stream is IP Camera or Stream Source. If it's true, it starts automatically pulling stream. Its value is false by default */
+  autoStart?: boolean;
+}
+
+/**
+ * Creates a Broadcast, IP Camera or Stream Source and returns the full broadcast object with rtmp address and other information. The different between Broadcast and IP Camera or Stream Source is that Broadcast is ingested by Ant Media ServerIP Camera or Stream Source is pulled by Ant Media Server
+ * POST /v2/broadcasts/create
+ */
+export function createBroadcast(
+  send: ApiSend,
+  params: CreateBroadcastParams = {},
+  body?: Broadcast,
+  options?: RequestOptions
+): Promise<Broadcast> {
+  return send<Broadcast>(
+    {
+      operationId: "createBroadcast",
+      method: "POST",
+      path: "broadcasts/create",
+      query: {
+        autoStart: params.autoStart,
+      },
+      body,
+    },
+    options
+  );
+}
+
+/** Parameters of getBroadcast */
+export interface GetBroadcastParams {
+  /** id of the broadcast */
+  id: string;
+}
+
+/**
+ * Get broadcast object
+ * GET /v2/broadcasts/{id}
+ */
+export function getBroadcast(
+  send: ApiSend,
+  params: GetBroadcastParams,
+  options?: RequestOptions
+): Promise<Broadcast> {
+  return send<Broadcast>(
+    {
+      operationId: "getBroadcast",
+      method: "GET",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}`,
+    },
+    options
+  );
+}
+
+/** Parameters of updateBroadcast */
+export interface UpdateBroadcastParams {
+  /** Broadcast id */
+  id: string;
+}
+
+/**
+ * Updates the Broadcast objects fields if it's not null. The updated fields are as follows: name, description, userName, password, IP address, streamUrl of the broadcast. It also updates the social endpoints
+ * PUT /v2/broadcasts/{id}
+ */
+export function updateBroadcast(
+  send: ApiSend,
+  params: UpdateBroadcastParams,
+  body?: BroadcastUpdate,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "updateBroadcast",
+      method: "PUT",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}`,
+      body,
+    },
+    options
+  );
+}
+
+/** Parameters of deleteBroadcast */
+export interface DeleteBroadcastParams {
+  /** Id of the broadcast */
+  id: string;
+  /** Deletion request for subtracks also */
+  deleteSubtracks?: boolean;
+}
+
+/**
+ * Delete broadcast from data store and stop if it's broadcasting
+ * DELETE /v2/broadcasts/{id}
+ */
+export function deleteBroadcast(
+  send: ApiSend,
+  params: DeleteBroadcastParams,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "deleteBroadcast",
+      method: "DELETE",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}`,
+      query: {
+        deleteSubtracks: params.deleteSubtracks,
+      },
+    },
+    options
+  );
+}
+
+/** Parameters of deleteBroadcastsBulk */
+export interface DeleteBroadcastsBulkParams {
+  /** Comma-separated stream Ids */
+  ids: string;
+}
+
+/**
+ * Delete multiple broadcasts from data store and stop if they are broadcasting
+ * DELETE /v2/broadcasts
+ */
+export function deleteBroadcastsBulk(
+  send: ApiSend,
+  params: DeleteBroadcastsBulkParams,
+  options?: RequestOptions
+): Promise<Broadcast> {
+  return send<Broadcast>(
+    {
+      operationId: "deleteBroadcastsBulk",
+      method: "DELETE",
+      path: "broadcasts",
+      query: {
+        ids: params.ids,
+      },
+    },
+    options
+  );
+}
+
+/** Parameters of deleteSubscriber */
+export interface DeleteSubscriberParams {
+  /** the id of the stream */
+  id: string;
+  /** the id of the subscriber */
+  sid: string;
+}
+
+/**
+ * Delete specific subscriber from data store
+ * Deletes a specific subscriber from the data store for the selected stream.
+ * DELETE /v2/broadcasts/{id}/subscribers/{sid}
+ */
+export function deleteSubscriber(
+  send: ApiSend,
+  params: DeleteSubscriberParams,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "deleteSubscriber",
+      method: "DELETE",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/subscribers/${encodeURIComponent(String(params.sid))}`,
+    },
+    options
+  );
+}
+
+/** Parameters of enableRecording */
+export interface EnableRecordingParams {
+  /** the id of the stream */
+  id: string;
+  /** Change recording status. If true, starts recording. If false stop recording */
+  "recording-status": boolean;
+  /** Record type: 'mp4' or 'webm'. It's optional parameter. */
+  recordType?: string;
+  /** Resolution height of the broadcast that is wanted to record. */
+  resolutionHeight?: number;
+  /** Optional base filename (without extension) for the output VOD. */
+  fileName?: string;
+}
+
+/**
+ * Set stream specific recording setting
+ * This setting overrides the general Mp4 and WebM Muxing Setting for a specific stream.
+ * PUT /v2/broadcasts/{id}/recording/{recording-status}
+ */
+export function enableRecording(
+  send: ApiSend,
+  params: EnableRecordingParams,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "enableRecording",
+      method: "PUT",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/recording/${encodeURIComponent(String(params["recording-status"]))}`,
+      query: {
+        recordType: params.recordType,
+        resolutionHeight: params.resolutionHeight,
+        fileName: params.fileName,
+      },
+    },
+    options
+  );
+}
+
+/**
+ * Return the active live streams
+ * Retrieves the currently active live streams.
+ * GET /v2/broadcasts/active-live-stream-count
+ */
+export function getAppLiveStatistics(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<SimpleStat> {
+  return send<SimpleStat>(
+    {
+      operationId: "getAppLiveStatistics",
+      method: "GET",
+      path: "broadcasts/active-live-stream-count",
+    },
+    options
+  );
+}
+
+/** Parameters of getBroadcastList */
+export interface GetBroadcastListParams {
+  /** This is the offset of the list, it is useful for pagination. If you want to use sort mechanism, we recommend using Mongo DB. */
+  offset: number;
+  /** Number of items that will be fetched. If there is not enough item in the datastore, returned list size may less then this value */
+  size: number;
+  /** Type of the stream. Possible values are "liveStream", "ipCamera", "streamSource", "VoD" */
+  type_by?: string;
+  /** Field to sort. Possible values are "name", "date", "status" */
+  sort_by?: string;
+  /** "asc" for Ascending, "desc" Descending order */
+  order_by?: string;
+  /** Search parameter, returns specific items that contains search string */
+  search?: string;
+}
+
+/**
+ * Gets the broadcast list from database. It returns max 50 items at a time
+ * GET /v2/broadcasts/list/{offset}/{size}
+ */
+export function getBroadcastList(
+  send: ApiSend,
+  params: GetBroadcastListParams,
+  options?: RequestOptions
+): Promise<Broadcast[]> {
+  return send<Broadcast[]>(
+    {
+      operationId: "getBroadcastList",
+      method: "GET",
+      path: `broadcasts/list/${encodeURIComponent(String(params.offset))}/${encodeURIComponent(String(params.size))}`,
+      query: {
+        type_by: params.type_by,
+        sort_by: params.sort_by,
+        order_by: params.order_by,
+        search: params.search,
+      },
+    },
+    options
+  );
+}
+
+/** Parameters of getBroadcastStatistics */
+export interface GetBroadcastStatisticsParams {
+  /** the id of the stream */
+  id: string;
+}
+
+/**
+ * Get the broadcast live statistics
+ * Retrieves live statistics of the broadcast, including total RTMP watcher count, total HLS watcher count, and total WebRTC watcher count.
+ * GET /v2/broadcasts/{id}/broadcast-statistics
+ */
+export function getBroadcastStatistics(
+  send: ApiSend,
+  params: GetBroadcastStatisticsParams,
+  options?: RequestOptions
+): Promise<BroadcastStatistics> {
+  return send<BroadcastStatistics>(
+    {
+      operationId: "getBroadcastStatistics",
+      method: "GET",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/broadcast-statistics`,
+    },
+    options
+  );
+}
+
+/**
+ * Get total broadcast live statistics
+ * Retrieves total live statistics of the broadcast, including total HLS watcher count and total WebRTC watcher count.
+ * GET /v2/broadcasts/total-broadcast-statistics
+ */
+export function getBroadcastTotalStatistics(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<BroadcastStatistics> {
+  return send<BroadcastStatistics>(
+    {
+      operationId: "getBroadcastTotalStatistics",
+      method: "GET",
+      path: "broadcasts/total-broadcast-statistics",
+    },
+    options
+  );
+}
+
+/** Parameters of getCameraErrorV2 */
+export interface GetCameraErrorV2Params {
+  /** StreamId of the IP Camera Streaming. */
+  streamId: string;
+}
+
+/**
+ * Get IP Camera Error after connection failure
+ * Checks for an error after a connection failure with an IP camera. Returning true indicates an error; false indicates no error.
+ * GET /v2/broadcasts/{streamId}/ip-camera-error
+ */
+export function getCameraErrorV2(
+  send: ApiSend,
+  params: GetCameraErrorV2Params,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "getCameraErrorV2",
+      method: "GET",
+      path: `broadcasts/${encodeURIComponent(String(params.streamId))}/ip-camera-error`,
+    },
+    options
+  );
+}
+
+/** Parameters of getConnectionEvents */
+export interface GetConnectionEventsParams {
+  /** the id of the stream */
+  id: string;
+  /** the starting point of the list */
+  offset: number;
+  /** size of the return list (max:50 ) */
+  size: number;
+  /** subscriberId to filter the connections events */
+  subscriberId?: string;
+}
+
+/**
+ * Retrieve all subscriber statistics of the requested stream. Deprecated
+ * Fetches comprehensive statistics for all subscribers of the specified stream.
+ * GET /v2/broadcasts/{id}/connection-events/{offset}/{size}
+ */
+export function getConnectionEvents(
+  send: ApiSend,
+  params: GetConnectionEventsParams,
+  options?: RequestOptions
+): Promise<SubscriberStats> {
+  return send<SubscriberStats>(
+    {
+      operationId: "getConnectionEvents",
+      method: "GET",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/connection-events/${encodeURIComponent(String(params.offset))}/${encodeURIComponent(String(params.size))}`,
+      query: {
+        subscriberId: params.subscriberId,
+      },
+    },
+    options
+  );
+}
+
+/** Parameters of getDetectionListV2 */
+export interface GetDetectionListV2Params {
+  /** the id of the stream */
+  id: string;
+  /** starting point of the list */
+  offset: number;
+  /** total size of the return list */
+  size: number;
+}
+
+/**
+ * Retrieve detected objects from the stream
+ * Fetches detected objects from the stream, using specified offset and size parameters.
+ * GET /v2/broadcasts/{id}/detections/{offset}/{size}
+ */
+export function getDetectionListV2(
+  send: ApiSend,
+  params: GetDetectionListV2Params,
+  options?: RequestOptions
+): Promise<TensorFlowObject> {
+  return send<TensorFlowObject>(
+    {
+      operationId: "getDetectionListV2",
+      method: "GET",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/detections/${encodeURIComponent(String(params.offset))}/${encodeURIComponent(String(params.size))}`,
+    },
+    options
+  );
+}
+
+/** Parameters of getDuration */
+export interface GetDurationParams {
+  /** Url of the stream that its duration will be returned */
+  url: string;
+}
+
+/**
+ * Gets the durations of the stream url in milliseconds
+ * GET /v2/broadcasts/duration
+ */
+export function getDuration(
+  send: ApiSend,
+  params: GetDurationParams,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "getDuration",
+      method: "GET",
+      path: "broadcasts/duration",
+      query: {
+        url: params.url,
+      },
+    },
+    options
+  );
+}
+
+/** Parameters of getJwtTokenV2 */
+export interface GetJwtTokenV2Params {
+  /** The id of the stream */
+  id: string;
+  /** The expire time of the token. It's in unix timestamp seconds. */
+  expireDate: number;
+  /** Type of the JWT token. It may be play or publish */
+  type: string;
+  /** Room Id that token belongs to. It's not mandatory */
+  roomId?: string;
+}
+
+/**
+ * Generates JWT token for specified stream. It's not required to let the server generate JWT. Generally JWT tokens should be generated on the client side.
+ * GET /v2/broadcasts/{id}/jwt-token
+ */
+export function getJwtTokenV2(
+  send: ApiSend,
+  params: GetJwtTokenV2Params,
+  options?: RequestOptions
+): Promise<Token> {
+  return send<Token>(
+    {
+      operationId: "getJwtTokenV2",
+      method: "GET",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/jwt-token`,
+      query: {
+        expireDate: params.expireDate,
+        type: params.type,
+        roomId: params.roomId,
+      },
+    },
+    options
+  );
+}
+
+/** Parameters of getObjectDetectedTotal */
+export interface GetObjectDetectedTotalParams {
+  /** id of the stream */
+  id: string;
+}
+
+/**
+ * Get total number of detected objects
+ * Retrieves the total count of objects detected.
+ * GET /v2/broadcasts/{id}/detections/count
+ */
+export function getObjectDetectedTotal(
+  send: ApiSend,
+  params: GetObjectDetectedTotalParams,
+  options?: RequestOptions
+): Promise<number> {
+  return send<number>(
+    {
+      operationId: "getObjectDetectedTotal",
+      method: "GET",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/detections/count`,
+    },
+    options
+  );
+}
+
+/** Parameters of getOnvifDeviceProfiles */
+export interface GetOnvifDeviceProfilesParams {
+  /** The id of the IP Camera */
+  id: string;
+}
+
+/**
+ * Get the Profile List for an ONVIF IP Camera
+ * Retrieves the profile list for an ONVIF IP camera.
+ * GET /v2/broadcasts/{id}/ip-camera/device-profiles
+ */
+export function getOnvifDeviceProfiles(
+  send: ApiSend,
+  params: GetOnvifDeviceProfilesParams,
+  options?: RequestOptions
+): Promise<string> {
+  return send<string>(
+    {
+      operationId: "getOnvifDeviceProfiles",
+      method: "GET",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/ip-camera/device-profiles`,
+    },
+    options
+  );
+}
+
+/** Parameters of getRTMPToWebRTCStats */
+export interface GetRTMPToWebRTCStatsParams {
+  /** the id of the stream */
+  id: string;
+}
+
+/**
+ * Get RTMP to WebRTC Path Stats
+ * Retrieves general statistics for the RTMP to WebRTC path.
+ * GET /v2/broadcasts/{id}/rtmp-to-webrtc-stats
+ */
+export function getRTMPToWebRTCStats(
+  send: ApiSend,
+  params: GetRTMPToWebRTCStatsParams,
+  options?: RequestOptions
+): Promise<RTMPToWebRTCStats> {
+  return send<RTMPToWebRTCStats>(
+    {
+      operationId: "getRTMPToWebRTCStats",
+      method: "GET",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/rtmp-to-webrtc-stats`,
+    },
+    options
+  );
+}
+
+/** Parameters of getStreamInfo */
+export interface GetStreamInfoParams {
+  id: string;
+}
+
+/**
+ * Get stream information
+ * Returns the stream information including width, height, bitrates, and video codec.
+ * GET /v2/broadcasts/{id}/stream-info
+ */
+export function getStreamInfo(
+  send: ApiSend,
+  params: GetStreamInfoParams,
+  options?: RequestOptions
+): Promise<string> {
+  return send<string>(
+    {
+      operationId: "getStreamInfo",
+      method: "GET",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/stream-info`,
+    },
+    options
+  );
+}
+
+/** Parameters of getTOTP */
+export interface GetTOTPParams {
+  /** The id of the stream that TOTP will be generated */
+  id: string;
+  /** The id of the subscriber that TOTP will be generated */
+  sid: string;
+  /** The type of token. It's being used if subscriber is not in the database. It can be publish, play */
+  type?: string;
+}
+
+/**
+ * Return TOTP for the subscriberId, streamId, type. This is a helper method. You can generate TOTP on your end.If subscriberId is not in the database, it generates TOTP from the secret in the AppSettings. Secret code is for the subscriberId not in the database secretCode = Base32.encodeAsString({secretFromSettings(publishsecret or playsecret according to the type)} + {subscriberId} + {streamId} + {type(publish or play)} + {Number of X to have the length multiple of 8}'+' means concatenating the strings. There is no explicit '+' in the secretCode
+ * GET /v2/broadcasts/{id}/subscribers/{sid}/totp
+ */
+export function getTOTP(
+  send: ApiSend,
+  params: GetTOTPParams,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "getTOTP",
+      method: "GET",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/subscribers/${encodeURIComponent(String(params.sid))}/totp`,
+      query: {
+        type: params.type,
+      },
+    },
+    options
+  );
+}
+
+/** Parameters of getTokenV2 */
+export interface GetTokenV2Params {
+  /** The id of the stream */
+  id: string;
+  /** The expire time of the token. It's in unix timestamp seconds */
+  expireDate: number;
+  /** Type of the token. It may be play or publish */
+  type: string;
+  /** Room Id that token belongs to. It's not mandatory */
+  roomId?: string;
+}
+
+/**
+ * Generates random one-time token for specified stream
+ * GET /v2/broadcasts/{id}/token
+ */
+export function getTokenV2(
+  send: ApiSend,
+  params: GetTokenV2Params,
+  options?: RequestOptions
+): Promise<Token> {
+  return send<Token>(
+    {
+      operationId: "getTokenV2",
+      method: "GET",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/token`,
+      query: {
+        expireDate: params.expireDate,
+        type: params.type,
+        roomId: params.roomId,
+      },
+    },
+    options
+  );
+}
+
+/**
+ * Get the total number of broadcasts
+ * Retrieves the total number of broadcasts.
+ * GET /v2/broadcasts/count
+ */
+export function getTotalBroadcastNumberV2(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<SimpleStat> {
+  return send<SimpleStat>(
+    {
+      operationId: "getTotalBroadcastNumberV2",
+      method: "GET",
+      path: "broadcasts/count",
+    },
+    options
+  );
+}
+
+/** Parameters of getTotalBroadcastNumberV2_1 */
+export interface GetTotalBroadcastNumberV21Params {
+  /** Search parameter to get the number of items including it */
+  search: string;
+}
+
+/**
+ * Get the number of broadcasts based on search criteria
+ * Retrieves the number of broadcasts matching the specified search criteria.
+ * GET /v2/broadcasts/count/{search}
+ */
+export function getTotalBroadcastNumberV2_1(
+  send: ApiSend,
+  params: GetTotalBroadcastNumberV21Params,
+  options?: RequestOptions
+): Promise<SimpleStat> {
+  return send<SimpleStat>(
+    {
+      operationId: "getTotalBroadcastNumberV2_1",
+      method: "GET",
+      path: `broadcasts/count/${encodeURIComponent(String(params.search))}`,
+    },
+    options
+  );
+}
+
+/** Parameters of getWebRTCClientStatsListV2 */
+export interface GetWebRTCClientStatsListV2Params {
+  /** offset of the list */
+  offset: number;
+  /** Number of items that will be fetched */
+  size: number;
+  /** the id of the stream */
+  stream_id: string;
+}
+
+/**
+ * Get WebRTC Client Statistics
+ * Retrieves WebRTC client statistics, including audio bitrate, video bitrate, target bitrate, video sent period, etc.
+ * GET /v2/broadcasts/{stream_id}/webrtc-client-stats/{offset}/{size}
+ */
+export function getWebRTCClientStatsListV2(
+  send: ApiSend,
+  params: GetWebRTCClientStatsListV2Params,
+  options?: RequestOptions
+): Promise<WebRTCClientStats> {
+  return send<WebRTCClientStats>(
+    {
+      operationId: "getWebRTCClientStatsListV2",
+      method: "GET",
+      path: `broadcasts/${encodeURIComponent(String(params.stream_id))}/webrtc-client-stats/${encodeURIComponent(String(params.offset))}/${encodeURIComponent(String(params.size))}`,
+    },
+    options
+  );
+}
+
+/**
+ * Get WebRTC Low Level Receive Stats
+ * Retrieves general statistics for WebRTC low level receive operations.
+ * GET /v2/broadcasts/webrtc-receive-low-level-stats
+ */
+export function getWebRTCLowLevelReceiveStats(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<WebRTCReceiveStats> {
+  return send<WebRTCReceiveStats>(
+    {
+      operationId: "getWebRTCLowLevelReceiveStats",
+      method: "GET",
+      path: "broadcasts/webrtc-receive-low-level-stats",
+    },
+    options
+  );
+}
+
+/**
+ * Get WebRTC Low Level Send Stats
+ * Retrieves general statistics for WebRTC low level send operations.
+ * GET /v2/broadcasts/webrtc-send-low-level-stats
+ */
+export function getWebRTCLowLevelSendStats(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<WebRTCSendStats> {
+  return send<WebRTCSendStats>(
+    {
+      operationId: "getWebRTCLowLevelSendStats",
+      method: "GET",
+      path: "broadcasts/webrtc-send-low-level-stats",
+    },
+    options
+  );
+}
+
+/**
+ * Import Live Streams to Stalker Portal
+ * Imports live streams into the Stalker Portal.
+ * POST /v2/broadcasts/import-to-stalker
+ */
+export function importLiveStreams2StalkerV2(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "importLiveStreams2StalkerV2",
+      method: "POST",
+      path: "broadcasts/import-to-stalker",
+    },
+    options
+  );
+}
+
+/** Parameters of listSubscriberStatsV2 */
+export interface ListSubscriberStatsV2Params {
+  /** the id of the stream */
+  id: string;
+  /** the starting point of the list */
+  offset: number;
+  /** size of the return list (max:50 ) */
+  size: number;
+}
+
+/**
+ * Retrieve all subscriber statistics of the requested stream. Deprecated use connection-events method.
+ * Fetches comprehensive statistics for all subscribers of the specified stream. Deprecated use connection-events method. This method is kept for backward compatibility and getting old records. New records saved and retrieved with connection-events method because there is a schema design causes performance issues
+ * GET /v2/broadcasts/{id}/subscriber-stats/list/{offset}/{size}
+ */
+export function listSubscriberStatsV2(
+  send: ApiSend,
+  params: ListSubscriberStatsV2Params,
+  options?: RequestOptions
+): Promise<SubscriberStats> {
+  return send<SubscriberStats>(
+    {
+      operationId: "listSubscriberStatsV2",
+      method: "GET",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/subscriber-stats/list/${encodeURIComponent(String(params.offset))}/${encodeURIComponent(String(params.size))}`,
+    },
+    options
+  );
+}
+
+/** Parameters of listSubscriberV2 */
+export interface ListSubscriberV2Params {
+  /** the id of the stream */
+  id: string;
+  /** the starting point of the list */
+  offset: number;
+  /** size of the return list (max:50 ) */
+  size: number;
+}
+
+/**
+ * Get all subscribers of the requested stream
+ * It does not return subscriber-stats. Please use subscriber-stats method
+ * GET /v2/broadcasts/{id}/subscribers/list/{offset}/{size}
+ */
+export function listSubscriberV2(
+  send: ApiSend,
+  params: ListSubscriberV2Params,
+  options?: RequestOptions
+): Promise<Subscriber> {
+  return send<Subscriber>(
+    {
+      operationId: "listSubscriberV2",
+      method: "GET",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/subscribers/list/${encodeURIComponent(String(params.offset))}/${encodeURIComponent(String(params.size))}`,
+    },
+    options
+  );
+}
+
+/** Parameters of listTokensV2 */
+export interface ListTokensV2Params {
+  /** the id of the stream */
+  id: string;
+  /** the starting point of the list */
+  offset: number;
+  /** size of the return list (max:50 ) */
+  size: number;
+}
+
+/**
+ * Get all tokens of requested stream
+ * GET /v2/broadcasts/{id}/tokens/list/{offset}/{size}
+ */
+export function listTokensV2(
+  send: ApiSend,
+  params: ListTokensV2Params,
+  options?: RequestOptions
+): Promise<Token> {
+  return send<Token>(
+    {
+      operationId: "listTokensV2",
+      method: "GET",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/tokens/list/${encodeURIComponent(String(params.offset))}/${encodeURIComponent(String(params.size))}`,
+    },
+    options
+  );
+}
+
+/** Parameters of moveIPCamera */
+export interface MoveIPCameraParams {
+  /** The id of the IP Camera */
+  id: string;
+  /** Movement in X direction. If not specified, it's assumed to be zero. Valid ranges between -1.0f and 1.0f for all movements */
+  valueX?: number;
+  /** Movement in Y direction. If not specified, it's assumed to be zero. Valid ranges between -1.0f and 1.0f for all movements */
+  valueY?: number;
+  /** Movement in Zoom. If not specified, it's assumed to be zero. Valid ranges for relative and continous move is between -1.0f and 1.0f. For absolute move between 0.0f and 1.0f */
+  valueZ?: number;
+  /** Movement type. It can be absolute, relative or continuous. If not specified, it's relative */
+  movement?: string;
+}
+
+/**
+ * Move IP Camera
+ * Supports continuous, relative, and absolute movement. By default, it's a relative move. Movement parameters should be provided according to the movement type. Generally, the following values are used: For Absolute move, value X and value Y are between -1.0f and 1.0f. Zoom value is between 0.0f and 1.0f. For Relative move, value X, value Y, and Zoom Value are between -1.0f and 1.0f. For Continuous move, value X, value Y, and Zoom Value are between -1.0f and 1.0f.
+ * POST /v2/broadcasts/{id}/ip-camera/move
+ */
+export function moveIPCamera(
+  send: ApiSend,
+  params: MoveIPCameraParams,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "moveIPCamera",
+      method: "POST",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/ip-camera/move`,
+      query: {
+        valueX: params.valueX,
+        valueY: params.valueY,
+        valueZ: params.valueZ,
+        movement: params.movement,
+      },
+    },
+    options
+  );
+}
+
+/** Parameters of playNextItem */
+export interface PlayNextItemParams {
+  /** The id of the playlist stream. */
+  id: string;
+  /** The next item to play. If it's not specified or it's -1, it plays next item. If it's number, it skips that item in the playlist to play. The first item index is 0. */
+  index?: number;
+}
+
+/**
+ * Specify the next playlist item to play by index
+ * Sets the next playlist item to be played, based on its index. This method is applicable only to playlists.
+ * POST /v2/broadcasts/playlists/{id}/next
+ */
+export function playNextItem(
+  send: ApiSend,
+  params: PlayNextItemParams,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "playNextItem",
+      method: "POST",
+      path: `broadcasts/playlists/${encodeURIComponent(String(params.id))}/next`,
+      query: {
+        index: params.index,
+      },
+    },
+    options
+  );
+}
+
+/** Parameters of revokeTokensV2 */
+export interface RevokeTokensV2Params {
+  /** the id of the stream */
+  id: string;
+}
+
+/**
+ * Removes all tokens related with requested stream
+ * DELETE /v2/broadcasts/{id}/tokens
+ */
+export function revokeTokensV2(
+  send: ApiSend,
+  params: RevokeTokensV2Params,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "revokeTokensV2",
+      method: "DELETE",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/tokens`,
+    },
+    options
+  );
+}
+
+/**
+ * Get Discovered ONVIF IP Cameras
+ * Performs a discovery within the internal network to automatically retrieve information about ONVIF-enabled cameras.
+ * GET /v2/broadcasts/onvif-devices
+ */
+export function searchOnvifDevicesV2(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "searchOnvifDevicesV2",
+      method: "GET",
+      path: "broadcasts/onvif-devices",
+    },
+    options
+  );
+}
+
+/** Parameters of sendMessage */
+export interface SendMessageParams {
+  /** Broadcast id */
+  id: string;
+}
+
+/**
+ * Send message to stream participants via Data Channel
+ * Sends a message to stream participants through the Data Channel in a WebRTC stream.
+ * POST /v2/broadcasts/{id}/data
+ */
+export function sendMessage(
+  send: ApiSend,
+  params: SendMessageParams,
+  body: string,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "sendMessage",
+      method: "POST",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/data`,
+      body,
+    },
+    options
+  );
+}
+
+/** Parameters of startStreamSourceV2 */
+export interface StartStreamSourceV2Params {
+  /** the id of the stream. The broadcast type should be IP Camera or Stream Source otherwise it does not work */
+  id: string;
+}
+
+/**
+ * Start streaming sources
+ * Initiates streaming for sources such as IP Cameras, Stream Sources, and PlayLists.
+ * POST /v2/broadcasts/{id}/start
+ */
+export function startStreamSourceV2(
+  send: ApiSend,
+  params: StartStreamSourceV2Params,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "startStreamSourceV2",
+      method: "POST",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/start`,
+    },
+    options
+  );
+}
+
+/** Parameters of stopMove */
+export interface StopMoveParams {
+  /** the id of the IP Camera */
+  id: string;
+}
+
+/**
+ * Stop move for IP Camera
+ * POST /v2/broadcasts/{id}/ip-camera/stop-move
+ */
+export function stopMove(
+  send: ApiSend,
+  params: StopMoveParams,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "stopMove",
+      method: "POST",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/ip-camera/stop-move`,
+    },
+    options
+  );
+}
+
+/** Parameters of stopStreamingV2 */
+export interface StopStreamingV2Params {
+  /** the id of the broadcast. */
+  id: string;
+  /** Stop also subtracks */
+  stopSubtracks?: boolean;
+}
+
+/**
+ * Stop streaming for the active stream
+ * Terminates streaming for the active stream, including both ingested (RTMP, WebRTC) and pulled stream sources (IP Cameras and Stream Sources).
+ * POST /v2/broadcasts/{id}/stop
+ */
+export function stopStreamingV2(
+  send: ApiSend,
+  params: StopStreamingV2Params,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "stopStreamingV2",
+      method: "POST",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/stop`,
+      query: {
+        stopSubtracks: params.stopSubtracks,
+      },
+    },
+    options
+  );
+}
+
+/** Parameters of updateSeekTime */
+export interface UpdateSeekTimeParams {
+  /** Broadcast id */
+  id: string;
+  /** Seek time in milliseconds */
+  seekTimeMs: number;
+}
+
+/**
+ * Seeks the playing stream source, vod or playlist on the fly. It accepts seekTimeMs parameter in milliseconds
+ * PUT /v2/broadcasts/{id}/seek-time/{seekTimeMs}
+ */
+export function updateSeekTime(
+  send: ApiSend,
+  params: UpdateSeekTimeParams,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "updateSeekTime",
+      method: "PUT",
+      path: `broadcasts/${encodeURIComponent(String(params.id))}/seek-time/${encodeURIComponent(String(params.seekTimeMs))}`,
+    },
+    options
+  );
+}
+
+/**
+ * Perform validation of token for requested stream
+ * If validated, success field is true, not validated success field is false
+ * POST /v2/broadcasts/validate-token
+ */
+export function validateTokenV2(
+  send: ApiSend,
+  body: Token,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "validateTokenV2",
+      method: "POST",
+      path: "broadcasts/validate-token",
+      body,
+    },
+    options
+  );
+}
+
+/**
+ * Creates or update the filter
+ * POST /v2/filters/create
+ */
+export function create(
+  send: ApiSend,
+  body?: FilterConfiguration,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "create",
+      method: "POST",
+      path: "filters/create",
+      body,
+    },
+    options
+  );
+}
+
+/** Parameters of createMCU */
+export interface CreateMCUParams {
+  /** Room Id */
+  roomId: string;
+}
+
+/**
+ * Creates MCU filter for non MCU room
+ * POST /v2/filters/room-mcu-filter/{roomId}
+ */
+export function createMCU(
+  send: ApiSend,
+  params: CreateMCUParams,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "createMCU",
+      method: "POST",
+      path: `filters/room-mcu-filter/${encodeURIComponent(String(params.roomId))}`,
+    },
+    options
+  );
+}
+
+/** Parameters of deleteMCU */
+export interface DeleteMCUParams {
+  /** Room Id */
+  roomId: string;
+}
+
+/**
+ * Deletes MCU filter for non MCU room
+ * DELETE /v2/filters/room-mcu-filter/{roomId}
+ */
+export function deleteMCU(
+  send: ApiSend,
+  params: DeleteMCUParams,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "deleteMCU",
+      method: "DELETE",
+      path: `filters/room-mcu-filter/${encodeURIComponent(String(params.roomId))}`,
+    },
+    options
+  );
+}
+
+/** Parameters of delete */
+export interface DeleteParams {
+  /** Filter id for deleting filter */
+  id: string;
+}
+
+/**
+ * Delete the filter according to the filterId
+ * DELETE /v2/filters/{id}
+ */
+export function deleteOperation(
+  send: ApiSend,
+  params: DeleteParams,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "delete",
+      method: "DELETE",
+      path: `filters/${encodeURIComponent(String(params.id))}`,
+    },
+    options
+  );
+}
+
+/** Parameters of getFilters */
+export interface GetFiltersParams {
+  /** This is the offset of the list, it is useful for pagination. If you want to use sort mechanism, we recommend using Mongo DB. */
+  offset: number;
+  /** Number of items that will be fetched. If there is not enough item in the datastore, returned list size may less then this value */
+  size: number;
+}
+
+/**
+ * Returns the list of filters effective in the application
+ * GET /v2/filters/list/{offset}/{size}
+ */
+export function getFilters(
+  send: ApiSend,
+  params: GetFiltersParams,
+  options?: RequestOptions
+): Promise<unknown> {
+  return send<unknown>(
+    {
+      operationId: "getFilters",
+      method: "GET",
+      path: `filters/list/${encodeURIComponent(String(params.offset))}/${encodeURIComponent(String(params.size))}`,
+    },
+    options
+  );
+}
+
+/** Parameters of resetMCUFilter */
+export interface ResetMCUFilterParams {
+  /** Filter object with the updates */
+  id: string;
+}
+
+/**
+ * Reset the default MCU filter
+ * DELETE /v2/filters/mcu-filter/{id}
+ */
+export function resetMCUFilter(
+  send: ApiSend,
+  params: ResetMCUFilterParams,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "resetMCUFilter",
+      method: "DELETE",
+      path: `filters/mcu-filter/${encodeURIComponent(String(params.id))}`,
+    },
+    options
+  );
+}
+
+/**
+ * Set a filter specific to the MCU room
+ * PUT /v2/filters/mcu-filter
+ */
+export function setCustomMCUFilter(
+  send: ApiSend,
+  body?: FilterConfiguration,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "setCustomMCUFilter",
+      method: "PUT",
+      path: "filters/mcu-filter",
+      body,
+    },
+    options
+  );
+}
+
+/** Parameters of setPluginType */
+export interface SetPluginTypeParams {
+  /** Change the plugin type for a filter: synchronous | asynchronous (default) | lastpoint */
+  type?: string;
+}
+
+/**
+ * Set the plugin type of the MCU function
+ * PUT /v2/filters/mcu-plugin-type
+ */
+export function setPluginType(
+  send: ApiSend,
+  params: SetPluginTypeParams = {},
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "setPluginType",
+      method: "PUT",
+      path: "filters/mcu-plugin-type",
+      query: {
+        type: params.type,
+      },
+    },
+    options
+  );
+}
+
+/** Parameters of getSubscriberAuthenticationToken */
+export interface GetSubscriberAuthenticationTokenParams {
+  subscriberId?: string;
+  timeoutSeconds?: number;
+}
+
+/** GET /v2/push-notification/subscriber-auth-token */
+export function getSubscriberAuthenticationToken(
+  send: ApiSend,
+  params: GetSubscriberAuthenticationTokenParams = {},
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "getSubscriberAuthenticationToken",
+      method: "GET",
+      path: "push-notification/subscriber-auth-token",
+      query: {
+        subscriberId: params.subscriberId,
+        timeoutSeconds: params.timeoutSeconds,
+      },
+    },
+    options
+  );
+}
+
+/** Parameters of sendPushNotification */
+export interface SendPushNotificationParams {
+  serviceName?: string;
+}
+
+/** POST /v2/push-notification/subscribers */
+export function sendPushNotification(
+  send: ApiSend,
+  params: SendPushNotificationParams = {},
+  body?: PushNotificationToSubscribers,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "sendPushNotification",
+      method: "POST",
+      path: "push-notification/subscribers",
+      query: {
+        serviceName: params.serviceName,
+      },
+      body,
+    },
+    options
+  );
+}
+
+/** Parameters of sendPushNotification_1 */
+export interface SendPushNotification1Params {
+  topic: string;
+  serviceName?: string;
+}
+
+/** POST /v2/push-notification/topics/{topic} */
+export function sendPushNotification_1(
+  send: ApiSend,
+  params: SendPushNotification1Params,
+  body?: string,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "sendPushNotification_1",
+      method: "POST",
+      path: `push-notification/topics/${encodeURIComponent(String(params.topic))}`,
+      query: {
+        serviceName: params.serviceName,
+      },
+      body,
+    },
+    options
+  );
+}
+
+/**
+ * Returns the Ant Media Server Version
+ * Retrieves the version information of the Ant Media Server.
+ * GET /v2/version
+ */
+export function getVersion(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<Version> {
+  return send<Version>(
+    {
+      operationId: "getVersion",
+      method: "GET",
+      path: "version",
+    },
+    options
+  );
+}
+
+/** Parameters of getVoD */
+export interface GetVoDParams {
+  /** ID of the VoD file */
+  id: string;
+}
+
+/**
+ * VoD file from database
+ * Retrieves a VoD file from the database by its ID.
+ * GET /v2/vods/{id}
+ */
+export function getVoD(
+  send: ApiSend,
+  params: GetVoDParams,
+  options?: RequestOptions
+): Promise<VoD> {
+  return send<VoD>(
+    {
+      operationId: "getVoD",
+      method: "GET",
+      path: `vods/${encodeURIComponent(String(params.id))}`,
+    },
+    options
+  );
+}
+
+/** Parameters of deleteVoD */
+export interface DeleteVoDParams {
+  /** ID of the VoD file */
+  id: string;
+}
+
+/**
+ * Delete specific VoD File
+ * Deletes a specific VoD file from the database by its ID.
+ * DELETE /v2/vods/{id}
+ */
+export function deleteVoD(
+  send: ApiSend,
+  params: DeleteVoDParams,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "deleteVoD",
+      method: "DELETE",
+      path: `vods/${encodeURIComponent(String(params.id))}`,
+    },
+    options
+  );
+}
+
+/** Parameters of deleteVoDsBulk */
+export interface DeleteVoDsBulkParams {
+  /** Comma-separated IDs of the VoD files */
+  ids: string;
+}
+
+/**
+ * Delete bulk VoD Files based on Vod Id
+ * Deletes multiple VoD files from the database by their IDs.
+ * DELETE /v2/vods
+ */
+export function deleteVoDsBulk(
+  send: ApiSend,
+  params: DeleteVoDsBulkParams,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "deleteVoDsBulk",
+      method: "DELETE",
+      path: "vods",
+      query: {
+        ids: params.ids,
+      },
+    },
+    options
+  );
+}
+
+/**
+ * Get the total number of VoDs
+ * Retrieves the total number of VoD files in the database.
+ * GET /v2/vods/count
+ */
+export function getTotalVodNumber(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<SimpleStat> {
+  return send<SimpleStat>(
+    {
+      operationId: "getTotalVodNumber",
+      method: "GET",
+      path: "vods/count",
+    },
+    options
+  );
+}
+
+/** Parameters of getTotalVodNumber_1 */
+export interface GetTotalVodNumber1Params {
+  /** Search parameter to get the number of items including it */
+  search: string;
+}
+
+/**
+ * Get the partial number of VoDs depending on the searched items
+ * Retrieves the number of VoD files that include the specified search parameter.
+ * GET /v2/vods/count/{search}
+ */
+export function getTotalVodNumber_1(
+  send: ApiSend,
+  params: GetTotalVodNumber1Params,
+  options?: RequestOptions
+): Promise<SimpleStat> {
+  return send<SimpleStat>(
+    {
+      operationId: "getTotalVodNumber_1",
+      method: "GET",
+      path: `vods/count/${encodeURIComponent(String(params.search))}`,
+    },
+    options
+  );
+}
+
+/** Parameters of getVodList */
+export interface GetVodListParams {
+  /** Offset of the list */
+  offset: number;
+  /** Number of items that will be fetched */
+  size: number;
+  /** Field to sort. Possible values are 'name', 'date' */
+  sort_by?: string;
+  /** 'asc' for Ascending, 'desc' for Descending order */
+  order_by?: string;
+  /** ID of the stream to filter the results by stream ID */
+  streamId?: string;
+  /** Search string */
+  search?: string;
+}
+
+/**
+ * Get the VoD list from database
+ * Retrieves the list of VoD files from the database. It returns up to 50 items. You can use offset value to get result page by page.
+ * GET /v2/vods/list/{offset}/{size}
+ */
+export function getVodList(
+  send: ApiSend,
+  params: GetVodListParams,
+  options?: RequestOptions
+): Promise<VoD[]> {
+  return send<VoD[]>(
+    {
+      operationId: "getVodList",
+      method: "GET",
+      path: `vods/list/${encodeURIComponent(String(params.offset))}/${encodeURIComponent(String(params.size))}`,
+      query: {
+        sort_by: params.sort_by,
+        order_by: params.order_by,
+        streamId: params.streamId,
+        search: params.search,
+      },
+    },
+    options
+  );
+}
+
+/** Parameters of importVoDs */
+export interface ImportVoDsParams {
+  /** The full path of the directory that VoD files will be imported to the datastore and linked to the streams */
+  directory: string;
+}
+
+/**
+ * Import VoD files from a directory and make them streamable.
+ * Imports VoD files from a directory to the datastore and links them to the streams.
+ * POST /v2/vods/directory
+ */
+export function importVoDs(
+  send: ApiSend,
+  params: ImportVoDsParams,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "importVoDs",
+      method: "POST",
+      path: "vods/directory",
+      query: {
+        directory: params.directory,
+      },
+    },
+    options
+  );
+}
+
+/** Parameters of unlinksVoD */
+export interface UnlinksVoDParams {
+  /** The full path of the directory from which imported VoD files will be deleted from the database */
+  directory: string;
+}
+
+/**
+ * Unlinks VoD path from streams directory and delete the database record.
+ * Deletes the database record associated with the specified directory, without deleting the files themselves.
+ * DELETE /v2/vods/directory
+ */
+export function unlinksVoD(
+  send: ApiSend,
+  params: UnlinksVoDParams,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "unlinksVoD",
+      method: "DELETE",
+      path: "vods/directory",
+      query: {
+        directory: params.directory,
+      },
+    },
+    options
+  );
+}
+
+/**
+ * Import VoDs to Stalker Portal
+ * Imports VoDs to the Stalker Portal.
+ * POST /v2/vods/import-to-stalker
+ */
+export function importVoDsToStalker(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "importVoDsToStalker",
+      method: "POST",
+      path: "vods/import-to-stalker",
+    },
+    options
+  );
+}
+
+/** Parameters of uploadVoDFile */
+export interface UploadVoDFileParams {
+  /** Name of the VoD File */
+  name: string;
+}
+
+/**
+ * Upload external VoD file to Ant Media Server
+ * Uploads an external VoD file to Ant Media Server.
+ * POST /v2/vods/create
+ */
+export function uploadVoDFile(
+  send: ApiSend,
+  params: UploadVoDFileParams,
+  body: FormData,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "uploadVoDFile",
+      method: "POST",
+      path: "vods/create",
+      query: {
+        name: params.name,
+      },
+      body,
+    },
+    options
+  );
+}
+
+/** Runtime schemas of the component types, used by response validation */
+export const schemas: Record<string, Schema> = {
+  "Result": {
+    "type": "object",
+    "properties": {
+      "success": {
+        "type": "boolean"
+      },
+      "message": {
+        "type": "string"
+      },
+      "dataId": {
+        "type": "string"
+      },
+      "errorId": {
+        "type": "number"
+      }
+    }
+  },
+  "Endpoint": {
+    "type": "object",
+    "properties": {
+      "status": {
+        "type": "string"
+      },
+      "type": {
+        "type": "string"
+      },
+      "endpointUrl": {
+        "type": "string"
+      },
+      "rtmpUrl": {
+        "type": "string"
+      },
+      "endpointServiceId": {
+        "type": "string"
+      }
+    }
+  },
+  "Subscriber": {
+    "type": "object",
+    "properties": {
+      "subscriberId": {
+        "type": "string"
+      },
+      "subscriberName": {
+        "type": "string"
+      },
+      "streamId": {
+        "type": "string"
+      },
+      "b32Secret": {
+        "type": "string"
+      },
+      "type": {
+        "type": "string"
+      },
+      "connected": {
+        "type": "boolean"
+      },
+      "currentConcurrentConnections": {
+        "type": "number"
+      },
+      "concurrentConnectionsLimit": {
+        "type": "number"
+      },
+      "blockedType": {
+        "type": "string"
+      },
+      "blockedUntilUnitTimeStampMs": {
+        "type": "number"
+      },
+      "registeredNodeIp": {
+        "type": "string"
+      },
+      "avgVideoBitrate": {
+        "type": "number"
+      },
+      "avgAudioBitrate": {
+        "type": "number"
+      },
+      "totpExpiryPeriodSeconds": {
+        "type": "number"
+      }
+    }
+  },
+  "Broadcast": {
+    "type": "object",
+    "properties": {
+      "streamId": {
+        "type": "string"
+      },
+      "status": {
+        "type": "string",
+        "enum": [
+          "finished",
+          "broadcasting",
+          "created",
+          "preparing",
+          "error",
+          "failed"
+        ]
+      },
+      "playListStatus": {
+        "type": "string",
+        "enum": [
+          "finished",
+          "broadcasting",
+          "created",
+          "preparing",
+          "error",
+          "failed"
+        ]
+      },
+      "type": {
+        "type": "string",
+        "enum": [
+          "liveStream",
+          "ipCamera",
+          "streamSource",
+          "VoD",
+          "playlist"
+        ]
+      },
+      "publishType": {
+        "type": "string",
+        "enum": [
+          "WebRTC",
+          "RTMP",
+          "Pull",
+          "SRT"
+        ]
+      },
+      "name": {
+        "type": "string"
+      },
+      "description": {
+        "type": "string"
+      },
+      "publish": {
+        "type": "boolean"
+      },
+      "date": {
+        "type": "number"
+      },
+      "plannedStartDate": {
+        "type": "number"
+      },
+      "plannedEndDate": {
+        "type": "number"
+      },
+      "duration": {
+        "type": "number"
+      },
+      "endPointList": {
+        "type": "array",
+        "items": {
+          "$ref": "Endpoint"
+        }
+      },
+      "playListItemList": {
+        "type": "array",
+        "items": {
+          "$ref": "PlayListItem"
+        }
+      },
+      "publicStream": {
+        "type": "boolean"
+      },
+      "is360": {
+        "type": "boolean"
+      },
+      "listenerHookURL": {
+        "type": "string"
+      },
+      "category": {
+        "type": "string"
+      },
+      "ipAddr": {
+        "type": "string"
+      },
+      "username": {
+        "type": "string"
+      },
+      "password": {
+        "type": "string"
+      },
+      "quality": {
+        "type": "string"
+      },
+      "speed": {
+        "type": "number"
+      },
+      "streamUrl": {
+        "type": "string"
+      },
+      "originAdress": {
+        "type": "string"
+      },
+      "mp4Enabled": {
+        "type": "number"
+      },
+      "webMEnabled": {
+        "type": "number"
+      },
+      "seekTimeInMs": {
+        "type": "number"
+      },
+      "conferenceMode": {
+        "type": "string"
+      },
+      "subtracksLimit": {
+        "type": "number"
+      },
+      "expireDurationMS": {
+        "type": "number"
+      },
+      "rtmpURL": {
+        "type": "string"
+      },
+      "zombi": {
+        "type": "boolean"
+      },
+      "pendingPacketSize": {
+        "type": "number"
+      },
+      "hlsViewerCount": {
+        "type": "number"
+      },
+      "dashViewerCount": {
+        "type": "number"
+      },
+      "webRTCViewerCount": {
+        "type": "number"
+      },
+      "rtmpViewerCount": {
+        "type": "number"
+      },
+      "startTime": {
+        "type": "number"
+      },
+      "receivedBytes": {
+        "type": "number"
+      },
+      "bitrate": {
+        "type": "number"
+      },
+      "width": {
+        "type": "number"
+      },
+      "height": {
+        "type": "number"
+      },
+      "encoderQueueSize": {
+        "type": "number"
+      },
+      "dropPacketCountInIngestion": {
+        "type": "number"
+      },
+      "dropFrameCountInEncoding": {
+        "type": "number"
+      },
+      "packetLostRatio": {
+        "type": "number"
+      },
+      "packetsLost": {
+        "type": "number"
+      },
+      "jitterMs": {
+        "type": "number"
+      },
+      "rttMs": {
+        "type": "number"
+      },
+      "userAgent": {
+        "type": "string"
+      },
+      "remoteIp": {
+        "type": "string"
+      },
+      "latitude": {
+        "type": "string"
+      },
+      "longitude": {
+        "type": "string"
+      },
+      "altitude": {
+        "type": "string"
+      },
+      "mainTrackStreamId": {
+        "type": "string"
+      },
+      "subTrackStreamIds": {
+        "type": "array",
+        "items": {
+          "type": "string"
+        }
+      },
+      "absoluteStartTimeMs": {
+        "type": "number"
+      },
+      "webRTCViewerLimit": {
+        "type": "number"
+      },
+      "hlsViewerLimit": {
+        "type": "number"
+      },
+      "dashViewerLimit": {
+        "type": "number"
+      },
+      "subFolder": {
+        "type": "string"
+      },
+      "currentPlayIndex": {
+        "type": "number"
+      },
+      "metaData": {
+        "type": "string"
+      },
+      "playlistLoopEnabled": {
+        "type": "boolean"
+      },
+      "updateTime": {
+        "type": "number"
+      },
+      "role": {
+        "type": "string"
+      },
+      "hlsParameters": {
+        "$ref": "HLSParameters"
+      },
+      "autoStartStopEnabled": {
+        "type": "boolean"
+      },
+      "encoderSettingsList": {
+        "type": "array",
+        "items": {
+          "$ref": "EncoderSettings"
+        }
+      },
+      "virtual": {
+        "type": "boolean"
+      },
+      "maxIdleTime": {
+        "type": "number"
+      },
+      "anyoneWatching": {
+        "type": "boolean"
+      }
+    }
+  },
+  "EncoderSettings": {
+    "type": "object",
+    "properties": {
+      "height": {
+        "type": "number"
+      },
+      "videoBitrate": {
+        "type": "number"
+      },
+      "audioBitrate": {
+        "type": "number"
+      },
+      "forceEncode": {
+        "type": "boolean"
+      }
+    }
+  },
+  "HLSParameters": {
+    "type": "object",
+    "properties": {
+      "hlsTime": {
+        "type": "string"
+      },
+      "hlsListSize": {
+        "type": "string"
+      },
+      "hlsPlayListType": {
+        "type": "string"
+      }
+    }
+  },
+  "PlayListItem": {
+    "type": "object",
+    "properties": {
+      "streamUrl": {
+        "type": "string"
+      },
+      "type": {
+        "type": "string"
+      },
+      "name": {
+        "type": "string"
+      },
+      "durationInMs": {
+        "type": "number"
+      },
+      "seekTimeInMs": {
+        "type": "number"
+      }
+    }
+  },
+  "SimpleStat": {
+    "type": "object",
+    "properties": {
+      "number": {
+        "type": "number"
+      }
+    }
+  },
+  "BroadcastStatistics": {
+    "type": "object",
+    "properties": {
+      "totalRTMPWatchersCount": {
+        "type": "number"
+      },
+      "totalHLSWatchersCount": {
+        "type": "number"
+      },
+      "totalWebRTCWatchersCount": {
+        "type": "number"
+      },
+      "totalDASHWatchersCount": {
+        "type": "number"
+      }
+    }
+  },
+  "AppBroadcastStatistics": {
+    "type": "object",
+    "properties": {
+      "totalRTMPWatchersCount": {
+        "type": "number"
+      },
+      "totalHLSWatchersCount": {
+        "type": "number"
+      },
+      "totalWebRTCWatchersCount": {
+        "type": "number"
+      },
+      "totalDASHWatchersCount": {
+        "type": "number"
+      },
+      "activeLiveStreamCount": {
+        "type": "number"
+      }
+    }
+  },
+  "ConnectionEvent": {
+    "type": "object",
+    "properties": {
+      "timestamp": {
+        "type": "number"
+      },
+      "eventType": {
+        "type": "string"
+      },
+      "instanceIP": {
+        "type": "string"
+      },
+      "type": {
+        "type": "string"
+      },
+      "eventProtocol": {
+        "type": "string"
+      },
+      "streamId": {
+        "type": "string"
+      },
+      "subscriberId": {
+        "type": "string"
+      }
+    }
+  },
+  "SubscriberStats": {
+    "type": "object",
+    "properties": {
+      "subscriberId": {
+        "type": "string"
+      },
+      "streamId": {
+        "type": "string"
+      },
+      "connectionEvents": {
+        "type": "array",
+        "items": {
+          "$ref": "ConnectionEvent"
+        }
+      },
+      "avgVideoBitrate": {
+        "type": "number"
+      },
+      "avgAudioBitrate": {
+        "type": "number"
+      }
+    }
+  },
+  "ObjectId": {
+    "type": "object",
+    "properties": {
+      "timestamp": {
+        "type": "number"
+      },
+      "date": {
+        "type": "string"
+      }
+    }
+  },
+  "TensorFlowObject": {
+    "type": "object",
+    "properties": {
+      "dbId": {
+        "$ref": "ObjectId"
+      },
+      "objectName": {
+        "type": "string"
+      },
+      "probability": {
+        "type": "number"
+      },
+      "detectionTime": {
+        "type": "number"
+      },
+      "imageId": {
+        "type": "string"
+      },
+      "minX": {
+        "type": "number"
+      },
+      "minY": {
+        "type": "number"
+      },
+      "maxX": {
+        "type": "number"
+      },
+      "maxY": {
+        "type": "number"
+      }
+    }
+  },
+  "Token": {
+    "type": "object",
+    "properties": {
+      "tokenId": {
+        "type": "string"
+      },
+      "streamId": {
+        "type": "string"
+      },
+      "expireDate": {
+        "type": "number"
+      },
+      "type": {
+        "type": "string"
+      },
+      "roomId": {
+        "type": "string"
+      }
+    }
+  },
+  "RTMPToWebRTCStats": {
+    "type": "object",
+    "properties": {
+      "streamId": {
+        "type": "string"
+      },
+      "encoderCount": {
+        "type": "number"
+      },
+      "totalVideoIngestTime": {
+        "type": "number"
+      },
+      "totalIngestedVideoPacketCount": {
+        "type": "number"
+      },
+      "totalVideoDecodeTime": {
+        "type": "number"
+      },
+      "totalDecodedVideoFrameCount": {
+        "type": "number"
+      },
+      "totalVideoEncodeQueueTime": {
+        "type": "number"
+      },
+      "totalVideoEncodeTime": {
+        "type": "number"
+      },
+      "totalEncodedVideoPacketCount": {
+        "type": "number"
+      },
+      "totalVideoDeliveryTime": {
+        "type": "number"
+      },
+      "totalDeliveredVideoPacketCount": {
+        "type": "number"
+      },
+      "absoluteTotalIngestTime": {
+        "type": "number"
+      },
+      "absoluteTimeMs": {
+        "type": "number"
+      },
+      "absouteTotalLatencyUntilRTPPacketizingTimeMs": {
+        "type": "number"
+      },
+      "frameId": {
+        "type": "number"
+      },
+      "captureTimeMs": {
+        "type": "number"
+      },
+      "absoluteIngestTime": {
+        "type": "number"
+      }
+    }
+  },
+  "BasicStreamInfo": {
+    "type": "object",
+    "properties": {
+      "videoHeight": {
+        "type": "number"
+      },
+      "videoWidth": {
+        "type": "number"
+      },
+      "videoBitrate": {
+        "type": "number"
+      },
+      "audioBitrate": {
+        "type": "number"
+      },
+      "videoCodec": {
+        "type": "string",
+        "enum": [
+          "NoCodec",
+          "VP8",
+          "H264",
+          "PNG",
+          "H265",
+          "JPG",
+          "WEBP"
+        ]
+      }
+    }
+  },
+  "WebRTCAudioSendStats": {
+    "type": "object",
+    "properties": {
+      "audioPacketsSent": {
+        "type": "number"
+      },
+      "audioBytesSent": {
+        "type": "number"
+      },
+      "audioPacketsPerSecond": {
+        "type": "number"
+      },
+      "audioBytesSentPerSecond": {
+        "type": "number"
+      },
+      "timeMs": {
+        "type": "number"
+      },
+      "audioPacketsSentPerSecond": {
+        "type": "number"
+      }
+    }
+  },
+  "WebRTCClientStats": {
+    "type": "object",
+    "properties": {
+      "measuredBitrate": {
+        "type": "number"
+      },
+      "sendBitrate": {
+        "type": "number"
+      },
+      "videoFrameSendPeriod": {
+        "type": "number"
+      },
+      "audioFrameSendPeriod": {
+        "type": "number"
+      },
+      "clientId": {
+        "type": "number"
+      },
+      "videoPacketCount": {
+        "type": "number"
+      },
+      "audioPacketCount": {
+        "type": "number"
+      },
+      "videoSentStats": {
+        "$ref": "WebRTCVideoSendStats"
+      },
+      "audioSentStats": {
+        "$ref": "WebRTCAudioSendStats"
+      },
+      "clientInfo": {
+        "type": "string"
+      },
+      "clientIp": {
+        "type": "string"
+      }
+    }
+  },
+  "WebRTCVideoSendStats": {
+    "type": "object",
+    "properties": {
+      "videoFirCount": {
+        "type": "number"
+      },
+      "videoPliCount": {
+        "type": "number"
+      },
+      "videoNackCount": {
+        "type": "number"
+      },
+      "videoPacketsSent": {
+        "type": "number"
+      },
+      "videoFramesEncoded": {
+        "type": "number"
+      },
+      "videoBytesSent": {
+        "type": "number"
+      },
+      "videoPacketsSentPerSecond": {
+        "type": "number"
+      },
+      "videoBytesSentPerSecond": {
+        "type": "number"
+      },
+      "videoFramesEncodedPerSecond": {
+        "type": "number"
+      },
+      "timeMs": {
+        "type": "number"
+      }
+    }
+  },
+  "WebRTCAudioReceiveStats": {
+    "type": "object",
+    "properties": {
+      "audioPacketsReceived": {
+        "type": "number"
+      },
+      "audioBytesReceived": {
+        "type": "number"
+      },
+      "audioPacketsLost": {
+        "type": "number"
+      },
+      "audioJitter": {
+        "type": "number"
+      },
+      "audioFractionLost": {
+        "type": "number"
+      },
+      "audioPacketsReceivedPerSecond": {
+        "type": "number"
+      },
+      "audioBytesReceivedPerSecond": {
+        "type": "number"
+      }
+    }
+  },
+  "WebRTCReceiveStats": {
+    "type": "object",
+    "properties": {
+      "audioReceiveStats": {
+        "$ref": "WebRTCAudioReceiveStats"
+      },
+      "videoReceiveStats": {
+        "$ref": "WebRTCVideoReceiveStats"
+      }
+    }
+  },
+  "WebRTCVideoReceiveStats": {
+    "type": "object",
+    "properties": {
+      "videoFirCount": {
+        "type": "number"
+      },
+      "videoPliCount": {
+        "type": "number"
+      },
+      "videoNackCount": {
+        "type": "number"
+      },
+      "videoPacketsReceived": {
+        "type": "number"
+      },
+      "videoPacketsLost": {
+        "type": "number"
+      },
+      "videoFractionLost": {
+        "type": "number"
+      },
+      "videoFrameReceived": {
+        "type": "number"
+      },
+      "videoBytesReceived": {
+        "type": "number"
+      },
+      "videoPacketsReceivedPerSecond": {
+        "type": "number"
+      },
+      "videoBytesReceivedPerSecond": {
+        "type": "number"
+      },
+      "videoFrameReceivedPerSecond": {
+        "type": "number"
+      },
+      "jitter": {
+        "type": "number"
+      }
+    }
+  },
+  "WebRTCSendStats": {
+    "type": "object",
+    "properties": {
+      "audioSendStats": {
+        "$ref": "WebRTCAudioSendStats"
+      },
+      "videoSendStats": {
+        "$ref": "WebRTCVideoSendStats"
+      }
+    }
+  },
+  "BroadcastUpdate": {
+    "type": "object",
+    "properties": {
+      "streamId": {
+        "type": "string"
+      },
+      "status": {
+        "type": "string"
+      },
+      "playListStatus": {
+        "type": "string"
+      },
+      "type": {
+        "type": "string"
+      },
+      "publishType": {
+        "type": "string"
+      },
+      "name": {
+        "type": "string"
+      },
+      "description": {
+        "type": "string"
+      },
+      "publish": {
+        "type": "boolean"
+      },
+      "date": {
+        "type": "number"
+      },
+      "plannedStartDate": {
+        "type": "number"
+      },
+      "plannedEndDate": {
+        "type": "number"
+      },
+      "duration": {
+        "type": "number"
+      },
+      "endPointList": {
+        "type": "array",
+        "items": {
+          "$ref": "Endpoint"
+        }
+      },
+      "playListItemList": {
+        "type": "array",
+        "items": {
+          "$ref": "PlayListItem"
+        }
+      },
+      "publicStream": {
+        "type": "boolean"
+      },
+      "is360": {
+        "type": "boolean"
+      },
+      "listenerHookURL": {
+        "type": "string"
+      },
+      "category": {
+        "type": "string"
+      },
+      "ipAddr": {
+        "type": "string"
+      },
+      "username": {
+        "type": "string"
+      },
+      "password": {
+        "type": "string"
+      },
+      "quality": {
+        "type": "string"
+      },
+      "speed": {
+        "type": "number"
+      },
+      "streamUrl": {
+        "type": "string"
+      },
+      "originAdress": {
+        "type": "string"
+      },
+      "mp4Enabled": {
+        "type": "number"
+      },
+      "webMEnabled": {
+        "type": "number"
+      },
+      "seekTimeInMs": {
+        "type": "number"
+      },
+      "conferenceMode": {
+        "type": "string"
+      },
+      "subtracksLimit": {
+        "type": "number"
+      },
+      "expireDurationMS": {
+        "type": "number"
+      },
+      "rtmpURL": {
+        "type": "string"
+      },
+      "zombi": {
+        "type": "boolean"
+      },
+      "pendingPacketSize": {
+        "type": "number"
+      },
+      "hlsViewerCount": {
+        "type": "number"
+      },
+      "dashViewerCount": {
+        "type": "number"
+      },
+      "webRTCViewerCount": {
+        "type": "number"
+      },
+      "rtmpViewerCount": {
+        "type": "number"
+      },
+      "startTime": {
+        "type": "number"
+      },
+      "receivedBytes": {
+        "type": "number"
+      },
+      "width": {
+        "type": "number"
+      },
+      "height": {
+        "type": "number"
+      },
+      "encoderQueueSize": {
+        "type": "number"
+      },
+      "dropPacketCountInIngestion": {
+        "type": "number"
+      },
+      "dropFrameCountInEncoding": {
+        "type": "number"
+      },
+      "packetLostRatio": {
+        "type": "number"
+      },
+      "packetsLost": {
+        "type": "number"
+      },
+      "remoteIp": {
+        "type": "string"
+      },
+      "jitterMs": {
+        "type": "number"
+      },
+      "rttMs": {
+        "type": "number"
+      },
+      "bitrate": {
+        "type": "number"
+      },
+      "userAgent": {
+        "type": "string"
+      },
+      "latitude": {
+        "type": "string"
+      },
+      "longitude": {
+        "type": "string"
+      },
+      "altitude": {
+        "type": "string"
+      },
+      "mainTrackStreamId": {
+        "type": "string"
+      },
+      "subTrackStreamIds": {
+        "type": "array",
+        "items": {
+          "type": "string"
+        }
+      },
+      "absoluteStartTimeMs": {
+        "type": "number"
+      },
+      "webRTCViewerLimit": {
+        "type": "number"
+      },
+      "hlsViewerLimit": {
+        "type": "number"
+      },
+      "dashViewerLimit": {
+        "type": "number"
+      },
+      "subFolder": {
+        "type": "string"
+      },
+      "currentPlayIndex": {
+        "type": "number"
+      },
+      "metaData": {
+        "type": "string"
+      },
+      "playlistLoopEnabled": {
+        "type": "boolean"
+      },
+      "updateTime": {
+        "type": "number"
+      },
+      "role": {
+        "type": "string"
+      },
+      "hlsParameters": {
+        "$ref": "HLSParameters"
+      },
+      "autoStartStopEnabled": {
+        "type": "boolean"
+      },
+      "encoderSettingsList": {
+        "type": "array",
+        "items": {
+          "$ref": "EncoderSettings"
+        }
+      },
+      "virtual": {
+        "type": "boolean"
+      },
+      "maxIdleTime": {
+        "type": "number"
+      }
+    }
+  },
+  "FilterConfiguration": {
+    "type": "object",
+    "properties": {
+      "filterId": {
+        "type": "string"
+      },
+      "inputStreams": {
+        "type": "array",
+        "items": {
+          "type": "string"
+        }
+      },
+      "outputStreams": {
+        "type": "array",
+        "items": {
+          "type": "string"
+        }
+      },
+      "videoFilter": {
+        "type": "string"
+      },
+      "audioFilter": {
+        "type": "string"
+      },
+      "type": {
+        "type": "string"
+      },
+      "videoEnabled": {
+        "type": "boolean"
+      },
+      "audioEnabled": {
+        "type": "boolean"
+      },
+      "videoOutputHeight": {
+        "type": "number"
+      },
+      "videoOutputBitrate": {
+        "type": "number"
+      }
+    }
+  },
+  "PushNotificationToSubscribers": {
+    "type": "object",
+    "properties": {
+      "subscribers": {
+        "type": "array",
+        "items": {
+          "type": "string"
+        }
+      },
+      "jsonMessage": {
+        "type": "string"
+      }
+    }
+  },
+  "Version": {
+    "type": "object",
+    "properties": {
+      "versionName": {
+        "type": "string"
+      },
+      "versionType": {
+        "type": "string"
+      },
+      "buildNumber": {
+        "type": "string"
+      }
+    }
+  },
+  "VoD": {
+    "type": "object",
+    "properties": {
+      "streamName": {
+        "type": "string"
+      },
+      "vodName": {
+        "type": "string"
+      },
+      "streamId": {
+        "type": "string"
+      },
+      "creationDate": {
+        "type": "number"
+      },
+      "startTime": {
+        "type": "number"
+      },
+      "duration": {
+        "type": "number"
+      },
+      "fileSize": {
+        "type": "number"
+      },
+      "filePath": {
+        "type": "string"
+      },
+      "vodId": {
+        "type": "string"
+      },
+      "type": {
+        "type": "string"
+      },
+      "previewFilePath": {
+        "type": "string"
+      },
+      "processStatus": {
+        "type": "string"
+      },
+      "processStartTime": {
+        "type": "number"
+      },
+      "processEndTime": {
+        "type": "number"
+      },
+      "description": {
+        "type": "string"
+      },
+      "metadata": {
+        "type": "string"
+      },
+      "latitude": {
+        "type": "string"
+      },
+      "longitude": {
+        "type": "string"
+      },
+      "altitude": {
+        "type": "string"
+      }
+    }
+  }
+};
+
+/** Runtime schemas of operation responses, keyed by operationId */
+export const responseSchemas: Record<string, Schema> = {
+  "addEndpointV3": {
+    "$ref": "Result"
+  },
+  "removeEndpointV2": {
+    "$ref": "Result"
+  },
+  "addEndpointV4": {
+    "$ref": "Result"
+  },
+  "removeEndpointV3": {
+    "$ref": "Result"
+  },
+  "addID3Data": {
+    "$ref": "Result"
+  },
+  "addSEIData": {
+    "$ref": "Result"
+  },
+  "addSubTrack": {
+    "$ref": "Result"
+  },
+  "removeSubTrack": {
+    "$ref": "Result"
+  },
+  "addSubscriber": {
+    "$ref": "Result"
+  },
+  "revokeSubscribers": {
+    "$ref": "Result"
+  },
+  "blockSubscriber": {
+    "$ref": "Result"
+  },
+  "convertHLStoMP4": {
+    "$ref": "Result"
+  },
+  "createBroadcast": {
+    "$ref": "Broadcast"
+  },
+  "getBroadcast": {
+    "$ref": "Broadcast"
+  },
+  "updateBroadcast": {
+    "$ref": "Result"
+  },
+  "deleteBroadcast": {
+    "$ref": "Result"
+  },
+  "deleteBroadcastsBulk": {
+    "$ref": "Broadcast"
+  },
+  "deleteSubscriber": {
+    "$ref": "Result"
+  },
+  "enableRecording": {
+    "$ref": "Result"
+  },
+  "getAppLiveStatistics": {
+    "$ref": "SimpleStat"
+  },
+  "getBroadcastList": {
+    "type": "array",
+    "items": {
+      "$ref": "Broadcast"
+    }
+  },
+  "getBroadcastStatistics": {
+    "$ref": "BroadcastStatistics"
+  },
+  "getBroadcastTotalStatistics": {
+    "$ref": "BroadcastStatistics"
+  },
+  "getCameraErrorV2": {
+    "$ref": "Result"
+  },
+  "getConnectionEvents": {
+    "$ref": "SubscriberStats"
+  },
+  "getDetectionListV2": {
+    "$ref": "TensorFlowObject"
+  },
+  "getDuration": {
+    "$ref": "Result"
+  },
+  "getJwtTokenV2": {
+    "$ref": "Token"
+  },
+  "getObjectDetectedTotal": {
+    "type": "number"
+  },
+  "getOnvifDeviceProfiles": {
+    "type": "string"
+  },
+  "getRTMPToWebRTCStats": {
+    "$ref": "RTMPToWebRTCStats"
+  },
+  "getStreamInfo": {
+    "type": "string"
+  },
+  "getTOTP": {
+    "$ref": "Result"
+  },
+  "getTokenV2": {
+    "$ref": "Token"
+  },
+  "getTotalBroadcastNumberV2": {
+    "$ref": "SimpleStat"
+  },
+  "getTotalBroadcastNumberV2_1": {
+    "$ref": "SimpleStat"
+  },
+  "getWebRTCClientStatsListV2": {
+    "$ref": "WebRTCClientStats"
+  },
+  "getWebRTCLowLevelReceiveStats": {
+    "$ref": "WebRTCReceiveStats"
+  },
+  "getWebRTCLowLevelSendStats": {
+    "$ref": "WebRTCSendStats"
+  },
+  "importLiveStreams2StalkerV2": {
+    "$ref": "Result"
+  },
+  "listSubscriberStatsV2": {
+    "$ref": "SubscriberStats"
+  },
+  "listSubscriberV2": {
+    "$ref": "Subscriber"
+  },
+  "listTokensV2": {
+    "$ref": "Token"
+  },
+  "moveIPCamera": {
+    "$ref": "Result"
+  },
+  "playNextItem": {
+    "$ref": "Result"
+  },
+  "revokeTokensV2": {
+    "$ref": "Result"
+  },
+  "searchOnvifDevicesV2": {
+    "$ref": "Result"
+  },
+  "sendMessage": {
+    "$ref": "Result"
+  },
+  "startStreamSourceV2": {
+    "$ref": "Result"
+  },
+  "stopMove": {
+    "$ref": "Result"
+  },
+  "stopStreamingV2": {
+    "$ref": "Result"
+  },
+  "updateSeekTime": {
+    "$ref": "Result"
+  },
+  "validateTokenV2": {
+    "$ref": "Result"
+  },
+  "create": {
+    "$ref": "Result"
+  },
+  "createMCU": {
+    "$ref": "Result"
+  },
+  "deleteMCU": {
+    "$ref": "Result"
+  },
+  "delete": {
+    "$ref": "Result"
+  },
+  "resetMCUFilter": {
+    "$ref": "Result"
+  },
+  "setCustomMCUFilter": {
+    "$ref": "Result"
+  },
+  "setPluginType": {
+    "$ref": "Result"
+  },
+  "getSubscriberAuthenticationToken": {
+    "$ref": "Result"
+  },
+  "sendPushNotification": {
+    "$ref": "Result"
+  },
+  "sendPushNotification_1": {
+    "$ref": "Result"
+  },
+  "getVersion": {
+    "$ref": "Version"
+  },
+  "getVoD": {
+    "$ref": "VoD"
+  },
+  "deleteVoD": {
+    "$ref": "Result"
+  },
+  "deleteVoDsBulk": {
+    "$ref": "Result"
+  },
+  "getTotalVodNumber": {
+    "$ref": "SimpleStat"
+  },
+  "getTotalVodNumber_1": {
+    "$ref": "SimpleStat"
+  },
+  "getVodList": {
+    "type": "array",
+    "items": {
+      "$ref": "VoD"
+    }
+  },
+  "importVoDs": {
+    "$ref": "Result"
+  },
+  "unlinksVoD": {
+    "$ref": "Result"
+  },
+  "importVoDsToStalker": {
+    "$ref": "Result"
+  },
+  "uploadVoDFile": {
+    "$ref": "Result"
+  }
+};
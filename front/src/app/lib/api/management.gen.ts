@@ -0,0 +1,3212 @@
+/**
+ * Management API bindings generated from management.open-api.json
+ * Do not edit: run `npm run generate:api` after updating the spec
+ */
+
+import type { Schema } from "./schema";
+import type { ApiSend } from "./transport";
+import type { RequestOptions } from "../retry";
+
+/** The basic result class */
+export interface Result {
+  /** The result of the operation */
+  success?: boolean;
+  /** The message of the operation result */
+  message?: string;
+  /** The id of the record if operation is about adding a record */
+  dataId?: string;
+  /** The id of error of the operation result */
+  errorId?: number;
+}
+
+/** Simple generic statistics class to return single values */
+export interface SimpleStat {
+  /** the stat value */
+  number?: number;
+}
+
+export interface ClusterNode {
+  id?: string;
+  ip?: string;
+  lastUpdateTime?: number;
+  memory?: string;
+  cpu?: string;
+  dbQueryAveargeTimeMs?: number;
+  status?: string;
+}
+
+/** The user information */
+export interface User {
+  /** The email of the user */
+  email?: string;
+  /** The password of the user */
+  password?: string;
+  /** The type of the user */
+  userType?: "ADMIN" | "READ_ONLY" | "USER" | "READ-ONLY";
+  /** The scope of the user. If it's 'system', it can access system-level stuff. If it's an application name, it can access application-level stuff. */
+  scope?: string;
+  /** Holds app -> scope of access data. After 2.9.1 users can have multiple app access with different access types. */
+  appNameUserType?: Record<string, string>;
+  /** The new password of the user */
+  newPassword?: string;
+  /** The first name of the user */
+  firstName?: string;
+  /** The last name of the user */
+  lastName?: string;
+  /** The full name of the user */
+  fullName?: string;
+  /** The URL of the user's picture */
+  picture?: string;
+}
+
+export interface ApplicationContext {
+  displayName?: string;
+  startupDate?: number;
+  applicationName?: string;
+  autowireCapableBeanFactory?: AutowireCapableBeanFactory;
+  parent?: ApplicationContext;
+  id?: string;
+  environment?: Environment;
+  beanDefinitionCount?: number;
+  beanDefinitionNames?: string[];
+  parentBeanFactory?: BeanFactory;
+  classLoader?: {
+    name?: string;
+    registeredAsParallelCapable?: boolean;
+    parent?: {
+      name?: string;
+      registeredAsParallelCapable?: boolean;
+      unnamedModule?: {
+        name?: string;
+        classLoader?: {
+          name?: string;
+          registeredAsParallelCapable?: boolean;
+          definedPackages?: {
+            name?: string;
+            specificationTitle?: string;
+            specificationVersion?: string;
+            specificationVendor?: string;
+            implementationTitle?: string;
+            implementationVersion?: string;
+            implementationVendor?: string;
+            annotations?: (Record<string, unknown>)[];
+            declaredAnnotations?: (Record<string, unknown>)[];
+            sealed?: boolean;
+          }[];
+          defaultAssertionStatus?: boolean;
+        };
+        descriptor?: {
+          open?: boolean;
+          automatic?: boolean;
+        };
+        named?: boolean;
+        annotations?: (Record<string, unknown>)[];
+        declaredAnnotations?: (Record<string, unknown>)[];
+        packages?: string[];
+        layer?: Record<string, unknown>;
+      };
+      definedPackages?: {
+        name?: string;
+        specificationTitle?: string;
+        specificationVersion?: string;
+        specificationVendor?: string;
+        implementationTitle?: string;
+        implementationVersion?: string;
+        implementationVendor?: string;
+        annotations?: (Record<string, unknown>)[];
+        declaredAnnotations?: (Record<string, unknown>)[];
+        sealed?: boolean;
+      }[];
+      defaultAssertionStatus?: boolean;
+    };
+    unnamedModule?: {
+      name?: string;
+      classLoader?: {
+        name?: string;
+        registeredAsParallelCapable?: boolean;
+        definedPackages?: {
+          name?: string;
+          specificationTitle?: string;
+          specificationVersion?: string;
+          specificationVendor?: string;
+          implementationTitle?: string;
+          implementationVersion?: string;
+          implementationVendor?: string;
+          annotations?: (Record<string, unknown>)[];
+          declaredAnnotations?: (Record<string, unknown>)[];
+          sealed?: boolean;
+        }[];
+        defaultAssertionStatus?: boolean;
+      };
+      descriptor?: {
+        open?: boolean;
+        automatic?: boolean;
+      };
+      named?: boolean;
+      annotations?: (Record<string, unknown>)[];
+      declaredAnnotations?: (Record<string, unknown>)[];
+      packages?: string[];
+      layer?: Record<string, unknown>;
+    };
+    definedPackages?: {
+      name?: string;
+      specificationTitle?: string;
+      specificationVersion?: string;
+      specificationVendor?: string;
+      implementationTitle?: string;
+      implementationVersion?: string;
+      implementationVendor?: string;
+      annotations?: (Record<string, unknown>)[];
+      declaredAnnotations?: (Record<string, unknown>)[];
+      sealed?: boolean;
+    }[];
+    defaultAssertionStatus?: boolean;
+  };
+}
+
+export type AutowireCapableBeanFactory = Record<string, unknown>;
+
+export type BeanFactory = Record<string, unknown>;
+
+export interface Environment {
+  activeProfiles?: string[];
+  defaultProfiles?: string[];
+}
+
+export interface ServerSettings {
+  allowedDashboardCIDR?: string;
+  hostAddress?: string;
+  serverName?: string;
+  licenceKey?: string;
+  buildForMarket?: boolean;
+  marketplace?: string;
+  logLevel?: string;
+  offlineLicense?: boolean;
+  nativeLogLevel?: string;
+  heartbeatEnabled?: boolean;
+  useGlobalIp?: boolean;
+  proxyAddress?: string;
+  nodeGroup?: string;
+  cpuMeasurementPeriodMs?: number;
+  cpuMeasurementWindowSize?: number;
+  defaultHttpPort?: number;
+  jwtServerControlEnabled?: boolean;
+  jwtServerSecretKey?: string;
+  jwksURL?: string;
+  originServerPort?: number;
+  srtPort?: number;
+  appIngestsSrtStreamsWithoutStreamId?: string;
+  sslEnabled?: boolean;
+  rtmpPort?: number;
+  serverStatusWebHookURL?: string;
+  localLicenceServerIps?: string;
+  applicationContext?: ApplicationContext;
+  hostAddressFromEnvironment?: string;
+  webRTCLogLevel?: "LS_VERBOSE" | "LS_INFO" | "LS_WARNING" | "LS_ERROR" | "LS_NONE";
+  rtmpsEnabled?: boolean;
+}
+
+export interface AppSettings {
+  remoteAllowedCIDR?: string;
+  mp4MuxingEnabled?: boolean;
+  webMMuxingEnabled?: boolean;
+  addDateTimeToMp4FileName?: boolean;
+  fileNameFormat?: string;
+  hlsMuxingEnabled?: boolean;
+  encoderSettingsString?: string;
+  signalingEnabled?: boolean;
+  signalingAddress?: string;
+  hlsListSize?: string;
+  hlsTime?: string;
+  uploadExtensionsToS3?: number;
+  s3StorageClass?: string;
+  endpointHealthCheckPeriodMs?: number;
+  endpointRepublishLimit?: number;
+  dashSegDuration?: string;
+  dashFragmentDuration?: string;
+  targetLatency?: string;
+  dashWindowSize?: string;
+  dashExtraWindowSize?: string;
+  islLDashEnabled?: boolean;
+  islLHLSEnabled?: boolean;
+  hlsEnabledViaDash?: boolean;
+  useTimelineDashMuxing?: boolean;
+  webRTCEnabled?: boolean;
+  useOriginalWebRTCEnabled?: boolean;
+  deleteHLSFilesOnEnded?: boolean;
+  deleteDASHFilesOnEnded?: boolean;
+  tokenHashSecret?: string;
+  hashControlPublishEnabled?: boolean;
+  hashControlPlayEnabled?: boolean;
+  listenerHookURL?: string;
+  acceptOnlyStreamsInDataStore?: boolean;
+  acceptOnlyRoomsInDataStore?: boolean;
+  publishTokenControlEnabled?: boolean;
+  playTokenControlEnabled?: boolean;
+  timeTokenSubscriberOnly?: boolean;
+  enableTimeTokenForPlay?: boolean;
+  timeTokenSecretForPlay?: string;
+  enableTimeTokenForPublish?: boolean;
+  timeTokenSecretForPublish?: string;
+  timeTokenPeriod?: number;
+  hlsPlayListType?: string;
+  hlsSegmentType?: string;
+  hlsSegmentFileSuffixFormat?: string;
+  vodFolder?: string;
+  previewOverwrite?: boolean;
+  stalkerDBServer?: string;
+  stalkerDBUsername?: string;
+  stalkerDBPassword?: string;
+  objectDetectionEnabled?: boolean;
+  createPreviewPeriod?: number;
+  restartStreamFetcherPeriod?: number;
+  startStreamFetcherAutomatically?: boolean;
+  streamFetcherBufferTime?: number;
+  hlsflags?: string;
+  mySqlClientPath?: string;
+  muxerFinishScript?: string;
+  streamStartedScript?: string;
+  streamEndedScript?: string;
+  streamIdleTimeoutScript?: string;
+  webRTCFrameRate?: number;
+  webRTCPortRangeMin?: number;
+  webRTCPortRangeMax?: number;
+  stunServerURI?: string;
+  turnServerUsername?: string;
+  turnServerCredential?: string;
+  webRTCTcpCandidatesEnabled?: boolean;
+  webRTCSdpSemantics?: string;
+  portAllocatorFlags?: number;
+  encoderName?: string;
+  encoderParameters?: Record<string, Record<string, string>>;
+  encoderPreset?: string;
+  encoderProfile?: string;
+  encoderLevel?: string;
+  encoderRc?: string;
+  encoderSpecific?: string;
+  encoderThreadCount?: number;
+  encoderThreadType?: number;
+  vp8EncoderSpeed?: number;
+  vp8EncoderDeadline?: string;
+  vp8EncoderThreadCount?: number;
+  previewHeight?: number;
+  generatePreview?: boolean;
+  previewFormat?: string;
+  previewQuality?: number;
+  writeStatsToDatastore?: boolean;
+  encoderSelectionPreference?: string;
+  allowedPublisherCIDR?: string;
+  excessiveBandwidthValue?: number;
+  excessiveBandwidthCallThreshold?: number;
+  excessiveBandwithTryCountBeforeSwitchback?: number;
+  excessiveBandwidthAlgorithmEnabled?: boolean;
+  packetLossDiffThresholdForSwitchback?: number;
+  rttMeasurementDiffThresholdForSwitchback?: number;
+  replaceCandidateAddrWithServerAddr?: boolean;
+  appName?: string;
+  encodingTimeout?: number;
+  webRTCClientStartTimeoutMs?: number;
+  defaultDecodersEnabled?: boolean;
+  updateTime?: number;
+  httpForwardingExtension?: string;
+  httpForwardingBaseURL?: string;
+  maxAnalyzeDurationMS?: number;
+  disableIPv6Candidates?: boolean;
+  rtspPullTransportType?: string;
+  rtspTimeoutDurationMs?: number;
+  maxFpsAccept?: number;
+  maxResolutionAccept?: number;
+  h264Enabled?: boolean;
+  vp8Enabled?: boolean;
+  h265Enabled?: boolean;
+  dataChannelEnabled?: boolean;
+  dataChannelPlayerDistribution?: string;
+  rtmpIngestBufferTimeMs?: number;
+  dataChannelWebHookURL?: string;
+  h265EncoderPreset?: string;
+  h265EncoderProfile?: string;
+  h265EncoderRc?: string;
+  h265EncoderSpecific?: string;
+  h265EncoderLevel?: string;
+  heightRtmpForwarding?: number;
+  audioBitrateSFU?: number;
+  dashMuxingEnabled?: boolean;
+  aacEncodingEnabled?: boolean;
+  gopSize?: number;
+  constantRateFactor?: string;
+  webRTCViewerLimit?: number;
+  toBeDeleted?: boolean;
+  appStatus?: string;
+  appInstallationTime?: number;
+  pullWarFile?: boolean;
+  warFileOriginServerAddress?: string;
+  jwtSecretKey?: string;
+  jwtControlEnabled?: boolean;
+  ipFilterEnabled?: boolean;
+  ingestingStreamLimit?: number;
+  webRTCKeyframeTime?: number;
+  jwtStreamSecretKey?: string;
+  publishJwtControlEnabled?: boolean;
+  playJwtControlEnabled?: boolean;
+  dashHttpStreaming?: boolean;
+  subFolder?: string;
+  s3StreamsFolderPath?: string;
+  s3PreviewsFolderPath?: string;
+  dashHttpEndpoint?: string;
+  hlsHttpEndpoint?: string;
+  forceDecoding?: boolean;
+  addOriginalMuxerIntoHLSPlaylist?: boolean;
+  s3RecordingEnabled?: boolean;
+  s3AccessKey?: string;
+  s3SecretKey?: string;
+  s3BucketName?: string;
+  s3RegionName?: string;
+  s3Endpoint?: string;
+  s3CacheControl?: string;
+  s3PathStyleAccessEnabled?: boolean;
+  s3Permission?: string;
+  s3TransferBufferSizeInBytes?: number;
+  hlsEncryptionKeyInfoFile?: string;
+  jwksURL?: string;
+  forceAspectRatioInTranscoding?: boolean;
+  webhookAuthenticateURL?: string;
+  maxAudioTrackCount?: number;
+  maxVideoTrackCount?: number;
+  vodUploadFinishScript?: string;
+  contentSecurityPolicyHeaderValue?: string;
+  rtmpPlaybackEnabled?: boolean;
+  originEdgeIdleTimeout?: number;
+  addDateTimeToHlsFileName?: boolean;
+  playWebRTCStreamOnceForEachSession?: boolean;
+  statsBasedABREnabled?: boolean;
+  abrDownScalePacketLostRatio?: number;
+  abrUpScalePacketLostRatio?: number;
+  abrUpScaleRTTMs?: number;
+  abrUpScaleJitterMs?: number;
+  clusterCommunicationKey?: string;
+  id3TagEnabled?: boolean;
+  sendAudioLevelToViewers?: boolean;
+  audioLevelThreshold?: number;
+  hwScalingEnabled?: boolean;
+  firebaseAccountKeyJSON?: string;
+  subscriberAuthenticationKey?: string;
+  apnsServer?: string;
+  apnTeamId?: string;
+  apnPrivateKey?: string;
+  apnKeyId?: string;
+  webhookRetryCount?: number;
+  secureAnalyticEndpoint?: boolean;
+  webhookRetryDelay?: number;
+  webhookStreamStatusUpdatePeriodMs?: number;
+  webhookPlayAuthUrl?: string;
+  recordingSubfolder?: string;
+  webhookContentType?: string;
+  iceGatheringTimeoutMs?: number;
+  participantVisibilityMatrix?: Record<string, string[]>;
+  customSettings?: Record<string, Record<string, unknown>>;
+  relayRTMPMetaDataToMuxers?: boolean;
+  dropWebRTCIngestIfNoPacketReceived?: boolean;
+  srtReceiveLatencyInMs?: number;
+  encodingQueueSize?: number;
+  writeSubscriberEventsToDatastore?: boolean;
+  encoderSettings?: EncoderSettings[];
+}
+
+export interface EncoderSettings {
+  height?: number;
+  videoBitrate?: number;
+  audioBitrate?: number;
+  forceEncode?: boolean;
+}
+
+export interface FormDataContentDisposition {
+  type?: string;
+  parameters?: Record<string, string>;
+  fileName?: string;
+  creationDate?: string;
+  modificationDate?: string;
+  readDate?: string;
+  size?: number;
+  name?: string;
+}
+
+export interface Licence {
+  licenceId?: string;
+  startDate?: string;
+  endDate?: string;
+  type?: string;
+  licenceCount?: string;
+  owner?: string;
+  status?: string;
+  hourUsed?: string;
+}
+
+export interface SupportRequest {
+  name?: string;
+  email?: string;
+  title?: string;
+  description?: string;
+  sendSystemInfo?: boolean;
+}
+
+/** Parameters of deleteNode */
+export interface DeleteNodeParams {
+  id: string;
+}
+
+/** DELETE /v2/cluster/node/{id} */
+export function deleteNode(
+  send: ApiSend,
+  params: DeleteNodeParams,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "deleteNode",
+      method: "DELETE",
+      path: `cluster/node/${encodeURIComponent(String(params.id))}`,
+    },
+    options
+  );
+}
+
+/** GET /v2/cluster/node-count */
+export function getNodeCount(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<SimpleStat> {
+  return send<SimpleStat>(
+    {
+      operationId: "getNodeCount",
+      method: "GET",
+      path: "cluster/node-count",
+    },
+    options
+  );
+}
+
+/** Parameters of getNodeList */
+export interface GetNodeListParams {
+  offset: number;
+  size: number;
+}
+
+/** GET /v2/cluster/nodes/{offset}/{size} */
+export function getNodeList(
+  send: ApiSend,
+  params: GetNodeListParams,
+  options?: RequestOptions
+): Promise<ClusterNode[]> {
+  return send<ClusterNode[]>(
+    {
+      operationId: "getNodeList",
+      method: "GET",
+      path: `cluster/nodes/${encodeURIComponent(String(params.offset))}/${encodeURIComponent(String(params.size))}`,
+    },
+    options
+  );
+}
+
+/** Parameters of deleteNode_1 */
+export interface DeleteNode1Params {
+  id: string;
+}
+
+/** GET /cluster/deleteNode/{id} */
+export function deleteNode_1(
+  send: ApiSend,
+  params: DeleteNode1Params,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "deleteNode_1",
+      method: "GET",
+      path: `../cluster/deleteNode/${encodeURIComponent(String(params.id))}`,
+    },
+    options
+  );
+}
+
+/** GET /cluster/node-count */
+export function getNodeCount_1(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<SimpleStat> {
+  return send<SimpleStat>(
+    {
+      operationId: "getNodeCount_1",
+      method: "GET",
+      path: "../cluster/node-count",
+    },
+    options
+  );
+}
+
+/** Parameters of getNodeList_1 */
+export interface GetNodeList1Params {
+  offset: number;
+  size: number;
+}
+
+/** GET /cluster/nodes/{offset}/{size} */
+export function getNodeList_1(
+  send: ApiSend,
+  params: GetNodeList1Params,
+  options?: RequestOptions
+): Promise<ClusterNode[]> {
+  return send<ClusterNode[]>(
+    {
+      operationId: "getNodeList_1",
+      method: "GET",
+      path: `../cluster/nodes/${encodeURIComponent(String(params.offset))}/${encodeURIComponent(String(params.size))}`,
+    },
+    options
+  );
+}
+
+/**
+ * Creates initial user
+ * Creates initial user. This is a one time scenario when initial user creation required and shouldn't be used otherwise. User object is required and can't be null
+ * POST /v2/users/initial
+ */
+export function addInitialUser(
+  send: ApiSend,
+  body: User,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "addInitialUser",
+      method: "POST",
+      path: "users/initial",
+      body,
+    },
+    options
+  );
+}
+
+/**
+ * Creates a new user
+ * Creates a new user. If user object is null or if user is not authenticated, new user won't be created.
+ * POST /v2/users
+ */
+export function addUser(
+  send: ApiSend,
+  body: User,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "addUser",
+      method: "POST",
+      path: "users",
+      body,
+    },
+    options
+  );
+}
+
+/**
+ * Edit the user
+ * Edit the user in the server management panel's user list. It can change password or user type (admin, read-only).
+ * PUT /v2/users
+ */
+export function editUser(
+  send: ApiSend,
+  body: User,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "editUser",
+      method: "PUT",
+      path: "users",
+      body,
+    },
+    options
+  );
+}
+
+/**
+ * Authenticates user
+ * Authenticates user with given username and password. Requires user object to authenticate.
+ * POST /v2/users/authenticate
+ */
+export function authenticateUser(
+  send: ApiSend,
+  body: User,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "authenticateUser",
+      method: "POST",
+      path: "users/authenticate",
+      body,
+    },
+    options
+  );
+}
+
+/**
+ * Returns the server settings
+ * GET /v2/server-settings
+ */
+export function getServerSettings(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<unknown> {
+  return send<unknown>(
+    {
+      operationId: "getServerSettings",
+      method: "GET",
+      path: "server-settings",
+    },
+    options
+  );
+}
+
+/**
+ * Changes server settings
+ * POST /v2/server-settings
+ */
+export function changeServerSettings(
+  send: ApiSend,
+  body: ServerSettings,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "changeServerSettings",
+      method: "POST",
+      path: "server-settings",
+      body,
+    },
+    options
+  );
+}
+
+/** Parameters of getSettings */
+export interface GetSettingsParams {
+  /** Application name */
+  appname: string;
+}
+
+/**
+ * Returns the specified application settings
+ * GET /v2/applications/settings/{appname}
+ */
+export function getSettings(
+  send: ApiSend,
+  params: GetSettingsParams,
+  options?: RequestOptions
+): Promise<AppSettings> {
+  return send<AppSettings>(
+    {
+      operationId: "getSettings",
+      method: "GET",
+      path: `applications/settings/${encodeURIComponent(String(params.appname))}`,
+    },
+    options
+  );
+}
+
+/** Parameters of changeSettings */
+export interface ChangeSettingsParams {
+  /** Application name */
+  appname: string;
+}
+
+/**
+ * Changes the application settings
+ * POST /v2/applications/settings/{appname}
+ */
+export function changeSettings(
+  send: ApiSend,
+  params: ChangeSettingsParams,
+  body: AppSettings,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "changeSettings",
+      method: "POST",
+      path: `applications/settings/${encodeURIComponent(String(params.appname))}`,
+      body,
+    },
+    options
+  );
+}
+
+/**
+ * Changes the given user's password
+ * POST /v2/users/password
+ */
+export function changeUserPassword(
+  send: ApiSend,
+  body: User,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "changeUserPassword",
+      method: "POST",
+      path: "users/password",
+      body,
+    },
+    options
+  );
+}
+
+/** Parameters of configureSsl */
+export interface ConfigureSslParams {
+  /** SSL settings */
+  domain: string;
+  type?: string;
+}
+
+/**
+ * Changes ssl settings
+ * POST /v2/ssl-settings
+ */
+export function configureSsl(
+  send: ApiSend,
+  params: ConfigureSslParams,
+  body: FormData,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "configureSsl",
+      method: "POST",
+      path: "ssl-settings",
+      query: {
+        domain: params.domain,
+        type: params.type,
+      },
+      body,
+    },
+    options
+  );
+}
+
+/** Parameters of createApplication */
+export interface CreateApplicationParams {
+  /** Name for the new application */
+  appName: string;
+}
+
+/**
+ * Creates a new application with given name
+ * POST /v2/applications/{appName}
+ */
+export function createApplication(
+  send: ApiSend,
+  params: CreateApplicationParams,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "createApplication",
+      method: "POST",
+      path: `applications/${encodeURIComponent(String(params.appName))}`,
+    },
+    options
+  );
+}
+
+/** Parameters of createApplication_1 */
+export interface CreateApplication1Params {
+  /** Name for the new application */
+  appName: string;
+}
+
+/**
+ * Creates a new application with given name and supports uploading custom WAR files
+ * PUT /v2/applications/{appName}
+ */
+export function createApplication_1(
+  send: ApiSend,
+  params: CreateApplication1Params,
+  body: FormData,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "createApplication_1",
+      method: "PUT",
+      path: `applications/${encodeURIComponent(String(params.appName))}`,
+      body,
+    },
+    options
+  );
+}
+
+/** Parameters of deleteApplication */
+export interface DeleteApplicationParams {
+  /** Name of the application to delete */
+  appName: string;
+  /** Whether to delete associated database */
+  deleteDB: boolean;
+}
+
+/**
+ * Deletes application with the given name
+ * DELETE /v2/applications/{appName}
+ */
+export function deleteApplication(
+  send: ApiSend,
+  params: DeleteApplicationParams,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "deleteApplication",
+      method: "DELETE",
+      path: `applications/${encodeURIComponent(String(params.appName))}`,
+      query: {
+        deleteDB: params.deleteDB,
+      },
+    },
+    options
+  );
+}
+
+/** DELETE /v2/users/logout */
+export function deleteSession(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "deleteSession",
+      method: "DELETE",
+      path: "users/logout",
+    },
+    options
+  );
+}
+
+/** Parameters of deleteUser */
+export interface DeleteUserParams {
+  /** User name or e-mail of the user to be deleted */
+  username: string;
+}
+
+/**
+ * Delete the user
+ * Delete the user from the server management panel's user list
+ * DELETE /v2/users/{username}
+ */
+export function deleteUser(
+  send: ApiSend,
+  params: DeleteUserParams,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "deleteUser",
+      method: "DELETE",
+      path: `users/${encodeURIComponent(String(params.username))}`,
+    },
+    options
+  );
+}
+
+/** Parameters of getAppLiveStreams */
+export interface GetAppLiveStreamsParams {
+  /** Application name */
+  appname: string;
+}
+
+/**
+ * Returns live streams in the specified application
+ * GET /v2/applications/live-streams/{appname}
+ */
+export function getAppLiveStreams(
+  send: ApiSend,
+  params: GetAppLiveStreamsParams,
+  options?: RequestOptions
+): Promise<unknown> {
+  return send<unknown>(
+    {
+      operationId: "getAppLiveStreams",
+      method: "GET",
+      path: `applications/live-streams/${encodeURIComponent(String(params.appname))}`,
+    },
+    options
+  );
+}
+
+/**
+ * Gets application info
+ * GET /v2/applications-info
+ */
+export function getApplicationInfo(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<{
+  name?: string;
+  liveStreamCount?: number;
+  vodCount?: number;
+  storage?: number;
+}[]> {
+  return send<{
+  name?: string;
+  liveStreamCount?: number;
+  vodCount?: number;
+  storage?: number;
+}[]>(
+    {
+      operationId: "getApplicationInfo",
+      method: "GET",
+      path: "applications-info",
+    },
+    options
+  );
+}
+
+/**
+ * Gets the applications in the server
+ * GET /v2/applications
+ */
+export function getApplications(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<{
+  applications?: string[];
+}> {
+  return send<{
+  applications?: string[];
+}>(
+    {
+      operationId: "getApplications",
+      method: "GET",
+      path: "applications",
+    },
+    options
+  );
+}
+
+/** Parameters of getBlockedStatus */
+export interface GetBlockedStatusParams {
+  /** User name or e-mail of the user to check its status */
+  usermail: string;
+}
+
+/**
+ * Returns if user is blocked
+ * User is blocked for a specific time if there are login attempts
+ * GET /v2/users/{usermail}/blocked
+ */
+export function getBlockedStatus(
+  send: ApiSend,
+  params: GetBlockedStatusParams,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "getBlockedStatus",
+      method: "GET",
+      path: `users/${encodeURIComponent(String(params.usermail))}/blocked`,
+    },
+    options
+  );
+}
+
+/**
+ * Returns system cpu load, process cpu load and process cpu time
+ * GET /v2/cpu-status
+ */
+export function getCPUInfo(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<unknown> {
+  return send<unknown>(
+    {
+      operationId: "getCPUInfo",
+      method: "GET",
+      path: "cpu-status",
+    },
+    options
+  );
+}
+
+/**
+ * Gets system file status
+ * GET /v2/file-system-status
+ */
+export function getFileSystemInfo(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<unknown> {
+  return send<unknown>(
+    {
+      operationId: "getFileSystemInfo",
+      method: "GET",
+      path: "file-system-status",
+    },
+    options
+  );
+}
+
+/**
+ * Gets GPU information
+ * GET /v2/gpu-status
+ */
+export function getGPUInfo(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<unknown> {
+  return send<unknown>(
+    {
+      operationId: "getGPUInfo",
+      method: "GET",
+      path: "gpu-status",
+    },
+    options
+  );
+}
+
+/**
+ * Returns heap dump
+ * GET /v2/heap-dump
+ */
+export function getHeapDump(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<unknown> {
+  return send<unknown>(
+    {
+      operationId: "getHeapDump",
+      method: "GET",
+      path: "heap-dump",
+    },
+    options
+  );
+}
+
+/**
+ * Returns JVM memory information
+ * GET /v2/jvm-memory-status
+ */
+export function getJVMMemoryInfo(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<unknown> {
+  return send<unknown>(
+    {
+      operationId: "getJVMMemoryInfo",
+      method: "GET",
+      path: "jvm-memory-status",
+    },
+    options
+  );
+}
+
+/**
+ * Returns the last checked license status
+ * GET /v2/last-licence-status
+ */
+export function getLicenceStatus(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<Licence> {
+  return send<Licence>(
+    {
+      operationId: "getLicenceStatus",
+      method: "GET",
+      path: "last-licence-status",
+    },
+    options
+  );
+}
+
+/** Parameters of getLicenceStatus_1 */
+export interface GetLicenceStatus1Params {
+  /** License key */
+  key: string;
+}
+
+/**
+ * Returns license status
+ * GET /v2/licence-status
+ */
+export function getLicenceStatus_1(
+  send: ApiSend,
+  params: GetLicenceStatus1Params,
+  options?: RequestOptions
+): Promise<unknown> {
+  return send<unknown>(
+    {
+      operationId: "getLicenceStatus_1",
+      method: "GET",
+      path: "licence-status",
+      query: {
+        key: params.key,
+      },
+    },
+    options
+  );
+}
+
+/** Parameters of getLogFile */
+export interface GetLogFileParams {
+  /** Char size of the log */
+  charSize: number;
+  /** Log type. ERROR can be used to get only error logs */
+  logType: string;
+  /** Offset of the retrieved log */
+  offsetSize: number;
+}
+
+/**
+ * Gets log file
+ * GET /v2/log-file/{offsetSize}/{charSize}
+ */
+export function getLogFile(
+  send: ApiSend,
+  params: GetLogFileParams,
+  options?: RequestOptions
+): Promise<unknown> {
+  return send<unknown>(
+    {
+      operationId: "getLogFile",
+      method: "GET",
+      path: `log-file/${encodeURIComponent(String(params.offsetSize))}/${encodeURIComponent(String(params.charSize))}`,
+      query: {
+        logType: params.logType,
+      },
+    },
+    options
+  );
+}
+
+/**
+ * Gets server time
+ * GET /v2/server-time
+ */
+export function getServerTime(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<unknown> {
+  return send<unknown>(
+    {
+      operationId: "getServerTime",
+      method: "GET",
+      path: "server-time",
+    },
+    options
+  );
+}
+
+/**
+ * Returns system information
+ * GET /v2/system-status
+ */
+export function getSystemInfo(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<unknown> {
+  return send<unknown>(
+    {
+      operationId: "getSystemInfo",
+      method: "GET",
+      path: "system-status",
+    },
+    options
+  );
+}
+
+/**
+ * Gets system memory status
+ * GET /v2/system-memory-status
+ */
+export function getSystemMemoryInfo(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<unknown> {
+  return send<unknown>(
+    {
+      operationId: "getSystemMemoryInfo",
+      method: "GET",
+      path: "system-memory-status",
+    },
+    options
+  );
+}
+
+/**
+ * Gets system resource information
+ * GET /v2/system-resources
+ */
+export function getSystemResourcesInfo(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<{
+  cpuUsage?: {
+    /** System CPU load, percent */
+    systemCPULoad?: number;
+    /** CPU load of the AMS process, percent */
+    processCPULoad?: number;
+  };
+  systemInfo?: {
+    osName?: string;
+    osArch?: string;
+    javaVersion?: string;
+    processorCount?: number;
+  };
+  jvmMemoryUsage?: {
+    maxMemory?: number;
+    totalMemory?: number;
+    freeMemory?: number;
+    inUseMemory?: number;
+    availableMemory?: number;
+  };
+  systemMemoryInfo?: {
+    maxMemory?: number;
+    totalMemory?: number;
+    freeMemory?: number;
+    inUseMemory?: number;
+    availableMemory?: number;
+  };
+  fileSystemInfo?: {
+    usableSpace?: number;
+    totalSpace?: number;
+    freeSpace?: number;
+    inUseSpace?: number;
+  };
+  totalLiveStreamSize?: number;
+  localLiveStreams?: number;
+  localWebRTCLiveStreams?: number;
+  localWebRTCViewers?: number;
+  localHLSViewers?: number;
+  localDASHViewers?: number;
+}> {
+  return send<{
+  cpuUsage?: {
+    /** System CPU load, percent */
+    systemCPULoad?: number;
+    /** CPU load of the AMS process, percent */
+    processCPULoad?: number;
+  };
+  systemInfo?: {
+    osName?: string;
+    osArch?: string;
+    javaVersion?: string;
+    processorCount?: number;
+  };
+  jvmMemoryUsage?: {
+    maxMemory?: number;
+    totalMemory?: number;
+    freeMemory?: number;
+    inUseMemory?: number;
+    availableMemory?: number;
+  };
+  systemMemoryInfo?: {
+    maxMemory?: number;
+    totalMemory?: number;
+    freeMemory?: number;
+    inUseMemory?: number;
+    availableMemory?: number;
+  };
+  fileSystemInfo?: {
+    usableSpace?: number;
+    totalSpace?: number;
+    freeSpace?: number;
+    inUseSpace?: number;
+  };
+  totalLiveStreamSize?: number;
+  localLiveStreams?: number;
+  localWebRTCLiveStreams?: number;
+  localWebRTCViewers?: number;
+  localHLSViewers?: number;
+  localDASHViewers?: number;
+}>(
+    {
+      operationId: "getSystemResourcesInfo",
+      method: "GET",
+      path: "system-resources",
+    },
+    options
+  );
+}
+
+/**
+ * Gets thread dump in plain text
+ * GET /v2/thread-dump
+ */
+export function getThreadDump(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<unknown> {
+  return send<unknown>(
+    {
+      operationId: "getThreadDump",
+      method: "GET",
+      path: "thread-dump",
+    },
+    options
+  );
+}
+
+/**
+ * Gets thread dump in json format
+ * GET /v2/thread-dump-json
+ */
+export function getThreadDumpJSON(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<unknown> {
+  return send<unknown>(
+    {
+      operationId: "getThreadDumpJSON",
+      method: "GET",
+      path: "thread-dump-json",
+    },
+    options
+  );
+}
+
+/**
+ * Returns processor's thread information
+ * GET /v2/threads
+ */
+export function getThreadsInfo(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<unknown> {
+  return send<unknown>(
+    {
+      operationId: "getThreadsInfo",
+      method: "GET",
+      path: "threads",
+    },
+    options
+  );
+}
+
+/**
+ * Returns total number of live streams
+ * GET /v2/live-clients-size
+ */
+export function getTotalLiveStreamSize(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<unknown> {
+  return send<unknown>(
+    {
+      operationId: "getTotalLiveStreamSize",
+      method: "GET",
+      path: "live-clients-size",
+    },
+    options
+  );
+}
+
+/**
+ * Returns user list
+ * Returns user list in the server management panel
+ * GET /v2/user-list
+ */
+export function getUserList(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<string> {
+  return send<string>(
+    {
+      operationId: "getUserList",
+      method: "GET",
+      path: "user-list",
+    },
+    options
+  );
+}
+
+/**
+ * Returns the version of Ant Media Server
+ * GET /v2/version
+ */
+export function getVersion(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<unknown> {
+  return send<unknown>(
+    {
+      operationId: "getVersion",
+      method: "GET",
+      path: "version",
+    },
+    options
+  );
+}
+
+/**
+ * Returns admin status
+ * Returns whether current user is admin or not. If user is admin, it can call POST/PUT/DELETE methods
+ * GET /v2/admin-status
+ */
+export function isAdmin(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "isAdmin",
+      method: "GET",
+      path: "admin-status",
+    },
+    options
+  );
+}
+
+/**
+ * Returns true if user is authenticated to call rest api operations
+ * GET /v2/authentication-status
+ */
+export function isAuthenticatedRest(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<unknown> {
+  return send<unknown>(
+    {
+      operationId: "isAuthenticatedRest",
+      method: "GET",
+      path: "authentication-status",
+    },
+    options
+  );
+}
+
+/**
+ * Returns true if the server is enterprise edition
+ * GET /v2/enterprise-edition
+ */
+export function isEnterpriseEdition(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<unknown> {
+  return send<unknown>(
+    {
+      operationId: "isEnterpriseEdition",
+      method: "GET",
+      path: "enterprise-edition",
+    },
+    options
+  );
+}
+
+/**
+ * Checks first login status
+ * Checks first login status. If server being logged in first time, it returns true, otherwise false.
+ * GET /v2/first-login-status
+ */
+export function isFirstLogin(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "isFirstLogin",
+      method: "GET",
+      path: "first-login-status",
+    },
+    options
+  );
+}
+
+/**
+ * Returns the server mode
+ * GET /v2/cluster-mode-status
+ */
+export function isInClusterMode(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<unknown> {
+  return send<unknown>(
+    {
+      operationId: "isInClusterMode",
+      method: "GET",
+      path: "cluster-mode-status",
+    },
+    options
+  );
+}
+
+/** Parameters of isShutdownProperly */
+export interface IsShutdownProperlyParams {
+  /** Application name */
+  appNames: string;
+}
+
+/**
+ * Checks whether application or applications have shutdown properly
+ * GET /v2/shutdown-proper-status
+ */
+export function isShutdownProperly(
+  send: ApiSend,
+  params: IsShutdownProperlyParams,
+  options?: RequestOptions
+): Promise<unknown> {
+  return send<unknown>(
+    {
+      operationId: "isShutdownProperly",
+      method: "GET",
+      path: "shutdown-proper-status",
+      query: {
+        appNames: params.appNames,
+      },
+    },
+    options
+  );
+}
+
+/**
+ * Returns the hostname to check liveness with HTTP type healthcheck
+ * GET /v2/liveness
+ */
+export function liveness(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<unknown> {
+  return send<unknown>(
+    {
+      operationId: "liveness",
+      method: "GET",
+      path: "liveness",
+    },
+    options
+  );
+}
+
+/** Parameters of resetBroadcast */
+export interface ResetBroadcastParams {
+  /** Application name */
+  appname: string;
+}
+
+/**
+ * Resets the viewer counts and broadcasts statuses in the db
+ * POST /v2/applications/{appname}/reset
+ */
+export function resetBroadcast(
+  send: ApiSend,
+  params: ResetBroadcastParams,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "resetBroadcast",
+      method: "POST",
+      path: `applications/${encodeURIComponent(String(params.appname))}/reset`,
+    },
+    options
+  );
+}
+
+/** Parameters of setShutdownStatus */
+export interface SetShutdownStatusParams {
+  /** Application name */
+  appNames: string;
+}
+
+/**
+ * Set application or applications shutdown property to true
+ * GET /v2/shutdown-properly
+ */
+export function setShutdownStatus(
+  send: ApiSend,
+  params: SetShutdownStatusParams,
+  options?: RequestOptions
+): Promise<unknown> {
+  return send<unknown>(
+    {
+      operationId: "setShutdownStatus",
+      method: "GET",
+      path: "shutdown-properly",
+      query: {
+        appNames: params.appNames,
+      },
+    },
+    options
+  );
+}
+
+/**
+ * Trigger garbage collector
+ * POST /v2/system/gc
+ */
+export function triggerGc(
+  send: ApiSend,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "triggerGc",
+      method: "POST",
+      path: "system/gc",
+    },
+    options
+  );
+}
+
+/** POST /v2/support/request */
+export function sendSupportRequest(
+  send: ApiSend,
+  body?: SupportRequest,
+  options?: RequestOptions
+): Promise<Result> {
+  return send<Result>(
+    {
+      operationId: "sendSupportRequest",
+      method: "POST",
+      path: "support/request",
+      body,
+    },
+    options
+  );
+}
+
+/** Runtime schemas of the component types, used by response validation */
+export const schemas: Record<string, Schema> = {
+  "Result": {
+    "type": "object",
+    "properties": {
+      "success": {
+        "type": "boolean"
+      },
+      "message": {
+        "type": "string"
+      },
+      "dataId": {
+        "type": "string"
+      },
+      "errorId": {
+        "type": "number"
+      }
+    }
+  },
+  "SimpleStat": {
+    "type": "object",
+    "properties": {
+      "number": {
+        "type": "number"
+      }
+    }
+  },
+  "ClusterNode": {
+    "type": "object",
+    "properties": {
+      "id": {
+        "type": "string"
+      },
+      "ip": {
+        "type": "string"
+      },
+      "lastUpdateTime": {
+        "type": "number"
+      },
+      "memory": {
+        "type": "string"
+      },
+      "cpu": {
+        "type": "string"
+      },
+      "dbQueryAveargeTimeMs": {
+        "type": "number"
+      },
+      "status": {
+        "type": "string"
+      }
+    }
+  },
+  "User": {
+    "type": "object",
+    "properties": {
+      "email": {
+        "type": "string"
+      },
+      "password": {
+        "type": "string"
+      },
+      "userType": {
+        "type": "string",
+        "enum": [
+          "ADMIN",
+          "READ_ONLY",
+          "USER",
+          "READ-ONLY"
+        ]
+      },
+      "scope": {
+        "type": "string"
+      },
+      "appNameUserType": {
+        "type": "object",
+        "additionalProperties": {
+          "type": "string"
+        }
+      },
+      "newPassword": {
+        "type": "string"
+      },
+      "firstName": {
+        "type": "string"
+      },
+      "lastName": {
+        "type": "string"
+      },
+      "fullName": {
+        "type": "string"
+      },
+      "picture": {
+        "type": "string"
+      }
+    }
+  },
+  "ApplicationContext": {
+    "type": "object",
+    "properties": {
+      "displayName": {
+        "type": "string"
+      },
+      "startupDate": {
+        "type": "number"
+      },
+      "applicationName": {
+        "type": "string"
+      },
+      "autowireCapableBeanFactory": {
+        "$ref": "AutowireCapableBeanFactory"
+      },
+      "parent": {
+        "$ref": "ApplicationContext"
+      },
+      "id": {
+        "type": "string"
+      },
+      "environment": {
+        "$ref": "Environment"
+      },
+      "beanDefinitionCount": {
+        "type": "number"
+      },
+      "beanDefinitionNames": {
+        "type": "array",
+        "items": {
+          "type": "string"
+        }
+      },
+      "parentBeanFactory": {
+        "$ref": "BeanFactory"
+      },
+      "classLoader": {
+        "type": "object",
+        "properties": {
+          "name": {
+            "type": "string"
+          },
+          "registeredAsParallelCapable": {
+            "type": "boolean"
+          },
+          "parent": {
+            "type": "object",
+            "properties": {
+              "name": {
+                "type": "string"
+              },
+              "registeredAsParallelCapable": {
+                "type": "boolean"
+              },
+              "unnamedModule": {
+                "type": "object",
+                "properties": {
+                  "name": {
+                    "type": "string"
+                  },
+                  "classLoader": {
+                    "type": "object",
+                    "properties": {
+                      "name": {
+                        "type": "string"
+                      },
+                      "registeredAsParallelCapable": {
+                        "type": "boolean"
+                      },
+                      "definedPackages": {
+                        "type": "array",
+                        "items": {
+                          "type": "object",
+                          "properties": {
+                            "name": {
+                              "type": "string"
+                            },
+                            "specificationTitle": {
+                              "type": "string"
+                            },
+                            "specificationVersion": {
+                              "type": "string"
+                            },
+                            "specificationVendor": {
+                              "type": "string"
+                            },
+                            "implementationTitle": {
+                              "type": "string"
+                            },
+                            "implementationVersion": {
+                              "type": "string"
+                            },
+                            "implementationVendor": {
+                              "type": "string"
+                            },
+                            "annotations": {
+                              "type": "array",
+                              "items": {
+                                "type": "object"
+                              }
+                            },
+                            "declaredAnnotations": {
+                              "type": "array",
+                              "items": {
+                                "type": "object"
+                              }
+                            },
+                            "sealed": {
+                              "type": "boolean"
+                            }
+                          }
+                        }
+                      },
+                      "defaultAssertionStatus": {
+                        "type": "boolean"
+                      }
+                    }
+                  },
+                  "descriptor": {
+                    "type": "object",
+                    "properties": {
+                      "open": {
+                        "type": "boolean"
+                      },
+                      "automatic": {
+                        "type": "boolean"
+                      }
+                    }
+                  },
+                  "named": {
+                    "type": "boolean"
+                  },
+                  "annotations": {
+                    "type": "array",
+                    "items": {
+                      "type": "object"
+                    }
+                  },
+                  "declaredAnnotations": {
+                    "type": "array",
+                    "items": {
+                      "type": "object"
+                    }
+                  },
+                  "packages": {
+                    "type": "array",
+                    "items": {
+                      "type": "string"
+                    }
+                  },
+                  "layer": {
+                    "type": "object"
+                  }
+                }
+              },
+              "definedPackages": {
+                "type": "array",
+                "items": {
+                  "type": "object",
+                  "properties": {
+                    "name": {
+                      "type": "string"
+                    },
+                    "specificationTitle": {
+                      "type": "string"
+                    },
+                    "specificationVersion": {
+                      "type": "string"
+                    },
+                    "specificationVendor": {
+                      "type": "string"
+                    },
+                    "implementationTitle": {
+                      "type": "string"
+                    },
+                    "implementationVersion": {
+                      "type": "string"
+                    },
+                    "implementationVendor": {
+                      "type": "string"
+                    },
+                    "annotations": {
+                      "type": "array",
+                      "items": {
+                        "type": "object"
+                      }
+                    },
+                    "declaredAnnotations": {
+                      "type": "array",
+                      "items": {
+                        "type": "object"
+                      }
+                    },
+                    "sealed": {
+                      "type": "boolean"
+                    }
+                  }
+                }
+              },
+              "defaultAssertionStatus": {
+                "type": "boolean"
+              }
+            }
+          },
+          "unnamedModule": {
+            "type": "object",
+            "properties": {
+              "name": {
+                "type": "string"
+              },
+              "classLoader": {
+                "type": "object",
+                "properties": {
+                  "name": {
+                    "type": "string"
+                  },
+                  "registeredAsParallelCapable": {
+                    "type": "boolean"
+                  },
+                  "definedPackages": {
+                    "type": "array",
+                    "items": {
+                      "type": "object",
+                      "properties": {
+                        "name": {
+                          "type": "string"
+                        },
+                        "specificationTitle": {
+                          "type": "string"
+                        },
+                        "specificationVersion": {
+                          "type": "string"
+                        },
+                        "specificationVendor": {
+                          "type": "string"
+                        },
+                        "implementationTitle": {
+                          "type": "string"
+                        },
+                        "implementationVersion": {
+                          "type": "string"
+                        },
+                        "implementationVendor": {
+                          "type": "string"
+                        },
+                        "annotations": {
+                          "type": "array",
+                          "items": {
+                            "type": "object"
+                          }
+                        },
+                        "declaredAnnotations": {
+                          "type": "array",
+                          "items": {
+                            "type": "object"
+                          }
+                        },
+                        "sealed": {
+                          "type": "boolean"
+                        }
+                      }
+                    }
+                  },
+                  "defaultAssertionStatus": {
+                    "type": "boolean"
+                  }
+                }
+              },
+              "descriptor": {
+                "type": "object",
+                "properties": {
+                  "open": {
+                    "type": "boolean"
+                  },
+                  "automatic": {
+                    "type": "boolean"
+                  }
+                }
+              },
+              "named": {
+                "type": "boolean"
+              },
+              "annotations": {
+                "type": "array",
+                "items": {
+                  "type": "object"
+                }
+              },
+              "declaredAnnotations": {
+                "type": "array",
+                "items": {
+                  "type": "object"
+                }
+              },
+              "packages": {
+                "type": "array",
+                "items": {
+                  "type": "string"
+                }
+              },
+              "layer": {
+                "type": "object"
+              }
+            }
+          },
+          "definedPackages": {
+            "type": "array",
+            "items": {
+              "type": "object",
+              "properties": {
+                "name": {
+                  "type": "string"
+                },
+                "specificationTitle": {
+                  "type": "string"
+                },
+                "specificationVersion": {
+                  "type": "string"
+                },
+                "specificationVendor": {
+                  "type": "string"
+                },
+                "implementationTitle": {
+                  "type": "string"
+                },
+                "implementationVersion": {
+                  "type": "string"
+                },
+                "implementationVendor": {
+                  "type": "string"
+                },
+                "annotations": {
+                  "type": "array",
+                  "items": {
+                    "type": "object"
+                  }
+                },
+                "declaredAnnotations": {
+                  "type": "array",
+                  "items": {
+                    "type": "object"
+                  }
+                },
+                "sealed": {
+                  "type": "boolean"
+                }
+              }
+            }
+          },
+          "defaultAssertionStatus": {
+            "type": "boolean"
+          }
+        }
+      }
+    }
+  },
+  "AutowireCapableBeanFactory": {
+    "type": "object"
+  },
+  "BeanFactory": {
+    "type": "object"
+  },
+  "Environment": {
+    "type": "object",
+    "properties": {
+      "activeProfiles": {
+        "type": "array",
+        "items": {
+          "type": "string"
+        }
+      },
+      "defaultProfiles": {
+        "type": "array",
+        "items": {
+          "type": "string"
+        }
+      }
+    }
+  },
+  "ServerSettings": {
+    "type": "object",
+    "properties": {
+      "allowedDashboardCIDR": {
+        "type": "string"
+      },
+      "hostAddress": {
+        "type": "string"
+      },
+      "serverName": {
+        "type": "string"
+      },
+      "licenceKey": {
+        "type": "string"
+      },
+      "buildForMarket": {
+        "type": "boolean"
+      },
+      "marketplace": {
+        "type": "string"
+      },
+      "logLevel": {
+        "type": "string"
+      },
+      "offlineLicense": {
+        "type": "boolean"
+      },
+      "nativeLogLevel": {
+        "type": "string"
+      },
+      "heartbeatEnabled": {
+        "type": "boolean"
+      },
+      "useGlobalIp": {
+        "type": "boolean"
+      },
+      "proxyAddress": {
+        "type": "string"
+      },
+      "nodeGroup": {
+        "type": "string"
+      },
+      "cpuMeasurementPeriodMs": {
+        "type": "number"
+      },
+      "cpuMeasurementWindowSize": {
+        "type": "number"
+      },
+      "defaultHttpPort": {
+        "type": "number"
+      },
+      "jwtServerControlEnabled": {
+        "type": "boolean"
+      },
+      "jwtServerSecretKey": {
+        "type": "string"
+      },
+      "jwksURL": {
+        "type": "string"
+      },
+      "originServerPort": {
+        "type": "number"
+      },
+      "srtPort": {
+        "type": "number"
+      },
+      "appIngestsSrtStreamsWithoutStreamId": {
+        "type": "string"
+      },
+      "sslEnabled": {
+        "type": "boolean"
+      },
+      "rtmpPort": {
+        "type": "number"
+      },
+      "serverStatusWebHookURL": {
+        "type": "string"
+      },
+      "localLicenceServerIps": {
+        "type": "string"
+      },
+      "applicationContext": {
+        "$ref": "ApplicationContext"
+      },
+      "hostAddressFromEnvironment": {
+        "type": "string"
+      },
+      "webRTCLogLevel": {
+        "type": "string",
+        "enum": [
+          "LS_VERBOSE",
+          "LS_INFO",
+          "LS_WARNING",
+          "LS_ERROR",
+          "LS_NONE"
+        ]
+      },
+      "rtmpsEnabled": {
+        "type": "boolean"
+      }
+    }
+  },
+  "AppSettings": {
+    "type": "object",
+    "properties": {
+      "remoteAllowedCIDR": {
+        "type": "string"
+      },
+      "mp4MuxingEnabled": {
+        "type": "boolean"
+      },
+      "webMMuxingEnabled": {
+        "type": "boolean"
+      },
+      "addDateTimeToMp4FileName": {
+        "type": "boolean"
+      },
+      "fileNameFormat": {
+        "type": "string"
+      },
+      "hlsMuxingEnabled": {
+        "type": "boolean"
+      },
+      "encoderSettingsString": {
+        "type": "string"
+      },
+      "signalingEnabled": {
+        "type": "boolean"
+      },
+      "signalingAddress": {
+        "type": "string"
+      },
+      "hlsListSize": {
+        "type": "string"
+      },
+      "hlsTime": {
+        "type": "string"
+      },
+      "uploadExtensionsToS3": {
+        "type": "number"
+      },
+      "s3StorageClass": {
+        "type": "string"
+      },
+      "endpointHealthCheckPeriodMs": {
+        "type": "number"
+      },
+      "endpointRepublishLimit": {
+        "type": "number"
+      },
+      "dashSegDuration": {
+        "type": "string"
+      },
+      "dashFragmentDuration": {
+        "type": "string"
+      },
+      "targetLatency": {
+        "type": "string"
+      },
+      "dashWindowSize": {
+        "type": "string"
+      },
+      "dashExtraWindowSize": {
+        "type": "string"
+      },
+      "islLDashEnabled": {
+        "type": "boolean"
+      },
+      "islLHLSEnabled": {
+        "type": "boolean"
+      },
+      "hlsEnabledViaDash": {
+        "type": "boolean"
+      },
+      "useTimelineDashMuxing": {
+        "type": "boolean"
+      },
+      "webRTCEnabled": {
+        "type": "boolean"
+      },
+      "useOriginalWebRTCEnabled": {
+        "type": "boolean"
+      },
+      "deleteHLSFilesOnEnded": {
+        "type": "boolean"
+      },
+      "deleteDASHFilesOnEnded": {
+        "type": "boolean"
+      },
+      "tokenHashSecret": {
+        "type": "string"
+      },
+      "hashControlPublishEnabled": {
+        "type": "boolean"
+      },
+      "hashControlPlayEnabled": {
+        "type": "boolean"
+      },
+      "listenerHookURL": {
+        "type": "string"
+      },
+      "acceptOnlyStreamsInDataStore": {
+        "type": "boolean"
+      },
+      "acceptOnlyRoomsInDataStore": {
+        "type": "boolean"
+      },
+      "publishTokenControlEnabled": {
+        "type": "boolean"
+      },
+      "playTokenControlEnabled": {
+        "type": "boolean"
+      },
+      "timeTokenSubscriberOnly": {
+        "type": "boolean"
+      },
+      "enableTimeTokenForPlay": {
+        "type": "boolean"
+      },
+      "timeTokenSecretForPlay": {
+        "type": "string"
+      },
+      "enableTimeTokenForPublish": {
+        "type": "boolean"
+      },
+      "timeTokenSecretForPublish": {
+        "type": "string"
+      },
+      "timeTokenPeriod": {
+        "type": "number"
+      },
+      "hlsPlayListType": {
+        "type": "string"
+      },
+      "hlsSegmentType": {
+        "type": "string"
+      },
+      "hlsSegmentFileSuffixFormat": {
+        "type": "string"
+      },
+      "vodFolder": {
+        "type": "string"
+      },
+      "previewOverwrite": {
+        "type": "boolean"
+      },
+      "stalkerDBServer": {
+        "type": "string"
+      },
+      "stalkerDBUsername": {
+        "type": "string"
+      },
+      "stalkerDBPassword": {
+        "type": "string"
+      },
+      "objectDetectionEnabled": {
+        "type": "boolean"
+      },
+      "createPreviewPeriod": {
+        "type": "number"
+      },
+      "restartStreamFetcherPeriod": {
+        "type": "number"
+      },
+      "startStreamFetcherAutomatically": {
+        "type": "boolean"
+      },
+      "streamFetcherBufferTime": {
+        "type": "number"
+      },
+      "hlsflags": {
+        "type": "string"
+      },
+      "mySqlClientPath": {
+        "type": "string"
+      },
+      "muxerFinishScript": {
+        "type": "string"
+      },
+      "streamStartedScript": {
+        "type": "string"
+      },
+      "streamEndedScript": {
+        "type": "string"
+      },
+      "streamIdleTimeoutScript": {
+        "type": "string"
+      },
+      "webRTCFrameRate": {
+        "type": "number"
+      },
+      "webRTCPortRangeMin": {
+        "type": "number"
+      },
+      "webRTCPortRangeMax": {
+        "type": "number"
+      },
+      "stunServerURI": {
+        "type": "string"
+      },
+      "turnServerUsername": {
+        "type": "string"
+      },
+      "turnServerCredential": {
+        "type": "string"
+      },
+      "webRTCTcpCandidatesEnabled": {
+        "type": "boolean"
+      },
+      "webRTCSdpSemantics": {
+        "type": "string"
+      },
+      "portAllocatorFlags": {
+        "type": "number"
+      },
+      "encoderName": {
+        "type": "string"
+      },
+      "encoderParameters": {
+        "type": "object",
+        "additionalProperties": {
+          "type": "object",
+          "additionalProperties": {
+            "type": "string"
+          }
+        }
+      },
+      "encoderPreset": {
+        "type": "string"
+      },
+      "encoderProfile": {
+        "type": "string"
+      },
+      "encoderLevel": {
+        "type": "string"
+      },
+      "encoderRc": {
+        "type": "string"
+      },
+      "encoderSpecific": {
+        "type": "string"
+      },
+      "encoderThreadCount": {
+        "type": "number"
+      },
+      "encoderThreadType": {
+        "type": "number"
+      },
+      "vp8EncoderSpeed": {
+        "type": "number"
+      },
+      "vp8EncoderDeadline": {
+        "type": "string"
+      },
+      "vp8EncoderThreadCount": {
+        "type": "number"
+      },
+      "previewHeight": {
+        "type": "number"
+      },
+      "generatePreview": {
+        "type": "boolean"
+      },
+      "previewFormat": {
+        "type": "string"
+      },
+      "previewQuality": {
+        "type": "number"
+      },
+      "writeStatsToDatastore": {
+        "type": "boolean"
+      },
+      "encoderSelectionPreference": {
+        "type": "string"
+      },
+      "allowedPublisherCIDR": {
+        "type": "string"
+      },
+      "excessiveBandwidthValue": {
+        "type": "number"
+      },
+      "excessiveBandwidthCallThreshold": {
+        "type": "number"
+      },
+      "excessiveBandwithTryCountBeforeSwitchback": {
+        "type": "number"
+      },
+      "excessiveBandwidthAlgorithmEnabled": {
+        "type": "boolean"
+      },
+      "packetLossDiffThresholdForSwitchback": {
+        "type": "number"
+      },
+      "rttMeasurementDiffThresholdForSwitchback": {
+        "type": "number"
+      },
+      "replaceCandidateAddrWithServerAddr": {
+        "type": "boolean"
+      },
+      "appName": {
+        "type": "string"
+      },
+      "encodingTimeout": {
+        "type": "number"
+      },
+      "webRTCClientStartTimeoutMs": {
+        "type": "number"
+      },
+      "defaultDecodersEnabled": {
+        "type": "boolean"
+      },
+      "updateTime": {
+        "type": "number"
+      },
+      "httpForwardingExtension": {
+        "type": "string"
+      },
+      "httpForwardingBaseURL": {
+        "type": "string"
+      },
+      "maxAnalyzeDurationMS": {
+        "type": "number"
+      },
+      "disableIPv6Candidates": {
+        "type": "boolean"
+      },
+      "rtspPullTransportType": {
+        "type": "string"
+      },
+      "rtspTimeoutDurationMs": {
+        "type": "number"
+      },
+      "maxFpsAccept": {
+        "type": "number"
+      },
+      "maxResolutionAccept": {
+        "type": "number"
+      },
+      "h264Enabled": {
+        "type": "boolean"
+      },
+      "vp8Enabled": {
+        "type": "boolean"
+      },
+      "h265Enabled": {
+        "type": "boolean"
+      },
+      "dataChannelEnabled": {
+        "type": "boolean"
+      },
+      "dataChannelPlayerDistribution": {
+        "type": "string"
+      },
+      "rtmpIngestBufferTimeMs": {
+        "type": "number"
+      },
+      "dataChannelWebHookURL": {
+        "type": "string"
+      },
+      "h265EncoderPreset": {
+        "type": "string"
+      },
+      "h265EncoderProfile": {
+        "type": "string"
+      },
+      "h265EncoderRc": {
+        "type": "string"
+      },
+      "h265EncoderSpecific": {
+        "type": "string"
+      },
+      "h265EncoderLevel": {
+        "type": "string"
+      },
+      "heightRtmpForwarding": {
+        "type": "number"
+      },
+      "audioBitrateSFU": {
+        "type": "number"
+      },
+      "dashMuxingEnabled": {
+        "type": "boolean"
+      },
+      "aacEncodingEnabled": {
+        "type": "boolean"
+      },
+      "gopSize": {
+        "type": "number"
+      },
+      "constantRateFactor": {
+        "type": "string"
+      },
+      "webRTCViewerLimit": {
+        "type": "number"
+      },
+      "toBeDeleted": {
+        "type": "boolean"
+      },
+      "appStatus": {
+        "type": "string"
+      },
+      "appInstallationTime": {
+        "type": "number"
+      },
+      "pullWarFile": {
+        "type": "boolean"
+      },
+      "warFileOriginServerAddress": {
+        "type": "string"
+      },
+      "jwtSecretKey": {
+        "type": "string"
+      },
+      "jwtControlEnabled": {
+        "type": "boolean"
+      },
+      "ipFilterEnabled": {
+        "type": "boolean"
+      },
+      "ingestingStreamLimit": {
+        "type": "number"
+      },
+      "webRTCKeyframeTime": {
+        "type": "number"
+      },
+      "jwtStreamSecretKey": {
+        "type": "string"
+      },
+      "publishJwtControlEnabled": {
+        "type": "boolean"
+      },
+      "playJwtControlEnabled": {
+        "type": "boolean"
+      },
+      "dashHttpStreaming": {
+        "type": "boolean"
+      },
+      "subFolder": {
+        "type": "string"
+      },
+      "s3StreamsFolderPath": {
+        "type": "string"
+      },
+      "s3PreviewsFolderPath": {
+        "type": "string"
+      },
+      "dashHttpEndpoint": {
+        "type": "string"
+      },
+      "hlsHttpEndpoint": {
+        "type": "string"
+      },
+      "forceDecoding": {
+        "type": "boolean"
+      },
+      "addOriginalMuxerIntoHLSPlaylist": {
+        "type": "boolean"
+      },
+      "s3RecordingEnabled": {
+        "type": "boolean"
+      },
+      "s3AccessKey": {
+        "type": "string"
+      },
+      "s3SecretKey": {
+        "type": "string"
+      },
+      "s3BucketName": {
+        "type": "string"
+      },
+      "s3RegionName": {
+        "type": "string"
+      },
+      "s3Endpoint": {
+        "type": "string"
+      },
+      "s3CacheControl": {
+        "type": "string"
+      },
+      "s3PathStyleAccessEnabled": {
+        "type": "boolean"
+      },
+      "s3Permission": {
+        "type": "string"
+      },
+      "s3TransferBufferSizeInBytes": {
+        "type": "number"
+      },
+      "hlsEncryptionKeyInfoFile": {
+        "type": "string"
+      },
+      "jwksURL": {
+        "type": "string"
+      },
+      "forceAspectRatioInTranscoding": {
+        "type": "boolean"
+      },
+      "webhookAuthenticateURL": {
+        "type": "string"
+      },
+      "maxAudioTrackCount": {
+        "type": "number"
+      },
+      "maxVideoTrackCount": {
+        "type": "number"
+      },
+      "vodUploadFinishScript": {
+        "type": "string"
+      },
+      "contentSecurityPolicyHeaderValue": {
+        "type": "string"
+      },
+      "rtmpPlaybackEnabled": {
+        "type": "boolean"
+      },
+      "originEdgeIdleTimeout": {
+        "type": "number"
+      },
+      "addDateTimeToHlsFileName": {
+        "type": "boolean"
+      },
+      "playWebRTCStreamOnceForEachSession": {
+        "type": "boolean"
+      },
+      "statsBasedABREnabled": {
+        "type": "boolean"
+      },
+      "abrDownScalePacketLostRatio": {
+        "type": "number"
+      },
+      "abrUpScalePacketLostRatio": {
+        "type": "number"
+      },
+      "abrUpScaleRTTMs": {
+        "type": "number"
+      },
+      "abrUpScaleJitterMs": {
+        "type": "number"
+      },
+      "clusterCommunicationKey": {
+        "type": "string"
+      },
+      "id3TagEnabled": {
+        "type": "boolean"
+      },
+      "sendAudioLevelToViewers": {
+        "type": "boolean"
+      },
+      "audioLevelThreshold": {
+        "type": "number"
+      },
+      "hwScalingEnabled": {
+        "type": "boolean"
+      },
+      "firebaseAccountKeyJSON": {
+        "type": "string"
+      },
+      "subscriberAuthenticationKey": {
+        "type": "string"
+      },
+      "apnsServer": {
+        "type": "string"
+      },
+      "apnTeamId": {
+        "type": "string"
+      },
+      "apnPrivateKey": {
+        "type": "string"
+      },
+      "apnKeyId": {
+        "type": "string"
+      },
+      "webhookRetryCount": {
+        "type": "number"
+      },
+      "secureAnalyticEndpoint": {
+        "type": "boolean"
+      },
+      "webhookRetryDelay": {
+        "type": "number"
+      },
+      "webhookStreamStatusUpdatePeriodMs": {
+        "type": "number"
+      },
+      "webhookPlayAuthUrl": {
+        "type": "string"
+      },
+      "recordingSubfolder": {
+        "type": "string"
+      },
+      "webhookContentType": {
+        "type": "string"
+      },
+      "iceGatheringTimeoutMs": {
+        "type": "number"
+      },
+      "participantVisibilityMatrix": {
+        "type": "object",
+        "additionalProperties": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        }
+      },
+      "customSettings": {
+        "type": "object",
+        "additionalProperties": {
+          "type": "object"
+        }
+      },
+      "relayRTMPMetaDataToMuxers": {
+        "type": "boolean"
+      },
+      "dropWebRTCIngestIfNoPacketReceived": {
+        "type": "boolean"
+      },
+      "srtReceiveLatencyInMs": {
+        "type": "number"
+      },
+      "encodingQueueSize": {
+        "type": "number"
+      },
+      "writeSubscriberEventsToDatastore": {
+        "type": "boolean"
+      },
+      "encoderSettings": {
+        "type": "array",
+        "items": {
+          "$ref": "EncoderSettings"
+        }
+      }
+    }
+  },
+  "EncoderSettings": {
+    "type": "object",
+    "properties": {
+      "height": {
+        "type": "number"
+      },
+      "videoBitrate": {
+        "type": "number"
+      },
+      "audioBitrate": {
+        "type": "number"
+      },
+      "forceEncode": {
+        "type": "boolean"
+      }
+    }
+  },
+  "FormDataContentDisposition": {
+    "type": "object",
+    "properties": {
+      "type": {
+        "type": "string"
+      },
+      "parameters": {
+        "type": "object",
+        "additionalProperties": {
+          "type": "string"
+        }
+      },
+      "fileName": {
+        "type": "string"
+      },
+      "creationDate": {
+        "type": "string"
+      },
+      "modificationDate": {
+        "type": "string"
+      },
+      "readDate": {
+        "type": "string"
+      },
+      "size": {
+        "type": "number"
+      },
+      "name": {
+        "type": "string"
+      }
+    }
+  },
+  "Licence": {
+    "type": "object",
+    "properties": {
+      "licenceId": {
+        "type": "string"
+      },
+      "startDate": {
+        "type": "string"
+      },
+      "endDate": {
+        "type": "string"
+      },
+      "type": {
+        "type": "string"
+      },
+      "licenceCount": {
+        "type": "string"
+      },
+      "owner": {
+        "type": "string"
+      },
+      "status": {
+        "type": "string"
+      },
+      "hourUsed": {
+        "type": "string"
+      }
+    }
+  },
+  "SupportRequest": {
+    "type": "object",
+    "properties": {
+      "name": {
+        "type": "string"
+      },
+      "email": {
+        "type": "string"
+      },
+      "title": {
+        "type": "string"
+      },
+      "description": {
+        "type": "string"
+      },
+      "sendSystemInfo": {
+        "type": "boolean"
+      }
+    }
+  }
+};
+
+/** Runtime schemas of operation responses, keyed by operationId */
+export const responseSchemas: Record<string, Schema> = {
+  "deleteNode": {
+    "$ref": "Result"
+  },
+  "getNodeCount": {
+    "$ref": "SimpleStat"
+  },
+  "getNodeList": {
+    "type": "array",
+    "items": {
+      "$ref": "ClusterNode"
+    }
+  },
+  "deleteNode_1": {
+    "$ref": "Result"
+  },
+  "getNodeCount_1": {
+    "$ref": "SimpleStat"
+  },
+  "getNodeList_1": {
+    "type": "array",
+    "items": {
+      "$ref": "ClusterNode"
+    }
+  },
+  "addInitialUser": {
+    "$ref": "Result"
+  },
+  "addUser": {
+    "$ref": "Result"
+  },
+  "editUser": {
+    "$ref": "Result"
+  },
+  "authenticateUser": {
+    "$ref": "Result"
+  },
+  "changeServerSettings": {
+    "$ref": "Result"
+  },
+  "getSettings": {
+    "$ref": "AppSettings"
+  },
+  "changeSettings": {
+    "$ref": "Result"
+  },
+  "changeUserPassword": {
+    "$ref": "Result"
+  },
+  "configureSsl": {
+    "$ref": "Result"
+  },
+  "createApplication": {
+    "$ref": "Result"
+  },
+  "createApplication_1": {
+    "$ref": "Result"
+  },
+  "deleteApplication": {
+    "$ref": "Result"
+  },
+  "deleteSession": {
+    "$ref": "Result"
+  },
+  "deleteUser": {
+    "$ref": "Result"
+  },
+  "getApplicationInfo": {
+    "type": "array",
+    "items": {
+      "type": "object",
+      "properties": {
+        "name": {
+          "type": "string"
+        },
+        "liveStreamCount": {
+          "type": "number"
+        },
+        "vodCount": {
+          "type": "number"
+        },
+        "storage": {
+          "type": "number"
+        }
+      }
+    }
+  },
+  "getApplications": {
+    "type": "object",
+    "properties": {
+      "applications": {
+        "type": "array",
+        "items": {
+          "type": "string"
+        }
+      }
+    }
+  },
+  "getBlockedStatus": {
+    "$ref": "Result"
+  },
+  "getLicenceStatus": {
+    "$ref": "Licence"
+  },
+  "getSystemResourcesInfo": {
+    "type": "object",
+    "properties": {
+      "cpuUsage": {
+        "type": "object",
+        "properties": {
+          "systemCPULoad": {
+            "type": "number"
+          },
+          "processCPULoad": {
+            "type": "number"
+          }
+        }
+      },
+      "systemInfo": {
+        "type": "object",
+        "properties": {
+          "osName": {
+            "type": "string"
+          },
+          "osArch": {
+            "type": "string"
+          },
+          "javaVersion": {
+            "type": "string"
+          },
+          "processorCount": {
+            "type": "number"
+          }
+        }
+      },
+      "jvmMemoryUsage": {
+        "type": "object",
+        "properties": {
+          "maxMemory": {
+            "type": "number"
+          },
+          "totalMemory": {
+            "type": "number"
+          },
+          "freeMemory": {
+            "type": "number"
+          },
+          "inUseMemory": {
+            "type": "number"
+          },
+          "availableMemory": {
+            "type": "number"
+          }
+        }
+      },
+      "systemMemoryInfo": {
+        "type": "object",
+        "properties": {
+          "maxMemory": {
+            "type": "number"
+          },
+          "totalMemory": {
+            "type": "number"
+          },
+          "freeMemory": {
+            "type": "number"
+          },
+          "inUseMemory": {
+            "type": "number"
+          },
+          "availableMemory": {
+            "type": "number"
+          }
+        }
+      },
+      "fileSystemInfo": {
+        "type": "object",
+        "properties": {
+          "usableSpace": {
+            "type": "number"
+          },
+          "totalSpace": {
+            "type": "number"
+          },
+          "freeSpace": {
+            "type": "number"
+          },
+          "inUseSpace": {
+            "type": "number"
+          }
+        }
+      },
+      "totalLiveStreamSize": {
+        "type": "number"
+      },
+      "localLiveStreams": {
+        "type": "number"
+      },
+      "localWebRTCLiveStreams": {
+        "type": "number"
+      },
+      "localWebRTCViewers": {
+        "type": "number"
+      },
+      "localHLSViewers": {
+        "type": "number"
+      },
+      "localDASHViewers": {
+        "type": "number"
+      }
+    }
+  },
+  "getUserList": {
+    "type": "string"
+  },
+  "isAdmin": {
+    "$ref": "Result"
+  },
+  "isFirstLogin": {
+    "$ref": "Result"
+  },
+  "resetBroadcast": {
+    "$ref": "Result"
+  },
+  "triggerGc": {
+    "$ref": "Result"
+  },
+  "sendSupportRequest": {
+    "$ref": "Result"
+  }
+};
@@ -0,0 +1,153 @@
+/**
+ * Runtime schemas generated from the OpenAPI specs and the validator that
+ * checks AMS responses against them
+ */
+
+export type Schema =
+  | { type: "string"; enum?: string[] }
+  | { type: "number" }
+  | { type: "boolean" }
+  | { type: "array"; items: Schema }
+  | {
+      type: "object";
+      properties?: Record<string, Schema>;
+      required?: string[];
+      additionalProperties?: Schema;
+    }
+  | { type: "unknown" }
+  | { $ref: string };
+
+/**
+ * - "strict": throw on any mismatch (tests)
+ * - "lenient": log mismatches and replace wrong values and missing required
+ *   fields with empty ones (production)
+ * - "off": return bodies as received
+ * Optional fields are not filled in. They are undefined when AMS leaves them
+ * out or sends null, as their types say. Filled in values are invented, so
+ * whatever is written back to AMS (see patchSettings) is read with "off"
+ */
+export type ValidationMode = "strict" | "lenient" | "off";
+
+export interface ValidationIssue {
+  /** Location in the body, e.g. $[3].encoderSettings */
+  path: string;
+  kind: "type" | "missing" | "unknown";
+  message: string;
+}
+
+export interface ValidationResult<T> {
+  /** Body with wrong values and missing required fields replaced by empty ones, null optional fields removed */
+  value: T;
+  issues: ValidationIssue[];
+}
+
+function resolve(schema: Schema, schemas: Record<string, Schema>): Schema {
+  return "$ref" in schema ? (schemas[schema.$ref] ?? { type: "unknown" }) : schema;
+}
+
+/**
+ * Empty value of a schema, used in place of a wrong or missing value
+ */
+function emptyValue(schema: Schema): unknown {
+  if ("$ref" in schema) return {};
+
+  switch (schema.type) {
+    case "array":
+      return [];
+    case "object":
+      return {};
+    case "string":
+      return "";
+    case "number":
+      return 0;
+    case "boolean":
+      return false;
+    default:
+      return undefined;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function check(
+  value: unknown,
+  input: Schema,
+  schemas: Record<string, Schema>,
+  path: string,
+  issues: ValidationIssue[]
+): unknown {
+  const schema = resolve(input, schemas);
+  if ("$ref" in schema || schema.type === "unknown") return value;
+
+  const mismatch = () => {
+    issues.push({ path, kind: "type", message: `expected ${schema.type}, got ${typeOf(value)}` });
+    return emptyValue(schema);
+  };
+
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") return mismatch();
+      if (schema.enum && !schema.enum.includes(value)) {
+        issues.push({ path, kind: "type", message: `unexpected value "${value}"` });
+      }
+      return value;
+    case "number":
+    case "boolean":
+      return typeof value === schema.type ? value : mismatch();
+    case "array":
+      if (!Array.isArray(value)) return mismatch();
+      return value.map((item, index) => check(item, schema.items, schemas, `${path}[${index}]`, issues));
+    case "object": {
+      if (typeOf(value) !== "object") return mismatch();
+
+      const record = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+
+      for (const [key, item] of Object.entries(record)) {
+        const property = schema.properties?.[key] ?? schema.additionalProperties;
+        if (!property) {
+          if (schema.properties) {
+            issues.push({ path: `${path}.${key}`, kind: "unknown", message: "field is not in the spec" });
+          }
+          result[key] = item;
+        } else if (item === null || item === undefined) {
+          // AMS serializes unset optional fields as null: left out, so that they read as undefined
+          continue;
+        } else {
+          result[key] = check(item, property, schemas, `${path}.${key}`, issues);
+        }
+      }
+
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined || record[key] === null) {
+          issues.push({ path: `${path}.${key}`, kind: "missing", message: "required field is missing" });
+          result[key] = emptyValue(resolve(schema.properties?.[key] ?? { type: "unknown" }, schemas));
+        }
+      }
+
+      return result;
+    }
+  }
+}
+
+/**
+ * Check a response body against its schema
+ * @param value - Parsed response body
+ * @param schema - Response schema
+ * @param schemas - Component schemas referenced by $ref
+ * @returns Body with wrong values and missing required fields replaced by empty ones, null optional fields
+ *   removed, and the issues found
+ */
+export function validateSchema<T>(
+  value: unknown,
+  schema: Schema,
+  schemas: Record<string, Schema>
+): ValidationResult<T> {
+  const issues: ValidationIssue[] = [];
+  const checked = check(value, schema, schemas, "$", issues);
+  return { value: checked as T, issues };
+}
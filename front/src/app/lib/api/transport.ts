@@ -0,0 +1,65 @@
+/**
+ * Transport contract between the generated endpoint functions and the client
+ * that sends them (auth, timeouts, retries and errors live in the client)
+ */
+
+import type { RequestOptions } from "../retry";
+
+export type QueryValue = string | number | boolean | undefined | null;
+
+/**
+ * Request described by a generated endpoint function
+ */
+export interface ApiRequest {
+  /** OpenAPI operationId, e.g. getBroadcastList */
+  operationId: string;
+  method: "GET" | "POST" | "PUT" | "DELETE";
+  /** Path relative to the versioned REST base path, e.g. broadcasts/list/0/50 */
+  path: string;
+  query?: Record<string, QueryValue>;
+  /** JSON-serializable body or multipart FormData */
+  body?: unknown;
+}
+
+/**
+ * Send a request and resolve with the parsed response body
+ */
+export type ApiSend = <T>(request: ApiRequest, options?: RequestOptions) => Promise<T>;
+
+/**
+ * Append query parameters to a URL, skipping empty values
+ */
+export function appendQuery(url: URL, query?: Record<string, QueryValue>): URL {
+  for (const [name, value] of Object.entries(query ?? {})) {
+    if (value !== undefined && value !== null && value !== "") {
+      url.searchParams.append(name, String(value));
+    }
+  }
+  return url;
+}
+
+/**
+ * Human-readable name of an operation, used in error messages
+ * e.g. getBroadcastList -> "get broadcast list"
+ */
+export function describeOperation(operationId: string): string {
+  return operationId
+    .replace(/_\d+$/, "")
+    .replace(/V\d+$/, "")
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase();
+}
+
+/**
+ * Parse a response body: JSON when possible, text otherwise, undefined when empty
+ */
+export async function parseBody<T>(response: Response): Promise<T> {
+  const text = await response.text();
+  if (!text) return undefined as T;
+
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return text as T;
+  }
+}
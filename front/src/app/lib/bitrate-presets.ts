@@ -0,0 +1,62 @@
+/**
+ * Transcoding presets offered by the dashboard and the setup wizard
+ */
+
+export interface BitratePreset {
+  name: string;
+  height: number;
+  videoBitrate: number;
+  audioBitrate: number;
+  description: string;
+}
+
+// Predefined bitrate presets for popular streaming configurations
+export const BITRATE_PRESETS: BitratePreset[] = [
+  {
+    name: "360p Low",
+    height: 360,
+    videoBitrate: 800,
+    audioBitrate: 64,
+    description: "Mobile, slow connections",
+  },
+  {
+    name: "480p Standard",
+    height: 480,
+    videoBitrate: 1200,
+    audioBitrate: 96,
+    description: "Standard definition",
+  },
+  {
+    name: "720p HD",
+    height: 720,
+    videoBitrate: 2500,
+    audioBitrate: 128,
+    description: "High definition",
+  },
+  {
+    name: "1080p Full HD",
+    height: 1080,
+    videoBitrate: 5000,
+    audioBitrate: 192,
+    description: "Full high definition",
+  },
+  {
+    name: "1440p QHD",
+    height: 1440,
+    videoBitrate: 8000,
+    audioBitrate: 192,
+    description: "Quad high definition",
+  },
+  {
+    name: "2160p 4K",
+    height: 2160,
+    videoBitrate: 15000,
+    audioBitrate: 256,
+    description: "Ultra high definition",
+  },
+];
+
+/** Ladder applied to new applications by the setup wizard */
+export const STARTER_LADDER: BitratePreset[] = BITRATE_PRESETS.filter((preset) =>
+  [360, 720, 1080].includes(preset.height)
+);
@@ -0,0 +1,146 @@
+/**
+ * State of the dashboard's broadcasts table, kept in the page URL so that
+ * filtered views can be shared, and the list requests it maps to
+ */
+
+import { AntMediaClient, Broadcast, BroadcastListOptions } from "../client";
+import { RequestOptions } from "./retry";
+
+/** Broadcast listed in the table; every AMS broadcast has an id */
+export type Stream = Broadcast & { streamId: string };
+
+export type SortField = "name" | "date" | "status";
+export type SortOrder = "asc" | "desc";
+
+export interface BroadcastTableState {
+  /** Matches names and stream ids */
+  search: string;
+  /** Stream type, e.g. liveStream. Empty: every type */
+  type: string;
+  /** Broadcast status, e.g. broadcasting. Empty: every status */
+  status: string;
+  sort: SortField;
+  order: SortOrder;
+  /** Zero-based */
+  page: number;
+  pageSize: number;
+}
+
+export const DEFAULT_TABLE_STATE: BroadcastTableState = {
+  search: "",
+  type: "",
+  status: "",
+  sort: "date",
+  order: "desc",
+  page: 0,
+  pageSize: 25,
+};
+
+export const STREAM_TYPES = [
+  { value: "liveStream", label: "Live stream" },
+  { value: "ipCamera", label: "IP camera" },
+  { value: "streamSource", label: "Stream source" },
+  { value: "playlist", label: "Playlist" },
+];
+
+export const STREAM_STATUSES = ["broadcasting", "created", "preparing", "finished", "failed"];
+
+/** The list endpoints return at most 50 items */
+export const PAGE_SIZES = [10, 25, 50];
+
+/**
+ * One page of the table
+ */
+export interface BroadcastPage {
+  items: Stream[];
+  /** Matching broadcasts, or null when AMS cannot count them (type filter) */
+  total: number | null;
+  hasMore: boolean;
+}
+
+const pick = <T extends string>(value: string | null, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+/**
+ * Read the table state from URL search params; missing or invalid values take their default
+ */
+export function parseTableState(params: URLSearchParams): BroadcastTableState {
+  const page = Number(params.get("page"));
+  const pageSize = Number(params.get("size"));
+
+  return {
+    search: params.get("q") ?? DEFAULT_TABLE_STATE.search,
+    type: params.get("type") ?? DEFAULT_TABLE_STATE.type,
+    status: params.get("status") ?? DEFAULT_TABLE_STATE.status,
+    sort: pick(params.get("sort"), ["name", "date", "status"], DEFAULT_TABLE_STATE.sort),
+    order: pick(params.get("order"), ["asc", "desc"], DEFAULT_TABLE_STATE.order),
+    // 1-based in the URL
+    page: Number.isInteger(page) && page > 1 ? page - 1 : DEFAULT_TABLE_STATE.page,
+    pageSize: PAGE_SIZES.includes(pageSize) ? pageSize : DEFAULT_TABLE_STATE.pageSize,
+  };
+}
+
+/**
+ * URL query of a table state, without the default values
+ */
+export function tableStateQuery(state: BroadcastTableState): string {
+  const params = new URLSearchParams();
+  if (state.search) params.set("q", state.search);
+  if (state.type) params.set("type", state.type);
+  if (state.status) params.set("status", state.status);
+  if (state.sort !== DEFAULT_TABLE_STATE.sort) params.set("sort", state.sort);
+  if (state.order !== DEFAULT_TABLE_STATE.order) params.set("order", state.order);
+  if (state.page > 0) params.set("page", String(state.page + 1));
+  if (state.pageSize !== DEFAULT_TABLE_STATE.pageSize) params.set("size", String(state.pageSize));
+  return params.toString();
+}
+
+const isStream = (broadcast: Broadcast): broadcast is Stream => Boolean(broadcast.streamId);
+
+/**
+ * Fetch the page of broadcasts a table state shows
+ * Search, type, sorting and paging are done by AMS. AMS cannot filter by
+ * status, so with a status filter every matching broadcast is fetched and
+ * paged here instead
+ */
+export async function fetchBroadcastPage(
+  client: AntMediaClient,
+  state: BroadcastTableState,
+  requestOptions?: RequestOptions
+): Promise<BroadcastPage> {
+  const options: BroadcastListOptions = {
+    sort_by: state.sort,
+    order_by: state.order,
+    search: state.search || undefined,
+    type_by: state.type || undefined,
+  };
+  const offset = state.page * state.pageSize;
+
+  if (state.status) {
+    const matching = (await client.listAll("broadcasts", options, requestOptions)).filter(
+      (broadcast): broadcast is Stream => isStream(broadcast) && broadcast.status === state.status
+    );
+    return {
+      items: matching.slice(offset, offset + state.pageSize),
+      total: matching.length,
+      hasMore: offset + state.pageSize < matching.length,
+    };
+  }
+
+  const [items, count] = await Promise.all([
+    client.fetchBroadcasts(offset, state.pageSize, options, requestOptions),
+    // The count endpoints know nothing about types
+    state.type
+      ? null
+      : state.search
+        ? client.getBroadcastCountBySearch(state.search, requestOptions)
+        : client.getBroadcastCount(requestOptions),
+  ]);
+  const total = count ? (count.number ?? 0) : null;
+
+  return {
+    items: items.filter(isStream),
+    total,
+    hasMore: total === null ? items.length === state.pageSize : offset + state.pageSize < total,
+  };
+}
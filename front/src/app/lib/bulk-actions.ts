@@ -0,0 +1,133 @@
+/**
+ * One action applied to several broadcasts, with a per-stream report
+ * A failing stream does not stop the others
+ */
+
+import { AntMediaClient, Broadcast } from "../client";
+import { mapWithConcurrency } from "./pagination";
+import { isRecording, RECORD_FORMATS } from "./recording";
+
+export type BulkAction = "delete" | "stop" | "startRecording" | "stopRecording" | "export";
+
+export const BULK_ACTIONS: { id: BulkAction; label: string; destructive?: boolean }[] = [
+  { id: "stop", label: "Stop" },
+  { id: "startRecording", label: "Start recording" },
+  { id: "stopRecording", label: "Stop recording" },
+  { id: "export", label: "Export" },
+  { id: "delete", label: "Delete", destructive: true },
+];
+
+/** Requests in flight at once */
+const BULK_CONCURRENCY = 4;
+
+export interface BulkFailure {
+  streamId: string;
+  message: string;
+}
+
+export interface BulkReport {
+  action: BulkAction;
+  succeeded: string[];
+  failed: BulkFailure[];
+  /** Broadcasts read by "export", in selection order */
+  exported: Broadcast[];
+}
+
+interface Outcome {
+  streamId: string;
+  broadcast?: Broadcast;
+  /** Set when the action failed */
+  error?: string;
+}
+
+/**
+ * Throw the AMS message of an unsuccessful result
+ */
+function check(result: { success?: boolean; message?: string }, fallback: string) {
+  if (!result.success) throw new Error(result.message || fallback);
+}
+
+async function apply(
+  client: AntMediaClient,
+  action: BulkAction,
+  streamId: string,
+  signal?: AbortSignal
+): Promise<Broadcast | void> {
+  const requestOptions = { signal };
+
+  switch (action) {
+    case "delete":
+      return check(await client.deleteBroadcast(streamId, false, requestOptions), "Delete failed");
+    case "stop":
+      return check(await client.stopBroadcast(streamId, false, requestOptions), "Stop failed");
+    case "startRecording":
+      return check(
+        await client.setStreamRecording(streamId, true, "mp4", undefined, undefined, requestOptions),
+        "Recording change failed"
+      );
+    case "stopRecording": {
+      // Stop each format the stream records; without a per-stream setting, AMS records MP4 per the application
+      const broadcast = await client.getBroadcast(streamId, requestOptions);
+      const formats = RECORD_FORMATS.map(({ format }) => format).filter((format) => isRecording(broadcast, format));
+
+      for (const format of formats.length > 0 ? formats : ["mp4"]) {
+        check(
+          await client.setStreamRecording(streamId, false, format, undefined, undefined, requestOptions),
+          "Recording change failed"
+        );
+      }
+      return;
+    }
+    case "export":
+      return client.getBroadcast(streamId, requestOptions);
+  }
+}
+
+/**
+ * Apply an action to every stream, a few at a time
+ * @param onProgress - (Optional) Called after each stream with the number done so far
+ * @param signal - (Optional) Stops sending requests; streams not yet sent are reported as failed
+ */
+export async function runBulkAction(
+  client: AntMediaClient,
+  action: BulkAction,
+  streamIds: string[],
+  onProgress?: (done: number) => void,
+  signal?: AbortSignal
+): Promise<BulkReport> {
+  let done = 0;
+
+  const outcomes = await mapWithConcurrency(streamIds, BULK_CONCURRENCY, async (streamId): Promise<Outcome> => {
+    try {
+      if (signal?.aborted) throw new Error("Cancelled");
+      return { streamId, broadcast: (await apply(client, action, streamId, signal)) || undefined };
+    } catch (error) {
+      return { streamId, error: error instanceof Error ? error.message : String(error) };
+    } finally {
+      onProgress?.(++done);
+    }
+  });
+
+  return {
+    action,
+    succeeded: outcomes.filter((outcome) => outcome.error === undefined).map((outcome) => outcome.streamId),
+    failed: outcomes.flatMap((outcome) =>
+      outcome.error === undefined ? [] : [{ streamId: outcome.streamId, message: outcome.error }]
+    ),
+    exported: outcomes.flatMap((outcome) => (outcome.broadcast ? [outcome.broadcast] : [])),
+  };
+}
+
+/**
+ * Save broadcasts as a JSON file through the browser
+ */
+export function downloadBroadcasts(broadcasts: Broadcast[], fileName: string) {
+  const blob = new Blob([JSON.stringify(broadcasts, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoked later: some browsers cancel a download whose URL is revoked right after the click
+  setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+}
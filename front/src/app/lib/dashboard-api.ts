@@ -0,0 +1,66 @@
+/**
+ * Requests to the dashboard's own /api routes that are not Ant Media
+ * endpoints (e.g. uploads, thumbnails, import jobs), with the same typed errors
+ * as AntMediaClient
+ */
+
+import { createResponseError, NetworkError } from "./errors";
+import { isAbortError } from "./retry";
+
+/**
+ * Connection profile and application a request targets, sent as the X-AMS-Profile and X-AMS-App headers
+ */
+export interface DashboardTarget {
+  profileId?: string;
+  appName: string;
+}
+
+/**
+ * Send a request to a dashboard route
+ * @param url - Route, e.g. /api/vod-imports
+ * @param init - Requests are not cached unless init.cache says otherwise
+ * @param fallbackMessage - Error message when the response has none
+ * @throws AntMediaError subclass matching the failure
+ */
+export async function dashboardFetch(
+  url: string,
+  target: DashboardTarget,
+  init: RequestInit = {},
+  fallbackMessage = "Request failed"
+): Promise<Response> {
+  const method = init.method || "GET";
+  const headers = new Headers(init.headers);
+  headers.set("X-AMS-App", target.appName);
+  if (target.profileId) headers.set("X-AMS-Profile", target.profileId);
+  if (typeof init.body === "string") headers.set("Content-Type", "application/json");
+
+  let response: Response;
+  try {
+    response = await fetch(url, { cache: "no-store", ...init, headers });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new NetworkError(`${fallbackMessage}: ${error instanceof Error ? error.message : error}`, {
+      endpoint: url,
+      method,
+      cause: error,
+    });
+  }
+
+  if (!response.ok) {
+    throw await createResponseError(response, { endpoint: url, method }, fallbackMessage);
+  }
+  return response;
+}
+
+/**
+ * Send a request to a dashboard route and parse its JSON response
+ * @throws AntMediaError subclass matching the failure
+ */
+export async function dashboardRequest<T>(
+  url: string,
+  target: DashboardTarget,
+  init?: RequestInit,
+  fallbackMessage?: string
+): Promise<T> {
+  return (await dashboardFetch(url, target, init, fallbackMessage)).json();
+}
@@ -0,0 +1,151 @@
+/**
+ * Typed errors for Ant Media Server REST failures
+ * Lets callers branch on the kind of failure instead of matching message text
+ */
+
+import type { ValidationIssue } from "./api/schema";
+
+/**
+ * Result body returned by most Ant Media endpoints
+ */
+export interface AmsResult {
+  success?: boolean;
+  message?: string;
+  dataId?: string;
+  errorId?: number;
+  [key: string]: unknown;
+}
+
+export interface AntMediaErrorDetails {
+  /** HTTP status code. Undefined when no response was received */
+  status?: number;
+  /** Request URL */
+  endpoint: string;
+  /** HTTP method */
+  method: string;
+  /** Parsed AMS {success, message} body, if the response had one */
+  body?: AmsResult;
+  /** Client-generated request id, or the X-Request-Id returned by the server */
+  requestId?: string;
+  /** Underlying error, e.g. the fetch TypeError */
+  cause?: unknown;
+}
+
+/**
+ * Base class of all Ant Media REST errors
+ */
+export class AntMediaError extends Error {
+  public readonly status?: number;
+  public readonly endpoint: string;
+  public readonly method: string;
+  public readonly body?: AmsResult;
+  public readonly requestId?: string;
+
+  constructor(message: string, details: AntMediaErrorDetails) {
+    super(message, { cause: details.cause });
+    this.name = new.target.name;
+    this.status = details.status;
+    this.endpoint = details.endpoint;
+    this.method = details.method;
+    this.body = details.body;
+    this.requestId = details.requestId;
+  }
+}
+
+/**
+ * 401/403: missing, expired or rejected credentials
+ */
+export class AuthError extends AntMediaError {}
+
+/**
+ * 404: the broadcast, VOD or application does not exist
+ */
+export class NotFoundError extends AntMediaError {}
+
+/**
+ * 409: the resource already exists or was changed concurrently
+ */
+export class ConflictError extends AntMediaError {}
+
+/**
+ * 429/503 or highResourceUsage: the server is overloaded, retry later
+ */
+export class ServerBusyError extends AntMediaError {}
+
+/**
+ * The request never got a response (server down, DNS, CORS, aborted)
+ */
+export class NetworkError extends AntMediaError {}
+
+/**
+ * The request was aborted because it exceeded its timeout
+ */
+export class TimeoutError extends NetworkError {}
+
+/**
+ * The response body does not match the OpenAPI schema (strict validation only)
+ */
+export class ResponseValidationError extends AntMediaError {
+  public readonly issues: ValidationIssue[];
+
+  constructor(message: string, details: AntMediaErrorDetails & { issues: ValidationIssue[] }) {
+    super(message, details);
+    this.issues = details.issues;
+  }
+}
+
+/**
+ * Parse the AMS result body, if any
+ */
+async function readResultBody(response: Response): Promise<AmsResult | undefined> {
+  try {
+    const text = await response.text();
+    if (!text) return undefined;
+
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === "object" ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Build a typed error from a failed response
+ * @param response - Non-ok fetch response
+ * @param details - Request endpoint, method and request id
+ * @param fallbackMessage - Message used when the body has none, e.g. "Failed to get broadcast"
+ * @returns Error instance matching the failure
+ */
+export async function createResponseError(
+  response: Response,
+  details: Omit<AntMediaErrorDetails, "status" | "body">,
+  fallbackMessage: string
+): Promise<AntMediaError> {
+  const body = await readResultBody(response);
+  const message = body?.message || `${fallbackMessage} (HTTP ${response.status})`;
+  const errorDetails: AntMediaErrorDetails = {
+    ...details,
+    status: response.status,
+    body,
+    requestId: response.headers.get("X-Request-Id") || details.requestId,
+  };
+
+  if (response.status === 401 || response.status === 403) {
+    return new AuthError(message, errorDetails);
+  }
+  if (response.status === 404) {
+    return new NotFoundError(message, errorDetails);
+  }
+  if (response.status === 409) {
+    return new ConflictError(message, errorDetails);
+  }
+  if (
+    response.status === 429 ||
+    response.status === 503 ||
+    body?.message?.includes("highResourceUsage")
+  ) {
+    return new ServerBusyError(message, errorDetails);
+  }
+
+  return new AntMediaError(message, errorDetails);
+}
@@ -0,0 +1,176 @@
+/**
+ * JWT utilities for Ant Media Server
+ * Mints HS256 tokens for JWT-protected REST endpoints and keeps them fresh
+ */
+
+export interface JwtClaims {
+  exp?: number;
+  iat?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Source of a JWT token. Returns undefined when no token is available
+ * (e.g. JWT control is disabled on the server)
+ */
+export type JwtTokenProvider = () => Promise<string | undefined>;
+
+const encoder = new TextEncoder();
+
+/**
+ * Base64url encode bytes or a string
+ */
+function base64UrlEncode(input: Uint8Array | string): string {
+  const bytes = typeof input === "string" ? encoder.encode(input) : input;
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Base64url decode into bytes
+ */
+function base64UrlDecodeBytes(input: string): Uint8Array<ArrayBuffer> {
+  const base64 = input.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Base64url decode into a string
+ */
+function base64UrlDecode(input: string): string {
+  return new TextDecoder().decode(base64UrlDecodeBytes(input));
+}
+
+function importHmacKey(secret: string, usage: "sign" | "verify"): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    [usage]
+  );
+}
+
+/**
+ * Sign a JWT with HS256, as expected by Ant Media's JWT filters
+ * (server.jwtServerSecretKey / app jwtSecretKey)
+ */
+export async function signJwt(
+  secret: string,
+  claims: JwtClaims = {},
+  expiresInSeconds: number = 300
+): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64UrlEncode(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = base64UrlEncode(
+    JSON.stringify({ iat: now, exp: now + expiresInSeconds, ...claims })
+  );
+
+  const key = await importHmacKey(secret, "sign");
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${header}.${payload}`));
+
+  return `${header}.${payload}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Decode JWT claims without verifying the signature
+ */
+export function decodeJwt(token: string): JwtClaims | null {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+
+  try {
+    return JSON.parse(base64UrlDecode(parts[1]));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify an HS256 token's signature and expiry
+ * @returns Claims, or null if the token is malformed, forged or expired
+ */
+export async function verifyJwt(secret: string, token: string): Promise<JwtClaims | null> {
+  const [header, payload, signature] = token.split(".");
+  if (!header || !payload || !signature) return null;
+
+  try {
+    const key = await importHmacKey(secret, "verify");
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      key,
+      base64UrlDecodeBytes(signature),
+      encoder.encode(`${header}.${payload}`)
+    );
+    if (!valid || isJwtExpired(token, 0)) return null;
+
+    return decodeJwt(token);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether a token is expired or will expire within skewSeconds
+ */
+export function isJwtExpired(token: string, skewSeconds: number = 30): boolean {
+  const claims = decodeJwt(token);
+  if (!claims || typeof claims.exp !== "number") return false;
+
+  return claims.exp - skewSeconds <= Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Caches a JWT from a provider and refreshes it before it expires or
+ * after the server rejects it
+ */
+export class JwtTokenManager {
+  private token: string | undefined;
+  private pending: Promise<string | undefined> | null = null;
+
+  constructor(
+    private readonly provider: JwtTokenProvider,
+    private readonly refreshSkewSeconds: number = 30
+  ) {}
+
+  /**
+   * Get a valid token, refreshing it if missing or about to expire
+   */
+  public async getToken(): Promise<string | undefined> {
+    if (this.token && !isJwtExpired(this.token, this.refreshSkewSeconds)) {
+      return this.token;
+    }
+
+    return this.refresh();
+  }
+
+  /**
+   * Fetch a new token from the provider. Concurrent callers share one request
+   */
+  public async refresh(): Promise<string | undefined> {
+    if (!this.pending) {
+      this.pending = this.provider()
+        .then((token) => {
+          this.token = token;
+          return token;
+        })
+        .finally(() => {
+          this.pending = null;
+        });
+    }
+
+    return this.pending;
+  }
+
+  /**
+   * Drop the cached token, e.g. after a 401 response
+   */
+  public invalidate() {
+    this.token = undefined;
+  }
+}
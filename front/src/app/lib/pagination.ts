@@ -0,0 +1,88 @@
+/**
+ * Pagination helpers for Ant Media list endpoints, which return at most 50
+ * items per request
+ */
+
+/** Largest page size accepted by the list endpoints */
+export const MAX_PAGE_SIZE = 50;
+
+/**
+ * Fetch one page of a list endpoint
+ */
+export type PageFetcher<T> = (offset: number, size: number) => Promise<T[]>;
+
+/**
+ * Yield every item of a paged list, one page at a time
+ * @param fetchPage - Page fetcher
+ * @param total - Total item count, used as an upper bound
+ * @param pageSize - Items per page (max 50)
+ */
+export async function* paginate<T>(
+  fetchPage: PageFetcher<T>,
+  total: number,
+  pageSize: number = MAX_PAGE_SIZE
+): AsyncGenerator<T, void, undefined> {
+  const size = Math.min(Math.max(1, pageSize), MAX_PAGE_SIZE);
+
+  for (let offset = 0; offset < total; offset += size) {
+    const page = await fetchPage(offset, size);
+    yield* page;
+
+    // Filtered lists can be shorter than the total count
+    if (page.length < size) return;
+  }
+}
+
+/**
+ * Run an async function over items with at most `limit` calls in flight
+ * @param items - Input items
+ * @param limit - Maximum concurrent calls
+ * @param fn - Function applied to every item
+ * @returns Results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker);
+  await Promise.all(workers);
+
+  return results;
+}
+
+/**
+ * Fetch every page of a list, several pages at a time
+ * @param fetchPage - Page fetcher
+ * @param total - Total item count
+ * @param options.pageSize - Items per page (max 50)
+ * @param options.concurrency - Maximum pages fetched in parallel. Default: 4
+ * @returns All items in list order
+ */
+export async function fetchAllPages<T>(
+  fetchPage: PageFetcher<T>,
+  total: number,
+  options: { pageSize?: number; concurrency?: number } = {}
+): Promise<T[]> {
+  const size = Math.min(Math.max(1, options.pageSize ?? MAX_PAGE_SIZE), MAX_PAGE_SIZE);
+  const offsets: number[] = [];
+  for (let offset = 0; offset < total; offset += size) {
+    offsets.push(offset);
+  }
+
+  const pages = await mapWithConcurrency(offsets, options.concurrency ?? 4, (offset) =>
+    fetchPage(offset, size)
+  );
+
+  return pages.flat();
+}
@@ -0,0 +1,77 @@
+/**
+ * Named connection profiles: which Ant Media Server and application the
+ * dashboard works against, and how the /api routes authenticate to it
+ */
+
+/**
+ * How the /api routes authenticate to AMS
+ * - "none": no credentials (AMS only filters by IP)
+ * - "jwt": short-lived JWTs signed with the server's jwtServerSecretKey
+ * - "credentials": an AMS account, for the management API
+ */
+export type AuthMethod = "none" | "jwt" | "credentials";
+
+/**
+ * Profile as seen by the browser. Secrets never leave the server
+ */
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  /** Base server URL, e.g. http://localhost:5080 */
+  serverUrl: string;
+  /** Application name, e.g. LiveApp */
+  appName: string;
+  auth: AuthMethod;
+  /** AMS account of "credentials" profiles */
+  adminEmail?: string;
+  /** Whether the JWT secret or account password is stored */
+  hasSecret: boolean;
+  /** WebSocket protocol override. Default: wss for https servers, ws otherwise */
+  wsProtocol?: "ws" | "wss";
+}
+
+/**
+ * Profile fields sent by the browser to create or update a profile
+ */
+export interface ProfileInput extends Omit<ConnectionProfile, "id" | "hasSecret"> {
+  /** Set to update an existing profile */
+  id?: string;
+  /** JWT secret or account password. Empty keeps the stored one */
+  secret?: string;
+}
+
+/** Profile built from the environment, used until another one is chosen */
+export const DEFAULT_PROFILE_ID = "default";
+
+/**
+ * Check profile fields
+ * @returns Problems found, empty if the input is valid
+ */
+export function validateProfile(input: ProfileInput): string[] {
+  const problems: string[] = [];
+
+  if (!input.name?.trim()) {
+    problems.push("Name is required");
+  }
+  try {
+    if (!/^https?:$/.test(new URL(input.serverUrl).protocol)) {
+      problems.push("Server URL must start with http:// or https://");
+    }
+  } catch {
+    problems.push("Server URL is not a valid URL");
+  }
+  if (!/^[\w-]+$/.test(input.appName ?? "")) {
+    problems.push("Application name can only contain letters, digits, - and _");
+  }
+  if (!["none", "jwt", "credentials"].includes(input.auth)) {
+    problems.push("Unknown auth method");
+  }
+  if (input.auth === "credentials" && !input.adminEmail) {
+    problems.push("Account email is required");
+  }
+  if (input.wsProtocol && !["ws", "wss"].includes(input.wsProtocol)) {
+    problems.push("WebSocket protocol must be ws or wss");
+  }
+
+  return problems;
+}
@@ -0,0 +1,178 @@
+/**
+ * Per-stream recording: formats, file name templates and the start time of
+ * recordings started from this browser
+ * AMS only reports whether a format is being recorded (mp4Enabled,
+ * webMEnabled), not since when nor under which name, so both are kept in
+ * localStorage when the recording is started
+ */
+
+import { Broadcast } from "../client";
+
+/**
+ * Fields of a broadcast the recording helpers read
+ */
+export type RecordedStream = Pick<Broadcast, "streamId" | "name" | "mp4Enabled" | "webMEnabled" | "startTime"> & {
+  status?: string;
+};
+
+export type RecordFormat = "mp4" | "webm";
+
+export const RECORD_FORMATS: { format: RecordFormat; label: string }[] = [
+  { format: "mp4", label: "MP4 (H.264)" },
+  { format: "webm", label: "WebM (VP8)" },
+];
+
+export const DEFAULT_FILE_NAME_TEMPLATE = "{streamName}-{date}";
+
+/**
+ * Placeholders of file name templates, with what they stand for
+ */
+export const FILE_NAME_PLACEHOLDERS: Record<string, string> = {
+  streamId: "Stream id",
+  streamName: "Stream name",
+  date: "Start date, e.g. 2024-05-31",
+  time: "Start time, e.g. 14-05-09",
+  height: "Recorded height, e.g. 720p, or source",
+};
+
+/** Longest file name AMS accepts comfortably on every file system */
+const MAX_FILE_NAME_LENGTH = 200;
+
+/** localStorage key prefix of the recordings started from this browser */
+const STORAGE_PREFIX = "ams.recording:";
+
+/** localStorage key of the last file name template used */
+const TEMPLATE_KEY = "ams.recording-template";
+
+/**
+ * Recording started from this browser
+ */
+export interface RecordingSession {
+  format: RecordFormat;
+  /** Encoder ladder rung recorded; the source stream when undefined */
+  resolutionHeight?: number;
+  fileName?: string;
+  startedAt: number;
+}
+
+/**
+ * Whether AMS records the format for the stream
+ */
+export function isRecording(broadcast: RecordedStream, format: RecordFormat): boolean {
+  return (format === "mp4" ? broadcast.mp4Enabled : broadcast.webMEnabled) === 1;
+}
+
+/**
+ * Check a file name template
+ * @returns Reason the template is rejected, or null when it is valid
+ */
+export function validateFileNameTemplate(template: string): string | null {
+  const unknown = [...template.matchAll(/\{(\w*)\}/g)]
+    .map((match) => match[1])
+    .filter((name) => !(name in FILE_NAME_PLACEHOLDERS));
+  if (unknown.length > 0) {
+    return `Unknown placeholder: ${unknown.map((name) => `{${name}}`).join(", ")}`;
+  }
+  if (/[{}]/.test(template.replace(/\{\w+\}/g, ""))) {
+    return "Unbalanced braces";
+  }
+  return null;
+}
+
+/**
+ * Date and time parts of an instant in a time zone, as 2-digit strings
+ * @param timeZone - IANA time zone. Default: the local one
+ */
+function dateParts(now: Date, timeZone?: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(now);
+  const value = (type: string) => parts.find((part) => part.type === type)?.value ?? "";
+
+  return {
+    date: `${value("year")}-${value("month")}-${value("day")}`,
+    time: `${value("hour")}-${value("minute")}-${value("second")}`,
+  };
+}
+
+/**
+ * File name of a recording, without extension
+ * Characters that are not safe in file names become underscores
+ * @param timeZone - IANA time zone of {date} and {time}, e.g. that of a schedule. Default: the local one
+ * @returns undefined for an empty template, so that AMS picks the name
+ */
+export function expandFileName(
+  template: string,
+  broadcast: RecordedStream,
+  resolutionHeight: number | undefined,
+  now = new Date(),
+  timeZone?: string
+): string | undefined {
+  const values: Record<string, string> = {
+    streamId: broadcast.streamId ?? "",
+    streamName: broadcast.name || broadcast.streamId || "",
+    ...dateParts(now, timeZone),
+    height: resolutionHeight ? `${resolutionHeight}p` : "source",
+  };
+
+  const name = template
+    .replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key] ?? placeholder)
+    .replace(/[^\w.-]+/g, "_")
+    .replace(/^[._]+|[._]+$/g, "")
+    .slice(0, MAX_FILE_NAME_LENGTH);
+
+  return name || undefined;
+}
+
+/**
+ * File name template last used in this browser
+ */
+export function loadFileNameTemplate(): string {
+  return localStorage.getItem(TEMPLATE_KEY) ?? DEFAULT_FILE_NAME_TEMPLATE;
+}
+
+export function saveFileNameTemplate(template: string) {
+  localStorage.setItem(TEMPLATE_KEY, template);
+}
+
+const storageKey = (scope: string, streamId: string, format: RecordFormat) =>
+  `${STORAGE_PREFIX}${scope}/${streamId}/${format}`;
+
+/**
+ * Recording of the format started from this browser
+ * @param scope - See statsScope
+ */
+export function loadRecordingSession(scope: string, streamId: string, format: RecordFormat): RecordingSession | null {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(scope, streamId, format)) ?? "null");
+  } catch {
+    return null;
+  }
+}
+
+export function saveRecordingSession(scope: string, streamId: string, session: RecordingSession) {
+  localStorage.setItem(storageKey(scope, streamId, session.format), JSON.stringify(session));
+}
+
+export function clearRecordingSession(scope: string, streamId: string, format: RecordFormat) {
+  localStorage.removeItem(storageKey(scope, streamId, format));
+}
+
+/**
+ * Since when a recording started from this browser has been written to a file
+ * A recording enabled before the stream went live starts with the stream.
+ * Recordings started by a schedule, another browser or AMS itself have no
+ * known start, so this is not the start of every recording
+ * @returns null when the stream is not live or the recording was not started here
+ */
+export function recordingSince(broadcast: RecordedStream, session: RecordingSession | null): number | null {
+  if (broadcast.status !== "broadcasting" || !session) return null;
+  return Math.max(session.startedAt, broadcast.startTime ?? 0);
+}
@@ -0,0 +1,40 @@
+/**
+ * Resource limits of Ant Media Server. Above the CPU or memory limit AMS
+ * rejects new publishers and players with highResourceUsage
+ */
+
+/**
+ * Limits in percent
+ * - cpu: server.cpu_limit (AMS default 75). Override with NEXT_PUBLIC_AMS_CPU_LIMIT
+ * - memory: server.memory_limit_percentage of system memory (AMS default 75). Override with NEXT_PUBLIC_AMS_MEMORY_LIMIT
+ * - jvm, disk: not enforced by AMS; the dashboard warns before the heap or the disk is full
+ */
+export const RESOURCE_LIMITS = {
+  cpu: Number(process.env.NEXT_PUBLIC_AMS_CPU_LIMIT) || 75,
+  memory: Number(process.env.NEXT_PUBLIC_AMS_MEMORY_LIMIT) || 75,
+  jvm: 90,
+  disk: 90,
+};
+
+/** Percentage points below a limit from which usage is shown as a warning */
+export const WARNING_MARGIN = 10;
+
+export type ResourceLevel = "ok" | "warning" | "critical";
+
+/**
+ * Classify a usage against its limit
+ * @param percent - Usage in percent
+ * @param limit - Limit in percent
+ */
+export function resourceLevel(percent: number, limit: number): ResourceLevel {
+  if (percent >= limit) return "critical";
+  if (percent >= limit - WARNING_MARGIN) return "warning";
+  return "ok";
+}
+
+/**
+ * Usage of a total in percent, 0 when the total is unknown
+ */
+export function percentOf(used: number | undefined, total: number | undefined): number {
+  return used && total ? Math.round((used / total) * 1000) / 10 : 0;
+}
@@ -0,0 +1,128 @@
+/**
+ * Timeout, cancellation and retry helpers for Ant Media REST calls
+ */
+
+/**
+ * Retry policy with jittered exponential backoff
+ */
+export interface RetryPolicy {
+  /** Number of retries after the first attempt */
+  retries: number;
+  /** Delay cap of the first retry in ms; doubles on every retry */
+  baseDelayMs: number;
+  /** Upper bound of a single delay in ms */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  baseDelayMs: 300,
+  maxDelayMs: 5000,
+};
+
+export const NO_RETRY: RetryPolicy = {
+  retries: 0,
+  baseDelayMs: 0,
+  maxDelayMs: 0,
+};
+
+/**
+ * Per-call request options
+ */
+export interface RequestOptions {
+  /** Abort signal; aborting rejects the call with an AbortError */
+  signal?: AbortSignal;
+  /** Timeout in ms. Overrides the client default, 0 disables it */
+  timeoutMs?: number;
+  /** Retry policy. Overrides the client default; only GETs are retried */
+  retry?: RetryPolicy;
+}
+
+/**
+ * Compute the delay before a retry ("full jitter": random between 0 and the
+ * exponential cap) so that many clients don't retry in lockstep
+ * @param policy - Retry policy
+ * @param attempt - Zero-based retry number
+ * @returns Delay in ms
+ */
+export function computeBackoffDelay(policy: RetryPolicy, attempt: number): number {
+  const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.floor(Math.random() * cap);
+}
+
+/**
+ * Wait for ms, rejecting early if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Abort signal that fires when the caller's signal aborts or the timeout elapses
+ */
+export interface TimeoutSignal {
+  signal: AbortSignal;
+  /** Whether the timeout (rather than the caller) aborted the request */
+  timedOut: () => boolean;
+  /** Clear the timer and listeners once the request has settled */
+  cleanup: () => void;
+}
+
+/**
+ * Combine an optional caller signal with a timeout
+ * @param signal - (Optional) Caller's abort signal
+ * @param timeoutMs - (Optional) Timeout in ms; 0 or undefined disables it
+ */
+export function createTimeoutSignal(signal?: AbortSignal, timeoutMs?: number): TimeoutSignal {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const onAbort = () => controller.abort(signal?.reason);
+
+  if (signal?.aborted) {
+    controller.abort(signal.reason);
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  if (timeoutMs && timeoutMs > 0) {
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort(new DOMException(`Request timed out after ${timeoutMs} ms`, "TimeoutError"));
+    }, timeoutMs);
+  }
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    cleanup: () => {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    },
+  };
+}
+
+/**
+ * Whether an error comes from an aborted request
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
@@ -0,0 +1,266 @@
+/**
+ * Scheduled stream actions: create a stream, start or stop its recording,
+ * delete it, once or on a daily or weekly rule
+ * Schedules are executed by the dashboard server (see
+ * lib/server/scheduler.ts), so no browser needs to stay open. Times follow
+ * the wall clock of the time zone the schedule was planned in, also across
+ * daylight saving changes
+ */
+
+import { dashboardRequest, DashboardTarget } from "./dashboard-api";
+import { RecordFormat, validateFileNameTemplate } from "./recording";
+
+export type ScheduleAction = "createBroadcast" | "startRecording" | "stopRecording" | "deleteBroadcast";
+
+export const SCHEDULE_ACTIONS: Record<ScheduleAction, string> = {
+  createBroadcast: "Create stream",
+  startRecording: "Start recording",
+  stopRecording: "Stop recording",
+  deleteBroadcast: "Delete stream",
+};
+
+export type Frequency = "once" | "daily" | "weekly";
+
+export const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * When a schedule repeats
+ */
+export interface Recurrence {
+  frequency: Frequency;
+  /** Days of the week of a weekly schedule, 0 = Sunday */
+  weekdays: number[];
+  /** No run after this time */
+  until?: number;
+}
+
+/**
+ * Fields of a schedule set by the user
+ */
+export interface ScheduleInput {
+  name: string;
+  action: ScheduleAction;
+  /** Stream the action applies to; optional when creating a stream, AMS then picks the id */
+  streamId?: string;
+  /** Name of the created stream */
+  streamName?: string;
+  recordType?: RecordFormat;
+  /** Encoder ladder rung to record; the source stream when undefined */
+  resolutionHeight?: number;
+  /** File name template of the recording, see lib/recording.ts */
+  fileNameTemplate?: string;
+  /** First run */
+  startAt: number;
+  /** IANA time zone the schedule was planned in, e.g. Europe/Berlin */
+  timeZone: string;
+  recurrence: Recurrence;
+  enabled: boolean;
+}
+
+export type RunStatus = "success" | "failed" | "missed";
+
+/**
+ * One execution of a schedule
+ */
+export interface ScheduleRun {
+  scheduledAt: number;
+  ranAt: number;
+  status: RunStatus;
+  /** AMS message, or the reason of the failure */
+  message?: string;
+}
+
+export interface Schedule extends ScheduleInput {
+  id: string;
+  app: string;
+  /** Email of the user who created it */
+  createdBy: string;
+  createdAt: number;
+  /** Next run, or null when the schedule has ended */
+  nextRunAt: number | null;
+  /** Latest runs, newest first */
+  runs: ScheduleRun[];
+}
+
+/**
+ * Fields that decide when a schedule runs
+ */
+export type ScheduleTiming = Pick<ScheduleInput, "startAt" | "timeZone" | "recurrence">;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Wall clock date and time of an instant in a time zone
+ */
+function zonedParts(time: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+  }).formatToParts(new Date(time));
+  const value = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+
+  return { year: value("year"), month: value("month") - 1, day: value("day"), hour: value("hour"), minute: value("minute") };
+}
+
+/**
+ * Instant of a wall clock time in a time zone
+ * A time skipped by a daylight saving change falls an hour later
+ */
+function zonedTime(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): number {
+  const local = Date.UTC(year, month, day, hour, minute);
+  const offset = (time: number) => {
+    const parts = zonedParts(time, timeZone);
+    return Date.UTC(parts.year, parts.month, parts.day, parts.hour, parts.minute) - Math.floor(time / 60000) * 60000;
+  };
+
+  const guess = local - offset(local);
+  return local - offset(guess);
+}
+
+/**
+ * Runs of a schedule in [from, to), at most limit of them
+ */
+export function occurrencesBetween(timing: ScheduleTiming, from: number, to: number, limit = 1000): number[] {
+  const { startAt, timeZone, recurrence } = timing;
+  const end = Math.min(to, recurrence.until ?? Infinity);
+
+  if (recurrence.frequency === "once") {
+    return startAt >= from && startAt < to ? [startAt] : [];
+  }
+  if (recurrence.frequency === "weekly" && recurrence.weekdays.length === 0) {
+    return [];
+  }
+
+  const start = zonedParts(startAt, timeZone);
+  const startDay = Date.UTC(start.year, start.month, start.day);
+  // Wall clock times are in minutes; keep the seconds of the first run
+  const seconds = startAt % 60000;
+  const times: number[] = [];
+
+  // Begin a day early: the wall clock day and the UTC day can differ
+  for (let index = Math.max(0, Math.floor((from - startAt) / DAY_MS) - 1); times.length < limit; index++) {
+    const day = new Date(startDay + index * DAY_MS);
+    const time = zonedTime(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), start.hour, start.minute, timeZone) + seconds;
+    if (time >= end) break;
+
+    const weekday = day.getUTCDay();
+    if (recurrence.frequency === "weekly" && !recurrence.weekdays.includes(weekday)) continue;
+    if (time >= from && time >= startAt) times.push(time);
+  }
+  return times;
+}
+
+/**
+ * First run of a schedule after a time
+ * @returns null when the schedule has no run left
+ */
+export function nextOccurrence(timing: ScheduleTiming, after: number): number | null {
+  return occurrencesBetween(timing, after + 1, Infinity, 1)[0] ?? null;
+}
+
+/**
+ * Recurrence in words, e.g. "Every week on Mon, Wed until 6/30/2024"
+ */
+export function describeRecurrence({ frequency, weekdays, until }: Recurrence): string {
+  const rule =
+    frequency === "once"
+      ? "Once"
+      : frequency === "daily"
+        ? "Every day"
+        : `Every week on ${[...weekdays].sort().map((day) => WEEKDAYS[day]).join(", ")}`;
+
+  return until && frequency !== "once" ? `${rule} until ${new Date(until).toLocaleDateString()}` : rule;
+}
+
+/**
+ * Check a schedule before saving it
+ * @returns Reason the schedule is rejected, or null when it is valid
+ */
+export function validateSchedule(input: ScheduleInput): string | null {
+  const { action, streamId, recurrence } = input;
+
+  if (!input.name?.trim()) {
+    return "Enter a name";
+  }
+  if (!(action in SCHEDULE_ACTIONS)) {
+    return "Choose an action";
+  }
+  if (action === "createBroadcast" && !input.streamName?.trim()) {
+    return "Enter the name of the stream to create";
+  }
+  if (action !== "createBroadcast" && !streamId) {
+    return "Choose a stream";
+  }
+  if (streamId && !/^[\w-]+$/.test(streamId)) {
+    return "Stream ids may only contain letters, digits, _ and -";
+  }
+  if (action === "startRecording" || action === "stopRecording") {
+    if (input.recordType !== "mp4" && input.recordType !== "webm") {
+      return "Choose a recording format";
+    }
+    const invalid = validateFileNameTemplate(input.fileNameTemplate ?? "");
+    if (invalid) return invalid;
+  }
+  if (!Number.isFinite(input.startAt)) {
+    return "Choose a date and time";
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: input.timeZone });
+  } catch {
+    return `Unknown time zone ${input.timeZone}`;
+  }
+  if (!recurrence || !["once", "daily", "weekly"].includes(recurrence.frequency)) {
+    return "Choose how often the schedule runs";
+  }
+  if (
+    recurrence.frequency === "weekly" &&
+    (!Array.isArray(recurrence.weekdays) ||
+      recurrence.weekdays.length === 0 ||
+      recurrence.weekdays.some((day) => !Number.isInteger(day) || day < 0 || day > 6))
+  ) {
+    return "Choose at least one day of the week";
+  }
+  if (recurrence.until !== undefined && recurrence.until <= input.startAt) {
+    return "The end date must be after the first run";
+  }
+  return null;
+}
+
+/**
+ * User fields of a schedule, e.g. to save it again
+ */
+export function scheduleInput(schedule: Schedule): ScheduleInput {
+  const { name, action, streamId, streamName, recordType, resolutionHeight, fileNameTemplate } = schedule;
+  const { startAt, timeZone, recurrence, enabled } = schedule;
+  return { name, action, streamId, streamName, recordType, resolutionHeight, fileNameTemplate, startAt, timeZone, recurrence, enabled };
+}
+
+const request = <T>(path: string, target: DashboardTarget, init?: RequestInit) =>
+  dashboardRequest<T>(`/api/schedules${path}`, target, init, "Schedule request failed");
+
+/**
+ * Schedules of the application, by next run
+ */
+export function listSchedules(target: DashboardTarget, signal?: AbortSignal) {
+  return request<Schedule[]>("", target, { signal });
+}
+
+export function createSchedule(input: ScheduleInput, target: DashboardTarget) {
+  return request<Schedule>("", target, { method: "POST", body: JSON.stringify(input) });
+}
+
+/**
+ * Replace the fields of a schedule; its next run is planned again from now
+ */
+export function updateSchedule(id: string, input: ScheduleInput, target: DashboardTarget) {
+  return request<Schedule>(`/${encodeURIComponent(id)}`, target, { method: "PUT", body: JSON.stringify(input) });
+}
+
+export function deleteSchedule(id: string, target: DashboardTarget) {
+  return request<{ success: boolean }>(`/${encodeURIComponent(id)}`, target, { method: "DELETE" });
+}
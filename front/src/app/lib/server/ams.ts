@@ -0,0 +1,181 @@
+/**
+ * Server-side access to Ant Media Server for the /api route handlers
+ * The JWT secrets and account passwords of the connection profiles never
+ * reach the browser
+ */
+
+import { AuthError, NetworkError, TimeoutError } from "../errors";
+import { JwtTokenManager, signJwt } from "../jwt";
+import { StoredProfile } from "./profiles";
+
+/**
+ * - "app": application REST API, /{app}/rest/v2/...
+ * - "management": management REST API, sent with the profile's account session
+ * - "public": management endpoints that work without a session (authenticate, initial user)
+ */
+export type AmsScope = "app" | "management" | "public";
+
+export interface AmsRequest {
+  /** Server to send the request to, with its credentials */
+  profile: StoredProfile;
+  scope: AmsScope;
+  /** Path relative to the REST base path, e.g. broadcasts/list/0/10 */
+  path: string;
+  /** Application of "app" requests. Default: the profile's application */
+  app?: string;
+  /** Query string including the leading "?" */
+  search?: string;
+  method?: string;
+  headers?: HeadersInit;
+  body?: BodyInit | null;
+  /** (Optional) Timeout in ms, e.g. for uploads. Default: AMS_TIMEOUT_MS */
+  timeoutMs?: number;
+}
+
+const TIMEOUT_MS = Number(process.env.AMS_TIMEOUT_MS) || 15000;
+
+/**
+ * Cached credentials of one profile
+ */
+interface Connection {
+  /** Fields of the profile the credentials belong to */
+  fields: string;
+  /** Short-lived JWTs signed with the profile's secret */
+  tokens: JwtTokenManager;
+  /** Cookie header of the account session, shared by concurrent requests */
+  session: Promise<string | undefined> | null;
+}
+
+/** Keyed by profile id; editing a profile replaces its connection */
+const connections = new Map<string, Connection>();
+
+function connectionOf(profile: StoredProfile): Connection {
+  const fields = JSON.stringify(profile);
+  let connection = connections.get(profile.id);
+
+  if (connection?.fields !== fields) {
+    connection = {
+      fields,
+      tokens: new JwtTokenManager(async () =>
+        profile.auth === "jwt" && profile.secret
+          ? signJwt(profile.secret, {}, Number(process.env.AMS_JWT_TTL_SECONDS) || 300)
+          : undefined
+      ),
+      session: null,
+    };
+    connections.set(profile.id, connection);
+  }
+
+  return connection;
+}
+
+/**
+ * Forget the cached credentials of a deleted profile
+ */
+export function closeConnection(profileId: string) {
+  connections.delete(profileId);
+}
+
+/**
+ * Build the AMS URL of a request
+ */
+export function amsUrl({ profile, scope, path, app, search }: AmsRequest): string {
+  const base = scope === "app" ? `${profile.serverUrl}/${app ?? profile.appName}` : profile.serverUrl;
+  return `${base}/rest/v2/${path}${search ?? ""}`;
+}
+
+/**
+ * Fetch with the server timeout, converting transport failures to typed errors
+ */
+async function send(url: string, init: RequestInit, timeoutMs: number = TIMEOUT_MS): Promise<Response> {
+  try {
+    return await fetch(url, { ...init, cache: "no-store", signal: AbortSignal.timeout(timeoutMs) });
+  } catch (error) {
+    const details = { endpoint: url, method: init.method || "GET", cause: error };
+
+    if (error instanceof DOMException && error.name === "TimeoutError") {
+      throw new TimeoutError(`Ant Media did not respond within ${timeoutMs}ms`, details);
+    }
+    throw new NetworkError(`Ant Media is unreachable at ${new URL(url).origin}`, details);
+  }
+}
+
+/**
+ * Log in with the account of a "credentials" profile
+ * @returns Cookie header carrying the session, or undefined for other profiles
+ * @throws AuthError when AMS rejects the account
+ */
+async function login(profile: StoredProfile): Promise<string | undefined> {
+  if (profile.auth !== "credentials" || !profile.adminEmail || !profile.secret) return undefined;
+
+  const url = amsUrl({ profile, scope: "public", path: "users/authenticate" });
+  const response = await send(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ email: profile.adminEmail, password: profile.secret }),
+  });
+  const result = await response.json().catch(() => undefined);
+
+  if (!response.ok || !result?.success) {
+    throw new AuthError(`Ant Media rejected the account of profile "${profile.name}"`, {
+      status: 502,
+      endpoint: url,
+      method: "POST",
+      body: result,
+    });
+  }
+
+  return response.headers
+    .getSetCookie()
+    .map((cookie) => cookie.split(";")[0])
+    .join("; ");
+}
+
+function getSession(profile: StoredProfile, connection: Connection): Promise<string | undefined> {
+  if (!connection.session) {
+    connection.session = login(profile).catch((error) => {
+      connection.session = null;
+      throw error;
+    });
+  }
+
+  return connection.session;
+}
+
+/**
+ * Send a request to AMS with the profile's credentials
+ * A 401/403 drops the cached JWT and account session and the request is sent once more
+ * @throws NetworkError / TimeoutError when AMS doesn't answer
+ */
+export async function amsFetch(request: AmsRequest): Promise<Response> {
+  const url = amsUrl(request);
+  const connection = connectionOf(request.profile);
+
+  const attempt = async () => {
+    const headers = new Headers(request.headers);
+
+    if (request.scope !== "public") {
+      const token = await connection.tokens.getToken();
+      if (token) {
+        headers.set("Authorization", token);
+        headers.set("ProxyAuthorization", token);
+      }
+    }
+    if (request.scope === "management") {
+      const cookie = await getSession(request.profile, connection);
+      if (cookie) headers.set("Cookie", cookie);
+    }
+
+    return send(url, { method: request.method ?? "GET", headers, body: request.body }, request.timeoutMs);
+  };
+
+  const response = await attempt();
+
+  if ((response.status === 401 || response.status === 403) && request.scope !== "public") {
+    connection.tokens.invalidate();
+    connection.session = null;
+    return attempt();
+  }
+
+  return response;
+}
@@ -0,0 +1,259 @@
+/**
+ * Building blocks of the /api route handlers that proxy the browser's
+ * requests to Ant Media Server
+ */
+
+import { Vod } from "../../client";
+import { AmsResult, AntMediaError, TimeoutError } from "../errors";
+import { paginate } from "../pagination";
+import { DEFAULT_PROFILE_ID } from "../profiles";
+import { AmsRequest, AmsScope, amsFetch } from "./ams";
+import { getProfile, StoredProfile } from "./profiles";
+import { readSession, Session } from "./session";
+
+/** Header the browser uses to pick the connection profile. Default: the default profile */
+export const PROFILE_HEADER = "X-AMS-Profile";
+
+/** Header the browser uses to pick the application. Default: the profile's application */
+export const APP_HEADER = "X-AMS-App";
+
+/**
+ * Rejected request, answered with its status
+ */
+export class RequestError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Server and application a request targets
+ */
+export interface Target {
+  profile: StoredProfile;
+  app: string;
+}
+
+/**
+ * Route context of a catch-all [[...path]] route
+ */
+export interface CatchAllContext {
+  params: Promise<{ path?: string[] }>;
+}
+
+type Handler<C> = (request: Request, context: C) => Promise<Response>;
+
+/**
+ * Error response in the AMS {success, message} shape
+ */
+export function jsonError(status: number, message: string): Response {
+  return Response.json({ success: false, message }, { status });
+}
+
+/**
+ * Convert a thrown error to a JSON error response
+ * Timeouts become 504, other transport failures 502
+ */
+export function errorResponse(error: unknown): Response {
+  if (error instanceof RequestError) {
+    return jsonError(error.status, error.message);
+  }
+  if (error instanceof TimeoutError) {
+    return jsonError(504, error.message);
+  }
+  if (error instanceof AntMediaError) {
+    return jsonError(error.status ?? 502, error.message);
+  }
+
+  console.error("Unexpected error in API route:", error);
+  return jsonError(500, "Internal server error");
+}
+
+/**
+ * Profile and application a request without a session targets, from the
+ * X-AMS-Profile and X-AMS-App headers
+ * Only for the public routes (login, first-run setup), which don't use the profile's credentials
+ * @throws RequestError when the profile doesn't exist or the app name is invalid
+ */
+export async function publicTarget(request: Request): Promise<Target> {
+  const profileId = request.headers.get(PROFILE_HEADER) || DEFAULT_PROFILE_ID;
+  const profile = await getProfile(profileId);
+  if (!profile) {
+    throw new RequestError(404, `Connection profile ${profileId} does not exist`);
+  }
+
+  const app = request.headers.get(APP_HEADER) || profile.appName;
+  if (!/^[\w-]+$/.test(app)) {
+    throw new RequestError(400, `Invalid ${APP_HEADER} header`);
+  }
+
+  return { profile, app };
+}
+
+/**
+ * Profile and application the request targets, from the X-AMS-Profile and X-AMS-App headers
+ * A session may only use the profile it was signed in to; another one needs a new login
+ * @throws RequestError 401 without a session for the profile, or when the profile doesn't
+ *   exist or the app name is invalid
+ */
+export async function requestTarget(request: Request): Promise<Target> {
+  const profileId = request.headers.get(PROFILE_HEADER) || DEFAULT_PROFILE_ID;
+  const session = await readSession();
+  if (session?.profileId !== profileId) {
+    throw new RequestError(401, `Not signed in to connection profile ${profileId}`);
+  }
+
+  return publicTarget(request);
+}
+
+/**
+ * Wrap a handler so it only runs for signed-in users and never throws
+ */
+export function withSession<C>(
+  handler: (request: Request, context: C, session: Session) => Promise<Response>
+): Handler<C> {
+  return async (request, context) => {
+    try {
+      const session = await readSession();
+      if (!session) {
+        return jsonError(401, "Not signed in");
+      }
+
+      return await handler(request, context, session);
+    } catch (error) {
+      return errorResponse(error);
+    }
+  };
+}
+
+/**
+ * Error of an AMS error response
+ * AMS rejecting the profile's credentials (401, 403) becomes 502: the browser
+ * reads 401 as the end of the dashboard session and signs the user out
+ * @param scope - AMS API of the request; public requests carry no profile credentials
+ */
+function upstreamError(status: number, message: string | undefined, scope: AmsScope): RequestError {
+  const text = message || `Ant Media responded with HTTP ${status}`;
+  if ((status === 401 || status === 403) && scope !== "public") {
+    return new RequestError(502, `Ant Media rejected the credentials of the connection profile: ${text}`);
+  }
+  return new RequestError(status, text);
+}
+
+/**
+ * Relay an AMS response to the browser
+ * Error bodies are normalized to {success: false, message}
+ * @param scope - AMS API the response comes from
+ */
+export async function relay(response: Response, scope: AmsScope = "app"): Promise<Response> {
+  if (!response.ok) {
+    const text = await response.text();
+    let message: string | undefined;
+    try {
+      message = JSON.parse(text)?.message;
+    } catch {
+      message = text.trim() || undefined;
+    }
+
+    const error = upstreamError(response.status, message, scope);
+    return jsonError(error.status, error.message);
+  }
+
+  const headers = new Headers({ "Cache-Control": "no-store" });
+  const contentType = response.headers.get("Content-Type");
+  if (contentType) headers.set("Content-Type", contentType);
+
+  return new Response(response.body, { status: response.status, headers });
+}
+
+/**
+ * Forward a request to AMS with the browser's method, query and body
+ * @param request - Incoming request
+ * @param scope - AMS API the path belongs to
+ * @param path - Path relative to the REST base path, or a function of the target application
+ */
+export async function forward(
+  request: Request,
+  scope: AmsScope,
+  path: string | ((app: string) => string)
+): Promise<Response> {
+  const { profile, app } = scope === "public" ? await publicTarget(request) : await requestTarget(request);
+  const hasBody = request.method !== "GET" && request.method !== "HEAD";
+  const contentType = request.headers.get("Content-Type");
+
+  const response = await amsFetch({
+    profile,
+    scope,
+    app,
+    path: typeof path === "function" ? path(app) : path,
+    search: new URL(request.url).search,
+    method: request.method,
+    headers: contentType ? { "Content-Type": contentType } : undefined,
+    body: hasBody ? await request.arrayBuffer() : undefined,
+  });
+
+  return relay(response, scope);
+}
+
+/**
+ * Create the handler of a catch-all route that proxies /api/{prefix}/... to
+ * the AMS path {prefix}/...
+ * @param scope - AMS API the prefix belongs to
+ * @param prefix - First path segment, e.g. broadcasts
+ */
+export function proxyRoute(scope: AmsScope, prefix: string): Handler<CatchAllContext> {
+  return withSession(async (request, { params }) => {
+    const { path = [] } = await params;
+    const target = [prefix, ...path.map(encodeURIComponent)].join("/");
+
+    return forward(request, scope, target);
+  });
+}
+
+/**
+ * Send a request to AMS and parse its JSON response
+ * @throws RequestError with the AMS status and message when AMS answers an error
+ */
+export async function amsJson<T>(request: AmsRequest): Promise<T> {
+  const response = await amsFetch(request);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw upstreamError(response.status, body?.message, request.scope);
+  }
+  return response.json();
+}
+
+/**
+ * Every VoD of the target's application
+ */
+export async function listVods({ profile, app }: Target): Promise<Vod[]> {
+  const vods: Vod[] = [];
+  const pages = paginate<Vod>(
+    (offset, size) => amsJson({ profile, scope: "app", app, path: `vods/list/${offset}/${size}` }),
+    Infinity
+  );
+  for await (const vod of pages) {
+    vods.push(vod);
+  }
+  return vods;
+}
+
+/**
+ * Send a request to AMS that answers a {success, message} result
+ * @throws RequestError with the AMS message when AMS answers an error or success: false
+ */
+export async function amsResult(request: AmsRequest): Promise<AmsResult> {
+  const response = await amsFetch(request);
+  const result: AmsResult = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw upstreamError(response.status, result.message, request.scope);
+  }
+  if (!result.success) {
+    throw new RequestError(502, result.message || "Ant Media did not succeed");
+  }
+  return result;
+}
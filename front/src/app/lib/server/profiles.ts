@@ -0,0 +1,121 @@
+/**
+ * Connection profiles stored on the server, with their secrets
+ * Saved to AMS_PROFILES_FILE (default: .data/profiles.json). The default
+ * profile comes from the environment; saving it stores only the overridden fields
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { ConnectionProfile, DEFAULT_PROFILE_ID, ProfileInput } from "../profiles";
+import { closeConnection } from "./ams";
+
+/**
+ * Profile with the JWT secret or account password
+ */
+export interface StoredProfile extends Omit<ConnectionProfile, "hasSecret"> {
+  secret?: string;
+}
+
+const PROFILES_FILE =
+  process.env.AMS_PROFILES_FILE || path.join(process.cwd(), ".data", "profiles.json");
+
+/**
+ * Default profile from AMS_SERVER_URL, AMS_APP_NAME, AMS_JWT_SECRET and
+ * AMS_ADMIN_EMAIL / AMS_ADMIN_PASSWORD
+ */
+function environmentProfile(): StoredProfile {
+  const jwtSecret = process.env.AMS_JWT_SECRET;
+  const adminEmail = process.env.AMS_ADMIN_EMAIL;
+
+  return {
+    id: DEFAULT_PROFILE_ID,
+    name: "Default",
+    serverUrl: (
+      process.env.AMS_SERVER_URL ||
+      process.env.NEXT_PUBLIC_AMS_SERVER_URL ||
+      "http://localhost:5080"
+    ).replace(/\/+$/, ""),
+    appName: process.env.AMS_APP_NAME || process.env.NEXT_PUBLIC_AMS_APP_NAME || "LiveApp",
+    auth: jwtSecret ? "jwt" : adminEmail ? "credentials" : "none",
+    adminEmail,
+    secret: jwtSecret || process.env.AMS_ADMIN_PASSWORD,
+  };
+}
+
+async function readStored(): Promise<StoredProfile[]> {
+  try {
+    return JSON.parse(await fs.readFile(PROFILES_FILE, "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+async function writeStored(profiles: StoredProfile[]) {
+  await fs.mkdir(path.dirname(PROFILES_FILE), { recursive: true });
+  await fs.writeFile(PROFILES_FILE, JSON.stringify(profiles, null, 2), { mode: 0o600 });
+}
+
+/**
+ * Browser view of a profile
+ */
+export function toPublicProfile({ secret, ...profile }: StoredProfile): ConnectionProfile {
+  return { ...profile, hasSecret: Boolean(secret) };
+}
+
+/**
+ * All profiles, the default one first
+ */
+export async function listProfiles(): Promise<StoredProfile[]> {
+  const stored = await readStored();
+  const override = stored.find((profile) => profile.id === DEFAULT_PROFILE_ID);
+  const base = environmentProfile();
+
+  return [
+    { ...base, ...override, secret: override?.secret || base.secret },
+    ...stored.filter((profile) => profile.id !== DEFAULT_PROFILE_ID),
+  ];
+}
+
+/**
+ * Find a profile
+ * @returns Profile, or undefined if no profile has that id
+ */
+export async function getProfile(id: string = DEFAULT_PROFILE_ID): Promise<StoredProfile | undefined> {
+  return (await listProfiles()).find((profile) => profile.id === id);
+}
+
+/**
+ * Create a profile, or update it when input.id is set
+ * An empty secret keeps the stored one
+ * @returns Saved profile
+ */
+export async function saveProfile(input: ProfileInput): Promise<StoredProfile> {
+  const stored = await readStored();
+  const id = input.id || crypto.randomUUID().slice(0, 8);
+  const existing = stored.find((profile) => profile.id === id);
+
+  const profile: StoredProfile = {
+    id,
+    name: input.name.trim(),
+    serverUrl: input.serverUrl.replace(/\/+$/, ""),
+    appName: input.appName,
+    auth: input.auth,
+    adminEmail: input.auth === "credentials" ? input.adminEmail : undefined,
+    wsProtocol: input.wsProtocol || undefined,
+    secret: input.auth === "none" ? undefined : input.secret || existing?.secret,
+  };
+
+  await writeStored([...stored.filter((p) => p.id !== id), profile]);
+
+  return (await getProfile(id)) ?? profile;
+}
+
+/**
+ * Delete a profile. Deleting the default profile resets it to the environment
+ */
+export async function deleteProfile(id: string) {
+  const stored = await readStored();
+  await writeStored(stored.filter((profile) => profile.id !== id));
+  closeConnection(id);
+}
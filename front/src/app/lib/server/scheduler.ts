@@ -0,0 +1,300 @@
+/**
+ * Schedules of stream actions and the worker that executes them
+ * Each schedule is a .json file in AMS_SCHEDULE_DIR (default:
+ * .data/schedules). The worker is started with the server (see
+ * src/instrumentation.ts) and checks for due schedules every 15 seconds
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { Broadcast } from "../../client";
+import { expandFileName } from "../recording";
+import { nextOccurrence, Schedule, ScheduleInput, ScheduleRun, ScheduleTiming, validateSchedule } from "../schedules";
+import { amsJson, amsResult, RequestError, Target } from "./bff";
+import { getProfile } from "./profiles";
+
+/**
+ * Stored schedule, with the server it runs against
+ */
+interface ScheduleRecord {
+  schedule: Schedule;
+  profileId: string;
+}
+
+const SCHEDULE_DIR = process.env.AMS_SCHEDULE_DIR || path.join(process.cwd(), ".data", "schedules");
+
+const TICK_MS = 15 * 1000;
+
+/** A run more than 10 minutes late, e.g. because the server was down, is skipped */
+const MISSED_AFTER_MS = 10 * 60 * 1000;
+
+/** A run planned in the last minute still counts, so that "now" can be picked in the form */
+const START_GRACE_MS = 60 * 1000;
+
+/** Runs kept per schedule */
+const MAX_RUNS = 20;
+
+const recordPath = (id: string) => path.join(SCHEDULE_DIR, `${id}.json`);
+
+async function writeRecord(record: ScheduleRecord) {
+  await fs.mkdir(SCHEDULE_DIR, { recursive: true });
+  // Written aside and renamed, so that the worker never reads half a file
+  const temporary = `${recordPath(record.schedule.id)}.${process.pid}.tmp`;
+  await fs.writeFile(temporary, JSON.stringify(record));
+  await fs.rename(temporary, recordPath(record.schedule.id));
+}
+
+async function readRecord(id: string): Promise<ScheduleRecord | null> {
+  try {
+    return JSON.parse(await fs.readFile(recordPath(id), "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+async function readRecords(): Promise<ScheduleRecord[]> {
+  const entries = await fs.readdir(SCHEDULE_DIR).catch(() => []);
+  const records = await Promise.all(
+    entries.filter((entry) => entry.endsWith(".json")).map((entry) => readRecord(entry.slice(0, -".json".length)))
+  );
+  return records.filter((record): record is ScheduleRecord => record !== null);
+}
+
+/**
+ * Schedule of the target's application
+ * @throws RequestError 404 when it doesn't exist
+ */
+async function findRecord(id: string, target: Target): Promise<ScheduleRecord> {
+  const record = /^[\w-]+$/.test(id) ? await readRecord(id) : null;
+  if (!record || record.profileId !== target.profile.id || record.schedule.app !== target.app) {
+    throw new RequestError(404, `Schedule ${id} does not exist`);
+  }
+  return record;
+}
+
+const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+/**
+ * Whether two schedules run at the same times
+ */
+function sameTiming(a: ScheduleTiming, b: ScheduleTiming): boolean {
+  return (
+    a.startAt === b.startAt &&
+    a.timeZone === b.timeZone &&
+    a.recurrence.frequency === b.recurrence.frequency &&
+    a.recurrence.weekdays.join() === b.recurrence.weekdays.join() &&
+    a.recurrence.until === b.recurrence.until
+  );
+}
+
+/**
+ * User fields of a request body, validated
+ * @param current - (Optional) Schedule being updated; its timing may have passed as long as it is kept
+ * @throws RequestError 400 when the schedule is invalid, or enabled and never runs
+ */
+function parseInput(body: Partial<ScheduleInput>, current?: Schedule): { input: ScheduleInput; nextRunAt: number | null } {
+  const recurrence = body.recurrence ?? { frequency: "once", weekdays: [] };
+  const input: ScheduleInput = {
+    name: text(body.name),
+    action: body.action as ScheduleInput["action"],
+    streamId: text(body.streamId) || undefined,
+    streamName: text(body.streamName) || undefined,
+    recordType: body.recordType,
+    resolutionHeight: Number(body.resolutionHeight) || undefined,
+    fileNameTemplate: text(body.fileNameTemplate) || undefined,
+    startAt: Number(body.startAt),
+    timeZone: text(body.timeZone) || "UTC",
+    recurrence: {
+      frequency: recurrence.frequency,
+      weekdays: recurrence.frequency === "weekly" ? recurrence.weekdays : [],
+      until: recurrence.frequency === "once" ? undefined : recurrence.until || undefined,
+    },
+    enabled: body.enabled !== false,
+  };
+
+  const invalid = validateSchedule(input);
+  if (invalid) {
+    throw new RequestError(400, invalid);
+  }
+
+  const nextRunAt = nextOccurrence(input, Date.now() - START_GRACE_MS);
+  // A schedule that has ended can still be disabled or edited, but not planned in the past
+  if (nextRunAt === null && input.enabled && !(current && sameTiming(input, current))) {
+    throw new RequestError(400, "The schedule never runs: its time has passed");
+  }
+  return { input, nextRunAt };
+}
+
+/**
+ * Schedules of the target's application, by next run; ended schedules last
+ */
+export async function listSchedules(target: Target): Promise<Schedule[]> {
+  return (await readRecords())
+    .filter((record) => record.profileId === target.profile.id && record.schedule.app === target.app)
+    .map(({ schedule }) => schedule)
+    .sort((a, b) => (a.nextRunAt ?? Infinity) - (b.nextRunAt ?? Infinity) || b.createdAt - a.createdAt);
+}
+
+/**
+ * @param owner - Email of the signed-in user
+ * @throws RequestError 400 for an invalid schedule
+ */
+export async function createSchedule(body: Partial<ScheduleInput>, target: Target, owner: string): Promise<Schedule> {
+  const { input, nextRunAt } = parseInput(body);
+  const record: ScheduleRecord = {
+    schedule: {
+      ...input,
+      id: crypto.randomUUID(),
+      app: target.app,
+      createdBy: owner,
+      createdAt: Date.now(),
+      nextRunAt,
+      runs: [],
+    },
+    profileId: target.profile.id,
+  };
+
+  await writeRecord(record);
+  return record.schedule;
+}
+
+/**
+ * Replace the user fields of a schedule and plan its next run from now
+ * @throws RequestError 400 for an invalid schedule, 404 when it doesn't exist
+ */
+export async function updateSchedule(id: string, body: Partial<ScheduleInput>, target: Target): Promise<Schedule> {
+  const record = await findRecord(id, target);
+  const { input, nextRunAt } = parseInput(body, record.schedule);
+
+  record.schedule = { ...record.schedule, ...input, nextRunAt };
+  await writeRecord(record);
+  return record.schedule;
+}
+
+export async function deleteSchedule(id: string, target: Target) {
+  await findRecord(id, target);
+  await fs.rm(recordPath(id), { force: true });
+}
+
+/**
+ * Run the action of a schedule on AMS
+ * @returns Message recorded with the run
+ */
+async function execute(schedule: Schedule, target: Target): Promise<string | undefined> {
+  const { profile, app } = target;
+  const streamPath = `broadcasts/${encodeURIComponent(schedule.streamId ?? "")}`;
+
+  switch (schedule.action) {
+    case "createBroadcast": {
+      const broadcast = await amsJson<Broadcast>({
+        profile,
+        scope: "app",
+        app,
+        path: "broadcasts/create",
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: schedule.streamName, streamId: schedule.streamId }),
+      });
+      return `Created stream ${broadcast.streamId}`;
+    }
+    case "startRecording":
+    case "stopRecording": {
+      const enabled = schedule.action === "startRecording";
+      const search = new URLSearchParams({ recordType: schedule.recordType ?? "mp4" });
+      if (schedule.resolutionHeight) search.set("resolutionHeight", String(schedule.resolutionHeight));
+      if (enabled && schedule.fileNameTemplate) {
+        const broadcast = await amsJson<Broadcast>({ profile, scope: "app", app, path: streamPath });
+        // Dates in the schedule's time zone, like the calendar
+        const fileName = expandFileName(
+          schedule.fileNameTemplate,
+          broadcast,
+          schedule.resolutionHeight,
+          new Date(),
+          schedule.timeZone
+        );
+        if (fileName) search.set("fileName", fileName);
+      }
+
+      const result = await amsResult({
+        profile,
+        scope: "app",
+        app,
+        path: `${streamPath}/recording/${enabled}`,
+        search: `?${search}`,
+        method: "PUT",
+      });
+      return result.message || (search.has("fileName") ? `Recording to ${search.get("fileName")}` : undefined);
+    }
+    case "deleteBroadcast":
+      return (await amsResult({ profile, scope: "app", app, path: streamPath, method: "DELETE" })).message;
+  }
+}
+
+/**
+ * Execute a due schedule, or record it as missed, and plan its next run
+ */
+async function runDue({ schedule, profileId }: ScheduleRecord) {
+  const scheduledAt = schedule.nextRunAt ?? Date.now();
+  const run: ScheduleRun = { scheduledAt, ranAt: Date.now(), status: "success" };
+
+  if (run.ranAt - scheduledAt > MISSED_AFTER_MS) {
+    Object.assign(run, { status: "missed", message: "The dashboard server was not running at that time" });
+  } else {
+    try {
+      const profile = await getProfile(profileId);
+      if (!profile) {
+        throw new Error(`Connection profile ${profileId} does not exist anymore`);
+      }
+      run.message = await execute(schedule, { profile, app: schedule.app });
+    } catch (error) {
+      console.error(`Error running schedule ${schedule.name}:`, error);
+      Object.assign(run, { status: "failed", message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  // Read again: the schedule may have been changed or deleted while the action ran
+  const current = await readRecord(schedule.id);
+  if (!current) return;
+  if (current.schedule.nextRunAt === scheduledAt) {
+    current.schedule.nextRunAt = nextOccurrence(current.schedule, Math.max(scheduledAt, run.ranAt));
+  }
+  current.schedule.runs = [run, ...current.schedule.runs].slice(0, MAX_RUNS);
+  await writeRecord(current);
+}
+
+let ticking = false;
+
+/**
+ * Run the schedules that are due, one after another
+ */
+async function tick() {
+  if (ticking) return;
+  ticking = true;
+  try {
+    const now = Date.now();
+    const due = (await readRecords())
+      .filter(({ schedule }) => schedule.enabled && schedule.nextRunAt !== null && schedule.nextRunAt <= now)
+      .sort((a, b) => (a.schedule.nextRunAt ?? 0) - (b.schedule.nextRunAt ?? 0));
+
+    for (const record of due) {
+      await runDue(record);
+    }
+  } catch (error) {
+    console.error("Error running schedules:", error);
+  } finally {
+    ticking = false;
+  }
+}
+
+/**
+ * Start the worker once per server process
+ * Set AMS_SCHEDULER_DISABLED=1 on all but one instance when several share AMS_SCHEDULE_DIR
+ */
+export function startScheduler() {
+  const store = globalThis as { __amsScheduler?: NodeJS.Timeout };
+  if (store.__amsScheduler || process.env.AMS_SCHEDULER_DISABLED === "1") return;
+
+  store.__amsScheduler = setInterval(tick, TICK_MS);
+  store.__amsScheduler.unref();
+  tick();
+}
@@ -0,0 +1,139 @@
+/**
+ * Dashboard sessions: an httpOnly cookie holding an HS256 token signed with
+ * SESSION_SECRET, issued once the AMS of a connection profile accepts the
+ * user's credentials
+ * Each session is also a .json file in AMS_SESSION_DIR (default:
+ * .data/sessions), so that signing out ends it even if the token was copied
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { cookies } from "next/headers";
+import { signJwt, verifyJwt } from "../jwt";
+
+export const SESSION_COOKIE = "ams_session";
+
+const SESSION_TTL_SECONDS = Number(process.env.SESSION_TTL_SECONDS) || 8 * 60 * 60;
+
+const SESSION_DIR = process.env.AMS_SESSION_DIR || path.join(process.cwd(), ".data", "sessions");
+
+export interface Session {
+  id: string;
+  /** AMS user the session was issued to */
+  email: string;
+  /** Connection profile whose AMS accepted the user; the only one the session may use */
+  profileId: string;
+  /** Expiry, in seconds since the epoch */
+  exp: number;
+}
+
+const recordPath = (id: string) => path.join(SESSION_DIR, `${id}.json`);
+
+/**
+ * SESSION_SECRET, or a per-process random secret in development
+ * (sessions then end whenever the server restarts)
+ * The fallback lives on globalThis because the proxy and the route handlers
+ * are bundled separately and would otherwise each generate their own
+ */
+function sessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET is not configured");
+  }
+
+  const store = globalThis as { __amsSessionSecret?: string };
+  if (!store.__amsSessionSecret) {
+    console.warn("SESSION_SECRET is not set, using a random secret until the server restarts");
+    store.__amsSessionSecret = `${crypto.randomUUID()}${crypto.randomUUID()}`;
+  }
+  return store.__amsSessionSecret;
+}
+
+async function readRecord(id: string): Promise<Session | null> {
+  try {
+    return JSON.parse(await fs.readFile(recordPath(id), "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove the records of expired sessions
+ */
+async function pruneSessions() {
+  const now = Math.floor(Date.now() / 1000);
+  const entries = await fs.readdir(SESSION_DIR).catch(() => []);
+
+  for (const entry of entries.filter((name) => name.endsWith(".json"))) {
+    const record = await readRecord(entry.slice(0, -".json".length));
+    if (!record || record.exp <= now) {
+      await fs.rm(path.join(SESSION_DIR, entry), { force: true });
+    }
+  }
+}
+
+/**
+ * Issue a session for a user of a connection profile and set the session cookie
+ */
+export async function createSession(email: string, profileId: string): Promise<Session> {
+  const session: Session = {
+    id: crypto.randomUUID(),
+    email,
+    profileId,
+    exp: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS,
+  };
+
+  await pruneSessions();
+  await fs.mkdir(SESSION_DIR, { recursive: true });
+  await fs.writeFile(recordPath(session.id), JSON.stringify(session), { mode: 0o600 });
+
+  const token = await signJwt(sessionSecret(), { sub: email, sid: session.id, profile: profileId }, SESSION_TTL_SECONDS);
+  (await cookies()).set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_TTL_SECONDS,
+  });
+
+  return session;
+}
+
+/**
+ * Verify a session token and check that its session was not ended
+ * @returns Session, or null if the token is forged or expired or the session was ended
+ */
+export async function verifySession(token: string): Promise<Session | null> {
+  const claims = await verifyJwt(sessionSecret(), token);
+  if (!claims || typeof claims.sid !== "string" || !/^[\w-]+$/.test(claims.sid)) return null;
+
+  const record = await readRecord(claims.sid);
+  if (!record || record.email !== claims.sub || record.profileId !== claims.profile) return null;
+
+  return record;
+}
+
+/**
+ * Read and verify the session cookie of the current request
+ * @returns Session, or null if the cookie is missing, forged or expired or the session was ended
+ */
+export async function readSession(): Promise<Session | null> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  return token ? verifySession(token) : null;
+}
+
+/**
+ * End the session of the current request and remove the session cookie
+ */
+export async function destroySession() {
+  const store = await cookies();
+  const token = store.get(SESSION_COOKIE)?.value;
+  const session = token ? await verifySession(token) : null;
+
+  if (session) {
+    await fs.rm(recordPath(session.id), { force: true });
+  }
+  store.delete(SESSION_COOKIE);
+}
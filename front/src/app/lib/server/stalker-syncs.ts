@@ -0,0 +1,130 @@
+/**
+ * Syncs of VoDs to the Stalker portal, with their history
+ * Each sync is a .json file in AMS_STALKER_SYNC_DIR (default:
+ * .data/stalker-syncs). AMS answers the import within the request, so a sync
+ * is recorded once it has finished
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { AppSettings } from "../../client";
+import { isPushedToStalker, missingStalkerSettings, StalkerSync } from "../stalker";
+import { amsJson, amsResult, listVods, RequestError, Target } from "./bff";
+
+/**
+ * Stored sync, with the server it ran against
+ */
+interface SyncRecord {
+  sync: StalkerSync;
+  profileId: string;
+}
+
+const SYNC_DIR = process.env.AMS_STALKER_SYNC_DIR || path.join(process.cwd(), ".data", "stalker-syncs");
+
+/** AMS writes every VoD into the portal database: 5 minutes */
+const SYNC_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** Syncs kept per application */
+const MAX_SYNCS = 100;
+
+/** Applications being synced, by profile and application */
+const running = new Set<string>();
+
+const recordPath = (id: string) => path.join(SYNC_DIR, `${id}.json`);
+
+async function readRecords(target: Target): Promise<SyncRecord[]> {
+  const entries = await fs.readdir(SYNC_DIR).catch(() => []);
+  const records = await Promise.all(
+    entries
+      .filter((entry) => entry.endsWith(".json"))
+      .map(async (entry) => {
+        try {
+          return JSON.parse(await fs.readFile(path.join(SYNC_DIR, entry), "utf8")) as SyncRecord;
+        } catch {
+          return null;
+        }
+      })
+  );
+
+  return records
+    .filter((record): record is SyncRecord => record !== null)
+    .filter((record) => record.profileId === target.profile.id && record.sync.app === target.app)
+    .sort((a, b) => b.sync.startedAt - a.sync.startedAt);
+}
+
+/**
+ * Save a sync and delete the application's syncs beyond MAX_SYNCS
+ */
+async function writeRecord(record: SyncRecord, target: Target) {
+  await fs.mkdir(SYNC_DIR, { recursive: true });
+  await fs.writeFile(recordPath(record.sync.id), JSON.stringify(record));
+
+  const records = await readRecords(target);
+  await Promise.all(records.slice(MAX_SYNCS).map(({ sync }) => fs.rm(recordPath(sync.id), { force: true })));
+}
+
+/**
+ * Syncs of the target's application, newest first
+ */
+export async function listSyncs(target: Target): Promise<StalkerSync[]> {
+  return (await readRecords(target)).map(({ sync }) => sync);
+}
+
+/**
+ * Push the VoDs of the application to the portal and record the result
+ * @param owner - Email of the signed-in user
+ * @throws RequestError 400 when the portal settings are incomplete, 409 while the application is being synced
+ */
+export async function runSync(target: Target, owner: string): Promise<StalkerSync> {
+  const { profile, app } = target;
+  const key = `${profile.id}/${app}`;
+  if (running.has(key)) {
+    throw new RequestError(409, `${app} is already being synced`);
+  }
+
+  running.add(key);
+  try {
+    const settings = await amsJson<AppSettings>({
+      profile,
+      scope: "management",
+      path: `applications/settings/${encodeURIComponent(app)}`,
+    });
+    const missing = missingStalkerSettings(settings);
+    if (missing.length > 0) {
+      throw new RequestError(400, `Missing Stalker settings: ${missing.join(", ")}`);
+    }
+
+    const vods = (await listVods(target)).filter(isPushedToStalker);
+    const sync: StalkerSync = {
+      id: crypto.randomUUID(),
+      app,
+      status: "success",
+      startedBy: owner,
+      startedAt: Date.now(),
+      finishedAt: 0,
+      portal: settings.stalkerDBServer ?? "",
+      vods: vods.map((vod) => ({ vodId: vod.vodId ?? "", name: vod.vodName ?? vod.vodId ?? "" })),
+    };
+
+    try {
+      const result = await amsResult({
+        profile,
+        scope: "app",
+        app,
+        path: "vods/import-to-stalker",
+        method: "POST",
+        timeoutMs: SYNC_TIMEOUT_MS,
+      });
+      sync.message = result.message;
+    } catch (error) {
+      console.error(`Error syncing ${app} to Stalker:`, error);
+      Object.assign(sync, { status: "failed", message: error instanceof Error ? error.message : String(error) });
+    }
+
+    sync.finishedAt = Date.now();
+    await writeRecord({ sync, profileId: profile.id }, target);
+    return sync;
+  } finally {
+    running.delete(key);
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Seek bar thumbnails of VoDs: one JPEG sprite per VoD, generated with ffmpeg
+ * from the VoD file on the AMS server, and described by a WebVTT track
+ * Sprites are cached in AMS_THUMBNAIL_DIR (default: .data/thumbnails) per
+ * profile, application and VoD
+ */
+
+import { spawn } from "node:child_process";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { Vod } from "../../client";
+import { SpriteLayout } from "../vod-thumbnails";
+import { amsJson, RequestError, Target } from "./bff";
+
+const THUMBNAIL_DIR = process.env.AMS_THUMBNAIL_DIR || path.join(process.cwd(), ".data", "thumbnails");
+
+const FFMPEG = process.env.AMS_FFMPEG_PATH || "ffmpeg";
+
+/** ffmpeg reads the whole file over HTTP: 10 minutes */
+const FFMPEG_TIMEOUT_MS = 10 * 60 * 1000;
+
+/** Size of one thumbnail in the sprite */
+const THUMBNAIL_WIDTH = 160;
+const THUMBNAIL_HEIGHT = 90;
+
+/** Thumbnails per sprite row */
+const COLUMNS = 10;
+
+/** At most this many thumbnails, at least this many seconds apart */
+const MAX_THUMBNAILS = 100;
+const MIN_INTERVAL_SECONDS = 2;
+
+/** Generations in progress, so that concurrent requests share one ffmpeg run */
+const pending = new Map<string, Promise<SpriteLayout>>();
+
+const basePath = ({ profile, app }: Target, vodId: string) => path.join(THUMBNAIL_DIR, profile.id, app, vodId);
+
+/**
+ * Sprite layout for a VoD of the given duration
+ */
+function layoutFor(durationSeconds: number): SpriteLayout {
+  const interval = Math.max(MIN_INTERVAL_SECONDS, Math.ceil(durationSeconds / MAX_THUMBNAILS));
+  const count = Math.max(1, Math.ceil(durationSeconds / interval));
+
+  return {
+    interval,
+    count,
+    columns: Math.min(COLUMNS, count),
+    width: THUMBNAIL_WIDTH,
+    height: THUMBNAIL_HEIGHT,
+    duration: durationSeconds,
+  };
+}
+
+/**
+ * Run ffmpeg, keeping the end of its output for the error message
+ */
+function runFfmpeg(args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(FFMPEG, args, { stdio: ["ignore", "ignore", "pipe"] });
+    let output = "";
+    const timer = setTimeout(() => child.kill("SIGKILL"), FFMPEG_TIMEOUT_MS);
+
+    child.stderr.on("data", (data: Buffer) => {
+      output = (output + data.toString()).slice(-2000);
+    });
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      reject(
+        error.code === "ENOENT"
+          ? new RequestError(503, `ffmpeg is not installed on the dashboard server (AMS_FFMPEG_PATH: ${FFMPEG})`)
+          : error
+      );
+    });
+    child.on("close", (code, signal) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve();
+        return;
+      }
+
+      const reason = signal ? "timed out" : output.trim().split("\n").pop() || `exited with code ${code}`;
+      reject(new RequestError(502, `Could not generate thumbnails: ${reason}`));
+    });
+  });
+}
+
+async function generate(target: Target, vodId: string): Promise<SpriteLayout> {
+  const { profile, app } = target;
+  const vod = await amsJson<Vod>({ profile, scope: "app", app, path: `vods/${encodeURIComponent(vodId)}` });
+  if (!vod.filePath) {
+    throw new RequestError(404, `VoD ${vodId} has no file`);
+  }
+  if (!vod.duration) {
+    throw new RequestError(422, `VoD ${vodId} has no duration`);
+  }
+
+  const layout = layoutFor(vod.duration / 1000);
+  const rows = Math.ceil(layout.count / layout.columns);
+  const source = `${target.profile.serverUrl.replace(/\/+$/, "")}/${target.app}/${vod.filePath}`;
+  const base = basePath(target, vodId);
+  const temporary = `${base}.${process.pid}.tmp.jpg`;
+
+  await fs.mkdir(path.dirname(base), { recursive: true });
+  try {
+    await runFfmpeg([
+      "-v", "error",
+      "-i", source,
+      "-vf",
+      [
+        `fps=1/${layout.interval}`,
+        `scale=${layout.width}:${layout.height}:force_original_aspect_ratio=decrease`,
+        `pad=${layout.width}:${layout.height}:(ow-iw)/2:(oh-ih)/2`,
+        `tile=${layout.columns}x${rows}`,
+      ].join(","),
+      "-frames:v", "1",
+      "-q:v", "5",
+      "-y", temporary,
+    ]);
+
+    // The layout is written last: a sprite is only served once both files exist
+    await fs.rename(temporary, `${base}.jpg`);
+    await fs.writeFile(`${base}.json`, JSON.stringify(layout));
+  } finally {
+    await fs.rm(temporary, { force: true });
+  }
+
+  return layout;
+}
+
+/**
+ * Layout of a VoD's sprite, generating the sprite on first use
+ * @throws RequestError 404 when the VoD doesn't exist, 503 when ffmpeg is missing
+ */
+export async function getSpriteLayout(target: Target, vodId: string): Promise<SpriteLayout> {
+  if (!/^[\w-]+$/.test(vodId)) {
+    throw new RequestError(400, "Invalid VoD id");
+  }
+
+  const base = basePath(target, vodId);
+  try {
+    return JSON.parse(await fs.readFile(`${base}.json`, "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+
+  let generation = pending.get(base);
+  if (!generation) {
+    generation = generate(target, vodId).finally(() => pending.delete(base));
+    pending.set(base, generation);
+  }
+  return generation;
+}
+
+/**
+ * JPEG sprite of a VoD
+ */
+export async function readSprite(target: Target, vodId: string): Promise<Buffer> {
+  await getSpriteLayout(target, vodId);
+  return fs.readFile(`${basePath(target, vodId)}.jpg`);
+}
@@ -0,0 +1,246 @@
+/**
+ * Resumable VoD uploads, received in chunks and pushed to AMS once complete
+ * Each upload is a .json record and a .part file in AMS_UPLOAD_DIR (default:
+ * .data/uploads). The size of the .part file is the resume offset, so an
+ * interrupted chunk never leaves the record and the file out of step. Once
+ * pushed to AMS, the .part file is deleted and the record keeps the VoD id, so
+ * that completing again after a lost response doesn't create a second VoD
+ */
+
+import { promises as fs, openAsBlob } from "node:fs";
+import path from "node:path";
+import { UploadInfo, UploadInput } from "../vod-upload";
+import { amsFetch } from "./ams";
+import { RequestError, Target } from "./bff";
+import { getProfile } from "./profiles";
+import { Session } from "./session";
+
+/**
+ * Stored upload, with the server and application it goes to
+ */
+interface UploadRecord extends Omit<UploadInfo, "received"> {
+  /** User who started the upload; nobody else can continue it */
+  owner: string;
+  profileId: string;
+  app: string;
+  /** VoD created by AMS, once pushed */
+  vodId?: string;
+}
+
+const UPLOAD_DIR = process.env.AMS_UPLOAD_DIR || path.join(process.cwd(), ".data", "uploads");
+
+/** Uploads untouched for this long are deleted: 24 hours */
+const UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Pushing the complete file to AMS may take a while: 1 hour by default */
+const PUSH_TIMEOUT_MS = Number(process.env.AMS_UPLOAD_TIMEOUT_MS) || 60 * 60 * 1000;
+
+const recordPath = (id: string) => path.join(UPLOAD_DIR, `${id}.json`);
+const partPath = (id: string) => path.join(UPLOAD_DIR, `${id}.part`);
+
+/** Last pending request per upload; requests to one upload run one after another */
+const queues = new Map<string, Promise<unknown>>();
+
+/**
+ * Run a task once the earlier requests to the upload are done, so that two
+ * chunks (e.g. from two tabs, or a retry overlapping the original) can't both
+ * pass the offset check
+ */
+function serialized<T>(id: string, task: () => Promise<T>): Promise<T> {
+  const run = (queues.get(id) ?? Promise.resolve()).catch(() => undefined).then(task);
+  queues.set(id, run);
+
+  run
+    .catch(() => undefined)
+    .finally(() => {
+      if (queues.get(id) === run) queues.delete(id);
+    });
+  return run;
+}
+
+/**
+ * Bytes received so far
+ */
+async function received(id: string): Promise<number> {
+  return (await fs.stat(partPath(id))).size;
+}
+
+/**
+ * Upload of the signed-in user, started with the profile of their session
+ * @throws RequestError 404 when it doesn't exist or is someone else's
+ */
+async function readRecord(id: string, session: Session): Promise<UploadRecord> {
+  if (!/^[\w-]+$/.test(id)) {
+    throw new RequestError(400, "Invalid upload id");
+  }
+
+  let record: UploadRecord;
+  try {
+    record = JSON.parse(await fs.readFile(recordPath(id), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new RequestError(404, `Upload ${id} does not exist`);
+    }
+    throw error;
+  }
+
+  if (record.owner !== session.email || record.profileId !== session.profileId) {
+    throw new RequestError(404, `Upload ${id} does not exist`);
+  }
+  return record;
+}
+
+/**
+ * Browser view of an upload
+ */
+async function toInfo({ id, name, fileName, size, metadata, vodId }: UploadRecord): Promise<UploadInfo> {
+  return { id, name, fileName, size, metadata, received: vodId ? size : await received(id) };
+}
+
+/**
+ * Delete the uploads nobody has sent a chunk to within UPLOAD_TTL_MS, and the
+ * pushed ones completed longer ago
+ */
+async function pruneUploads() {
+  const entries = await fs.readdir(UPLOAD_DIR).catch(() => []);
+  const ids = new Set(entries.filter((entry) => /\.(json|part)$/.test(entry)).map((entry) => entry.slice(0, -5)));
+  const now = Date.now();
+
+  await Promise.all(
+    [...ids].map(async (id) => {
+      const stat = (await fs.stat(partPath(id)).catch(() => null)) ?? (await fs.stat(recordPath(id)).catch(() => null));
+      if (stat && now - stat.mtimeMs > UPLOAD_TTL_MS) await removeFiles(id);
+    })
+  );
+}
+
+async function removeFiles(id: string) {
+  await Promise.all([fs.rm(recordPath(id), { force: true }), fs.rm(partPath(id), { force: true })]);
+}
+
+/**
+ * Start an upload
+ * @param input - VoD name, file name and size, metadata
+ * @param target - Server and application the VoD goes to
+ * @param owner - Email of the signed-in user
+ */
+export async function createUpload(input: UploadInput, target: Target, owner: string): Promise<UploadInfo> {
+  if (!input.name?.trim() || !input.fileName || !Number.isSafeInteger(input.size) || input.size <= 0) {
+    throw new RequestError(400, "An upload needs a name, a file name and a size");
+  }
+
+  await fs.mkdir(UPLOAD_DIR, { recursive: true });
+  await pruneUploads();
+
+  const record: UploadRecord = {
+    id: crypto.randomUUID(),
+    name: input.name.trim(),
+    fileName: path.basename(input.fileName),
+    size: input.size,
+    metadata: input.metadata,
+    owner,
+    profileId: target.profile.id,
+    app: target.app,
+  };
+
+  await fs.writeFile(partPath(record.id), "");
+  await fs.writeFile(recordPath(record.id), JSON.stringify(record));
+
+  return toInfo(record);
+}
+
+/**
+ * Progress of an upload
+ */
+export async function getUpload(id: string, session: Session): Promise<UploadInfo> {
+  return toInfo(await readRecord(id, session));
+}
+
+/**
+ * Append a chunk
+ * @param offset - Position of the chunk in the file; must be the bytes received so far
+ * @throws RequestError 409 when the offset is not where the upload stands or the upload was pushed
+ */
+export function appendChunk(id: string, session: Session, offset: number, chunk: Uint8Array): Promise<UploadInfo> {
+  return serialized(id, async () => {
+    const record = await readRecord(id, session);
+    if (record.vodId) {
+      throw new RequestError(409, `Upload ${id} is complete`);
+    }
+
+    const current = await received(id);
+    if (offset !== current) {
+      throw new RequestError(409, `Upload ${id} is at byte ${current}, not ${offset}`);
+    }
+    if (current + chunk.byteLength > record.size) {
+      throw new RequestError(400, `Chunk ends past the ${record.size} bytes of the file`);
+    }
+
+    await fs.appendFile(partPath(id), chunk);
+    return toInfo(record);
+  });
+}
+
+/**
+ * Push a complete upload to AMS vods/create, with the profile it was started with
+ * Completing a pushed upload again answers the VoD it created
+ * @returns AMS response
+ */
+export function completeUpload(id: string, session: Session): Promise<Response> {
+  return serialized(id, async () => {
+    const record = await readRecord(id, session);
+    if (record.vodId) {
+      return Response.json({ success: true, dataId: record.vodId });
+    }
+
+    const current = await received(id);
+    if (current !== record.size) {
+      throw new RequestError(409, `Upload ${id} has ${current} of ${record.size} bytes`);
+    }
+
+    const profile = await getProfile(record.profileId);
+    if (!profile) {
+      throw new RequestError(404, `Connection profile ${record.profileId} does not exist`);
+    }
+
+    const form = new FormData();
+    form.append("file", await openAsBlob(partPath(id)), record.fileName);
+    if (record.metadata) {
+      form.append("metadata", JSON.stringify(record.metadata));
+    }
+
+    const response = await amsFetch({
+      profile,
+      scope: "app",
+      app: record.app,
+      path: "vods/create",
+      search: `?${new URLSearchParams({ name: record.name })}`,
+      method: "POST",
+      body: form,
+      timeoutMs: PUSH_TIMEOUT_MS,
+    });
+
+    // Kept when AMS fails or answers success: false, so that completing can be retried
+    // without sending the file again. deleteUpload and the TTL sweep remove it
+    if (!response.ok) {
+      return response;
+    }
+
+    const result: { success?: boolean; dataId?: string } = await response.json().catch(() => ({}));
+    if (result.success && result.dataId) {
+      await fs.writeFile(recordPath(id), JSON.stringify({ ...record, vodId: result.dataId }));
+      await fs.rm(partPath(id), { force: true });
+    }
+    return Response.json(result);
+  });
+}
+
+/**
+ * Cancel an upload and delete what was received
+ */
+export function deleteUpload(id: string, session: Session): Promise<void> {
+  return serialized(id, async () => {
+    await readRecord(id, session);
+    await removeFiles(id);
+  });
+}
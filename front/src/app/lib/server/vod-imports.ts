@@ -0,0 +1,299 @@
+/**
+ * Background jobs importing VoD directories on the AMS server
+ * Each job is a .json file in AMS_IMPORT_DIR (default: .data/imports). The AMS
+ * request runs after the job is created and may outlast the page that started
+ * it; the browser polls the job
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { Vod } from "../../client";
+import { ImportFile, validateImportDirectory, VodImport } from "../vod-imports";
+import { amsResult, listVods, RequestError, Target } from "./bff";
+
+/**
+ * Stored job, with the server it runs against
+ */
+interface ImportRecord {
+  job: VodImport;
+  profileId: string;
+  /** Process running the import; a running job of another process was interrupted */
+  pid: number;
+}
+
+const IMPORT_DIR = process.env.AMS_IMPORT_DIR || path.join(process.cwd(), ".data", "imports");
+
+/** AMS reads every file of the directory: 1 hour by default */
+const IMPORT_TIMEOUT_MS = Number(process.env.AMS_IMPORT_TIMEOUT_MS) || 60 * 60 * 1000;
+
+/** Jobs are kept for 30 days */
+const JOB_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Extensions of the files AMS imports as VoDs */
+const VIDEO_EXTENSIONS = [".mp4", ".webm", ".mkv", ".flv", ".mov", ".m3u8"];
+
+/**
+ * Whether the dashboard lists the imported directories itself to find the
+ * files AMS left out. Only meaningful, and only allowed, when it runs on the
+ * AMS host: the listed names are kept in the job
+ */
+const LIST_FILES = process.env.AMS_IMPORT_LIST_FILES === "1";
+
+/** Files listed at most, so that a huge directory doesn't stall the job */
+const MAX_LISTED_FILES = 10000;
+
+const recordPath = (id: string) => path.join(IMPORT_DIR, `${id}.json`);
+
+async function writeRecord(record: ImportRecord) {
+  await fs.mkdir(IMPORT_DIR, { recursive: true });
+  await fs.writeFile(recordPath(record.job.id), JSON.stringify(record));
+}
+
+async function readRecords(): Promise<ImportRecord[]> {
+  const entries = await fs.readdir(IMPORT_DIR).catch(() => []);
+  const records = await Promise.all(
+    entries
+      .filter((entry) => entry.endsWith(".json"))
+      .map(async (entry) => {
+        try {
+          return JSON.parse(await fs.readFile(path.join(IMPORT_DIR, entry), "utf8")) as ImportRecord;
+        } catch {
+          return null;
+        }
+      })
+  );
+
+  return records.filter((record): record is ImportRecord => record !== null);
+}
+
+/**
+ * Browser view of a job; a job left running by a stopped server shows as failed
+ */
+function toImport({ job, pid }: ImportRecord): VodImport {
+  if (job.status === "running" && pid !== process.pid) {
+    return { ...job, status: "failed", message: "The dashboard server stopped during the import" };
+  }
+  return job;
+}
+
+/**
+ * Path of a VoD file relative to the imported directory, or null when the VoD comes from elsewhere
+ * AMS links the directory into its streams folder under the directory's name
+ */
+function relativeName(vod: Vod, directory: string): string | null {
+  if (vod.type !== "userVod" || !vod.filePath) return null;
+
+  const filePath = vod.filePath.replace(/\\/g, "/");
+  const base = directory.replace(/\\/g, "/").replace(/\/+$/, "");
+  for (const prefix of [`${base}/`, `streams/${path.posix.basename(base)}/`]) {
+    if (filePath.startsWith(prefix)) return filePath.slice(prefix.length);
+  }
+  return null;
+}
+
+/**
+ * VoDs of the directory, by relative file name
+ */
+async function directoryVods(target: Target, directory: string): Promise<Map<string, Vod>> {
+  const vods = new Map<string, Vod>();
+  for (const vod of await listVods(target)) {
+    const name = relativeName(vod, directory);
+    if (name !== null) vods.set(name, vod);
+  }
+  return vods;
+}
+
+/**
+ * Files of the directory, relative to it, when AMS_IMPORT_LIST_FILES is set
+ * Symbolic links are not followed; the walk stops at MAX_LISTED_FILES
+ * @returns null when listing is off or the directory can't be read from here
+ */
+async function listFiles(directory: string): Promise<string[] | null> {
+  if (!LIST_FILES) return null;
+
+  const files: string[] = [];
+  const walk = async (relative: string) => {
+    for await (const entry of await fs.opendir(path.join(directory, relative))) {
+      if (files.length >= MAX_LISTED_FILES) return;
+
+      const name = relative ? `${relative}/${entry.name}` : entry.name;
+      if (entry.isFile()) {
+        files.push(name);
+      } else if (entry.isDirectory()) {
+        await walk(name);
+      }
+    }
+  };
+
+  try {
+    await walk("");
+    return files;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * AMS request of a job
+ */
+function amsDirectoryRequest(target: Target, directory: string, method: "POST" | "DELETE") {
+  return amsResult({
+    profile: target.profile,
+    scope: "app",
+    app: target.app,
+    path: "vods/directory",
+    search: `?${new URLSearchParams({ directory })}`,
+    method,
+    timeoutMs: IMPORT_TIMEOUT_MS,
+  });
+}
+
+/**
+ * Run the import and record which files became VoDs
+ */
+async function runImport(record: ImportRecord, target: Target) {
+  const { job } = record;
+  const { directory } = job;
+
+  try {
+    const before = await directoryVods(target, directory);
+    const files = await listFiles(directory);
+    const result = await amsDirectoryRequest(target, directory, "POST");
+    const after = await directoryVods(target, directory);
+
+    const imported: ImportFile[] = [];
+    const skipped: ImportFile[] = [];
+    for (const [name, vod] of after) {
+      if (before.has(name)) {
+        skipped.push({ name, vodId: vod.vodId, reason: "Already imported" });
+      } else {
+        imported.push({ name, vodId: vod.vodId });
+      }
+    }
+
+    const failed: ImportFile[] = [];
+    for (const name of files ?? []) {
+      if (after.has(name)) continue;
+      if (VIDEO_EXTENSIONS.includes(path.extname(name).toLowerCase())) {
+        failed.push({ name, reason: "Ant Media did not import it" });
+      } else {
+        skipped.push({ name, reason: "Not a video file" });
+      }
+    }
+
+    Object.assign(job, {
+      status: "done",
+      message: result.message,
+      listed: files !== null,
+      imported,
+      skipped,
+      failed,
+    });
+  } catch (error) {
+    console.error(`Error importing ${directory}:`, error);
+    Object.assign(job, { status: "failed", message: error instanceof Error ? error.message : String(error) });
+  }
+
+  job.finishedAt = Date.now();
+  await writeRecord(record);
+}
+
+/**
+ * Delete the jobs older than JOB_TTL_MS
+ */
+async function pruneImports(records: ImportRecord[]) {
+  const now = Date.now();
+  await Promise.all(
+    records
+      .filter(({ job }) => now - job.startedAt > JOB_TTL_MS)
+      .map(({ job }) => fs.rm(recordPath(job.id), { force: true }))
+  );
+}
+
+/**
+ * Imports of the target's application, newest first
+ */
+export async function listImports(target: Target): Promise<VodImport[]> {
+  return (await readRecords())
+    .filter((record) => record.profileId === target.profile.id && record.job.app === target.app)
+    .sort((a, b) => b.job.startedAt - a.job.startedAt)
+    .map(toImport);
+}
+
+/**
+ * Start importing a directory in the background
+ * @param owner - Email of the signed-in user
+ * @throws RequestError 400 for an invalid path, 409 while the directory is being imported
+ */
+export async function startImport(directory: string, target: Target, owner: string): Promise<VodImport> {
+  const invalid = validateImportDirectory(typeof directory === "string" ? directory : "");
+  if (invalid) {
+    throw new RequestError(400, invalid);
+  }
+
+  const records = await readRecords();
+  await pruneImports(records);
+
+  const value = directory.trim().replace(/[\\/]+$/, "");
+  const running = records
+    .filter((record) => record.profileId === target.profile.id)
+    .map(toImport)
+    .find((job) => job.status === "running" && job.app === target.app && job.directory === value);
+  if (running) {
+    throw new RequestError(409, `${value} is already being imported`);
+  }
+
+  const record: ImportRecord = {
+    job: {
+      id: crypto.randomUUID(),
+      directory: value,
+      app: target.app,
+      status: "running",
+      startedBy: owner,
+      startedAt: Date.now(),
+      listed: false,
+      imported: [],
+      skipped: [],
+      failed: [],
+    },
+    profileId: target.profile.id,
+    pid: process.pid,
+  };
+  await writeRecord(record);
+
+  // Not awaited: the job outlives the request
+  runImport(record, target).catch((error) => console.error("Error saving import:", error));
+
+  return toImport(record);
+}
+
+/**
+ * Undo an import: AMS deletes the VoD records of the directory, including the
+ * ones imported before, but keeps the files
+ * @throws RequestError 409 unless the import is done
+ */
+export async function unlinkImport(id: string, target: Target): Promise<VodImport> {
+  if (!/^[\w-]+$/.test(id)) {
+    throw new RequestError(400, "Invalid import id");
+  }
+
+  let record: ImportRecord;
+  try {
+    record = JSON.parse(await fs.readFile(recordPath(id), "utf8"));
+  } catch {
+    throw new RequestError(404, `Import ${id} does not exist`);
+  }
+  if (record.profileId !== target.profile.id || record.job.app !== target.app) {
+    throw new RequestError(404, `Import ${id} does not exist`);
+  }
+  if (toImport(record).status !== "done") {
+    throw new RequestError(409, "Only finished imports can be unlinked");
+  }
+
+  await amsDirectoryRequest(target, record.job.directory, "DELETE");
+
+  record.job.status = "unlinked";
+  record.job.unlinkedAt = Date.now();
+  await writeRecord(record);
+  return toImport(record);
+}
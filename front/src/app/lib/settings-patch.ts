@@ -0,0 +1,190 @@
+/**
+ * Field-level diff and three-way merge of Ant Media application settings
+ * Used by AntMediaClient.patchSettings so that concurrent edits of the same
+ * application don't silently overwrite each other
+ */
+
+import { ConflictError } from "./errors";
+
+type SettingsRecord = Record<string, unknown>;
+
+/**
+ * A top-level settings field changed by the caller
+ */
+export interface SettingsChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * A field that was changed both by the caller and by someone else
+ */
+export interface SettingsConflict {
+  field: string;
+  /** Value the caller started from */
+  base: unknown;
+  /** Value the caller wants to write */
+  ours: unknown;
+  /** Value currently on the server */
+  theirs: unknown;
+}
+
+/**
+ * How patchSettings resolves concurrent changes to the same field
+ * - "merge": merge keyed lists (e.g. encoderSettings by height), raise on real conflicts
+ * - "error": raise on any concurrent change to a field the caller changed
+ * - "overwrite": the caller's value wins
+ */
+export type ConflictStrategy = "merge" | "error" | "overwrite";
+
+/**
+ * List fields merged item by item, with the property identifying an item
+ */
+export const KEYED_LIST_FIELDS: Record<string, string> = {
+  encoderSettings: "height",
+};
+
+/**
+ * Thrown when patchSettings finds concurrent changes it cannot merge
+ */
+export class SettingsConflictError extends ConflictError {
+  public readonly conflicts: SettingsConflict[];
+
+  constructor(conflicts: SettingsConflict[], endpoint: string) {
+    super(
+      `Settings were changed by someone else: ${conflicts.map((c) => c.field).join(", ")}`,
+      { endpoint, method: "POST", status: 409 }
+    );
+    this.conflicts = conflicts;
+  }
+}
+
+/**
+ * Structural equality for JSON values
+ */
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+  for (const key of keys) {
+    if (!isEqual(aRecord[key], bRecord[key])) return false;
+  }
+  return true;
+}
+
+/**
+ * Top-level fields that differ between two settings objects
+ */
+export function diffSettings<T extends object>(base: T, desired: T): SettingsChange[] {
+  const from = base as SettingsRecord;
+  const to = desired as SettingsRecord;
+  const fields = new Set([...Object.keys(from), ...Object.keys(to)]);
+  const changes: SettingsChange[] = [];
+
+  for (const field of fields) {
+    if (!isEqual(from[field], to[field])) {
+      changes.push({ field, from: from[field], to: to[field] });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Three-way merge of a keyed list, e.g. encoder profiles keyed by height
+ * @returns Merged list, or null if the same item was changed differently on both sides
+ */
+function mergeKeyedList(
+  base: unknown,
+  ours: unknown,
+  theirs: unknown,
+  key: string
+): unknown[] | null {
+  const toMap = (list: unknown) =>
+    new Map(
+      (Array.isArray(list) ? list : []).map((item) => [
+        (item as Record<string, unknown>)?.[key],
+        item,
+      ])
+    );
+  const baseItems = toMap(base);
+  const ourItems = toMap(ours);
+  const theirItems = toMap(theirs);
+
+  // Keep their order, then append items only we added
+  const ids = [...theirItems.keys()];
+  for (const id of ourItems.keys()) {
+    if (!theirItems.has(id)) ids.push(id);
+  }
+  for (const id of baseItems.keys()) {
+    if (!ids.includes(id)) ids.push(id);
+  }
+
+  const merged: unknown[] = [];
+  for (const id of ids) {
+    const baseItem = baseItems.get(id);
+    const ourItem = ourItems.get(id);
+    const theirItem = theirItems.get(id);
+
+    let result: unknown;
+    if (isEqual(ourItem, baseItem)) {
+      result = theirItem;
+    } else if (isEqual(theirItem, baseItem) || isEqual(theirItem, ourItem)) {
+      result = ourItem;
+    } else {
+      return null;
+    }
+
+    if (result !== undefined) merged.push(result);
+  }
+
+  return merged;
+}
+
+/**
+ * Apply the caller's changes on top of the latest server settings
+ * @param latest - Settings as read right before writing
+ * @param changes - Caller's changes, from diffSettings(base, desired)
+ * @param strategy - Conflict strategy
+ * @returns Settings to write and the conflicts that could not be resolved
+ */
+export function mergeSettings<T extends object>(
+  latest: T,
+  changes: SettingsChange[],
+  strategy: ConflictStrategy = "merge"
+): { merged: T; conflicts: SettingsConflict[] } {
+  const merged: SettingsRecord = { ...(latest as SettingsRecord) };
+  const conflicts: SettingsConflict[] = [];
+
+  for (const { field, from, to } of changes) {
+    const theirs = (latest as SettingsRecord)[field];
+
+    // Nobody else touched the field, or they made the same change
+    if (isEqual(theirs, from) || isEqual(theirs, to) || strategy === "overwrite") {
+      merged[field] = to;
+      continue;
+    }
+
+    const key = KEYED_LIST_FIELDS[field];
+    const mergedList = strategy === "merge" && key ? mergeKeyedList(from, to, theirs, key) : null;
+
+    if (mergedList) {
+      merged[field] = mergedList;
+    } else {
+      conflicts.push({ field, base: from, ours: to, theirs });
+    }
+  }
+
+  return { merged: merged as T, conflicts };
+}
@@ -0,0 +1,89 @@
+/**
+ * Stalker portal integration
+ * AMS pushes the VoDs imported from a directory (type userVod) into the
+ * portal's database, using the portal settings of the application. It only
+ * answers success or failure, so the dashboard keeps a history of the syncs
+ * with the VoDs each one pushed (see lib/server/stalker-syncs.ts)
+ */
+
+import { AppSettings, Vod } from "../client";
+import { dashboardRequest, DashboardTarget } from "./dashboard-api";
+
+/**
+ * Application settings used by the Stalker import
+ */
+export type StalkerSettings = Required<
+  Pick<AppSettings, "stalkerDBServer" | "stalkerDBUsername" | "stalkerDBPassword" | "vodFolder">
+>;
+
+export const STALKER_FIELDS: { field: keyof StalkerSettings; label: string }[] = [
+  { field: "stalkerDBServer", label: "Portal database server" },
+  { field: "stalkerDBUsername", label: "Database username" },
+  { field: "stalkerDBPassword", label: "Database password" },
+  { field: "vodFolder", label: "VoD folder" },
+];
+
+export type StalkerSyncStatus = "success" | "failed";
+
+/**
+ * Past run of the Stalker import
+ */
+export interface StalkerSync {
+  id: string;
+  app: string;
+  status: StalkerSyncStatus;
+  /** Email of the user who ran it */
+  startedBy: string;
+  startedAt: number;
+  finishedAt: number;
+  /** Portal database server at the time of the sync */
+  portal: string;
+  /** AMS message, or the reason of the failure */
+  message?: string;
+  /** VoDs sent to the portal */
+  vods: { vodId: string; name: string }[];
+}
+
+/**
+ * Portal settings of an application, with empty strings for unset fields
+ */
+export function stalkerSettings(settings: AppSettings): StalkerSettings {
+  return {
+    stalkerDBServer: settings.stalkerDBServer ?? "",
+    stalkerDBUsername: settings.stalkerDBUsername ?? "",
+    stalkerDBPassword: settings.stalkerDBPassword ?? "",
+    vodFolder: settings.vodFolder ?? "",
+  };
+}
+
+/**
+ * Labels of the settings AMS needs before it can sync
+ */
+export function missingStalkerSettings(settings: AppSettings): string[] {
+  const values = stalkerSettings(settings);
+  return STALKER_FIELDS.filter(({ field }) => !values[field].trim()).map(({ label }) => label);
+}
+
+/**
+ * Whether AMS sends a VoD to the portal: only VoDs imported from a directory
+ */
+export function isPushedToStalker(vod: Vod): boolean {
+  return vod.type === "userVod";
+}
+
+const request = <T>(target: DashboardTarget, init?: RequestInit) =>
+  dashboardRequest<T>("/api/stalker-syncs", target, init, "Stalker request failed");
+
+/**
+ * Syncs of the application, newest first
+ */
+export function listStalkerSyncs(target: DashboardTarget, signal?: AbortSignal) {
+  return request<StalkerSync[]>(target, { signal });
+}
+
+/**
+ * Push the VoDs to the portal; the sync is recorded whether it succeeds or fails
+ */
+export function runStalkerSync(target: DashboardTarget) {
+  return request<StalkerSync>(target, { method: "POST" });
+}
@@ -0,0 +1,218 @@
+/**
+ * Viewer count, bitrate and status samples of live broadcasts
+ * Kept in the browser's IndexedDB, so charts survive reloads. Samples are
+ * only taken while the dashboard is open (see components/stream-sampler.tsx)
+ */
+
+import { Broadcast } from "../client";
+
+/** Interval between two samples of the live broadcasts */
+export const SAMPLE_INTERVAL_MS = 10000;
+
+/** Samples older than this are deleted: 7 days */
+export const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const DATABASE_NAME = "ams-stream-stats";
+const STORE = "samples";
+
+/**
+ * One sample of a broadcast
+ */
+export interface StreamSample {
+  /** Scope and stream id, see streamKey */
+  stream: string;
+  time: number;
+  hlsViewers: number;
+  webRTCViewers: number;
+  rtmpViewers: number;
+  /** Incoming bitrate in bits per second */
+  bitrate: number;
+  status: string;
+}
+
+/**
+ * Peak and average viewers over the samples of a window
+ */
+export interface ViewerSummary {
+  peak: number;
+  average: number;
+  samples: number;
+}
+
+export type StatsWindow = "hour" | "day" | "lifetime";
+
+export const STATS_WINDOWS: { id: StatsWindow; label: string }[] = [
+  { id: "hour", label: "Last hour" },
+  { id: "day", label: "Last 24 hours" },
+  { id: "lifetime", label: "Broadcast lifetime" },
+];
+
+/**
+ * Scope of the samples: the same stream id on another server or application is another stream
+ */
+export function statsScope(profileId: string, appName: string): string {
+  return `${profileId}/${appName}`;
+}
+
+function streamKey(scope: string, streamId: string): string {
+  return `${scope}/${streamId}`;
+}
+
+/**
+ * First sample time of a window
+ * @param window - Window to show
+ * @param broadcastStart - Start time of the broadcast, for "lifetime"
+ */
+export function windowStart(window: StatsWindow, broadcastStart?: number): number {
+  switch (window) {
+    case "hour":
+      return Date.now() - 60 * 60 * 1000;
+    case "day":
+      return Date.now() - 24 * 60 * 60 * 1000;
+    case "lifetime":
+      return broadcastStart || 0;
+  }
+}
+
+export function totalViewers(sample: StreamSample): number {
+  return sample.hlsViewers + sample.webRTCViewers + sample.rtmpViewers;
+}
+
+/**
+ * Peak and average of the total viewers while the broadcast was live
+ */
+export function summarize(samples: StreamSample[]): ViewerSummary {
+  const live = samples.filter((sample) => sample.status === "broadcasting");
+  if (live.length === 0) return { peak: 0, average: 0, samples: 0 };
+
+  const totals = live.map(totalViewers);
+  const sum = totals.reduce((total, value) => total + value, 0);
+
+  return {
+    peak: totals.reduce((peak, value) => Math.max(peak, value), 0),
+    average: Math.round((sum / totals.length) * 10) / 10,
+    samples: live.length,
+  };
+}
+
+/**
+ * Reduce samples to at most `size`, keeping the sample with the most viewers of each run
+ */
+export function downsample(samples: StreamSample[], size: number): StreamSample[] {
+  if (samples.length <= size) return samples;
+
+  const run = Math.ceil(samples.length / size);
+  const result: StreamSample[] = [];
+  for (let i = 0; i < samples.length; i += run) {
+    const bucket = samples.slice(i, i + run);
+    result.push(bucket.reduce((best, sample) => (totalViewers(sample) > totalViewers(best) ? sample : best)));
+  }
+  return result;
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: ["stream", "time"] });
+        store.createIndex("time", "time");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      database = null;
+      throw error;
+    });
+  }
+
+  return database;
+}
+
+/**
+ * Wait for the transaction of a store to complete
+ */
+function completion(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Store one sample of each broadcast
+ * @param scope - See statsScope
+ * @param broadcasts - Broadcasts to sample, usually the live ones
+ */
+export async function recordSamples(scope: string, broadcasts: Broadcast[], time: number = Date.now()) {
+  if (broadcasts.length === 0) return;
+
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE, "readwrite");
+  const store = transaction.objectStore(STORE);
+
+  for (const broadcast of broadcasts) {
+    if (!broadcast.streamId) continue;
+    const sample: StreamSample = {
+      stream: streamKey(scope, broadcast.streamId),
+      time,
+      hlsViewers: broadcast.hlsViewerCount ?? 0,
+      webRTCViewers: broadcast.webRTCViewerCount ?? 0,
+      rtmpViewers: broadcast.rtmpViewerCount ?? 0,
+      bitrate: broadcast.bitrate ?? 0,
+      status: broadcast.status ?? "",
+    };
+    store.put(sample);
+  }
+
+  await completion(transaction);
+}
+
+/**
+ * Samples of a broadcast, oldest first
+ * @param since - (Optional) First sample time. Default: all samples
+ */
+export async function readSamples(scope: string, streamId: string, since: number = 0): Promise<StreamSample[]> {
+  const db = await openDatabase();
+  const key = streamKey(scope, streamId);
+  const request = db
+    .transaction(STORE, "readonly")
+    .objectStore(STORE)
+    .getAll(IDBKeyRange.bound([key, since], [key, Infinity]));
+
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as StreamSample[]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Viewer summaries of several broadcasts over their whole history
+ * @returns Summaries keyed by stream id
+ */
+export async function readSummaries(scope: string, streamIds: string[]): Promise<Record<string, ViewerSummary>> {
+  const entries = await Promise.all(
+    streamIds.map(async (streamId) => [streamId, summarize(await readSamples(scope, streamId))] as const)
+  );
+  return Object.fromEntries(entries);
+}
+
+/**
+ * Delete the samples older than the retention period
+ */
+export async function pruneSamples(before: number = Date.now() - RETENTION_MS) {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE, "readwrite");
+  const cursor = transaction.objectStore(STORE).index("time").openCursor(IDBKeyRange.upperBound(before, true));
+
+  cursor.onsuccess = () => {
+    if (!cursor.result) return;
+    cursor.result.delete();
+    cursor.result.continue();
+  };
+
+  await completion(transaction);
+}
@@ -0,0 +1,99 @@
+/**
+ * Imports of VoD directories on the AMS server
+ * AMS imports a directory in one long request and only answers success or
+ * failure, so the dashboard runs it as a background job (see
+ * lib/server/vod-imports.ts) and tells the files apart by comparing the VoDs
+ * of the directory before and after the import
+ */
+
+import { dashboardRequest, DashboardTarget } from "./dashboard-api";
+
+export type ImportStatus = "running" | "done" | "failed" | "unlinked";
+
+/**
+ * File of an imported directory
+ */
+export interface ImportFile {
+  /** Path relative to the directory */
+  name: string;
+  /** VoD created for the file */
+  vodId?: string;
+  /** Why the file was skipped or failed */
+  reason?: string;
+}
+
+/**
+ * Import job
+ */
+export interface VodImport {
+  id: string;
+  /** Full path of the directory on the AMS server */
+  directory: string;
+  app: string;
+  status: ImportStatus;
+  /** Email of the user who started it */
+  startedBy: string;
+  startedAt: number;
+  finishedAt?: number;
+  unlinkedAt?: number;
+  /** AMS message, or the reason of the failure */
+  message?: string;
+  /**
+   * Whether the dashboard listed the directory itself (AMS_IMPORT_LIST_FILES,
+   * on the AMS host). Only then are the files AMS left out known; otherwise
+   * failed stays empty
+   */
+  listed: boolean;
+  imported: ImportFile[];
+  skipped: ImportFile[];
+  failed: ImportFile[];
+}
+
+/**
+ * Check a directory path before importing it
+ * @returns Reason the path is rejected, or null when it is valid
+ */
+export function validateImportDirectory(directory: string): string | null {
+  const value = directory.trim();
+
+  if (!value) {
+    return "Enter the full path of a directory on the Ant Media server";
+  }
+  if (!/^(\/|[A-Za-z]:[\\/])/.test(value)) {
+    return "The path must be absolute, e.g. /mnt/recordings";
+  }
+  if ([...value].some((char) => char.charCodeAt(0) < 32)) {
+    return "The path contains control characters";
+  }
+  if (value.split(/[\\/]/).includes("..")) {
+    return "The path must not contain .. segments";
+  }
+  if (/^([A-Za-z]:)?[\\/]*$/.test(value)) {
+    return "The root directory cannot be imported";
+  }
+  return null;
+}
+
+const request = <T>(path: string, target: DashboardTarget, init?: RequestInit) =>
+  dashboardRequest<T>(`/api/vod-imports${path}`, target, init, "Import request failed");
+
+/**
+ * Imports of the application, newest first
+ */
+export function listVodImports(target: DashboardTarget, signal?: AbortSignal) {
+  return request<VodImport[]>("", target, { signal });
+}
+
+/**
+ * Start importing a directory; the job keeps running when the page is left
+ */
+export function startVodImport(directory: string, target: DashboardTarget) {
+  return request<VodImport>("", target, { method: "POST", body: JSON.stringify({ directory: directory.trim() }) });
+}
+
+/**
+ * Undo an import: AMS deletes the VoD records of the directory, not the files
+ */
+export function unlinkVodImport(id: string, target: DashboardTarget) {
+  return request<VodImport>(`/${encodeURIComponent(id)}/unlink`, target, { method: "POST" });
+}
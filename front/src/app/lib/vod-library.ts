@@ -0,0 +1,109 @@
+/**
+ * State of the VoD library page, kept in the page URL like the broadcasts table
+ * AMS searches and filters VoDs by stream, but can neither filter by date nor
+ * sort by size or duration: the matching VoDs are fetched once, then filtered,
+ * sorted and paged here
+ */
+
+import { Vod } from "../client";
+import { SortOrder } from "./broadcast-table";
+
+export type VodSortField = "date" | "name" | "size" | "duration";
+
+export interface VodLibraryState {
+  /** Matches VoD names, stream ids and stream names */
+  search: string;
+  /** Empty: every stream */
+  streamId: string;
+  /** First recording day, yyyy-mm-dd. Empty: no lower bound */
+  from: string;
+  /** Last recording day, yyyy-mm-dd. Empty: no upper bound */
+  to: string;
+  sort: VodSortField;
+  order: SortOrder;
+  /** Zero-based */
+  page: number;
+  pageSize: number;
+}
+
+export const DEFAULT_VOD_STATE: VodLibraryState = {
+  search: "",
+  streamId: "",
+  from: "",
+  to: "",
+  sort: "date",
+  order: "desc",
+  page: 0,
+  pageSize: 25,
+};
+
+export const VOD_PAGE_SIZES = [25, 50, 100];
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+const pick = <T extends string>(value: string | null, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+/**
+ * Read the library state from URL search params; missing or invalid values take their default
+ */
+export function parseVodState(params: URLSearchParams): VodLibraryState {
+  const page = Number(params.get("page"));
+  const pageSize = Number(params.get("size"));
+  const day = (name: string) => {
+    const value = params.get(name) ?? "";
+    return DAY.test(value) ? value : "";
+  };
+
+  return {
+    search: params.get("q") ?? DEFAULT_VOD_STATE.search,
+    streamId: params.get("stream") ?? DEFAULT_VOD_STATE.streamId,
+    from: day("from"),
+    to: day("to"),
+    sort: pick(params.get("sort"), ["date", "name", "size", "duration"], DEFAULT_VOD_STATE.sort),
+    order: pick(params.get("order"), ["asc", "desc"], DEFAULT_VOD_STATE.order),
+    // 1-based in the URL
+    page: Number.isInteger(page) && page > 1 ? page - 1 : DEFAULT_VOD_STATE.page,
+    pageSize: VOD_PAGE_SIZES.includes(pageSize) ? pageSize : DEFAULT_VOD_STATE.pageSize,
+  };
+}
+
+/**
+ * URL query of a library state, without the default values
+ */
+export function vodStateQuery(state: VodLibraryState): string {
+  const params = new URLSearchParams();
+  if (state.search) params.set("q", state.search);
+  if (state.streamId) params.set("stream", state.streamId);
+  if (state.from) params.set("from", state.from);
+  if (state.to) params.set("to", state.to);
+  if (state.sort !== DEFAULT_VOD_STATE.sort) params.set("sort", state.sort);
+  if (state.order !== DEFAULT_VOD_STATE.order) params.set("order", state.order);
+  if (state.page > 0) params.set("page", String(state.page + 1));
+  if (state.pageSize !== DEFAULT_VOD_STATE.pageSize) params.set("size", String(state.pageSize));
+  return params.toString();
+}
+
+/** Recording time of a VoD */
+export const vodDate = (vod: Vod) => vod.creationDate ?? vod.startTime ?? 0;
+
+const SORT_KEYS: Record<VodSortField, (vod: Vod) => number | string> = {
+  date: vodDate,
+  name: (vod) => (vod.vodName ?? "").toLowerCase(),
+  size: (vod) => vod.fileSize ?? 0,
+  duration: (vod) => vod.duration ?? 0,
+};
+
+/**
+ * Apply the date range and sort order of a state; days are local days, both ends included
+ */
+export function filterVods(vods: Vod[], state: VodLibraryState): Vod[] {
+  const from = state.from ? new Date(`${state.from}T00:00:00`).getTime() : -Infinity;
+  const to = state.to ? new Date(`${state.to}T00:00:00`).getTime() + 24 * 60 * 60 * 1000 : Infinity;
+  const key = SORT_KEYS[state.sort];
+  const direction = state.order === "asc" ? 1 : -1;
+
+  return vods
+    .filter((vod) => vodDate(vod) >= from && vodDate(vod) < to)
+    .sort((a, b) => (key(a) > key(b) ? direction : key(a) < key(b) ? -direction : 0));
+}
@@ -0,0 +1,128 @@
+/**
+ * Seek bar thumbnails of VoDs
+ * The dashboard's /api/vod-thumbnails routes serve a JPEG sprite per VoD and a
+ * WebVTT track whose cues point at regions of it (#xywh=x,y,w,h), the format
+ * most web players read (see lib/server/thumbnails.ts)
+ */
+
+import { dashboardFetch, DashboardTarget } from "./dashboard-api";
+
+/**
+ * Grid of a sprite: thumbnails left to right, top to bottom, one every interval seconds
+ */
+export interface SpriteLayout {
+  /** Seconds between thumbnails */
+  interval: number;
+  count: number;
+  columns: number;
+  /** Size of one thumbnail in px */
+  width: number;
+  height: number;
+  /** VoD duration in seconds */
+  duration: number;
+}
+
+/**
+ * Thumbnail shown for a time range
+ */
+export interface ThumbnailCue {
+  /** Seconds */
+  start: number;
+  end: number;
+  /** Region of the sprite in px */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * VoD thumbnails loaded in the browser
+ */
+export interface VodThumbnails {
+  cues: ThumbnailCue[];
+  /** Object URL of the sprite; revoke it when done */
+  spriteUrl: string;
+}
+
+/** hh:mm:ss.mmm */
+function vttTime(seconds: number): string {
+  const ms = Math.round(seconds * 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+}
+
+function parseVttTime(value: string): number {
+  const [seconds, ...rest] = value.trim().split(":").reverse();
+  return rest.reduce((total, part, index) => total + Number(part) * 60 ** (index + 1), Number(seconds));
+}
+
+/**
+ * WebVTT track of a sprite
+ * @param spriteUrl - URL of the sprite image the cues point at
+ */
+export function thumbnailVtt(layout: SpriteLayout, spriteUrl: string): string {
+  const cues = Array.from({ length: layout.count }, (_, index) => {
+    const start = index * layout.interval;
+    const end = Math.min(layout.duration, start + layout.interval);
+    const x = (index % layout.columns) * layout.width;
+    const y = Math.floor(index / layout.columns) * layout.height;
+
+    return `${vttTime(start)} --> ${vttTime(end)}\n${spriteUrl}#xywh=${x},${y},${layout.width},${layout.height}`;
+  });
+
+  return `WEBVTT\n\n${cues.join("\n\n")}\n`;
+}
+
+/**
+ * Read the cues of a thumbnail track; cues without an #xywh region are skipped
+ */
+export function parseThumbnailVtt(text: string): ThumbnailCue[] {
+  const cues: ThumbnailCue[] = [];
+
+  for (const block of text.replace(/\r/g, "").split(/\n{2,}/)) {
+    const lines = block.split("\n");
+    const timing = lines.findIndex((line) => line.includes("-->"));
+    const region = /#xywh=(\d+),(\d+),(\d+),(\d+)/.exec(lines[timing + 1] ?? "");
+    if (timing < 0 || !region) continue;
+
+    const [start, end] = lines[timing].split("-->").map((time) => parseVttTime(time.split(/\s/).find(Boolean) ?? ""));
+    const [x, y, width, height] = region.slice(1).map(Number);
+    cues.push({ start, end, x, y, width, height });
+  }
+
+  return cues;
+}
+
+/**
+ * Cue covering a time, or the closest one before it
+ */
+export function thumbnailAt(cues: ThumbnailCue[], seconds: number): ThumbnailCue | undefined {
+  let found: ThumbnailCue | undefined;
+  for (const cue of cues) {
+    if (cue.start > seconds) break;
+    found = cue;
+  }
+  return found;
+}
+
+/**
+ * Load the thumbnail track and sprite of a VoD; the sprite is generated on first use, which can take a while
+ * @param target - Connection profile and application of the VoD
+ * @throws AntMediaError subclass matching the failure, e.g. when the server has no ffmpeg
+ */
+export async function loadVodThumbnails(
+  vodId: string,
+  target: DashboardTarget,
+  signal?: AbortSignal
+): Promise<VodThumbnails> {
+  // Cached like any image: the sprite of a VoD doesn't change
+  const get = (url: string) => dashboardFetch(url, target, { cache: "default", signal }, "Failed to load thumbnails");
+
+  const base = `/api/vod-thumbnails/${encodeURIComponent(vodId)}`;
+  // The track first: it waits for the sprite to be generated
+  const cues = parseThumbnailVtt(await (await get(base)).text());
+  const sprite = await (await get(`${base}/sprite`)).blob();
+
+  return { cues, spriteUrl: URL.createObjectURL(sprite) };
+}
@@ -0,0 +1,233 @@
+/**
+ * Resumable VoD uploads from the browser
+ * Files are sent in chunks to the dashboard's /api/uploads routes, which push
+ * the complete file to AMS vods/create (see lib/server/uploads.ts). The upload
+ * id is remembered per file, so picking the same file again after a dropped
+ * connection or a reload resumes where the server stands
+ */
+
+import { dashboardRequest, DashboardTarget } from "./dashboard-api";
+import { AntMediaError, ConflictError, NetworkError, NotFoundError } from "./errors";
+import { computeBackoffDelay, isAbortError, RetryPolicy, sleep } from "./retry";
+
+/**
+ * Upload to start
+ */
+export interface UploadInput {
+  /** VoD name in AMS */
+  name: string;
+  fileName: string;
+  /** File size in bytes */
+  size: number;
+  /** (Optional) Custom metadata stored with the VoD */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Upload as the server knows it
+ */
+export interface UploadInfo extends UploadInput {
+  id: string;
+  /** Bytes received so far; the next chunk starts here */
+  received: number;
+}
+
+export type UploadState = "queued" | "uploading" | "paused" | "completing" | "done" | "failed" | "cancelled";
+
+export interface UploadProgress {
+  state: UploadState;
+  /** Bytes the server has received */
+  sent: number;
+  total: number;
+  /** Reason of the failure */
+  error?: string;
+  /** Id of the created VoD, once done */
+  vodId?: string;
+}
+
+/**
+ * Bytes per request. Stays below the 10 MB request body limit of Next.js
+ * requests that go through the proxy (src/proxy.ts)
+ */
+export const CHUNK_SIZE = 4 * 1024 * 1024;
+
+/** Chunks are retried longer than REST calls: connections drop during long uploads */
+const CHUNK_RETRY_POLICY: RetryPolicy = {
+  retries: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+/** localStorage key prefix of the upload ids */
+const STORAGE_PREFIX = "ams.upload:";
+
+/**
+ * One file uploaded in chunks, with pause, resume and cancel
+ */
+export class VodUpload {
+  private progress: UploadProgress;
+  private uploadId: string | null = null;
+  private controller: AbortController | null = null;
+
+  /**
+   * @param file - File to upload
+   * @param input - VoD name and metadata
+   * @param target - Connection profile and application the VoD goes to
+   * @param onChange - Called with every progress change
+   */
+  constructor(
+    public readonly file: File,
+    private readonly input: { name: string; metadata?: Record<string, unknown> },
+    private readonly target: DashboardTarget,
+    private readonly onChange: (progress: UploadProgress) => void
+  ) {
+    this.progress = { state: "queued", sent: 0, total: file.size };
+  }
+
+  get state(): UploadState {
+    return this.progress.state;
+  }
+
+  /**
+   * Start or resume the upload; resolves once it is done, paused, cancelled or failed
+   */
+  public async start(): Promise<void> {
+    if (["uploading", "completing", "done", "cancelled"].includes(this.progress.state)) return;
+
+    const controller = new AbortController();
+    this.controller = controller;
+    this.update({ state: "uploading", error: undefined });
+
+    try {
+      let info = await this.open(controller.signal);
+
+      while (info.received < info.size) {
+        info = await this.sendChunk(info, controller.signal);
+        this.update({ sent: info.received });
+      }
+
+      this.update({ state: "completing" });
+      const result = await this.request<{ success?: boolean; message?: string; dataId?: string }>(
+        `/${info.id}/complete`,
+        { method: "POST", signal: controller.signal }
+      );
+      if (!result.success) {
+        throw new Error(result.message || "Ant Media rejected the file");
+      }
+
+      localStorage.removeItem(this.storageKey);
+      this.update({ state: "done", vodId: result.dataId });
+    } catch (error) {
+      // Pause and cancel have already set the state
+      if (isAbortError(error) || controller.signal.aborted) return;
+      this.update({ state: "failed", error: error instanceof Error ? error.message : String(error) });
+    } finally {
+      if (this.controller === controller) this.controller = null;
+    }
+  }
+
+  /**
+   * Stop sending; start() resumes from the bytes the server has
+   */
+  public pause() {
+    if (this.progress.state !== "uploading") return;
+    this.controller?.abort();
+    this.update({ state: "paused" });
+  }
+
+  /**
+   * Stop and delete what the server received
+   */
+  public async cancel() {
+    if (this.progress.state === "done" || this.progress.state === "cancelled") return;
+    this.controller?.abort();
+    this.update({ state: "cancelled" });
+
+    const uploadId = this.uploadId ?? localStorage.getItem(this.storageKey);
+    localStorage.removeItem(this.storageKey);
+    if (uploadId) {
+      await this.request(`/${uploadId}`, { method: "DELETE" }).catch((error) =>
+        console.error("Error deleting upload:", error)
+      );
+    }
+  }
+
+  /** Same file, server and application: same upload */
+  private get storageKey(): string {
+    const { name, size, lastModified } = this.file;
+    return `${STORAGE_PREFIX}${this.target.profileId ?? ""}/${this.target.appName}/${name}/${size}/${lastModified}`;
+  }
+
+  private update(changes: Partial<UploadProgress>) {
+    this.progress = { ...this.progress, ...changes };
+    this.onChange(this.progress);
+  }
+
+  /**
+   * The upload started earlier for this file, or a new one
+   */
+  private async open(signal: AbortSignal): Promise<UploadInfo> {
+    const previous = this.uploadId ?? localStorage.getItem(this.storageKey);
+
+    if (previous) {
+      try {
+        const info = await this.request<UploadInfo>(`/${previous}`, { signal });
+        this.uploadId = info.id;
+        this.update({ sent: info.received });
+        return info;
+      } catch (error) {
+        // Expired or completed meanwhile: start over
+        if (!(error instanceof NotFoundError)) throw error;
+      }
+    }
+
+    const input: UploadInput = {
+      name: this.input.name,
+      fileName: this.file.name,
+      size: this.file.size,
+      metadata: this.input.metadata,
+    };
+    const info = await this.request<UploadInfo>("", { method: "POST", body: JSON.stringify(input), signal });
+    this.uploadId = info.id;
+    localStorage.setItem(this.storageKey, info.id);
+    this.update({ sent: 0 });
+    return info;
+  }
+
+  /**
+   * Send the chunk at info.received, retrying transport and server failures
+   * @returns Upload after the chunk
+   */
+  private async sendChunk(info: UploadInfo, signal: AbortSignal): Promise<UploadInfo> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.request<UploadInfo>(`/${info.id}`, {
+          method: "PUT",
+          headers: { "Upload-Offset": String(info.received) },
+          body: this.file.slice(info.received, info.received + CHUNK_SIZE),
+          signal,
+        });
+      } catch (error) {
+        // The server has more or less than we thought, e.g. after a lost response: continue from there
+        if (error instanceof ConflictError) {
+          return this.request<UploadInfo>(`/${info.id}`, { signal });
+        }
+
+        const retryable =
+          error instanceof NetworkError ||
+          (error instanceof AntMediaError && error.status !== undefined && error.status >= 500);
+        if (!retryable || attempt >= CHUNK_RETRY_POLICY.retries) throw error;
+
+        await sleep(computeBackoffDelay(CHUNK_RETRY_POLICY, attempt), signal);
+      }
+    }
+  }
+
+  /**
+   * Send a request to the /api/uploads routes
+   * @throws AntMediaError subclass matching the failure
+   */
+  private request<T>(path: string, init: RequestInit): Promise<T> {
+    return dashboardRequest<T>(`/api/uploads${path}`, this.target, init, "Upload request failed");
+  }
+}
@@ -143,6 +143,49 @@ export function formatWebSocketUrl(
   return `${wsProtocol}://${host}:${port}/${appName}/websocket`;
 }
 
+/**
+ * Check that the signaling WebSocket accepts connections and answers a ping
+ * @param websocketUrl - URL from formatWebSocketUrl
+ * @param timeoutMs - Time to wait for the pong. Default: 5000
+ * @returns Round-trip time of the ping in ms
+ * @throws Error when the connection fails or no pong arrives in time
+ */
+export function checkWebSocket(websocketUrl: string, timeoutMs: number = 5000): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(websocketUrl);
+    let sentAt = 0;
+
+    const finish = (error?: Error) => {
+      clearTimeout(timer);
+      // Closing a failed socket fires onerror again
+      socket.onopen = socket.onmessage = socket.onerror = null;
+      socket.close();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(Date.now() - sentAt);
+      }
+    };
+    const timer = setTimeout(
+      () => finish(new Error(`No answer from ${websocketUrl} within ${timeoutMs}ms`)),
+      timeoutMs
+    );
+
+    socket.onopen = () => {
+      sentAt = Date.now();
+      socket.send(JSON.stringify({ command: "ping" }));
+    };
+    socket.onmessage = (event) => {
+      try {
+        if (JSON.parse(event.data).command === "pong") finish();
+      } catch {
+        // Not JSON, keep waiting
+      }
+    };
+    socket.onerror = () => finish(new Error(`Could not connect to ${websocketUrl}`));
+  });
+}
+
 /**
  * Check if browser supports screen sharing
  */
@@ -0,0 +1,123 @@
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useAntMediaClient } from "../lib/ant-media-context";
+import { AntMediaError, NetworkError } from "../lib/errors";
+
+/**
+ * Page to return to after login. Only same-origin paths are accepted
+ */
+function safeNext(next: string | null): string {
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/";
+}
+
+function LoginForm() {
+  const client = useAntMediaClient();
+  const router = useRouter();
+  const next = safeNext(useSearchParams().get("next"));
+
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A fresh server has no account to sign in with yet
+  useEffect(() => {
+    client
+      .isFirstLogin()
+      .then((firstLogin) => {
+        if (firstLogin) router.replace("/setup");
+      })
+      .catch((error) => console.error("Error checking server status:", error));
+  }, [client, router]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const result = await client.authenticate(email, password);
+      if (result.success) {
+        router.replace(next);
+        return;
+      }
+      setError("Invalid email or password");
+    } catch (error) {
+      console.error("Error signing in:", error);
+      if (error instanceof NetworkError) {
+        setError("Server unreachable");
+      } else if (error instanceof AntMediaError && error.status === 401) {
+        setError("Invalid email or password");
+      } else {
+        setError(error instanceof Error ? error.message : "Sign in failed");
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div>
+        <label htmlFor="email" className="block text-sm font-semibold text-gray-800 mb-2">
+          Email
+        </label>
+        <input
+          id="email"
+          type="email"
+          autoComplete="username"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className="w-full px-4 py-3 border-2 border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 font-medium bg-white"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="password" className="block text-sm font-semibold text-gray-800 mb-2">
+          Password
+        </label>
+        <input
+          id="password"
+          type="password"
+          autoComplete="current-password"
+          required
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="w-full px-4 py-3 border-2 border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 font-medium bg-white"
+        />
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={submitting}
+        className="w-full px-4 py-3 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+      >
+        {submitting ? "Signing in..." : "Sign in"}
+      </button>
+    </form>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-md bg-white rounded-lg shadow-md border border-gray-200 p-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Sign in</h1>
+        <p className="text-gray-600 mb-6">Use your Ant Media Server account</p>
+        {/* useSearchParams needs a Suspense boundary */}
+        <Suspense>
+          <LoginForm />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
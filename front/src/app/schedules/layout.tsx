@@ -0,0 +1,13 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Schedules - Ant Media POS",
+};
+
+export default function SchedulesLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return children;
+}
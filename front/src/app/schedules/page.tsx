@@ -0,0 +1,662 @@
+"use client";
+
+import Link from "next/link";
+import { FormEvent, useEffect, useState } from "react";
+import { Broadcast } from "../client";
+import { ACTION_COLORS, ScheduleCalendar } from "../components/schedule-calendar";
+import { useAntMedia } from "../lib/ant-media-context";
+import { DEFAULT_FILE_NAME_TEMPLATE, RECORD_FORMATS, RecordFormat } from "../lib/recording";
+import { isAbortError } from "../lib/retry";
+import {
+  createSchedule,
+  deleteSchedule,
+  describeRecurrence,
+  Frequency,
+  listSchedules,
+  RunStatus,
+  Schedule,
+  SCHEDULE_ACTIONS,
+  ScheduleAction,
+  ScheduleInput,
+  scheduleInput,
+  updateSchedule,
+  validateSchedule,
+  WEEKDAYS,
+} from "../lib/schedules";
+
+/** Refresh of the schedules, to show the runs of the server */
+const POLL_INTERVAL_MS = 15000;
+
+const inputClassName =
+  "w-full px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900 bg-white text-sm";
+const labelClassName = "block text-sm font-semibold text-gray-800 mb-1";
+
+const RUN_STYLES: Record<RunStatus, { label: string; className: string }> = {
+  success: { label: "Done", className: "text-green-700" },
+  failed: { label: "Failed", className: "text-red-700" },
+  missed: { label: "Missed", className: "text-gray-500" },
+};
+
+/**
+ * Form fields of a schedule, as the inputs hold them
+ */
+interface Draft {
+  name: string;
+  action: ScheduleAction;
+  streamId: string;
+  streamName: string;
+  recordType: RecordFormat;
+  resolutionHeight: number;
+  fileNameTemplate: string;
+  /** datetime-local value */
+  startAt: string;
+  frequency: Frequency;
+  weekdays: number[];
+  /** date value; empty for no end */
+  until: string;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/**
+ * datetime-local value of a time, in the browser's time zone
+ */
+function toDateTimeInput(time: number): string {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function emptyDraft(): Draft {
+  const nextHour = new Date();
+  nextHour.setHours(nextHour.getHours() + 1, 0, 0, 0);
+
+  return {
+    name: "",
+    action: "startRecording",
+    streamId: "",
+    streamName: "",
+    recordType: "mp4",
+    resolutionHeight: 0,
+    fileNameTemplate: DEFAULT_FILE_NAME_TEMPLATE,
+    startAt: toDateTimeInput(nextHour.getTime()),
+    frequency: "once",
+    weekdays: [nextHour.getDay()],
+    until: "",
+  };
+}
+
+function toDraft(schedule: Schedule): Draft {
+  return {
+    name: schedule.name,
+    action: schedule.action,
+    streamId: schedule.streamId ?? "",
+    streamName: schedule.streamName ?? "",
+    recordType: schedule.recordType ?? "mp4",
+    resolutionHeight: schedule.resolutionHeight ?? 0,
+    fileNameTemplate: schedule.fileNameTemplate ?? "",
+    startAt: toDateTimeInput(schedule.startAt),
+    frequency: schedule.recurrence.frequency,
+    weekdays: schedule.recurrence.weekdays.length > 0 ? schedule.recurrence.weekdays : [new Date(schedule.startAt).getDay()],
+    until: schedule.recurrence.until ? toDateTimeInput(schedule.recurrence.until).slice(0, 10) : "",
+  };
+}
+
+function toInput(draft: Draft, enabled: boolean): ScheduleInput {
+  const recording = draft.action === "startRecording" || draft.action === "stopRecording";
+
+  return {
+    name: draft.name.trim(),
+    action: draft.action,
+    streamId: draft.streamId.trim() || undefined,
+    streamName: draft.action === "createBroadcast" ? draft.streamName.trim() : undefined,
+    recordType: recording ? draft.recordType : undefined,
+    resolutionHeight: recording ? draft.resolutionHeight || undefined : undefined,
+    fileNameTemplate: draft.action === "startRecording" ? draft.fileNameTemplate.trim() : undefined,
+    startAt: new Date(draft.startAt).getTime(),
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    recurrence: {
+      frequency: draft.frequency,
+      weekdays: draft.frequency === "weekly" ? draft.weekdays : [],
+      // The end date includes its whole day
+      until: draft.until && draft.frequency !== "once" ? new Date(`${draft.until}T23:59:59`).getTime() : undefined,
+    },
+    enabled,
+  };
+}
+
+export default function SchedulesPage() {
+  const { client, settings, activeProfile } = useAntMedia();
+  const profileId = activeProfile?.id;
+  const appName = settings.appName;
+
+  const [schedules, setSchedules] = useState<Schedule[] | null>(null);
+  const [streams, setStreams] = useState<Broadcast[]>([]);
+  const [heights, setHeights] = useState<number[]>([]);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [now, setNow] = useState(Date.now);
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+  const [editing, setEditing] = useState<Schedule | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const load = () =>
+      listSchedules({ profileId, appName }, controller.signal)
+        .then((list) => {
+          setSchedules(list);
+          setNow(Date.now());
+        })
+        .catch((error) => {
+          if (isAbortError(error)) return;
+          console.error("Error loading schedules:", error);
+          setError(errorMessage(error));
+        });
+
+    load();
+    const timer = setInterval(load, POLL_INTERVAL_MS);
+
+    return () => {
+      controller.abort();
+      clearInterval(timer);
+    };
+  }, [profileId, appName, reloadCount]);
+
+  // Streams and encoder ladder for the form
+  useEffect(() => {
+    const controller = new AbortController();
+
+    client
+      .listAll("broadcasts", { sort_by: "name", order_by: "asc" }, { signal: controller.signal })
+      .then(setStreams)
+      .catch((error) => {
+        if (!isAbortError(error)) console.error("Error loading streams:", error);
+      });
+    client
+      .getSettings({ signal: controller.signal })
+      .then((appSettings) => {
+        const ladder = (appSettings.encoderSettings ?? []).map((setting) => setting.height ?? 0).filter(Boolean);
+        setHeights([...new Set(ladder)].sort((a, b) => b - a));
+      })
+      .catch((error) => {
+        if (!isAbortError(error)) console.error("Error loading encoder settings:", error);
+      });
+
+    return () => controller.abort();
+  }, [client]);
+
+  const update = (changes: Partial<Draft>) => setDraft((current) => ({ ...current, ...changes }));
+
+  const toggleWeekday = (day: number) =>
+    update({
+      weekdays: draft.weekdays.includes(day) ? draft.weekdays.filter((value) => value !== day) : [...draft.weekdays, day],
+    });
+
+  const streamName = (streamId?: string) =>
+    streams.find((stream) => stream.streamId === streamId)?.name || streamId || "a new stream";
+
+  const resetForm = () => {
+    setDraft(emptyDraft());
+    setEditing(null);
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    let input = toInput(draft, editing?.enabled ?? true);
+
+    // Unchanged timing is saved as it was: the form rounds to minutes and uses the browser's time zone
+    const saved = editing && toDraft(editing);
+    if (
+      editing &&
+      saved &&
+      draft.startAt === saved.startAt &&
+      draft.frequency === saved.frequency &&
+      draft.weekdays.join() === saved.weekdays.join() &&
+      draft.until === saved.until
+    ) {
+      const { startAt, timeZone, recurrence } = editing;
+      input = { ...input, startAt, timeZone, recurrence };
+    }
+    const invalid = validateSchedule(input);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      if (editing) {
+        await updateSchedule(editing.id, input, { profileId, appName });
+        setNotice(`Updated ${input.name}.`);
+      } else {
+        await createSchedule(input, { profileId, appName });
+        setNotice(`Scheduled ${input.name}.`);
+      }
+      resetForm();
+      setReloadCount((count) => count + 1);
+    } catch (error) {
+      console.error("Error saving schedule:", error);
+      setError(errorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (schedule: Schedule) => {
+    setBusyId(schedule.id);
+    setError(null);
+    setNotice(null);
+    try {
+      await updateSchedule(schedule.id, { ...scheduleInput(schedule), enabled: !schedule.enabled }, { profileId, appName });
+      setReloadCount((count) => count + 1);
+    } catch (error) {
+      console.error("Error updating schedule:", error);
+      setError(errorMessage(error));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (schedule: Schedule) => {
+    if (!window.confirm(`Delete the schedule ${schedule.name}? Its history is deleted too.`)) {
+      return;
+    }
+
+    setBusyId(schedule.id);
+    setError(null);
+    setNotice(null);
+    try {
+      await deleteSchedule(schedule.id, { profileId, appName });
+      if (editing?.id === schedule.id) resetForm();
+      setNotice(`Deleted ${schedule.name}.`);
+      setReloadCount((count) => count + 1);
+    } catch (error) {
+      console.error("Error deleting schedule:", error);
+      setError(errorMessage(error));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const recording = draft.action === "startRecording" || draft.action === "stopRecording";
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="p-4 lg:p-6">
+        <div className="mx-auto max-w-6xl 2xl:max-w-7xl">
+          {/* Breadcrumbs */}
+          <nav className="mb-4">
+            <ol className="flex items-center space-x-2 text-sm">
+              <li>
+                <Link href="/" className="text-blue-600 hover:text-blue-800 font-medium">
+                  Home
+                </Link>
+              </li>
+              <li className="text-gray-400">/</li>
+              <li className="text-gray-600 font-medium">Schedules</li>
+            </ol>
+          </nav>
+
+          <header className="mb-6">
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">Schedules</h1>
+            <p className="text-gray-600">
+              Create streams, start and stop recordings and delete streams of {appName} at planned times. The dashboard
+              server runs the schedules, so no browser needs to stay open.
+            </p>
+          </header>
+
+          {error && (
+            <div className="mb-6 border-2 border-red-300 bg-red-50 rounded-lg p-4 text-red-800 font-medium">{error}</div>
+          )}
+          {notice && (
+            <div className="mb-6 border-2 border-green-300 bg-green-50 rounded-lg p-4 text-green-800 font-medium">
+              {notice}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6 mb-6">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">{editing ? `Edit ${editing.name}` : "New Schedule"}</h2>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className={labelClassName} htmlFor="schedule-name">
+                  Name
+                </label>
+                <input
+                  id="schedule-name"
+                  value={draft.name}
+                  onChange={(e) => update({ name: e.target.value })}
+                  placeholder="Sunday service"
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className={labelClassName} htmlFor="schedule-action">
+                  Action
+                </label>
+                <select
+                  id="schedule-action"
+                  value={draft.action}
+                  onChange={(e) => update({ action: e.target.value as ScheduleAction })}
+                  className={inputClassName}
+                >
+                  {Object.entries(SCHEDULE_ACTIONS).map(([action, label]) => (
+                    <option key={action} value={action}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {draft.action === "createBroadcast" ? (
+                <div>
+                  <label className={labelClassName} htmlFor="schedule-stream-name">
+                    Stream name
+                  </label>
+                  <input
+                    id="schedule-stream-name"
+                    value={draft.streamName}
+                    onChange={(e) => update({ streamName: e.target.value })}
+                    placeholder="Sunday service"
+                    className={inputClassName}
+                  />
+                </div>
+              ) : (
+                <div>
+                  <label className={labelClassName} htmlFor="schedule-stream">
+                    Stream id
+                  </label>
+                  <input
+                    id="schedule-stream"
+                    list="schedule-streams"
+                    value={draft.streamId}
+                    onChange={(e) => update({ streamId: e.target.value })}
+                    placeholder="Pick a stream or type an id"
+                    className={`${inputClassName} font-mono`}
+                  />
+                  <datalist id="schedule-streams">
+                    {streams.map((stream) => (
+                      <option key={stream.streamId} value={stream.streamId}>
+                        {stream.name}
+                      </option>
+                    ))}
+                  </datalist>
+                </div>
+              )}
+
+              {draft.action === "createBroadcast" && (
+                <div>
+                  <label className={labelClassName} htmlFor="schedule-new-stream-id">
+                    Stream id <span className="font-normal text-gray-500">(optional)</span>
+                  </label>
+                  <input
+                    id="schedule-new-stream-id"
+                    value={draft.streamId}
+                    onChange={(e) => update({ streamId: e.target.value })}
+                    placeholder="Chosen by Ant Media"
+                    className={`${inputClassName} font-mono`}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    A fixed id lets other schedules record or delete the stream before it exists.
+                  </p>
+                </div>
+              )}
+
+              {recording && (
+                <>
+                  <div>
+                    <label className={labelClassName} htmlFor="schedule-format">
+                      Format
+                    </label>
+                    <select
+                      id="schedule-format"
+                      value={draft.recordType}
+                      onChange={(e) => update({ recordType: e.target.value as RecordFormat })}
+                      className={inputClassName}
+                    >
+                      {RECORD_FORMATS.map(({ format, label }) => (
+                        <option key={format} value={format}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClassName} htmlFor="schedule-height">
+                      Resolution
+                    </label>
+                    <select
+                      id="schedule-height"
+                      value={draft.resolutionHeight}
+                      onChange={(e) => update({ resolutionHeight: Number(e.target.value) })}
+                      className={inputClassName}
+                    >
+                      <option value={0}>Source</option>
+                      {heights.map((value) => (
+                        <option key={value} value={value}>
+                          {value}p
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </>
+              )}
+              {draft.action === "startRecording" && (
+                <div>
+                  <label className={labelClassName} htmlFor="schedule-file-name">
+                    File name
+                  </label>
+                  <input
+                    id="schedule-file-name"
+                    value={draft.fileNameTemplate}
+                    onChange={(e) => update({ fileNameTemplate: e.target.value })}
+                    placeholder="Chosen by Ant Media"
+                    className={`${inputClassName} font-mono`}
+                  />
+                </div>
+              )}
+
+              <div>
+                <label className={labelClassName} htmlFor="schedule-start">
+                  {draft.frequency === "once" ? "Date and time" : "First run"}
+                </label>
+                <input
+                  id="schedule-start"
+                  type="datetime-local"
+                  value={draft.startAt}
+                  onChange={(e) => update({ startAt: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className={labelClassName} htmlFor="schedule-frequency">
+                  Repeat
+                </label>
+                <select
+                  id="schedule-frequency"
+                  value={draft.frequency}
+                  onChange={(e) => update({ frequency: e.target.value as Frequency })}
+                  className={inputClassName}
+                >
+                  <option value="once">Once</option>
+                  <option value="daily">Every day</option>
+                  <option value="weekly">Every week</option>
+                </select>
+              </div>
+              {draft.frequency !== "once" && (
+                <div>
+                  <label className={labelClassName} htmlFor="schedule-until">
+                    Until <span className="font-normal text-gray-500">(optional)</span>
+                  </label>
+                  <input
+                    id="schedule-until"
+                    type="date"
+                    value={draft.until}
+                    onChange={(e) => update({ until: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+              )}
+            </div>
+
+            {draft.frequency === "weekly" && (
+              <div className="flex flex-wrap gap-2 mt-4">
+                {WEEKDAYS.map((weekday, day) => (
+                  <label
+                    key={weekday}
+                    className={`px-3 py-1.5 rounded-md border text-sm font-semibold cursor-pointer ${
+                      draft.weekdays.includes(day)
+                        ? "bg-blue-600 border-blue-600 text-white"
+                        : "bg-white border-gray-300 text-gray-700"
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={draft.weekdays.includes(day)}
+                      onChange={() => toggleWeekday(day)}
+                      className="sr-only"
+                    />
+                    {weekday}
+                  </label>
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-center gap-3 mt-6">
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                {saving ? "Saving..." : editing ? "Save Changes" : "Add Schedule"}
+              </button>
+              {editing && (
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="px-4 py-2 bg-white text-gray-800 font-semibold rounded-md border border-gray-300 hover:bg-gray-100 transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
+              <p className="text-xs text-gray-500">
+                Times are in {Intl.DateTimeFormat().resolvedOptions().timeZone}. The server checks for due schedules
+                every 15 seconds.
+              </p>
+            </div>
+          </form>
+
+          <section className="bg-white rounded-lg shadow-md p-6 mb-6">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">Calendar</h2>
+            <ScheduleCalendar schedules={schedules ?? []} now={now} />
+          </section>
+
+          <section className="bg-white rounded-lg shadow-md p-6">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">All Schedules</h2>
+
+            {schedules === null ? (
+              <p className="text-center py-8 text-gray-500">Loading schedules...</p>
+            ) : schedules.length === 0 ? (
+              <p className="text-center py-8 text-gray-500">Nothing is scheduled for {appName} yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {schedules.map((schedule) => (
+                  <li key={schedule.id} className="py-4 flex flex-col md:flex-row md:items-start gap-3">
+                    <div className={`flex-1 min-w-0 ${schedule.enabled ? "" : "opacity-60"}`}>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className={`px-2 py-0.5 text-xs font-semibold rounded ${ACTION_COLORS[schedule.action]}`}>
+                          {SCHEDULE_ACTIONS[schedule.action]}
+                        </span>
+                        <span className="font-semibold text-gray-900">{schedule.name}</span>
+                        <span className="text-sm text-gray-600">
+                          {schedule.action === "createBroadcast"
+                            ? `${schedule.streamName}${schedule.streamId ? ` (${schedule.streamId})` : ""}`
+                            : streamName(schedule.streamId)}
+                          {schedule.recordType && ` · ${schedule.recordType}`}
+                          {schedule.resolutionHeight && ` · ${schedule.resolutionHeight}p`}
+                          {schedule.fileNameTemplate && (
+                            <span className="font-mono"> · {schedule.fileNameTemplate}</span>
+                          )}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-700 mt-1">
+                        {describeRecurrence(schedule.recurrence)} at{" "}
+                        {new Date(schedule.startAt).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" })}
+                        {schedule.timeZone !== Intl.DateTimeFormat().resolvedOptions().timeZone &&
+                          ` (planned in ${schedule.timeZone})`}
+                        {" · "}
+                        {!schedule.enabled
+                          ? "Paused"
+                          : schedule.nextRunAt !== null
+                            ? `Next run ${new Date(schedule.nextRunAt).toLocaleString()}`
+                            : "Ended"}
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">Created by {schedule.createdBy}</p>
+
+                      {schedule.runs.length > 0 && (
+                        <details className="mt-2">
+                          <summary className="cursor-pointer text-sm font-semibold text-gray-800">
+                            Runs ({schedule.runs.length}) — last:{" "}
+                            <span className={RUN_STYLES[schedule.runs[0].status].className}>
+                              {RUN_STYLES[schedule.runs[0].status].label}
+                            </span>
+                          </summary>
+                          <ul className="mt-1 ml-4 max-h-64 overflow-y-auto text-xs space-y-0.5">
+                            {schedule.runs.map((run) => (
+                              <li key={`${run.scheduledAt}-${run.ranAt}`} className="text-gray-700">
+                                <span className={`font-semibold ${RUN_STYLES[run.status].className}`}>
+                                  {RUN_STYLES[run.status].label}
+                                </span>{" "}
+                                {new Date(run.scheduledAt).toLocaleString()}
+                                {run.message && <span className="text-gray-500"> — {run.message}</span>}
+                              </li>
+                            ))}
+                          </ul>
+                        </details>
+                      )}
+                    </div>
+
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleToggle(schedule)}
+                        disabled={busyId !== null}
+                        className="px-3 py-1.5 bg-white text-gray-800 text-sm font-semibold rounded-md border border-gray-300 hover:bg-gray-100 disabled:opacity-50 transition-colors"
+                      >
+                        {schedule.enabled ? "Pause" : "Resume"}
+                      </button>
+                      <button
+                        onClick={() => {
+                          setEditing(schedule);
+                          setDraft(toDraft(schedule));
+                          window.scrollTo({ top: 0, behavior: "smooth" });
+                        }}
+                        disabled={busyId !== null}
+                        className="px-3 py-1.5 bg-white text-gray-800 text-sm font-semibold rounded-md border border-gray-300 hover:bg-gray-100 disabled:opacity-50 transition-colors"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(schedule)}
+                        disabled={busyId !== null}
+                        className="px-3 py-1.5 bg-red-600 text-white text-sm font-semibold rounded-md hover:bg-red-700 disabled:opacity-50 transition-colors"
+                      >
+                        {busyId === schedule.id ? "..." : "Delete"}
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
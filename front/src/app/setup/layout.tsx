@@ -0,0 +1,13 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Setup - Ant Media POS",
+};
+
+export default function SetupLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return children;
+}
@@ -0,0 +1,402 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useAntMedia } from "../lib/ant-media-context";
+import { BITRATE_PRESETS, STARTER_LADDER } from "../lib/bitrate-presets";
+import { checkWebSocket, formatWebSocketUrl } from "../lib/webrtc";
+
+type Step = "checking" | "initialized" | "admin" | "application" | "defaults" | "connectivity";
+
+const STEPS: { id: Step; label: string }[] = [
+  { id: "admin", label: "Admin account" },
+  { id: "application", label: "Application" },
+  { id: "defaults", label: "Defaults" },
+  { id: "connectivity", label: "Connectivity" },
+];
+
+const PASSWORD_RULES: { label: string; test: (password: string) => boolean }[] = [
+  { label: "At least 8 characters", test: (password) => password.length >= 8 },
+  {
+    label: "Upper and lower case letters",
+    test: (password) => /[a-z]/.test(password) && /[A-Z]/.test(password),
+  },
+  { label: "At least one digit", test: (password) => /\d/.test(password) },
+];
+
+const inputClassName =
+  "w-full px-4 py-3 border-2 border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 font-medium bg-white";
+const buttonClassName =
+  "px-6 py-3 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors";
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export default function SetupPage() {
+  const router = useRouter();
+  const { client, settings, updateSettings } = useAntMedia();
+
+  const [step, setStep] = useState<Step>("checking");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Admin account
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  // Application
+  const [applications, setApplications] = useState<string[]>([]);
+  const [appChoice, setAppChoice] = useState<string>(settings.appName);
+  const [newAppName, setNewAppName] = useState("");
+
+  // Defaults
+  const [selectedHeights, setSelectedHeights] = useState<number[]>(
+    STARTER_LADDER.map((preset) => preset.height)
+  );
+  const [mp4Recording, setMp4Recording] = useState(true);
+
+  // Connectivity
+  const [wsResult, setWsResult] = useState<{ ok: boolean; message: string } | null>(null);
+
+  const appName = appChoice === "new" ? newAppName.trim() : appChoice;
+  const websocketUrl = formatWebSocketUrl(
+    settings.serverUrl,
+    appName || settings.appName,
+    settings.wsProtocol
+  );
+
+  // Only decides the first step; the client changes again once an app is chosen
+  useEffect(() => {
+    const decide = (next: Step) => setStep((current) => (current === "checking" ? next : current));
+
+    client
+      .isFirstLogin()
+      .then((firstLogin) => decide(firstLogin ? "admin" : "initialized"))
+      .catch((error) => {
+        console.error("Error checking server status:", error);
+        setError(errorMessage(error));
+        decide("initialized");
+      });
+  }, [client]);
+
+  /**
+   * Run a step action, showing its error and staying on the step if it fails
+   */
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (error) {
+      console.error("Setup step failed:", error);
+      setError(errorMessage(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const passwordValid =
+    PASSWORD_RULES.every((rule) => rule.test(password)) && password === confirmPassword;
+
+  const handleCreateAdmin = () =>
+    run(async () => {
+      const created = await client.createInitialUser(email, password);
+      if (!created.success) {
+        throw new Error(created.message || "Failed to create the admin account");
+      }
+
+      // Sign in, so that the next steps can use the management API
+      const signedIn = await client.authenticate(email, password);
+      if (!signedIn.success) {
+        throw new Error("Admin account created, but signing in failed");
+      }
+
+      const names = await client.getApplications();
+      setApplications(names);
+      if (!names.includes(appChoice)) {
+        setAppChoice(names[0] ?? "new");
+      }
+      setStep("application");
+    });
+
+  const handleChooseApplication = () =>
+    run(async () => {
+      if (appChoice === "new") {
+        if (!/^\w+$/.test(appName)) {
+          throw new Error("Application names can only contain letters, digits and underscores");
+        }
+        const result = await client.createApplication(appName);
+        if (!result.success) {
+          throw new Error(result.message || `Failed to create ${appName}`);
+        }
+      }
+
+      try {
+        await updateSettings({ appName });
+      } catch (error) {
+        throw new Error(`${appName} is ready, but saving it to the connection profile failed: ${errorMessage(error)}`);
+      }
+      setStep("defaults");
+    });
+
+  const handleApplyDefaults = () =>
+    run(async () => {
+      const encoderSettings = BITRATE_PRESETS.filter((preset) =>
+        selectedHeights.includes(preset.height)
+      ).map(({ height, videoBitrate, audioBitrate }) => ({
+        height,
+        videoBitrate,
+        audioBitrate,
+        forceEncode: false,
+      }));
+
+      await client.withConfig({ appName }).patchSettings((current) => ({
+        ...current,
+        encoderSettings,
+        mp4MuxingEnabled: mp4Recording,
+      }));
+
+      setStep("connectivity");
+    });
+
+  const handleCheckWebSocket = async () => {
+    setBusy(true);
+    setWsResult(null);
+    try {
+      const roundTrip = await checkWebSocket(websocketUrl);
+      setWsResult({ ok: true, message: `Signaling server answered in ${roundTrip}ms` });
+    } catch (error) {
+      setWsResult({ ok: false, message: errorMessage(error) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const togglePreset = (height: number) =>
+    setSelectedHeights((current) =>
+      current.includes(height) ? current.filter((h) => h !== height) : [...current, height]
+    );
+
+  const stepIndex = STEPS.findIndex((s) => s.id === step);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-2xl bg-white rounded-lg shadow-md border border-gray-200 p-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Set up Ant Media Server</h1>
+        <p className="text-gray-600 mb-6">{settings.serverUrl}</p>
+
+        {/* Progress */}
+        {stepIndex >= 0 && (
+          <ol className="flex gap-2 mb-8">
+            {STEPS.map((s, index) => (
+              <li
+                key={s.id}
+                className={`flex-1 text-xs font-semibold uppercase pt-2 border-t-4 ${
+                  index < stepIndex
+                    ? "border-green-500 text-green-700"
+                    : index === stepIndex
+                      ? "border-blue-600 text-blue-700"
+                      : "border-gray-200 text-gray-500"
+                }`}
+              >
+                {s.label}
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {error && (
+          <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm font-medium text-red-800">{error}</p>
+          </div>
+        )}
+
+        {step === "checking" && <p className="text-gray-600">Checking server status...</p>}
+
+        {step === "initialized" && (
+          <div className="space-y-4">
+            <p className="text-gray-800">This server already has an admin account.</p>
+            <button onClick={() => router.replace("/login")} className={buttonClassName}>
+              Go to sign in
+            </button>
+          </div>
+        )}
+
+        {step === "admin" && (
+          <div className="space-y-5">
+            <div>
+              <label htmlFor="email" className="block text-sm font-semibold text-gray-800 mb-2">
+                Admin email
+              </label>
+              <input
+                id="email"
+                type="email"
+                autoComplete="username"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="password" className="block text-sm font-semibold text-gray-800 mb-2">
+                  Password
+                </label>
+                <input
+                  id="password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="confirm" className="block text-sm font-semibold text-gray-800 mb-2">
+                  Confirm password
+                </label>
+                <input
+                  id="confirm"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            <ul className="text-sm space-y-1">
+              {PASSWORD_RULES.map((rule) => (
+                <li key={rule.label} className={rule.test(password) ? "text-green-700" : "text-gray-500"}>
+                  {rule.test(password) ? "✓" : "○"} {rule.label}
+                </li>
+              ))}
+              <li className={password && password === confirmPassword ? "text-green-700" : "text-gray-500"}>
+                {password && password === confirmPassword ? "✓" : "○"} Passwords match
+              </li>
+            </ul>
+            <button
+              onClick={handleCreateAdmin}
+              disabled={busy || !email || !passwordValid}
+              className={buttonClassName}
+            >
+              {busy ? "Creating..." : "Create admin account"}
+            </button>
+          </div>
+        )}
+
+        {step === "application" && (
+          <div className="space-y-4">
+            <p className="text-gray-800">Choose the application the dashboard manages.</p>
+            <div className="space-y-2">
+              {applications.map((name) => (
+                <label key={name} className="flex items-center gap-3 p-3 border-2 border-gray-200 rounded-lg cursor-pointer">
+                  <input
+                    type="radio"
+                    name="app"
+                    checked={appChoice === name}
+                    onChange={() => setAppChoice(name)}
+                  />
+                  <span className="font-semibold text-gray-900">{name}</span>
+                </label>
+              ))}
+              <label className="flex items-center gap-3 p-3 border-2 border-gray-200 rounded-lg cursor-pointer">
+                <input
+                  type="radio"
+                  name="app"
+                  checked={appChoice === "new"}
+                  onChange={() => setAppChoice("new")}
+                />
+                <span className="font-semibold text-gray-900">New application</span>
+                {appChoice === "new" && (
+                  <input
+                    type="text"
+                    value={newAppName}
+                    onChange={(e) => setNewAppName(e.target.value)}
+                    placeholder="MyApp"
+                    className="flex-1 px-3 py-2 border-2 border-gray-300 rounded-lg text-gray-900 bg-white"
+                  />
+                )}
+              </label>
+            </div>
+            <button onClick={handleChooseApplication} disabled={busy || !appName} className={buttonClassName}>
+              {busy ? "Saving..." : "Continue"}
+            </button>
+          </div>
+        )}
+
+        {step === "defaults" && (
+          <div className="space-y-5">
+            <div>
+              <p className="font-semibold text-gray-900 mb-2">Transcoding ladder for {appName}</p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {BITRATE_PRESETS.map((preset) => (
+                  <label key={preset.height} className="flex items-start gap-3 p-3 border-2 border-gray-200 rounded-lg cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      checked={selectedHeights.includes(preset.height)}
+                      onChange={() => togglePreset(preset.height)}
+                    />
+                    <span>
+                      <span className="block font-semibold text-gray-900">{preset.name}</span>
+                      <span className="block text-xs text-gray-600">
+                        {preset.videoBitrate} / {preset.audioBitrate} kbps · {preset.description}
+                      </span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <label className="flex items-center gap-3">
+              <input type="checkbox" checked={mp4Recording} onChange={(e) => setMp4Recording(e.target.checked)} />
+              <span className="text-gray-900">Record streams to MP4</span>
+            </label>
+            <div className="flex gap-3">
+              <button onClick={handleApplyDefaults} disabled={busy} className={buttonClassName}>
+                {busy ? "Applying..." : "Apply"}
+              </button>
+              <button
+                onClick={() => setStep("connectivity")}
+                disabled={busy}
+                className="px-6 py-3 bg-gray-200 text-gray-800 font-semibold rounded-lg hover:bg-gray-300 transition-colors"
+              >
+                Skip
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === "connectivity" && (
+          <div className="space-y-4">
+            <p className="text-gray-800">
+              Publishing and WebRTC playback connect to <span className="font-mono text-sm">{websocketUrl}</span>
+            </p>
+            {wsResult && (
+              <div
+                className={`p-3 rounded-lg border ${
+                  wsResult.ok ? "bg-green-50 border-green-200 text-green-800" : "bg-red-50 border-red-200 text-red-800"
+                }`}
+              >
+                <p className="text-sm font-medium">{wsResult.message}</p>
+              </div>
+            )}
+            <div className="flex gap-3">
+              <button onClick={handleCheckWebSocket} disabled={busy} className={buttonClassName}>
+                {busy ? "Checking..." : wsResult ? "Check again" : "Check WebSocket"}
+              </button>
+              <button
+                onClick={() => router.replace("/")}
+                className="px-6 py-3 bg-gray-800 text-white font-semibold rounded-lg hover:bg-gray-900 transition-colors"
+              >
+                Go to dashboard
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
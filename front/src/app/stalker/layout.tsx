@@ -0,0 +1,13 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Stalker Portal - Ant Media POS",
+};
+
+export default function StalkerLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return children;
+}
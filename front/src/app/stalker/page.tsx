@@ -0,0 +1,355 @@
+"use client";
+
+import Link from "next/link";
+import { FormEvent, useEffect, useState } from "react";
+import { AppSettings, Vod } from "../client";
+import { useAntMedia } from "../lib/ant-media-context";
+import { isAbortError } from "../lib/retry";
+import { SettingsConflict, SettingsConflictError } from "../lib/settings-patch";
+import {
+  isPushedToStalker,
+  listStalkerSyncs,
+  missingStalkerSettings,
+  runStalkerSync,
+  STALKER_FIELDS,
+  StalkerSettings,
+  stalkerSettings,
+  StalkerSync,
+} from "../lib/stalker";
+
+const inputClassName =
+  "w-full px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900 bg-white text-sm";
+
+const PLACEHOLDERS: Record<keyof StalkerSettings, string> = {
+  stalkerDBServer: "192.168.1.20",
+  stalkerDBUsername: "stalker",
+  stalkerDBPassword: "",
+  vodFolder: "/mnt/vod",
+};
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export default function StalkerPage() {
+  const { client, settings, activeProfile } = useAntMedia();
+  const profileId = activeProfile?.id;
+  const appName = settings.appName;
+
+  const [baseSettings, setBaseSettings] = useState<AppSettings | null>(null);
+  const [form, setForm] = useState<StalkerSettings>(stalkerSettings({}));
+  const [settingsReload, setSettingsReload] = useState(0);
+  const [conflict, setConflict] = useState<SettingsConflict[] | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [vods, setVods] = useState<Vod[] | null>(null);
+  const [syncs, setSyncs] = useState<StalkerSync[] | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [syncing, setSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    client
+      .getSettings({ signal: controller.signal })
+      .then((appSettings) => {
+        setBaseSettings(appSettings);
+        setForm(stalkerSettings(appSettings));
+        setConflict(null);
+      })
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        console.error("Error loading app settings:", error);
+        setError(errorMessage(error));
+      });
+
+    return () => controller.abort();
+  }, [client, settingsReload]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    client
+      .listAll("vods", {}, { signal: controller.signal })
+      .then(setVods)
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        console.error("Error loading VoDs:", error);
+        setError(errorMessage(error));
+      });
+    listStalkerSyncs({ profileId, appName }, controller.signal)
+      .then(setSyncs)
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        console.error("Error loading syncs:", error);
+        setError(errorMessage(error));
+      });
+
+    return () => controller.abort();
+  }, [client, profileId, appName, reloadCount]);
+
+  const saved = baseSettings ? stalkerSettings(baseSettings) : null;
+  const dirty = saved !== null && STALKER_FIELDS.some(({ field }) => form[field] !== saved[field]);
+  const missing = baseSettings ? missingStalkerSettings(baseSettings) : [];
+  const pushed = vods?.filter(isPushedToStalker) ?? [];
+  const others = (vods?.length ?? 0) - pushed.length;
+
+  const syncBlocker = !baseSettings
+    ? "Loading settings..."
+    : missing.length > 0
+      ? `Missing settings: ${missing.join(", ")}`
+      : dirty
+        ? "Save the settings before syncing"
+        : null;
+
+  const handleSave = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!baseSettings) return;
+
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const trimmed = Object.fromEntries(
+        STALKER_FIELDS.map(({ field }) => [field, field === "stalkerDBPassword" ? form[field] : form[field].trim()])
+      );
+      await client.patchSettings(trimmed, { base: baseSettings });
+      setNotice("Stalker settings saved.");
+      setSettingsReload((count) => count + 1);
+    } catch (error) {
+      if (error instanceof SettingsConflictError) {
+        setConflict(error.conflicts);
+      } else {
+        console.error("Error saving Stalker settings:", error);
+        setError(errorMessage(error));
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSync = async () => {
+    if (
+      !window.confirm(
+        `Push ${pushed.length} VoDs of ${appName} to the Stalker portal at ${saved?.stalkerDBServer}? The portal's VoD list is updated with them.`
+      )
+    ) {
+      return;
+    }
+
+    setSyncing(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const sync = await runStalkerSync({ profileId, appName });
+      if (sync.status === "success") {
+        setNotice(`Synced ${sync.vods.length} VoDs to ${sync.portal}.`);
+      } else {
+        setError(`Sync failed: ${sync.message}`);
+      }
+      setReloadCount((count) => count + 1);
+    } catch (error) {
+      console.error("Error syncing to Stalker:", error);
+      setError(errorMessage(error));
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="p-4 lg:p-6">
+        <div className="mx-auto max-w-6xl 2xl:max-w-7xl">
+          {/* Breadcrumbs */}
+          <nav className="mb-4">
+            <ol className="flex items-center space-x-2 text-sm">
+              <li>
+                <Link href="/" className="text-blue-600 hover:text-blue-800 font-medium">
+                  Home
+                </Link>
+              </li>
+              <li className="text-gray-400">/</li>
+              <li>
+                <Link href="/vods" className="text-blue-600 hover:text-blue-800 font-medium">
+                  VoDs
+                </Link>
+              </li>
+              <li className="text-gray-400">/</li>
+              <li className="text-gray-600 font-medium">Stalker Portal</li>
+            </ol>
+          </nav>
+
+          <header className="mb-6">
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">Stalker Portal</h1>
+            <p className="text-gray-600">
+              Ant Media writes the VoDs imported from a directory into the database of a Stalker middleware portal, so
+              that they show up in the portal&apos;s video club for {appName}.
+            </p>
+          </header>
+
+          {error && (
+            <div className="mb-6 border-2 border-red-300 bg-red-50 rounded-lg p-4 text-red-800 font-medium">{error}</div>
+          )}
+          {notice && (
+            <div className="mb-6 border-2 border-green-300 bg-green-50 rounded-lg p-4 text-green-800 font-medium">
+              {notice}
+            </div>
+          )}
+          {conflict && (
+            <div className="mb-6 border-2 border-amber-300 bg-amber-50 rounded-lg p-4 flex items-start justify-between gap-4">
+              <div>
+                <p className="font-bold text-amber-900">Settings were changed by someone else</p>
+                <p className="text-sm text-amber-800 mt-1">
+                  Your change was not saved. Conflicting fields:{" "}
+                  <span className="font-mono">{conflict.map((c) => c.field).join(", ")}</span>
+                </p>
+              </div>
+              <button
+                onClick={() => setSettingsReload((count) => count + 1)}
+                className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors font-semibold text-sm whitespace-nowrap"
+              >
+                Reload settings
+              </button>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+            <form onSubmit={handleSave} className="bg-white rounded-lg shadow-md p-6">
+              <h2 className="text-xl font-bold text-gray-900 mb-4">Portal Settings</h2>
+              <div className="space-y-4">
+                {STALKER_FIELDS.map(({ field, label }) => (
+                  <div key={field}>
+                    <label className="block text-sm font-semibold text-gray-800 mb-1" htmlFor={`stalker-${field}`}>
+                      {label}
+                    </label>
+                    <input
+                      id={`stalker-${field}`}
+                      type={field === "stalkerDBPassword" ? "password" : "text"}
+                      autoComplete={field === "stalkerDBPassword" ? "new-password" : "off"}
+                      value={form[field]}
+                      onChange={(e) => setForm((current) => ({ ...current, [field]: e.target.value }))}
+                      placeholder={PLACEHOLDERS[field]}
+                      disabled={!baseSettings}
+                      className={`${inputClassName} ${field === "vodFolder" ? "font-mono" : ""}`}
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-3">
+                The VoD folder is the directory on the Ant Media server whose files the portal serves. The settings are
+                saved in the application settings of {appName}.
+              </p>
+              <button
+                type="submit"
+                disabled={!baseSettings || !dirty || saving}
+                className="mt-4 px-4 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                {saving ? "Saving..." : "Save Settings"}
+              </button>
+            </form>
+
+            <section className="bg-white rounded-lg shadow-md p-6 flex flex-col">
+              <div className="flex items-start justify-between gap-4 mb-4">
+                <div>
+                  <h2 className="text-xl font-bold text-gray-900">Preview</h2>
+                  <p className="text-sm text-gray-600">VoDs the next sync sends to the portal</p>
+                </div>
+                <button
+                  onClick={handleSync}
+                  disabled={syncing || syncBlocker !== null || vods === null}
+                  title={syncBlocker ?? undefined}
+                  className="px-4 py-2 bg-green-600 text-white font-semibold rounded-md hover:bg-green-700 disabled:opacity-50 transition-colors whitespace-nowrap"
+                >
+                  {syncing ? "Syncing..." : "Sync Now"}
+                </button>
+              </div>
+              {syncBlocker && baseSettings && <p className="text-sm text-amber-800 mb-3">{syncBlocker}</p>}
+
+              {vods === null ? (
+                <p className="text-center py-8 text-gray-500">Loading VoDs...</p>
+              ) : pushed.length === 0 ? (
+                <p className="text-center py-8 text-gray-500">
+                  No VoD would be sent.{" "}
+                  <Link href="/vods/import" className="text-blue-700 hover:underline">
+                    Import a directory
+                  </Link>{" "}
+                  first.
+                </p>
+              ) : (
+                <ul className="flex-1 max-h-80 overflow-y-auto divide-y divide-gray-100 text-sm">
+                  {pushed.map((vod) => (
+                    <li key={vod.vodId} className="py-1.5">
+                      <Link href={`/vod/${vod.vodId}`} className="text-blue-700 hover:underline break-all">
+                        {vod.vodName || vod.vodId}
+                      </Link>
+                      <span className="block font-mono text-xs text-gray-500 break-all">{vod.filePath}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {others > 0 && (
+                <p className="text-xs text-gray-500 mt-3">
+                  {others} recordings and uploads are not sent: Ant Media only syncs VoDs imported from a directory.
+                </p>
+              )}
+            </section>
+          </div>
+
+          <section className="bg-white rounded-lg shadow-md p-6">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">Sync History</h2>
+
+            {syncs === null ? (
+              <p className="text-center py-8 text-gray-500">Loading syncs...</p>
+            ) : syncs.length === 0 ? (
+              <p className="text-center py-8 text-gray-500">{appName} has not been synced yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {syncs.map((sync) => (
+                  <li key={sync.id} className="py-4">
+                    <div className="flex items-center gap-2">
+                      <span
+                        className={`px-2 py-0.5 text-xs font-semibold rounded ${
+                          sync.status === "success" ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
+                        }`}
+                      >
+                        {sync.status === "success" ? "Synced" : "Failed"}
+                      </span>
+                      <span className="text-gray-900 font-medium">
+                        {sync.vods.length} VoDs to <span className="font-mono">{sync.portal}</span>
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {new Date(sync.startedAt).toLocaleString()} by {sync.startedBy} · took{" "}
+                      {Math.max(1, Math.round((sync.finishedAt - sync.startedAt) / 1000))} s
+                    </p>
+                    {sync.message && (
+                      <p className={`text-sm mt-1 ${sync.status === "failed" ? "text-red-700" : "text-gray-600"}`}>
+                        {sync.message}
+                      </p>
+                    )}
+                    {sync.vods.length > 0 && (
+                      <details className="mt-2">
+                        <summary className="cursor-pointer text-sm font-semibold text-gray-800">
+                          VoDs ({sync.vods.length})
+                        </summary>
+                        <ul className="mt-1 ml-4 max-h-64 overflow-y-auto text-xs text-gray-700 space-y-0.5">
+                          {sync.vods.map((vod) => (
+                            <li key={vod.vodId} className="break-all">
+                              {vod.name}
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,13 @@
 "use client";
 
 import { useParams } from "next/navigation";
-import { useState } from "react";
-
-interface Settings {
-  serverUrl: string;
-  appName: string;
-}
+import { useAntMedia } from "@/app/lib/ant-media-context";
 
 export default function HLSPlaybackPage() {
   const params = useParams();
   const streamId = params.id as string;
 
-  const [settings] = useState<Settings>({
-    serverUrl: "http://localhost:5080",
-    appName: "LiveApp",
-  });
+  const { settings } = useAntMedia();
 
   const hlsUrl = `${settings.serverUrl}/${settings.appName}/play.html?id=${streamId}`;
 
@@ -1,13 +1,14 @@
 "use client";
 
+import Link from "next/link";
 import { useState, useEffect } from "react";
 import { useParams, useRouter } from "next/navigation";
-import { AntMediaClient } from "@/app/client";
-
-interface Settings {
-  serverUrl: string;
-  appName: string;
-}
+import { RecordingPanel } from "@/app/components/recording-panel";
+import { StreamStatsPanel } from "@/app/components/stream-stats-panel";
+import { useAntMedia } from "@/app/lib/ant-media-context";
+import { NotFoundError } from "@/app/lib/errors";
+import { isAbortError } from "@/app/lib/retry";
+import { statsScope } from "@/app/lib/stream-stats";
 
 interface Broadcast {
   streamId?: string;
@@ -25,6 +26,7 @@ interface Broadcast {
 }
 
 interface VodFile {
+  vodId: string;
   streamId: string;
   name: string;
   filePath?: string;
@@ -39,10 +41,7 @@ export default function StreamDetailPage() {
   const router = useRouter();
   const streamId = params.id as string;
 
-  const [settings] = useState<Settings>({
-    serverUrl: "http://localhost:5080",
-    appName: "LiveApp",
-  });
+  const { client, settings, activeProfile } = useAntMedia();
 
   const [broadcast, setBroadcast] = useState<Broadcast | null>(null);
   const [vods, setVods] = useState<VodFile[]>([]);
@@ -56,7 +55,7 @@ export default function StreamDetailPage() {
   const [copyRtmp, setCopyRtmp] = useState(false);
   const [copyStreamKey, setCopyStreamKey] = useState(false);
 
-  const rtmpUrl = `rtmp://localhost/${settings.appName}/`;
+  const rtmpUrl = `rtmp://${new URL(settings.serverUrl).hostname}/${settings.appName}/`;
   const streamKey = streamId;
 
   const handleCopy = async (text: string, type: 'rtmp' | 'streamKey') => {
@@ -74,7 +73,7 @@ export default function StreamDetailPage() {
     }
   };
 
-  const fetchBroadcast = async (isAutoRefresh = false) => {
+  const fetchBroadcast = async (isAutoRefresh = false, signal?: AbortSignal) => {
     if (isAutoRefresh) {
       setRefreshing(true);
     } else {
@@ -82,15 +81,17 @@ export default function StreamDetailPage() {
     }
     setError(null);
     try {
-      const data = await AntMediaClient.getBroadcast(
-        settings.serverUrl,
-        settings.appName,
-        streamId
-      );
+      const data = await client.getBroadcast(streamId, { signal });
       setBroadcast(data);
     } catch (err) {
+      // Request cancelled because the page was left
+      if (isAbortError(err)) return;
       console.error("Error fetching broadcast:", err);
-      setError(err instanceof Error ? err.message : "Failed to fetch broadcast");
+      if (err instanceof NotFoundError) {
+        setError(`Stream not found: ${streamId}`);
+      } else {
+        setError(err instanceof Error ? err.message : "Failed to fetch broadcast");
+      }
     } finally {
       if (isAutoRefresh) {
         setRefreshing(false);
@@ -100,22 +101,24 @@ export default function StreamDetailPage() {
     }
   };
 
-  const fetchVods = async () => {
+  const fetchVods = async (signal?: AbortSignal) => {
     setVodsLoading(true);
     try {
-      const data = await AntMediaClient.getVodList(
-        settings.serverUrl,
-        settings.appName,
-        0,
-        50,
+      const data: VodFile[] = [];
+      const pages = client.iterateVods(
         {
           streamId: streamId,
           sort_by: "date",
           order_by: "desc",
-        }
+        },
+        { signal }
       );
-      setVods(data || []);
+      for await (const vod of pages) {
+        data.push(vod as VodFile);
+      }
+      setVods(data);
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error("Error fetching VODs:", err);
     } finally {
       setVodsLoading(false);
@@ -131,11 +134,7 @@ export default function StreamDetailPage() {
 
     setDeletingVodId(vodId);
     try {
-      await AntMediaClient.deleteVod(
-        settings.serverUrl,
-        settings.appName,
-        vodId
-      );
+      await client.deleteVod(vodId);
       // Refresh the VOD list after deletion
       await fetchVods();
     } catch (err) {
@@ -147,27 +146,36 @@ export default function StreamDetailPage() {
   };
 
   useEffect(() => {
-    if (streamId) {
-      fetchBroadcast(false);
-    }
+    if (!streamId) return;
+
+    const controller = new AbortController();
+    fetchBroadcast(false, controller.signal);
+
+    return () => controller.abort();
   }, [streamId, settings.serverUrl, settings.appName]);
 
   useEffect(() => {
-    if (broadcast && broadcast.streamId) {
-      fetchVods();
-    }
+    if (!broadcast?.streamId) return;
+
+    const controller = new AbortController();
+    fetchVods(controller.signal);
+
+    return () => controller.abort();
   }, [broadcast?.streamId, settings.serverUrl, settings.appName]);
 
   // Auto-refresh every 5 seconds (always enabled)
   useEffect(() => {
     if (!streamId) return;
 
+    // Cancel in-flight polling requests when the page unmounts
+    const controller = new AbortController();
     const interval = setInterval(() => {
-      fetchBroadcast(true);
+      fetchBroadcast(true, controller.signal);
     }, 5000);
 
     return () => {
       clearInterval(interval);
+      controller.abort();
     };
   }, [streamId, settings.serverUrl, settings.appName]);
 
@@ -181,11 +189,7 @@ export default function StreamDetailPage() {
 
     setDeleting(true);
     try {
-      await AntMediaClient.deleteBroadcast(
-        settings.serverUrl,
-        settings.appName,
-        streamId
-      );
+      await client.deleteBroadcast(streamId);
       // After successful deletion, navigate back to streams list
       router.push("/");
     } catch (err) {
@@ -377,6 +381,29 @@ export default function StreamDetailPage() {
               )}
             </div>
 
+            {/* Recording */}
+            {activeProfile && (
+              <RecordingPanel
+                scope={statsScope(activeProfile.id, settings.appName)}
+                broadcast={broadcast}
+                onChange={(stopped) => {
+                  fetchBroadcast(true);
+                  // Stopping a recording leaves a VoD behind
+                  if (stopped) fetchVods();
+                }}
+              />
+            )}
+
+            {/* Viewer Analytics */}
+            {activeProfile && (
+              <StreamStatsPanel
+                scope={statsScope(activeProfile.id, settings.appName)}
+                streamId={streamId}
+                startTime={broadcast.startTime}
+                refreshKey={broadcast}
+              />
+            )}
+
             {/* OBS Broadcasting Section */}
             <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
               <div className="flex items-center gap-2 mb-4">
@@ -495,7 +522,7 @@ export default function StreamDetailPage() {
               <div className="flex items-center justify-between mb-4">
                 <h3 className="text-lg font-semibold text-gray-900">Recorded VODs</h3>
                 <button
-                  onClick={fetchVods}
+                  onClick={() => fetchVods()}
                   disabled={vodsLoading}
                   className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center gap-1.5"
                 >
@@ -522,7 +549,7 @@ export default function StreamDetailPage() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M3 12a9 9 0 1118 0 9 9 0 01-18 0z" />
                   </svg>
                   <p>No VODs recorded for this stream</p>
-                  <p className="text-sm mt-1">Enable recording to capture stream content</p>
+                  <p className="text-sm mt-1">Start a recording above to capture stream content</p>
                 </div>
               ) : (
                 <div className="space-y-3">
@@ -559,18 +586,15 @@ export default function StreamDetailPage() {
                         </div>
                       </div>
                       <div className="flex items-center gap-2 ml-4">
-                        <button
-                          onClick={() => {
-                            const playUrl = `${settings.serverUrl}/${settings.appName}/play.html?name=${vod.streamId}`;
-                            window.open(playUrl, '_blank');
-                          }}
+                        <Link
+                          href={`/vod/${vod.vodId}`}
                           className="px-3 py-1.5 bg-green-600 text-white text-sm rounded-md hover:bg-green-700 transition-colors flex items-center gap-1.5"
                         >
                           <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
                             <path d="M8 5v14l11-7z" />
                           </svg>
                           Play
-                        </button>
+                        </Link>
                         <button
                           onClick={() => handleDeleteVod(vod.streamId, vod.name)}
                           disabled={deletingVodId === vod.streamId}
@@ -12,22 +12,14 @@ import {
   getMediaDevices,
   createTestVideoStream,
 } from "@/app/lib/webrtc";
-import { AntMediaClient } from "@/app/client";
-
-interface Settings {
-  serverUrl: string;
-  appName: string;
-}
+import { useAntMedia } from "@/app/lib/ant-media-context";
 
 export default function WebRTCBroadcastPage() {
   const params = useParams();
   const router = useRouter();
   const streamId = params.id as string;
 
-  const [settings] = useState<Settings>({
-    serverUrl: "http://localhost:5080",
-    appName: "LiveApp",
-  });
+  const { client, settings } = useAntMedia();
 
   // State management
   const [isPublishing, setIsPublishing] = useState(false);
@@ -89,7 +81,7 @@ export default function WebRTCBroadcastPage() {
 
   // Initialize WebRTC Adaptor
   useEffect(() => {
-    const websocketUrl = formatWebSocketUrl(settings.serverUrl, settings.appName);
+    const websocketUrl = formatWebSocketUrl(settings.serverUrl, settings.appName, settings.wsProtocol);
 
     const handleCallback = (info: string, obj?: any) => {
       console.log("WebRTC Callback:", info, obj);
@@ -221,19 +213,17 @@ export default function WebRTCBroadcastPage() {
       }
       disposeAdaptor(adaptorRef.current);
     };
-  }, [settings.serverUrl, settings.appName, streamId, inputSource, selectedCamera]);
+  }, [settings.serverUrl, settings.appName, settings.wsProtocol, streamId, inputSource, selectedCamera]);
 
   // Check current stream status and update publishing state after adaptor is ready
   useEffect(() => {
     if (!adaptorInitialized) return;
 
+    const controller = new AbortController();
+
     const checkStreamStatus = async () => {
       try {
-        const broadcast = await AntMediaClient.getBroadcast(
-          settings.serverUrl,
-          settings.appName,
-          streamId
-        );
+        const broadcast = await client.getBroadcast(streamId, { signal: controller.signal });
         
         // If stream is already broadcasting, update the state
         if (broadcast.status === "broadcasting" && broadcast.publishType === "WebRTC") {
@@ -249,7 +239,9 @@ export default function WebRTCBroadcastPage() {
     };
 
     checkStreamStatus();
-  }, [settings.serverUrl, settings.appName, streamId, adaptorInitialized]);
+
+    return () => controller.abort();
+  }, [client, streamId, adaptorInitialized]);
 
   const handleStartBroadcast = async () => {
     if (!adaptorRef.current) {
@@ -9,11 +9,7 @@ import {
   disposeAdaptor,
   parseWebRTCError,
 } from "@/app/lib/webrtc";
-
-interface Settings {
-  serverUrl: string;
-  appName: string;
-}
+import { useAntMedia } from "@/app/lib/ant-media-context";
 
 interface StreamStats {
   bitrate: string;
@@ -27,10 +23,7 @@ export default function WebRTCPlaybackPage() {
   const router = useRouter();
   const streamId = params.id as string;
 
-  const [settings] = useState<Settings>({
-    serverUrl: "http://localhost:5080",
-    appName: "LiveApp",
-  });
+  const { settings } = useAntMedia();
 
   // State management
   const [isPlaying, setIsPlaying] = useState(false);
@@ -49,7 +42,7 @@ export default function WebRTCPlaybackPage() {
 
   // Initialize WebRTC Adaptor
   useEffect(() => {
-    const websocketUrl = formatWebSocketUrl(settings.serverUrl, settings.appName);
+    const websocketUrl = formatWebSocketUrl(settings.serverUrl, settings.appName, settings.wsProtocol);
 
     const handleCallback = (info: string, obj?: any) => {
       console.log("WebRTC Callback:", info, obj);
@@ -121,7 +114,7 @@ export default function WebRTCPlaybackPage() {
       }
       disposeAdaptor(adaptorRef.current);
     };
-  }, [settings.serverUrl, settings.appName, streamId]);
+  }, [settings.serverUrl, settings.appName, settings.wsProtocol, streamId]);
 
   const startStatsCollection = () => {
     if (statsIntervalRef.current) clearInterval(statsIntervalRef.current);
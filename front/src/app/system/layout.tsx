@@ -0,0 +1,13 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "System - Ant Media POS",
+};
+
+export default function SystemLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return children;
+}
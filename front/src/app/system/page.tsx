@@ -0,0 +1,293 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { Licence, SystemResources } from "../client";
+import { LineChart } from "../components/line-chart";
+import { useAntMedia } from "../lib/ant-media-context";
+import { formatBytes } from "../lib/format";
+import { percentOf, RESOURCE_LIMITS, resourceLevel, ResourceLevel, WARNING_MARGIN } from "../lib/resource-limits";
+
+/** Interval between two samples */
+const POLL_INTERVAL_MS = 5000;
+
+/** Samples kept for the charts: 10 minutes */
+const HISTORY_SIZE = 120;
+
+interface Sample {
+  cpu: number;
+  processCpu: number;
+  memory: number;
+  jvm: number;
+  disk: number;
+  liveStreams: number;
+  webRTCViewers: number;
+  hlsViewers: number;
+  dashViewers: number;
+}
+
+const LEVEL_STYLES: Record<ResourceLevel, string> = {
+  ok: "border-green-300 bg-green-50 text-green-900",
+  warning: "border-amber-300 bg-amber-50 text-amber-900",
+  critical: "border-red-300 bg-red-50 text-red-900",
+};
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function toSample(resources: SystemResources): Sample {
+  const { cpuUsage, systemMemoryInfo, jvmMemoryUsage, fileSystemInfo } = resources;
+  const systemTotal = systemMemoryInfo?.totalMemory;
+  const systemAvailable = systemMemoryInfo?.availableMemory ?? systemMemoryInfo?.freeMemory;
+
+  return {
+    cpu: cpuUsage?.systemCPULoad ?? 0,
+    processCpu: cpuUsage?.processCPULoad ?? 0,
+    memory: percentOf(systemTotal && systemAvailable !== undefined ? systemTotal - systemAvailable : undefined, systemTotal),
+    jvm: percentOf(jvmMemoryUsage?.inUseMemory, jvmMemoryUsage?.maxMemory),
+    disk: percentOf(
+      fileSystemInfo?.totalSpace !== undefined && fileSystemInfo.usableSpace !== undefined
+        ? fileSystemInfo.totalSpace - fileSystemInfo.usableSpace
+        : fileSystemInfo?.inUseSpace,
+      fileSystemInfo?.totalSpace
+    ),
+    liveStreams: resources.totalLiveStreamSize ?? resources.localLiveStreams ?? 0,
+    webRTCViewers: resources.localWebRTCViewers ?? 0,
+    hlsViewers: resources.localHLSViewers ?? 0,
+    dashViewers: resources.localDASHViewers ?? 0,
+  };
+}
+
+const percent = (value: number) => `${value}%`;
+
+function UsageCard({ title, value, limit, detail }: { title: string; value: number; limit: number; detail?: string }) {
+  const level = resourceLevel(value, limit);
+
+  return (
+    <div className={`rounded-lg border-2 p-4 ${LEVEL_STYLES[level]}`}>
+      <p className="text-xs font-semibold uppercase opacity-80">{title}</p>
+      <p className="text-3xl font-bold">{percent(value)}</p>
+      <p className="text-sm opacity-80">
+        Limit {percent(limit)}
+        {detail ? ` · ${detail}` : ""}
+      </p>
+    </div>
+  );
+}
+
+export default function SystemPage() {
+  const { client, settings } = useAntMedia();
+
+  const [samples, setSamples] = useState<Sample[]>([]);
+  const [latest, setLatest] = useState<SystemResources | null>(null);
+  const [licence, setLicence] = useState<Licence | null | undefined>(undefined);
+  const [error, setError] = useState<string | null>(null);
+
+  // A new client means another server: start the history over
+  useEffect(() => {
+    let cancelled = false;
+
+    const poll = async () => {
+      if (document.hidden) return;
+      try {
+        const resources = await client.getSystemResources();
+        if (cancelled) return;
+        setLatest(resources);
+        setSamples((current) => [...current, toSample(resources)].slice(-HISTORY_SIZE));
+        setError(null);
+      } catch (error) {
+        console.error("Error loading system resources:", error);
+        if (!cancelled) setError(errorMessage(error));
+      }
+    };
+
+    client
+      .getLicenceStatus()
+      .then((result) => {
+        if (!cancelled) setLicence(result);
+      })
+      .catch((error) => {
+        console.error("Error loading license status:", error);
+        if (!cancelled) setLicence(null);
+      });
+
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    poll();
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+      setSamples([]);
+    };
+  }, [client]);
+
+  const current = samples[samples.length - 1];
+  const series = (pick: (sample: Sample) => number) => samples.map(pick);
+
+  const breached = current
+    ? [
+        current.cpu >= RESOURCE_LIMITS.cpu && "CPU",
+        current.memory >= RESOURCE_LIMITS.memory && "memory",
+      ].filter(Boolean)
+    : [];
+  const approaching = current
+    ? resourceLevel(current.cpu, RESOURCE_LIMITS.cpu) === "warning" ||
+      resourceLevel(current.memory, RESOURCE_LIMITS.memory) === "warning"
+    : false;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="p-4 lg:p-6">
+        <div className="mx-auto max-w-6xl 2xl:max-w-7xl">
+          {/* Breadcrumbs */}
+          <nav className="mb-4">
+            <ol className="flex items-center space-x-2 text-sm">
+              <li>
+                <Link href="/" className="text-blue-600 hover:text-blue-800 font-medium">
+                  Home
+                </Link>
+              </li>
+              <li className="text-gray-400">/</li>
+              <li className="text-gray-600 font-medium">System</li>
+            </ol>
+          </nav>
+
+          <header className="mb-6">
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">System</h1>
+            <p className="text-gray-600">
+              Resources of {settings.serverUrl}
+              {latest?.systemInfo &&
+                ` · ${latest.systemInfo.osName} ${latest.systemInfo.osArch}, ${latest.systemInfo.processorCount} CPUs, Java ${latest.systemInfo.javaVersion}`}
+              {` · every ${POLL_INTERVAL_MS / 1000}s`}
+            </p>
+          </header>
+
+          {error && (
+            <div className="mb-6 border-2 border-red-300 bg-red-50 rounded-lg p-4 text-red-800 font-medium">{error}</div>
+          )}
+          {breached.length > 0 ? (
+            <div className="mb-6 border-2 border-red-300 bg-red-50 rounded-lg p-4 text-red-900 font-medium">
+              The server is above its {breached.join(" and ")} limit: new broadcasts and players are rejected with
+              highResourceUsage.
+            </div>
+          ) : (
+            approaching && (
+              <div className="mb-6 border-2 border-amber-300 bg-amber-50 rounded-lg p-4 text-amber-900 font-medium">
+                The server is within {WARNING_MARGIN} points of its CPU or memory limit. New broadcasts will be rejected once it is reached.
+              </div>
+            )
+          )}
+
+          {!current ? (
+            !error && <p className="text-gray-600">Loading system resources...</p>
+          ) : (
+            <>
+              {/* Current usage */}
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+                <UsageCard title="CPU" value={current.cpu} limit={RESOURCE_LIMITS.cpu} detail={`AMS ${percent(current.processCpu)}`} />
+                <UsageCard
+                  title="System memory"
+                  value={current.memory}
+                  limit={RESOURCE_LIMITS.memory}
+                  detail={latest?.systemMemoryInfo?.totalMemory ? formatBytes(latest.systemMemoryInfo.totalMemory) : undefined}
+                />
+                <UsageCard
+                  title="JVM heap"
+                  value={current.jvm}
+                  limit={RESOURCE_LIMITS.jvm}
+                  detail={latest?.jvmMemoryUsage?.maxMemory ? formatBytes(latest.jvmMemoryUsage.maxMemory) : undefined}
+                />
+                <UsageCard
+                  title="Disk"
+                  value={current.disk}
+                  limit={RESOURCE_LIMITS.disk}
+                  detail={latest?.fileSystemInfo?.totalSpace ? formatBytes(latest.fileSystemInfo.totalSpace) : undefined}
+                />
+              </div>
+
+              {/* Charts */}
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+                <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+                  <h2 className="text-xl font-bold text-gray-900 mb-4">CPU</h2>
+                  <LineChart
+                    max={100}
+                    capacity={HISTORY_SIZE}
+                    formatValue={percent}
+                    threshold={{ value: RESOURCE_LIMITS.cpu, label: `Limit ${percent(RESOURCE_LIMITS.cpu)}` }}
+                    series={[
+                      { label: "System", color: "#2563eb", values: series((s) => s.cpu) },
+                      { label: "AMS process", color: "#9333ea", values: series((s) => s.processCpu) },
+                    ]}
+                  />
+                </div>
+                <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+                  <h2 className="text-xl font-bold text-gray-900 mb-4">Memory</h2>
+                  <LineChart
+                    max={100}
+                    capacity={HISTORY_SIZE}
+                    formatValue={percent}
+                    threshold={{ value: RESOURCE_LIMITS.memory, label: `Limit ${percent(RESOURCE_LIMITS.memory)}` }}
+                    series={[
+                      { label: "System", color: "#2563eb", values: series((s) => s.memory) },
+                      { label: "JVM heap", color: "#ea580c", values: series((s) => s.jvm) },
+                    ]}
+                  />
+                </div>
+                <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+                  <h2 className="text-xl font-bold text-gray-900 mb-4">Disk</h2>
+                  <LineChart
+                    max={100}
+                    capacity={HISTORY_SIZE}
+                    formatValue={percent}
+                    threshold={{ value: RESOURCE_LIMITS.disk, label: `Warning ${percent(RESOURCE_LIMITS.disk)}` }}
+                    series={[{ label: "Used", color: "#0d9488", values: series((s) => s.disk) }]}
+                  />
+                </div>
+                <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+                  <h2 className="text-xl font-bold text-gray-900 mb-4">Connections</h2>
+                  <LineChart
+                    capacity={HISTORY_SIZE}
+                    series={[
+                      { label: "Live streams", color: "#dc2626", values: series((s) => s.liveStreams) },
+                      { label: "WebRTC viewers", color: "#2563eb", values: series((s) => s.webRTCViewers) },
+                      { label: "HLS viewers", color: "#16a34a", values: series((s) => s.hlsViewers) },
+                      { label: "DASH viewers", color: "#ca8a04", values: series((s) => s.dashViewers) },
+                    ]}
+                  />
+                </div>
+              </div>
+            </>
+          )}
+
+          {/* License */}
+          <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">License</h2>
+            {licence === undefined ? (
+              <p className="text-gray-600">Loading license...</p>
+            ) : licence === null ? (
+              <p className="text-gray-600">No license found. The server runs the Community Edition or has not checked its license yet.</p>
+            ) : (
+              <dl className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {[
+                  ["Status", licence.status],
+                  ["Type", licence.type],
+                  ["Owner", licence.owner],
+                  ["Valid", `${licence.startDate ?? "?"} – ${licence.endDate ?? "?"}`],
+                  ["Servers", licence.licenceCount],
+                  ["Hours used", licence.hourUsed],
+                  ["License id", licence.licenceId],
+                ].map(([label, value]) => (
+                  <div key={label}>
+                    <dt className="text-xs font-semibold text-gray-600 uppercase">{label}</dt>
+                    <dd className="text-gray-900 font-medium break-all">{value || "—"}</dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
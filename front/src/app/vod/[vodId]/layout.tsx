@@ -0,0 +1,13 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "VoD Playback - Ant Media POS",
+};
+
+export default function VodLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return children;
+}
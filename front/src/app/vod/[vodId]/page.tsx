@@ -0,0 +1,200 @@
+"use client";
+
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useEffect, useState } from "react";
+import { Vod } from "../../client";
+import { PLAYER_SHORTCUTS, VodPlayer } from "../../components/vod-player";
+import { useAntMedia } from "../../lib/ant-media-context";
+import { NotFoundError } from "../../lib/errors";
+import { formatBytes, formatDuration } from "../../lib/format";
+import { isAbortError } from "../../lib/retry";
+import { vodDate } from "../../lib/vod-library";
+import { loadVodThumbnails, VodThumbnails } from "../../lib/vod-thumbnails";
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export default function VodPage() {
+  const params = useParams();
+  const vodId = params.vodId as string;
+  const { client, settings, activeProfile } = useAntMedia();
+
+  // VoD with the id it was loaded for
+  const [result, setResult] = useState<{ key: string; vod: Vod | null; error: string | null } | null>(null);
+  const [thumbnails, setThumbnails] = useState<VodThumbnails | null>(null);
+  const [thumbnailError, setThumbnailError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    client
+      .getVod(vodId, { signal: controller.signal })
+      .then((vod) => setResult({ key: vodId, vod, error: null }))
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        console.error("Error loading VoD:", error);
+        setResult({
+          key: vodId,
+          vod: null,
+          error: error instanceof NotFoundError ? `VoD ${vodId} does not exist` : errorMessage(error),
+        });
+      });
+
+    return () => controller.abort();
+  }, [client, vodId]);
+
+  const loading = result?.key !== vodId;
+  const vod = loading ? null : result.vod;
+  const hasFile = Boolean(vod?.filePath && vod.duration);
+
+  // Seek bar previews; the player works without them
+  useEffect(() => {
+    if (!hasFile) return;
+    const controller = new AbortController();
+    let loaded: VodThumbnails | null = null;
+
+    loadVodThumbnails(vodId, { profileId: activeProfile?.id, appName: settings.appName }, controller.signal)
+      .then((value) => {
+        loaded = value;
+        setThumbnails(value);
+        setThumbnailError(null);
+      })
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        console.error("Error loading VoD thumbnails:", error);
+        setThumbnailError(errorMessage(error));
+      });
+
+    return () => {
+      controller.abort();
+      if (loaded) URL.revokeObjectURL(loaded.spriteUrl);
+      setThumbnails(null);
+    };
+  }, [hasFile, vodId, activeProfile?.id, settings.appName]);
+
+  const title = vod?.vodName || vodId;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="p-4 lg:p-6">
+        <div className="mx-auto max-w-6xl 2xl:max-w-7xl">
+          {/* Breadcrumbs */}
+          <nav className="mb-4">
+            <ol className="flex items-center space-x-2 text-sm">
+              <li>
+                <Link href="/" className="text-blue-600 hover:text-blue-800 font-medium">
+                  Home
+                </Link>
+              </li>
+              <li className="text-gray-400">/</li>
+              <li>
+                <Link href="/vods" className="text-blue-600 hover:text-blue-800 font-medium">
+                  VoDs
+                </Link>
+              </li>
+              <li className="text-gray-400">/</li>
+              <li className="text-gray-600 font-medium truncate">{title}</li>
+            </ol>
+          </nav>
+
+          <header className="mb-6">
+            <title>{`${title} - Ant Media POS`}</title>
+            <h1 className="text-4xl font-bold text-gray-900 mb-2 break-all">{title}</h1>
+            <p className="text-gray-600">
+              VoD ID: <span className="font-mono text-gray-700">{vodId}</span>
+            </p>
+          </header>
+
+          {loading ? (
+            <p className="text-center py-12 text-gray-500">Loading VoD...</p>
+          ) : !vod ? (
+            <div className="border-2 border-red-300 bg-red-50 rounded-lg p-4 text-red-800 font-medium">
+              {result.error}
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+              <div className="lg:col-span-3 space-y-3">
+                {vod.filePath ? (
+                  <VodPlayer src={`${settings.serverUrl}/${settings.appName}/${vod.filePath}`} thumbnails={thumbnails} />
+                ) : (
+                  <div className="border-2 border-yellow-300 bg-yellow-50 rounded-lg p-4 text-yellow-800 font-medium">
+                    This VoD has no file to play.
+                  </div>
+                )}
+                {hasFile && !thumbnails && (
+                  <p className="text-xs text-gray-500">
+                    {thumbnailError
+                      ? `Seek bar previews are unavailable: ${thumbnailError}`
+                      : "Generating seek bar previews..."}
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-4">
+                <div className="bg-white rounded-lg shadow-md border border-gray-200 p-4">
+                  <h3 className="text-sm font-semibold text-gray-900 mb-3">VoD Information</h3>
+                  <dl className="space-y-2 text-xs text-gray-600">
+                    <div className="flex justify-between gap-2">
+                      <dt>Stream:</dt>
+                      <dd className="text-right break-all">
+                        {vod.streamId ? (
+                          <Link href={`/stream/${vod.streamId}`} className="text-blue-700 hover:underline">
+                            {vod.streamName || vod.streamId}
+                          </Link>
+                        ) : (
+                          "—"
+                        )}
+                      </dd>
+                    </div>
+                    <div className="flex justify-between gap-2">
+                      <dt>Type:</dt>
+                      <dd className="text-gray-700">{vod.type || "—"}</dd>
+                    </div>
+                    <div className="flex justify-between gap-2">
+                      <dt>Recorded:</dt>
+                      <dd className="text-gray-700 text-right">
+                        {vodDate(vod) ? new Date(vodDate(vod)).toLocaleString() : "—"}
+                      </dd>
+                    </div>
+                    <div className="flex justify-between gap-2">
+                      <dt>Duration:</dt>
+                      <dd className="text-gray-700">{vod.duration ? formatDuration(vod.duration) : "—"}</dd>
+                    </div>
+                    <div className="flex justify-between gap-2">
+                      <dt>Size:</dt>
+                      <dd className="text-gray-700">{vod.fileSize ? formatBytes(vod.fileSize) : "—"}</dd>
+                    </div>
+                  </dl>
+                  {vod.filePath && (
+                    <a
+                      href={`${settings.serverUrl}/${settings.appName}/${vod.filePath}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="mt-4 block text-center px-3 py-2 bg-purple-600 text-white text-sm rounded-md hover:bg-purple-700 font-semibold"
+                    >
+                      Open File
+                    </a>
+                  )}
+                </div>
+
+                <div className="bg-white rounded-lg shadow-md border border-gray-200 p-4">
+                  <h3 className="text-sm font-semibold text-gray-900 mb-2">Keyboard</h3>
+                  <dl className="text-xs text-gray-600 space-y-1">
+                    {PLAYER_SHORTCUTS.map(([keys, action]) => (
+                      <div key={keys} className="flex justify-between gap-2">
+                        <dt className="font-mono text-gray-800">{keys}</dt>
+                        <dd>{action}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
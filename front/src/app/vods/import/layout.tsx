@@ -0,0 +1,13 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "VoD Import - Ant Media POS",
+};
+
+export default function VodImportLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return children;
+}
@@ -0,0 +1,282 @@
+"use client";
+
+import Link from "next/link";
+import { FormEvent, useEffect, useState } from "react";
+import { useAntMedia } from "../../lib/ant-media-context";
+import { isAbortError } from "../../lib/retry";
+import {
+  ImportFile,
+  ImportStatus,
+  listVodImports,
+  startVodImport,
+  unlinkVodImport,
+  validateImportDirectory,
+  VodImport,
+} from "../../lib/vod-imports";
+
+/** Refresh of the job list while an import runs */
+const POLL_INTERVAL_MS = 2000;
+
+const inputClassName =
+  "px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900 bg-white text-sm font-mono";
+
+const STATUS_STYLES: Record<ImportStatus, { label: string; className: string }> = {
+  running: { label: "Importing", className: "bg-blue-100 text-blue-800" },
+  done: { label: "Done", className: "bg-green-100 text-green-800" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-800" },
+  unlinked: { label: "Unlinked", className: "bg-gray-200 text-gray-700" },
+};
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export default function VodImportPage() {
+  const { settings, activeProfile } = useAntMedia();
+  const profileId = activeProfile?.id;
+  const appName = settings.appName;
+
+  const [directory, setDirectory] = useState("");
+  const [jobs, setJobs] = useState<VodImport[] | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [submitting, setSubmitting] = useState(false);
+  const [unlinkingId, setUnlinkingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const running = jobs?.some((job) => job.status === "running") ?? false;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const load = () =>
+      listVodImports({ profileId, appName }, controller.signal)
+        .then(setJobs)
+        .catch((error) => {
+          if (isAbortError(error)) return;
+          console.error("Error loading imports:", error);
+          setError(errorMessage(error));
+        });
+
+    load();
+    const timer = running ? setInterval(load, POLL_INTERVAL_MS) : undefined;
+
+    return () => {
+      controller.abort();
+      clearInterval(timer);
+    };
+  }, [profileId, appName, reloadCount, running]);
+
+  const invalid = directory.trim() ? validateImportDirectory(directory) : null;
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const reason = validateImportDirectory(directory);
+    if (reason) {
+      setError(reason);
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const job = await startVodImport(directory, { profileId, appName });
+      setJobs((current) => [job, ...(current ?? [])]);
+      setDirectory("");
+    } catch (error) {
+      console.error("Error starting import:", error);
+      setError(errorMessage(error));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleUnlink = async (job: VodImport) => {
+    if (
+      !window.confirm(
+        `Unlink ${job.directory}? Ant Media deletes the VoD records of every file in this directory, including files imported earlier. The files stay on the server.`
+      )
+    ) {
+      return;
+    }
+
+    setUnlinkingId(job.id);
+    setError(null);
+    setNotice(null);
+    try {
+      await unlinkVodImport(job.id, { profileId, appName });
+      setNotice(`Unlinked ${job.directory}.`);
+      setReloadCount((count) => count + 1);
+    } catch (error) {
+      console.error("Error unlinking import:", error);
+      setError(errorMessage(error));
+    } finally {
+      setUnlinkingId(null);
+    }
+  };
+
+  const fileList = (title: string, files: ImportFile[], linked: boolean) =>
+    files.length > 0 && (
+      <details className="mt-2">
+        <summary className="cursor-pointer text-sm font-semibold text-gray-800">
+          {title} ({files.length})
+        </summary>
+        <ul className="mt-1 ml-4 max-h-64 overflow-y-auto text-xs text-gray-700 space-y-0.5">
+          {files.map((file) => (
+            <li key={file.name} className="font-mono break-all">
+              {linked && file.vodId ? (
+                <Link href={`/vod/${file.vodId}`} className="text-blue-700 hover:underline">
+                  {file.name}
+                </Link>
+              ) : (
+                file.name
+              )}
+              {file.reason && <span className="font-sans text-gray-500"> — {file.reason}</span>}
+            </li>
+          ))}
+        </ul>
+      </details>
+    );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="p-4 lg:p-6">
+        <div className="mx-auto max-w-6xl 2xl:max-w-7xl">
+          {/* Breadcrumbs */}
+          <nav className="mb-4">
+            <ol className="flex items-center space-x-2 text-sm">
+              <li>
+                <Link href="/" className="text-blue-600 hover:text-blue-800 font-medium">
+                  Home
+                </Link>
+              </li>
+              <li className="text-gray-400">/</li>
+              <li>
+                <Link href="/vods" className="text-blue-600 hover:text-blue-800 font-medium">
+                  VoDs
+                </Link>
+              </li>
+              <li className="text-gray-400">/</li>
+              <li className="text-gray-600 font-medium">Import</li>
+            </ol>
+          </nav>
+
+          <header className="mb-6">
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">Import VoDs from a Directory</h1>
+            <p className="text-gray-600">
+              Ant Media links a directory of its server into {appName} and adds its video files as VoDs. The files
+              are not copied.
+            </p>
+          </header>
+
+          {error && (
+            <div className="mb-6 border-2 border-red-300 bg-red-50 rounded-lg p-4 text-red-800 font-medium">{error}</div>
+          )}
+          {notice && (
+            <div className="mb-6 border-2 border-green-300 bg-green-50 rounded-lg p-4 text-green-800 font-medium">
+              {notice}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6 mb-6">
+            <label className="block text-sm font-semibold text-gray-800 mb-1" htmlFor="import-directory">
+              Directory on the Ant Media server
+            </label>
+            <div className="flex flex-col md:flex-row gap-3">
+              <input
+                id="import-directory"
+                value={directory}
+                onChange={(e) => setDirectory(e.target.value)}
+                placeholder="/mnt/recordings/2024"
+                className={`${inputClassName} flex-1 ${invalid ? "border-red-400" : ""}`}
+                aria-invalid={Boolean(invalid)}
+              />
+              <button
+                type="submit"
+                disabled={submitting || !directory.trim() || Boolean(invalid)}
+                className="px-4 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                {submitting ? "Starting..." : "Import"}
+              </button>
+            </div>
+            {invalid && <p className="text-sm text-red-700 mt-1">{invalid}</p>}
+            <p className="text-xs text-gray-500 mt-2">
+              The import runs on the dashboard server and continues if you leave this page.
+            </p>
+          </form>
+
+          <section className="bg-white rounded-lg shadow-md p-6">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">Imports</h2>
+
+            {jobs === null ? (
+              <p className="text-center py-8 text-gray-500">Loading imports...</p>
+            ) : jobs.length === 0 ? (
+              <p className="text-center py-8 text-gray-500">No directory has been imported into {appName} yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {jobs.map((job) => {
+                  const status = STATUS_STYLES[job.status];
+
+                  return (
+                    <li key={job.id} className="py-4">
+                      <div className="flex flex-col md:flex-row md:items-start gap-3">
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className={`px-2 py-0.5 text-xs font-semibold rounded ${status.className}`}>
+                              {job.status === "running" && <span className="inline-block animate-pulse mr-1">●</span>}
+                              {status.label}
+                            </span>
+                            <span className="font-mono text-gray-900 break-all">{job.directory}</span>
+                          </div>
+                          <p className="text-xs text-gray-500 mt-1">
+                            Started {new Date(job.startedAt).toLocaleString()} by {job.startedBy}
+                            {job.finishedAt && ` · finished after ${Math.max(1, Math.round((job.finishedAt - job.startedAt) / 1000))} s`}
+                            {job.unlinkedAt && ` · unlinked ${new Date(job.unlinkedAt).toLocaleString()}`}
+                          </p>
+
+                          {job.status !== "running" && job.status !== "failed" && (
+                            <div className="flex gap-4 mt-2 text-sm">
+                              <span className="text-green-700 font-semibold">{job.imported.length} imported</span>
+                              <span className="text-gray-700">{job.skipped.length} skipped</span>
+                              <span className={job.failed.length > 0 ? "text-red-700 font-semibold" : "text-gray-700"}>
+                                {job.listed ? job.failed.length : "?"} failed
+                              </span>
+                            </div>
+                          )}
+                          {job.message && (
+                            <p className={`text-sm mt-1 ${job.status === "failed" ? "text-red-700" : "text-gray-600"}`}>
+                              {job.message}
+                            </p>
+                          )}
+                          {job.status === "done" && !job.listed && (
+                            <p className="text-xs text-gray-500 mt-1">
+                              The dashboard did not list this directory itself, so files Ant Media left out are not known.
+                            </p>
+                          )}
+
+                          {fileList("Imported", job.imported, job.status === "done")}
+                          {fileList("Skipped", job.skipped, job.status === "done")}
+                          {fileList("Failed", job.failed, false)}
+                        </div>
+
+                        {job.status === "done" && (
+                          <button
+                            onClick={() => handleUnlink(job)}
+                            disabled={unlinkingId !== null}
+                            className="px-3 py-1.5 bg-red-600 text-white text-sm font-semibold rounded-md hover:bg-red-700 disabled:opacity-50 transition-colors"
+                          >
+                            {unlinkingId === job.id ? "Unlinking..." : "Unlink"}
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "VoD Library - Ant Media POS",
+};
+
+export default function VodsLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return children;
+}
@@ -0,0 +1,419 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { Suspense, useEffect, useMemo, useState } from "react";
+import { Broadcast, Vod } from "../client";
+import { VodUploader } from "../components/vod-uploader";
+import { useAntMedia } from "../lib/ant-media-context";
+import { formatBytes, formatDuration } from "../lib/format";
+import { isAbortError } from "../lib/retry";
+import {
+  filterVods,
+  parseVodState,
+  VOD_PAGE_SIZES,
+  vodDate,
+  VodLibraryState,
+  VodSortField,
+  vodStateQuery,
+} from "../lib/vod-library";
+
+/** Delay between the last keystroke and the search request */
+const SEARCH_DEBOUNCE_MS = 300;
+
+const inputClassName =
+  "px-3 py-2 border-2 border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900 bg-white text-sm";
+const pagerClassName =
+  "px-3 py-1.5 bg-white text-gray-800 text-sm font-semibold rounded-md border border-gray-300 hover:bg-gray-100 disabled:opacity-50 transition-colors";
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function VodLibrary() {
+  const { client, settings } = useAntMedia();
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const queryString = searchParams.toString();
+  const state = useMemo(() => parseVodState(new URLSearchParams(queryString)), [queryString]);
+
+  // VoDs matching the server-side filters, with the request they answer
+  const [result, setResult] = useState<{ key: string; vods: Vod[] } | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [streams, setStreams] = useState<Broadcast[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const [query, setQuery] = useState(state.search);
+  // Follow the URL, e.g. on back navigation
+  const [searchParam, setSearchParam] = useState(state.search);
+  if (searchParam !== state.search) {
+    setSearchParam(state.search);
+    setQuery(state.search);
+  }
+
+  const update = (changes: Partial<VodLibraryState>) => {
+    const next = vodStateQuery({ ...state, page: 0, ...changes });
+    router.replace(next ? `${pathname}?${next}` : pathname, { scroll: false });
+  };
+
+  useEffect(() => {
+    if (query === state.search) return;
+    const timer = setTimeout(() => {
+      const next = vodStateQuery({ ...state, page: 0, search: query });
+      router.replace(next ? `${pathname}?${next}` : pathname, { scroll: false });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query, state, router, pathname]);
+
+  const requestKey = `${state.search}\n${state.streamId}\n${reloadCount}`;
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    client
+      .listAll("vods", { search: state.search || undefined, streamId: state.streamId || undefined }, {
+        signal: controller.signal,
+      })
+      .then((vods) => {
+        setResult({ key: requestKey, vods });
+        setError(null);
+      })
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        console.error("Error loading VoDs:", error);
+        setError(errorMessage(error));
+        setResult({ key: requestKey, vods: [] });
+      });
+
+    return () => controller.abort();
+  }, [client, state.search, state.streamId, requestKey]);
+
+  // Streams for the stream filter
+  useEffect(() => {
+    let cancelled = false;
+
+    client
+      .listAll("broadcasts", { sort_by: "name", order_by: "asc" })
+      .then((list) => {
+        if (!cancelled) setStreams(list);
+      })
+      .catch((error) => console.error("Error loading streams:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client]);
+
+  const loading = result?.key !== requestKey;
+  const matching = useMemo(() => filterVods(result?.vods ?? [], state), [result, state]);
+  const first = state.page * state.pageSize;
+  const items = matching.slice(first, first + state.pageSize);
+  const lastPage = Math.max(1, Math.ceil(matching.length / state.pageSize));
+  const pageSelected = items.length > 0 && items.every((vod) => selected.has(vod.vodId ?? ""));
+  const filtered = Boolean(state.search || state.streamId || state.from || state.to);
+
+  const toggle = (vodIds: string[], isSelected: boolean) =>
+    setSelected((current) => {
+      const next = new Set(current);
+      vodIds.forEach((vodId) => (isSelected ? next.add(vodId) : next.delete(vodId)));
+      return next;
+    });
+
+  const handleDelete = async () => {
+    const vodIds = [...selected];
+    if (!window.confirm(`Delete ${vodIds.length} VoDs? Their files are deleted too. This action cannot be undone.`)) {
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const deleted = await client.deleteVods(vodIds);
+      if (!deleted.success) {
+        throw new Error(deleted.message || "Failed to delete the VoDs");
+      }
+      setSelected(new Set());
+      setNotice(`Deleted ${vodIds.length} VoDs.`);
+      setReloadCount((count) => count + 1);
+    } catch (error) {
+      console.error("Error deleting VoDs:", error);
+      setError(errorMessage(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const sortHeader = (field: VodSortField, label: string) => (
+    <th className="px-4 py-3">
+      <button
+        onClick={() =>
+          update({ sort: field, order: state.sort === field && state.order === "asc" ? "desc" : "asc" })
+        }
+        className="flex items-center gap-1 font-semibold hover:text-blue-700"
+      >
+        {label}
+        <span className="text-xs text-gray-400">
+          {state.sort === field ? (state.order === "asc" ? "▲" : "▼") : "↕"}
+        </span>
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="p-4 lg:p-6">
+        <div className="mx-auto max-w-6xl 2xl:max-w-7xl">
+          {/* Breadcrumbs */}
+          <nav className="mb-4">
+            <ol className="flex items-center space-x-2 text-sm">
+              <li>
+                <Link href="/" className="text-blue-600 hover:text-blue-800 font-medium">
+                  Home
+                </Link>
+              </li>
+              <li className="text-gray-400">/</li>
+              <li className="text-gray-600 font-medium">VoDs</li>
+            </ol>
+          </nav>
+
+          <header className="mb-6 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+            <div>
+              <h1 className="text-4xl font-bold text-gray-900 mb-2">VoD Library</h1>
+              <p className="text-gray-600">Every recording and upload of {settings.appName}</p>
+            </div>
+            <div className="flex gap-2">
+              <Link
+                href="/vods/import"
+                className="px-4 py-2 bg-white text-gray-800 font-semibold rounded-md border border-gray-300 hover:bg-gray-100 transition-colors"
+              >
+                Import from Directory
+              </Link>
+              <Link
+                href="/stalker"
+                className="px-4 py-2 bg-white text-gray-800 font-semibold rounded-md border border-gray-300 hover:bg-gray-100 transition-colors"
+              >
+                Stalker Portal
+              </Link>
+            </div>
+          </header>
+
+          {error && (
+            <div className="mb-6 border-2 border-red-300 bg-red-50 rounded-lg p-4 text-red-800 font-medium">{error}</div>
+          )}
+          {notice && (
+            <div className="mb-6 border-2 border-green-300 bg-green-50 rounded-lg p-4 text-green-800 font-medium">
+              {notice}
+            </div>
+          )}
+
+          <VodUploader onUploaded={() => setReloadCount((count) => count + 1)} />
+
+          <section className="bg-white rounded-lg shadow-md p-6">
+            {/* Filters */}
+            <div className="flex flex-col lg:flex-row gap-3 mb-4">
+              <input
+                type="search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search by VoD name, stream id or stream name"
+                className={`${inputClassName} flex-1`}
+              />
+              <select
+                value={state.streamId}
+                onChange={(e) => update({ streamId: e.target.value })}
+                className={inputClassName}
+              >
+                <option value="">All streams</option>
+                {/* The stream may have been deleted since the link was shared */}
+                {state.streamId && !streams.some((stream) => stream.streamId === state.streamId) && (
+                  <option value={state.streamId}>{state.streamId}</option>
+                )}
+                {streams.map((stream) => (
+                  <option key={stream.streamId} value={stream.streamId}>
+                    {stream.name || stream.streamId}
+                  </option>
+                ))}
+              </select>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                From
+                <input
+                  type="date"
+                  value={state.from}
+                  max={state.to || undefined}
+                  onChange={(e) => update({ from: e.target.value })}
+                  className={inputClassName}
+                />
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                To
+                <input
+                  type="date"
+                  value={state.to}
+                  min={state.from || undefined}
+                  onChange={(e) => update({ to: e.target.value })}
+                  className={inputClassName}
+                />
+              </label>
+            </div>
+
+            {/* Batch actions */}
+            {selected.size > 0 && (
+              <div className="mb-4 flex flex-wrap items-center gap-3 border-2 border-blue-200 bg-blue-50 rounded-lg p-3">
+                <span className="text-sm font-semibold text-blue-900">{selected.size} selected</span>
+                <button
+                  onClick={handleDelete}
+                  disabled={busy}
+                  className="px-3 py-1.5 bg-red-600 text-white text-sm font-semibold rounded-md hover:bg-red-700 disabled:opacity-50 transition-colors"
+                >
+                  {busy ? "Deleting..." : "Delete"}
+                </button>
+                <button
+                  onClick={() => setSelected(new Set())}
+                  disabled={busy}
+                  className="px-3 py-1.5 text-sm font-semibold text-blue-800 rounded-md hover:bg-blue-100 disabled:opacity-50"
+                >
+                  Clear selection
+                </button>
+              </div>
+            )}
+
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className={`w-full text-sm text-left ${loading ? "opacity-60" : ""}`}>
+                <thead className="bg-gray-50 text-gray-700 border-b border-gray-200">
+                  <tr>
+                    <th className="pl-4 py-3 w-8">
+                      <input
+                        type="checkbox"
+                        checked={pageSelected}
+                        onChange={(e) => toggle(items.map((vod) => vod.vodId ?? ""), e.target.checked)}
+                        aria-label="Select all VoDs on this page"
+                      />
+                    </th>
+                    {sortHeader("name", "Name")}
+                    <th className="px-4 py-3 font-semibold">Stream</th>
+                    <th className="px-4 py-3 font-semibold">Type</th>
+                    {sortHeader("date", "Recorded")}
+                    {sortHeader("duration", "Duration")}
+                    {sortHeader("size", "Size")}
+                    <th className="px-4 py-3 font-semibold text-right">File</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {items.map((vod) => (
+                    <tr key={vod.vodId} className={selected.has(vod.vodId ?? "") ? "bg-blue-50" : "hover:bg-blue-50"}>
+                      <td className="pl-4 py-3">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(vod.vodId ?? "")}
+                          onChange={(e) => toggle([vod.vodId ?? ""], e.target.checked)}
+                          aria-label={`Select ${vod.vodName || vod.vodId}`}
+                        />
+                      </td>
+                      <td className="px-4 py-3">
+                        <Link href={`/vod/${vod.vodId}`} className="font-semibold text-blue-700 hover:underline break-all">
+                          {vod.vodName || vod.vodId}
+                        </Link>
+                        <p className="text-xs text-gray-500 font-mono">{vod.vodId}</p>
+                      </td>
+                      <td className="px-4 py-3">
+                        {vod.streamId ? (
+                          <Link href={`/stream/${vod.streamId}`} className="text-blue-700 hover:underline">
+                            {vod.streamName || vod.streamId}
+                          </Link>
+                        ) : (
+                          <span className="text-gray-400">—</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-gray-700">{vod.type}</td>
+                      <td className="px-4 py-3 text-gray-700 whitespace-nowrap">
+                        {vodDate(vod) ? new Date(vodDate(vod)).toLocaleString() : "—"}
+                      </td>
+                      <td className="px-4 py-3 text-gray-700">{vod.duration ? formatDuration(vod.duration) : "—"}</td>
+                      <td className="px-4 py-3 text-gray-700 whitespace-nowrap">
+                        {vod.fileSize ? formatBytes(vod.fileSize) : "—"}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {vod.filePath && (
+                          <a
+                            href={`${settings.serverUrl}/${settings.appName}/${vod.filePath}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="px-2 py-1 bg-purple-600 text-white text-xs rounded-md hover:bg-purple-700 font-semibold"
+                          >
+                            Open
+                          </a>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {!loading && items.length === 0 && (
+                <p className="text-center py-12 text-gray-500">
+                  {filtered ? "No VoDs match these filters." : "No VoDs yet. Recordings and uploads show up here."}
+                </p>
+              )}
+              {loading && !result && <p className="text-center py-12 text-gray-500">Loading VoDs...</p>}
+            </div>
+
+            {/* Paging */}
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mt-4 text-sm text-gray-700">
+              <p>
+                {items.length > 0 ? `${first + 1}–${first + items.length}` : "0"} of {matching.length}
+              </p>
+              <div className="flex items-center gap-2">
+                <select
+                  value={state.pageSize}
+                  onChange={(e) => update({ pageSize: Number(e.target.value) })}
+                  className={inputClassName}
+                  aria-label="VoDs per page"
+                >
+                  {VOD_PAGE_SIZES.map((size) => (
+                    <option key={size} value={size}>
+                      {size} per page
+                    </option>
+                  ))}
+                </select>
+                <button onClick={() => update({ page: 0 })} disabled={state.page === 0} className={pagerClassName}>
+                  First
+                </button>
+                <button
+                  onClick={() => update({ page: state.page - 1 })}
+                  disabled={state.page === 0}
+                  className={pagerClassName}
+                >
+                  Previous
+                </button>
+                <span className="px-2 whitespace-nowrap">
+                  Page {state.page + 1} of {lastPage}
+                </span>
+                <button
+                  onClick={() => update({ page: state.page + 1 })}
+                  disabled={state.page + 1 >= lastPage}
+                  className={pagerClassName}
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function VodsPage() {
+  return (
+    // useSearchParams needs a Suspense boundary
+    <Suspense>
+      <VodLibrary />
+    </Suspense>
+  );
+}
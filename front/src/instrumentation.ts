@@ -0,0 +1,10 @@
+/**
+ * Runs once when the server starts: starts the schedule worker, so that
+ * schedules run without any browser open
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startScheduler } = await import("@/app/lib/server/scheduler");
+    startScheduler();
+  }
+}
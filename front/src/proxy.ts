@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE, verifySession } from "@/app/lib/server/session";
+
+/** Routes reachable without a session: login and the first-run setup */
+const PUBLIC_PATHS = [
+  "/login",
+  "/api/auth/login",
+  "/setup",
+  "/api/first-login-status",
+  "/api/users/initial",
+];
+
+/**
+ * Require a session for every page and API route except the public ones
+ * Pages redirect to /login?next=..., API routes answer 401
+ */
+export async function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  if (PUBLIC_PATHS.includes(pathname)) {
+    return NextResponse.next();
+  }
+
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (token && (await verifySession(token))) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json({ success: false, message: "Not signed in" }, { status: 401 });
+  }
+
+  const login = new URL("/login", request.url);
+  if (pathname !== "/") {
+    login.searchParams.set("next", `${pathname}${search}`);
+  }
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  // Everything except Next.js assets and public files
+  matcher: ["/((?!_next/static|_next/image|favicon.ico|favicon.svg|.*\\.(?:svg|png|jpg|ico)$).*)"],
+};